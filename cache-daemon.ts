@@ -1,5 +1,8 @@
 #!/usr/bin/env bun
 import ContactsCacheManager from "./cache-manager";
+import messageCached from "./utils/message-cached";
+import messageSchedule from "./utils/message-schedule";
+import messageIndex from "./utils/message-index";
 import { writeFile, readFile } from "node:fs/promises";
 import { existsSync } from "node:fs";
 import { join } from "node:path";
@@ -13,6 +16,9 @@ interface DaemonConfig {
   logLevel: 'error' | 'info' | 'debug';
   maxLogSize: number;
   enabled: boolean;
+  scheduleCheckSeconds: number;
+  scheduleCatchUpMinutes: number;
+  messageIndexMinutes: number;
 }
 
 const defaultConfig: DaemonConfig = {
@@ -20,13 +26,20 @@ const defaultConfig: DaemonConfig = {
   autoStart: true,
   logLevel: 'info',
   maxLogSize: 10 * 1024 * 1024, // 10MB
-  enabled: true
+  enabled: true,
+  scheduleCheckSeconds: 30, // How often to look for due scheduled messages
+  scheduleCatchUpMinutes: 120, // Still send messages this late after sleep or downtime; older ones are marked missed
+  messageIndexMinutes: 5 // How often to add new, edited and unsent messages to the search index
 };
 
 export class ContactsCacheDaemon {
   private manager: ContactsCacheManager;
   private config: DaemonConfig;
   private updateTimer: NodeJS.Timeout | null = null;
+  private scheduleTimer: NodeJS.Timeout | null = null;
+  private indexTimer: NodeJS.Timeout | null = null;
+  private indexRefreshing = false;
+  private lastScheduleCheck = 0;
   private isRunning = false;
 
   constructor() {
@@ -105,10 +118,13 @@ export class ContactsCacheDaemon {
       console.error("🔄 Daemon: Starting scheduled cache update...");
       const startTime = Date.now();
       
-      await this.manager.fullUpdate();
+      const result = await this.manager.incrementalUpdate();
       
       const duration = Date.now() - startTime;
-      console.error(`✅ Daemon: Cache update completed in ${(duration / 1000).toFixed(2)}s`);
+      console.error(`✅ Daemon: Cache update completed in ${(duration / 1000).toFixed(2)}s (${result.added} added, ${result.updated} updated, ${result.deleted} deleted)`);
+      for (const change of result.changes.slice(0, 20)) {
+        console.error(`   ${change.type}: ${change.name}`);
+      }
       
       return true;
     } catch (error) {
@@ -117,6 +133,101 @@ export class ContactsCacheDaemon {
     }
   }
 
+  /**
+   * Send scheduled messages that are due, catching up on any missed while the daemon was stopped or the Mac slept
+   */
+  async processScheduledMessages(): Promise<number> {
+    const store = messageSchedule.getScheduledMessageStore();
+    const now = Date.now();
+
+    // Timers don't fire during sleep, so a long gap since the last check means we just woke up
+    if (this.lastScheduleCheck && now - this.lastScheduleCheck > this.config.scheduleCheckSeconds * 1000 * 4) {
+      const minutes = Math.round((now - this.lastScheduleCheck) / 60000);
+      console.error(`⏰ Daemon: ${minutes} minutes since last schedule check, catching up`);
+    }
+    this.lastScheduleCheck = now;
+
+    try {
+      const { due, missed } = await store.claimDue(this.config.scheduleCatchUpMinutes * 60 * 1000, now);
+
+      for (const scheduled of missed) {
+        console.error(`⚠️ Daemon: Scheduled message ${scheduled.id} to ${scheduled.recipient} missed (${scheduled.lastError})`);
+      }
+
+      for (const scheduled of due) {
+        const result = await messageCached.sendScheduledMessage(scheduled);
+        await store.recordResult(scheduled.id, result);
+        if (result.success) {
+          console.error(`✅ Daemon: Sent scheduled message ${scheduled.id} to ${scheduled.recipient}`);
+        } else {
+          console.error(`❌ Daemon: Scheduled message ${scheduled.id} to ${scheduled.recipient} failed: ${result.error}`);
+        }
+      }
+
+      return due.length;
+    } catch (error) {
+      console.error("❌ Daemon: Processing scheduled messages failed:", error);
+      return 0;
+    }
+  }
+
+  /**
+   * Bring the message search index up to date with chat.db
+   */
+  async refreshMessageIndex(full = false): Promise<boolean> {
+    try {
+      const result = await messageIndex.getMessageIndex().refresh(undefined, { full });
+      if (result.rebuilt || result.indexed > 0 || result.reindexed > 0) {
+        console.error(`🔎 Daemon: ${result.rebuilt ? 'Rebuilt' : 'Refreshed'} message index in ${(result.durationMs / 1000).toFixed(2)}s (${result.indexed} new, ${result.reindexed} edited or unsent)`);
+      }
+      return true;
+    } catch (error) {
+      console.error("❌ Daemon: Message index refresh failed:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Refresh the index unless a refresh is already running; a first build of a large history can outlast the interval
+   */
+  private async refreshMessageIndexInBackground(): Promise<void> {
+    if (!this.isRunning || this.indexRefreshing) return;
+    this.indexRefreshing = true;
+    try {
+      await this.refreshMessageIndex();
+    } finally {
+      this.indexRefreshing = false;
+    }
+  }
+
+  private startIndexTimer(): void {
+    if (this.indexTimer) {
+      clearInterval(this.indexTimer);
+    }
+
+    this.indexTimer = setInterval(async () => {
+      await this.refreshMessageIndexInBackground();
+    }, this.config.messageIndexMinutes * 60 * 1000);
+  }
+
+  private startScheduleTimer(): void {
+    if (this.scheduleTimer) {
+      clearInterval(this.scheduleTimer);
+    }
+
+    let processing = false;
+    this.scheduleTimer = setInterval(async () => {
+      // Skip a tick rather than overlap a slow AppleScript send
+      if (!this.isRunning || processing) return;
+      processing = true;
+      try {
+        await this.processScheduledMessages();
+      } finally {
+        processing = false;
+      }
+    }, this.config.scheduleCheckSeconds * 1000);
+  }
+
   async scheduleNextUpdate(): Promise<void> {
     if (this.updateTimer) {
       clearTimeout(this.updateTimer);
@@ -161,6 +272,14 @@ export class ContactsCacheDaemon {
 
       this.isRunning = true;
 
+      // Send anything that came due while the daemon was down before the (slow) cache update
+      await this.processScheduledMessages();
+      this.startScheduleTimer();
+
+      // Search scans chat.db until the first build finishes, so don't hold up startup for it
+      this.refreshMessageIndexInBackground().catch(console.error);
+      this.startIndexTimer();
+
       // Perform initial update if cache is stale
       const isStale = await this.manager.isCacheStale(this.config.updateIntervalHours);
       if (isStale) {
@@ -201,6 +320,17 @@ export class ContactsCacheDaemon {
       this.updateTimer = null;
     }
 
+    if (this.scheduleTimer) {
+      clearInterval(this.scheduleTimer);
+      this.scheduleTimer = null;
+    }
+
+    if (this.indexTimer) {
+      clearInterval(this.indexTimer);
+      this.indexTimer = null;
+    }
+
+    messageIndex.getMessageIndex().close();
     await this.removePidFile();
     console.error("✅ Daemon stopped gracefully");
   }
@@ -235,6 +365,9 @@ export class ContactsCacheDaemon {
     cacheAge: number;
     cacheSize: number;
     nextUpdate: string;
+    lastSync?: { at: number; added: number; updated: number; deleted: number; full: boolean };
+    scheduledPending: number;
+    messageIndex: { messages: number; lastRefresh?: number };
     config: DaemonConfig;
   }> {
     const isRunning = await this.isAlreadyRunning();
@@ -251,6 +384,9 @@ export class ContactsCacheDaemon {
 
     const cacheAge = await this.manager.getCacheAge();
     const cacheSize = await this.manager.getCacheSize();
+    const scheduledPending = (await messageSchedule.getScheduledMessageStore().list('pending')).length;
+    const syncState = await this.manager.getSyncState();
+    const indexStats = messageIndex.getMessageIndex().stats();
 
     return {
       running: isRunning,
@@ -258,6 +394,15 @@ export class ContactsCacheDaemon {
       cacheAge: Math.floor(cacheAge / (1000 * 60 * 60)), // Hours
       cacheSize: Math.round(cacheSize * 100) / 100, // MB, rounded
       nextUpdate: this.getTimeUntilNextUpdate(),
+      lastSync: syncState.lastResult && {
+        at: syncState.lastSync,
+        added: syncState.lastResult.added,
+        updated: syncState.lastResult.updated,
+        deleted: syncState.lastResult.deleted,
+        full: syncState.lastResult.full
+      },
+      scheduledPending,
+      messageIndex: { messages: indexStats.messages, lastRefresh: indexStats.lastRefresh },
       config: this.config
     };
   }
@@ -270,6 +415,14 @@ export class ContactsCacheDaemon {
     if (this.isRunning && newConfig.updateIntervalHours) {
       await this.scheduleNextUpdate();
     }
+
+    if (this.isRunning && newConfig.scheduleCheckSeconds) {
+      this.startScheduleTimer();
+    }
+
+    if (this.isRunning && newConfig.messageIndexMinutes) {
+      this.startIndexTimer();
+    }
   }
 }
 
@@ -326,6 +479,11 @@ async function main() {
       console.error(`   🕐 Cache Age: ${status.cacheAge} hours`);
       console.error(`   📏 Cache Size: ${status.cacheSize} MB`);
       console.error(`   ⏰ Next Update: ${status.nextUpdate}`);
+      if (status.lastSync) {
+        console.error(`   🔄 Last Sync: ${new Date(status.lastSync.at).toLocaleString()}${status.lastSync.full ? ' (full)' : ''} - ${status.lastSync.added} added, ${status.lastSync.updated} updated, ${status.lastSync.deleted} deleted`);
+      }
+      console.error(`   📅 Scheduled Messages: ${status.scheduledPending} pending`);
+      console.error(`   🔎 Message Index: ${status.messageIndex.messages} messages${status.messageIndex.lastRefresh ? `, refreshed ${new Date(status.messageIndex.lastRefresh).toLocaleString()}` : ' (not built yet)'}`);
       console.error(`   ⚙️ Update Interval: ${status.config.updateIntervalHours} hours`);
       console.error(`   ✅ Enabled: ${status.config.enabled ? 'YES' : 'NO'}`);
       break;
@@ -338,7 +496,7 @@ async function main() {
         
         if (!key || value === undefined) {
           console.error("❌ Usage: config set <key> <value>");
-          console.error("   Keys: updateIntervalHours, autoStart, logLevel, enabled");
+          console.error("   Keys: updateIntervalHours, autoStart, logLevel, enabled, scheduleCheckSeconds, scheduleCatchUpMinutes, messageIndexMinutes");
           break;
         }
 
@@ -346,7 +504,7 @@ async function main() {
         
         // Type conversion based on key
         let parsedValue: any = value;
-        if (key === 'updateIntervalHours') parsedValue = parseInt(value);
+        if (key === 'updateIntervalHours' || key === 'scheduleCheckSeconds' || key === 'scheduleCatchUpMinutes' || key === 'messageIndexMinutes') parsedValue = parseInt(value);
         if (key === 'autoStart' || key === 'enabled') parsedValue = value.toLowerCase() === 'true';
         
         await daemon.updateConfig({ [key]: parsedValue });
@@ -364,6 +522,42 @@ async function main() {
       await daemon.performUpdate();
       break;
 
+    case 'changes': {
+      const manager = new ContactsCacheManager();
+      const changes = await manager.getRecentChanges(parseInt(process.argv[3] || '20', 10));
+      console.error(`📝 Recent contact changes (${changes.length}):`);
+      for (const change of changes) {
+        console.error(`   ${new Date(change.at).toLocaleString()} ${change.type}: ${change.name}`);
+      }
+      break;
+    }
+
+    case 'index': {
+      const full = process.argv.includes('--full');
+      console.error(full ? "🔎 Rebuilding message index..." : "🔎 Refreshing message index...");
+      await daemon.refreshMessageIndex(full);
+      const stats = messageIndex.getMessageIndex().stats();
+      console.error(`✅ Message index covers ${stats.messages} messages (up to #${stats.lastRowId})`);
+      break;
+    }
+
+    case 'send-scheduled': {
+      console.error("📤 Sending due scheduled messages...");
+      await daemon.loadConfig();
+      const sent = await daemon.processScheduledMessages();
+      console.error(`✅ Processed ${sent} due scheduled message(s)`);
+      break;
+    }
+
+    case 'scheduled': {
+      const scheduled = await messageSchedule.getScheduledMessageStore().list();
+      console.error(`📅 Scheduled Messages (${scheduled.length}):`);
+      for (const entry of scheduled) {
+        console.error(`   ${entry.id} [${entry.status}] ${entry.scheduledTime} → ${entry.recipient}: ${entry.message}`);
+      }
+      break;
+    }
+
     default:
       console.error("📖 ContactsCacheDaemon Usage:");
       console.error("   bun cache-daemon.ts start     - Start the daemon");
@@ -371,6 +565,10 @@ async function main() {
       console.error("   bun cache-daemon.ts restart   - Restart the daemon");
       console.error("   bun cache-daemon.ts status    - Show daemon status");
       console.error("   bun cache-daemon.ts update    - Force immediate update");
+      console.error("   bun cache-daemon.ts changes [n] - Show contact changes found by recent syncs");
+      console.error("   bun cache-daemon.ts scheduled - List scheduled messages");
+      console.error("   bun cache-daemon.ts send-scheduled - Send due scheduled messages now");
+      console.error("   bun cache-daemon.ts index [--full] - Refresh (or rebuild) the message search index");
       console.error("   bun cache-daemon.ts config    - Show configuration");
       console.error("   bun cache-daemon.ts config set <key> <value> - Update config");
       break;
@@ -3,19 +3,108 @@ import { runAppleScript } from "run-applescript";
 import { writeFile, readFile, mkdir } from "node:fs/promises";
 import { existsSync } from "node:fs";
 import { join } from "node:path";
+import phoneNumbers from "./utils/phone-numbers";
+import nameMatching from "./utils/name-matching";
+import contactsSource, { type ContactsSource, type PostalAddress, type SourceContact } from "./utils/contacts-source";
+
+// Environment variable that moves the cache files elsewhere (e.g. when syncing from fake contacts)
+const CACHE_DIR_ENV = "APPLE_MCP_CACHE_DIR";
+const CONTACTS_INDEX_VERSION = 1;
+
+// Keep the change log bounded; the daemon only reports recent activity
+const MAX_CHANGE_LOG_ENTRIES = 500;
+
+/**
+ * Flatten a contact card from the source into the cache's shape
+ */
+function toCachedContact(person: SourceContact, now: number): CachedContact {
+  const labels = (values: SourceContact['phoneNumbers']) => {
+    const labeled = values.filter(item => item.label).map(item => [item.value, item.label as string]);
+    return labeled.length > 0 ? Object.fromEntries(labeled) : undefined;
+  };
+
+  return {
+    id: person.id,
+    modifiedAt: person.modifiedAt,
+    name: person.name,
+    phoneNumbers: person.phoneNumbers.map(item => item.value),
+    emails: person.emails.map(item => item.value),
+    phoneLabels: labels(person.phoneNumbers),
+    emailLabels: labels(person.emails),
+    organization: person.organization,
+    jobTitle: person.jobTitle,
+    nickname: person.nickname,
+    birthday: person.birthday,
+    addresses: person.addresses && person.addresses.length > 0 ? person.addresses : undefined,
+    lastUpdated: now
+  };
+}
+
+// Everything shown to users about a contact, for telling whether a re-read card really changed.
+// Fields are compared in name order, since entries read from older caches list them in a different order.
+function contactDetails(contact: CachedContact): string {
+  const { id: _id, modifiedAt: _modifiedAt, lastUpdated: _lastUpdated, ...details } = contact;
+  const fields = Object.entries({ ...details, emails: details.emails || [] })
+    .filter(([, value]) => value !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b));
+  return JSON.stringify(Object.fromEntries(fields));
+}
 
-const CACHE_DIR = __dirname;
-const CONTACTS_CACHE_FILE = join(CACHE_DIR, "contacts-cache.json");
-const MESSAGE_CAPABILITIES_CACHE_FILE = join(CACHE_DIR, "message-capabilities-cache.json");
-const CACHE_METADATA_FILE = join(CACHE_DIR, "cache-metadata.json");
+function cacheFiles(cacheDir: string) {
+  return {
+    dir: cacheDir,
+    contacts: join(cacheDir, "contacts-cache.json"),
+    capabilities: join(cacheDir, "message-capabilities-cache.json"),
+    metadata: join(cacheDir, "cache-metadata.json"),
+    index: join(cacheDir, "contacts-index.json"),
+    sync: join(cacheDir, "contacts-sync.json"),
+  };
+}
 
 interface CachedContact {
+  // Contacts app person id and modification date; missing on caches written before incremental sync
+  id?: string;
+  modifiedAt?: number;
   name: string;
   phoneNumbers: string[];
   emails?: string[];
+  // Labels as shown in Contacts ("mobile", "work"), keyed by the number or email they belong to
+  phoneLabels?: Record<string, string>;
+  emailLabels?: Record<string, string>;
+  organization?: string;
+  jobTitle?: string;
+  nickname?: string;
+  // "YYYY-MM-DD", or "--MM-DD" when the card has no birth year
+  birthday?: string;
+  addresses?: PostalAddress[];
   lastUpdated: number;
 }
 
+interface ContactChange {
+  type: 'added' | 'updated' | 'deleted';
+  id: string;
+  name: string;
+  at: number;
+}
+
+interface ContactsSyncResult {
+  full: boolean;
+  added: number;
+  updated: number;
+  deleted: number;
+  unchanged: number;
+  durationMs: number;
+  changes: ContactChange[];
+}
+
+// Last seen modification date of every person in the source, including ones without phone numbers
+interface ContactsSyncState {
+  lastSync: number;
+  stamps: Record<string, number>;
+  lastResult?: Omit<ContactsSyncResult, 'changes'>;
+  changes: ContactChange[];
+}
+
 interface MessageCapability {
   phoneNumber: string;
   type: 'imessage' | 'sms' | 'unknown';
@@ -23,6 +112,16 @@ interface MessageCapability {
   confidence: number; // 0-1 scale
 }
 
+// Reverse lookup tables: normalized phone number / lowercased email -> contact key (lowercased name)
+interface ContactsIndex {
+  version: number;
+  region: string;
+  builtAt: number;
+  contactsCount: number;
+  phones: Record<string, string>;
+  emails: Record<string, string>;
+}
+
 interface CacheMetadata {
   lastFullUpdate: number;
   contactsCount: number;
@@ -31,8 +130,14 @@ interface CacheMetadata {
 }
 
 export class ContactsCacheManager {
+  private readonly files: ReturnType<typeof cacheFiles>;
+  private readonly source: ContactsSource;
+  // Keyed by contact id (or lowercased name for caches written before ids were stored)
   private contacts: Map<string, CachedContact> = new Map();
   private capabilities: Map<string, MessageCapability> = new Map();
+  private phoneIndex: Map<string, string> = new Map();
+  private emailIndex: Map<string, string> = new Map();
+  private syncState: ContactsSyncState = { lastSync: 0, stamps: {}, changes: [] };
   private metadata: CacheMetadata = {
     lastFullUpdate: 0,
     contactsCount: 0,
@@ -40,24 +145,30 @@ export class ContactsCacheManager {
     version: "1.0.0"
   };
 
-  constructor() {
+  constructor(options: { cacheDir?: string; source?: ContactsSource } = {}) {
+    this.files = cacheFiles(options.cacheDir || process.env[CACHE_DIR_ENV] || __dirname);
+    this.source = options.source || contactsSource.getContactsSource();
     console.error("🚀 ContactsCacheManager initialized");
   }
 
+  private contactKey(contact: CachedContact): string {
+    return contact.id || contact.name.toLowerCase();
+  }
+
   async loadExistingCache(): Promise<boolean> {
     try {
-      if (existsSync(CONTACTS_CACHE_FILE)) {
-        const contactsData = await readFile(CONTACTS_CACHE_FILE, 'utf8');
+      if (existsSync(this.files.contacts)) {
+        const contactsData = await readFile(this.files.contacts, 'utf8');
         const contactsArray = JSON.parse(contactsData) as CachedContact[];
         this.contacts.clear();
         contactsArray.forEach(contact => {
-          this.contacts.set(contact.name.toLowerCase(), contact);
+          this.contacts.set(this.contactKey(contact), contact);
         });
         console.error(`📂 Loaded ${contactsArray.length} contacts from cache`);
       }
 
-      if (existsSync(MESSAGE_CAPABILITIES_CACHE_FILE)) {
-        const capabilitiesData = await readFile(MESSAGE_CAPABILITIES_CACHE_FILE, 'utf8');
+      if (existsSync(this.files.capabilities)) {
+        const capabilitiesData = await readFile(this.files.capabilities, 'utf8');
         const capabilitiesArray = JSON.parse(capabilitiesData) as MessageCapability[];
         this.capabilities.clear();
         capabilitiesArray.forEach(cap => {
@@ -66,12 +177,18 @@ export class ContactsCacheManager {
         console.error(`📱 Loaded ${capabilitiesArray.length} message capabilities from cache`);
       }
 
-      if (existsSync(CACHE_METADATA_FILE)) {
-        const metadataData = await readFile(CACHE_METADATA_FILE, 'utf8');
+      if (existsSync(this.files.metadata)) {
+        const metadataData = await readFile(this.files.metadata, 'utf8');
         this.metadata = JSON.parse(metadataData);
         console.error(`ℹ️ Cache last updated: ${new Date(this.metadata.lastFullUpdate).toLocaleString()}`);
       }
 
+      if (existsSync(this.files.sync)) {
+        this.syncState = JSON.parse(await readFile(this.files.sync, 'utf8'));
+      }
+
+      await this.loadIndex();
+
       return true;
     } catch (error) {
       console.error("❌ Error loading existing cache:", error);
@@ -79,146 +196,163 @@ export class ContactsCacheManager {
     }
   }
 
-  async extractAllContacts(): Promise<void> {
-    console.error("🔄 Starting full contacts extraction...");
+  /**
+   * Load the persisted reverse-lookup index, rebuilding it in memory if it no longer matches the contacts
+   */
+  private async loadIndex(): Promise<void> {
+    try {
+      if (existsSync(this.files.index)) {
+        const index = JSON.parse(await readFile(this.files.index, 'utf8')) as ContactsIndex;
+        if (
+          index.version === CONTACTS_INDEX_VERSION &&
+          index.region === phoneNumbers.getDefaultRegion() &&
+          index.contactsCount === this.contacts.size &&
+          index.builtAt >= this.metadata.lastFullUpdate
+        ) {
+          this.phoneIndex = new Map(Object.entries(index.phones));
+          this.emailIndex = new Map(Object.entries(index.emails));
+          return;
+        }
+      }
+    } catch (error) {
+      console.error("⚠️ Contact index unreadable, rebuilding:", error);
+    }
+
+    this.buildIndex();
+  }
+
+  private buildIndex(): void {
+    this.phoneIndex.clear();
+    this.emailIndex.clear();
+
+    for (const [key, contact] of this.contacts) {
+      for (const phone of contact.phoneNumbers) {
+        const normalized = this.normalizePhoneNumber(phone);
+        // First contact wins when a number is shared (e.g. a home landline)
+        if (normalized && !this.phoneIndex.has(normalized)) this.phoneIndex.set(normalized, key);
+      }
+      for (const email of contact.emails || []) {
+        const normalized = email.trim().toLowerCase();
+        if (normalized && !this.emailIndex.has(normalized)) this.emailIndex.set(normalized, key);
+      }
+    }
+
+    console.error(`🗂️ Indexed ${this.phoneIndex.size} phone numbers and ${this.emailIndex.size} emails`);
+  }
+
+  /**
+   * Bring the cache in line with the contacts source. Only people whose modification date
+   * changed since the last sync are re-read; with full, everyone is.
+   */
+  async syncContacts(options: { full?: boolean } = {}): Promise<ContactsSyncResult> {
     const startTime = Date.now();
+    const stamps = await this.source.listStamps();
+    const known = this.syncState.stamps;
+    // Caches from before incremental sync have no ids to diff against
+    const full = options.full || Object.keys(known).length === 0 ||
+      Array.from(this.contacts.values()).some(contact => !contact.id);
+
+    const changedIds = stamps
+      .filter(stamp => full || known[stamp.id] === undefined || stamp.modifiedAt > known[stamp.id])
+      .map(stamp => stamp.id);
+    console.error(`🔄 Syncing contacts from ${this.source.description}: ${changedIds.length} of ${stamps.length} to read${full ? ' (full)' : ''}`);
+
+    const fetched = await this.source.fetchContacts(changedIds);
+    const now = Date.now();
+    const changes: ContactChange[] = [];
+
+    // Match legacy name-keyed entries so the first full sync doesn't report everyone as new
+    const previousByName = new Map<string, CachedContact>();
+    if (full) {
+      for (const contact of this.contacts.values()) previousByName.set(contact.name.toLowerCase(), contact);
+      for (const [key, contact] of this.contacts) {
+        if (!contact.id) this.contacts.delete(key);
+      }
+    }
 
-    try {
-      const contactsScript = `
-tell application "Contacts"
-    set resultList to {}
-    set peopleList to every person
-    set totalPeople to count of peopleList
-    
-    repeat with i from 1 to totalPeople
-        try
-            set currentPerson to item i of peopleList
-            set personName to name of currentPerson
-            set phoneList to {}
-            set emailList to {}
-            
-            -- Extract phone numbers
-            repeat with phoneRecord in phones of currentPerson
-                try
-                    set phoneValue to value of phoneRecord
-                    if phoneValue is not missing value and phoneValue is not "" then
-                        set end of phoneList to phoneValue
-                    end if
-                on error
-                    -- Skip invalid phone entries
-                end try
-            end repeat
-            
-            -- Extract emails
-            repeat with emailRecord in emails of currentPerson
-                try
-                    set emailValue to value of emailRecord
-                    if emailValue is not missing value and emailValue is not "" then
-                        set end of emailList to emailValue
-                    end if
-                on error
-                    -- Skip invalid email entries
-                end try
-            end repeat
-            
-            if (count of phoneList) > 0 then
-                set phoneString to ""
-                repeat with phoneNum in phoneList
-                    if phoneString is "" then
-                        set phoneString to phoneNum
-                    else
-                        set phoneString to phoneString & "|" & phoneNum
-                    end if
-                end repeat
-                
-                set emailString to ""
-                repeat with emailAddr in emailList
-                    if emailString is "" then
-                        set emailString to emailAddr
-                    else
-                        set emailString to emailString & "|" & emailAddr
-                    end if
-                end repeat
-                
-                set contactData to personName & ":" & phoneString & ":" & emailString
-                set end of resultList to contactData
-            end if
-            
-            -- Progress indicator every 100 contacts
-            if i mod 100 = 0 then
-                log "Processed " & i & " of " & totalPeople & " contacts"
-            end if
-            
-        on error
-            -- Skip contacts that can't be processed
-        end try
-    end repeat
-    
-    -- Convert list to string with newlines
-    set resultString to ""
-    repeat with resultItem in resultList
-        if resultString is "" then
-            set resultString to resultItem as string
-        else
-            set resultString to resultString & "\n" & (resultItem as string)
-        end if
-    end repeat
-    
-    return resultString
-end tell`;
+    for (const person of fetched) {
+      const previous = this.contacts.get(person.id) || previousByName.get(person.name.toLowerCase());
+      if (previous && previous.id !== person.id) previousByName.delete(person.name.toLowerCase());
 
-      const result = await runAppleScript(contactsScript);
-      console.error("📞 AppleScript completed, parsing results...");
+      // People without a phone number are cached too; buildIndex leaves them out of the phone index only
+      const contact = toCachedContact(person, now);
+      this.contacts.set(person.id, contact);
 
-      // Parse and store contacts
-      this.contacts.clear();
-      const now = Date.now();
-      
-      if (result && result.trim() !== '') {
-        const contactEntries = result.split('\n');
-        
-        for (const entry of contactEntries) {
-          if (entry.trim() === '') continue;
-          
-          const parts = entry.split(':');
-          if (parts.length < 2) continue;
-          
-          const name = parts[0].trim();
-          const phonesString = parts[1].trim();
-          const emailsString = parts.length > 2 ? parts[2].trim() : '';
-          
-          if (name && phonesString) {
-            const phoneNumbers = phonesString.split('|').map(phone => phone.trim()).filter(phone => phone !== '');
-            const emails = emailsString ? emailsString.split('|').map(email => email.trim()).filter(email => email !== '') : [];
-            
-            if (phoneNumbers.length > 0) {
-              const contact: CachedContact = {
-                name,
-                phoneNumbers,
-                emails,
-                lastUpdated: now
-              };
-              
-              this.contacts.set(name.toLowerCase(), contact);
-            }
-          }
-        }
+      if (!previous) {
+        changes.push({ type: 'added', id: person.id, name: person.name, at: now });
+      } else if (contactDetails(previous) !== contactDetails(contact)) {
+        changes.push({ type: 'updated', id: person.id, name: person.name, at: now });
       }
+    }
 
-      console.error(`✅ Extracted ${this.contacts.size} contacts in ${Date.now() - startTime}ms`);
-    } catch (error) {
-      console.error("❌ Error extracting contacts:", error);
-      throw error;
+    // Anyone the source no longer lists was deleted
+    const currentIds = new Set(stamps.map(stamp => stamp.id));
+    for (const [key, contact] of this.contacts) {
+      if (contact.id && !currentIds.has(contact.id)) {
+        this.contacts.delete(key);
+        changes.push({ type: 'deleted', id: contact.id, name: contact.name, at: now });
+      }
     }
+
+    const result: ContactsSyncResult = {
+      full,
+      added: changes.filter(c => c.type === 'added').length,
+      updated: changes.filter(c => c.type === 'updated').length,
+      deleted: changes.filter(c => c.type === 'deleted').length,
+      unchanged: this.contacts.size - changes.filter(c => c.type !== 'deleted').length,
+      durationMs: Date.now() - startTime,
+      changes
+    };
+
+    const { changes: _changes, ...summary } = result;
+    this.syncState = {
+      lastSync: now,
+      stamps: Object.fromEntries(stamps.map(stamp => [stamp.id, stamp.modifiedAt])),
+      lastResult: summary,
+      changes: [...this.syncState.changes, ...changes].slice(-MAX_CHANGE_LOG_ENTRIES)
+    };
+
+    this.buildIndex();
+    console.error(`✅ Contacts synced in ${result.durationMs}ms: +${result.added} ~${result.updated} -${result.deleted}`);
+    return result;
   }
 
-  async testMessageCapabilities(): Promise<void> {
-    console.error("🔄 Testing message capabilities for all phone numbers...");
+  /**
+   * Re-read every contact from the source
+   */
+  async extractAllContacts(): Promise<void> {
+    await this.syncContacts({ full: true });
+  }
+
+  /**
+   * Most recent contact changes found by sync, newest first
+   */
+  async getRecentChanges(limit = 20): Promise<ContactChange[]> {
+    if (this.syncState.lastSync === 0) {
+      await this.loadExistingCache();
+    }
+
+    return this.syncState.changes.slice(-limit).reverse();
+  }
+
+  async getSyncState(): Promise<Pick<ContactsSyncState, 'lastSync' | 'lastResult'>> {
+    if (this.syncState.lastSync === 0) {
+      await this.loadExistingCache();
+    }
+
+    return { lastSync: this.syncState.lastSync, lastResult: this.syncState.lastResult };
+  }
+
+  /**
+   * Test iMessage/SMS capability for every cached number, or only for the given contacts
+   */
+  async testMessageCapabilities(onlyContacts?: CachedContact[]): Promise<void> {
+    console.error(`🔄 Testing message capabilities for ${onlyContacts ? 'changed contacts' : 'all phone numbers'}...`);
     const startTime = Date.now();
 
     // Collect all unique phone numbers
     const allPhoneNumbers = new Set<string>();
-    for (const contact of this.contacts.values()) {
+    for (const contact of onlyContacts || this.contacts.values()) {
       contact.phoneNumbers.forEach(phone => {
         // Normalize phone number
         const normalized = this.normalizePhoneNumber(phone);
@@ -337,22 +471,12 @@ end tell`;
   private normalizePhoneNumber(phone: string): string | null {
     if (!phone || typeof phone !== 'string') return null;
     
-    // Remove all non-numeric characters except +
-    const cleaned = phone.replace(/[^0-9+]/g, "");
-    
-    // Validate input
-    if (cleaned.length < 10) return null;
+    const e164 = phoneNumbers.normalizeToE164(phone);
+    if (e164) return e164;
     
-    // Handle different input formats
-    if (/^\+1\d{10}$/.test(cleaned)) {
-      return cleaned;
-    } else if (/^1\d{10}$/.test(cleaned)) {
-      return `+${cleaned}`;
-    } else if (/^\d{10}$/.test(cleaned)) {
-      return `+1${cleaned}`;
-    }
-    
-    return cleaned; // Return as-is for international numbers
+    // Not recognised as a phone number by any country rule: keep long digit strings as-is
+    const cleaned = phone.replace(/[^0-9+]/g, "");
+    return cleaned.length >= 10 ? cleaned : null;
   }
 
   private calculateConfidence(type: 'imessage' | 'sms' | 'unknown'): number {
@@ -369,17 +493,17 @@ end tell`;
 
     try {
       // Ensure cache directory exists
-      if (!existsSync(CACHE_DIR)) {
-        await mkdir(CACHE_DIR, { recursive: true });
+      if (!existsSync(this.files.dir)) {
+        await mkdir(this.files.dir, { recursive: true });
       }
 
       // Save contacts
       const contactsArray = Array.from(this.contacts.values());
-      await writeFile(CONTACTS_CACHE_FILE, JSON.stringify(contactsArray, null, 2));
+      await writeFile(this.files.contacts, JSON.stringify(contactsArray, null, 2));
 
       // Save capabilities
       const capabilitiesArray = Array.from(this.capabilities.values());
-      await writeFile(MESSAGE_CAPABILITIES_CACHE_FILE, JSON.stringify(capabilitiesArray, null, 2));
+      await writeFile(this.files.capabilities, JSON.stringify(capabilitiesArray, null, 2));
 
       // Update and save metadata
       this.metadata = {
@@ -388,7 +512,21 @@ end tell`;
         capabilitiesCount: this.capabilities.size,
         version: "1.0.0"
       };
-      await writeFile(CACHE_METADATA_FILE, JSON.stringify(this.metadata, null, 2));
+      await writeFile(this.files.metadata, JSON.stringify(this.metadata, null, 2));
+
+      // Save the reverse-lookup index alongside the contacts it was built from
+      const index: ContactsIndex = {
+        version: CONTACTS_INDEX_VERSION,
+        region: phoneNumbers.getDefaultRegion(),
+        builtAt: this.metadata.lastFullUpdate,
+        contactsCount: this.contacts.size,
+        phones: Object.fromEntries(this.phoneIndex),
+        emails: Object.fromEntries(this.emailIndex)
+      };
+      await writeFile(this.files.index, JSON.stringify(index));
+
+      // Save sync stamps and the change log
+      await writeFile(this.files.sync, JSON.stringify(this.syncState));
 
       console.error(`✅ Cache saved successfully:`);
       console.error(`   📂 ${contactsArray.length} contacts`);
@@ -402,7 +540,7 @@ end tell`;
 
   async getCacheSize(): Promise<number> {
     try {
-      const files = [CONTACTS_CACHE_FILE, MESSAGE_CAPABILITIES_CACHE_FILE, CACHE_METADATA_FILE];
+      const files = [this.files.contacts, this.files.capabilities, this.files.metadata, this.files.index, this.files.sync];
       let totalSize = 0;
       
       for (const file of files) {
@@ -426,8 +564,8 @@ end tell`;
       // Load existing cache first
       await this.loadExistingCache();
 
-      // Extract all contacts
-      await this.extractAllContacts();
+      // Re-read every contact
+      await this.syncContacts({ full: true });
 
       // Test message capabilities
       await this.testMessageCapabilities();
@@ -444,49 +582,105 @@ end tell`;
     }
   }
 
+  /**
+   * Apply only what changed in the contacts source since the last sync, then re-test new numbers
+   */
+  async incrementalUpdate(): Promise<ContactsSyncResult> {
+    console.error("🔄 Starting incremental cache update...");
+
+    try {
+      await this.loadExistingCache();
+
+      const result = await this.syncContacts();
+
+      const changedIds = new Set(result.changes.filter(c => c.type !== 'deleted').map(c => c.id));
+      const changedContacts = Array.from(this.contacts.values()).filter(c => c.id && changedIds.has(c.id));
+      if (result.full) {
+        await this.testMessageCapabilities();
+      } else if (changedContacts.length > 0) {
+        await this.testMessageCapabilities(changedContacts);
+      }
+
+      await this.saveCache();
+      return result;
+    } catch (error) {
+      console.error("❌ Incremental cache update failed:", error);
+      throw error;
+    }
+  }
+
   // Quick access methods for the MCP
   async findContactByName(name: string): Promise<CachedContact | null> {
     if (this.contacts.size === 0) {
       await this.loadExistingCache();
     }
 
-    const normalizedName = name.toLowerCase();
-    
-    // Exact match first
-    if (this.contacts.has(normalizedName)) {
-      return this.contacts.get(normalizedName)!;
+    // Substring-only matches score below 60, so "Ana" never resolves to "Liliana"
+    const [best] = nameMatching.rankByName(name, this.contacts.values(), contact => [contact.name, contact.nickname], {
+      limit: 1,
+      minScore: 60
+    });
+    return best?.item || null;
+  }
+
+  /**
+   * O(1) reverse lookup of a phone number in any format
+   */
+  async findContactByPhoneNumber(phoneNumber: string): Promise<CachedContact | null> {
+    if (this.contacts.size === 0) {
+      await this.loadExistingCache();
     }
 
-    // IMPROVED: Proper fuzzy search with scoring (fixes Ana->Liliana bug)
-    let bestMatch: CachedContact | null = null;
-    let bestScore = 0;
+    const normalized = this.normalizePhoneNumber(phoneNumber);
+    const key = normalized ? this.phoneIndex.get(normalized) : undefined;
+    return key ? this.contacts.get(key) || null : null;
+  }
 
-    for (const [key, contact] of this.contacts) {
-      let score = 0;
-      
-      // Scoring system (higher = better):
-      if (key === normalizedName) {
-        score = 100; // Exact match
-      } else if (key.startsWith(normalizedName + ' ')) {
-        score = 90; // Starts with search term + space (e.g., "ana samat")
-      } else if (key.startsWith(normalizedName)) {
-        score = 80; // Starts with search term
-      } else if (key.includes(' ' + normalizedName + ' ')) {
-        score = 70; // Full word in middle
-      } else if (key.endsWith(' ' + normalizedName)) {
-        score = 60; // Full word at end
-      } else if (key.includes(normalizedName)) {
-        score = 20; // Contains as substring (much lower priority)
-      }
-      
-      if (score > bestScore) {
-        bestScore = score;
-        bestMatch = contact;
-      }
+  async findContactByEmail(email: string): Promise<CachedContact | null> {
+    if (this.contacts.size === 0) {
+      await this.loadExistingCache();
+    }
+
+    const key = this.emailIndex.get(email.trim().toLowerCase());
+    return key ? this.contacts.get(key) || null : null;
+  }
+
+  /**
+   * Apply a card that was just written to Contacts, so lookups and sends see it before the next sync
+   */
+  async patchContact(person: SourceContact): Promise<ContactChange> {
+    if (this.contacts.size === 0) {
+      await this.loadExistingCache();
+    }
+
+    const now = Date.now();
+    const type = this.contacts.has(person.id) ? 'updated' : 'added';
+    this.contacts.set(person.id, toCachedContact(person, now));
+    const change: ContactChange = { type, id: person.id, name: person.name, at: now };
+
+    // Record the new modification date so the next sync doesn't read the card again
+    this.syncState.stamps[person.id] = person.modifiedAt;
+    this.syncState.changes = [...this.syncState.changes, change].slice(-MAX_CHANGE_LOG_ENTRIES);
+
+    this.buildIndex();
+    await this.saveCache();
+    return change;
+  }
+
+  async getContactById(id: string): Promise<CachedContact | null> {
+    if (this.contacts.size === 0) {
+      await this.loadExistingCache();
+    }
+
+    return this.contacts.get(id) || null;
+  }
+
+  async getContactsCount(): Promise<number> {
+    if (this.contacts.size === 0) {
+      await this.loadExistingCache();
     }
 
-    // Only return matches with reasonable scores (prevents Ana->Liliana)
-    return bestScore >= 60 ? bestMatch : null;
+    return this.contacts.size;
   }
 
   async getMessageCapability(phoneNumber: string): Promise<MessageCapability | null> {
@@ -522,6 +716,18 @@ end tell`;
   }
 }
 
+let sharedManager: ContactsCacheManager | null = null;
+
+/**
+ * Cache shared by the contacts and messages tools, so a contact written by one is visible to the other
+ */
+function getSharedCacheManager(): ContactsCacheManager {
+  if (!sharedManager) {
+    sharedManager = new ContactsCacheManager();
+  }
+  return sharedManager;
+}
+
 // CLI interface for manual cache management
 async function main() {
   const command = process.argv[2];
@@ -529,10 +735,25 @@ async function main() {
 
   switch (command) {
     case 'update':
-      console.error("🚀 Starting manual cache update...");
-      await manager.fullUpdate();
+      if (process.argv[3] === '--full') {
+        console.error("🚀 Starting full cache update...");
+        await manager.fullUpdate();
+      } else {
+        console.error("🚀 Starting incremental cache update...");
+        await manager.incrementalUpdate();
+      }
       break;
 
+    case 'changes': {
+      const changes = await manager.getRecentChanges(parseInt(process.argv[3] || '20', 10));
+      const icons = { added: '➕', updated: '✏️', deleted: '➖' };
+      console.error(`📝 Recent contact changes (${changes.length}):`);
+      for (const change of changes) {
+        console.error(`   ${icons[change.type]} ${new Date(change.at).toLocaleString()} ${change.name} (${change.id})`);
+      }
+      break;
+    }
+
     case 'status':
       await manager.loadExistingCache();
       const cacheAge = await manager.getCacheAge();
@@ -569,7 +790,9 @@ async function main() {
 
     default:
       console.error("📖 Usage:");
-      console.error("   bun cache-manager.ts update   - Update the cache");
+      console.error("   bun cache-manager.ts update   - Sync contacts that changed since the last update");
+      console.error("   bun cache-manager.ts update --full - Re-read every contact");
+      console.error("   bun cache-manager.ts changes [n] - Show recent contact changes");
       console.error("   bun cache-manager.ts status   - Show cache status");
       console.error("   bun cache-manager.ts test [name] - Test contact lookup");
       break;
@@ -581,4 +804,7 @@ if (import.meta.main) {
   main().catch(console.error);
 }
 
+export { toCachedContact, getSharedCacheManager };
+export type { CachedContact, ContactChange, ContactsSyncResult, MessageCapability };
+
 export default ContactsCacheManager;
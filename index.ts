@@ -7,6 +7,7 @@ import {
 } from "@modelcontextprotocol/sdk/types.js";
 import { runAppleScript } from "run-applescript";
 import tools from "./tools";
+import type { Message, MessageValidation, RecipientDisambiguation } from "./utils/message-cached";
 
 interface WebSearchArgs {
   query: string;
@@ -20,7 +21,7 @@ let safeModeFallback = false;
 console.error("Starting apple-mcp server...");
 
 // Placeholders for modules - will either be loaded eagerly or lazily
-let contacts: typeof import("./utils/contacts").default | null = null;
+let contacts: typeof import("./utils/contacts-cached").default | null = null; // Cached contacts, live fallback
 let notes: typeof import("./utils/notes").default | null = null;
 let message: typeof import("./utils/message-cached").default | null = null; // FIXED: Use cached version
 let mail: typeof import("./utils/mail").default | null = null;
@@ -31,7 +32,7 @@ let maps: typeof import("./utils/maps").default | null = null;
 
 // Type map for module names to their types
 type ModuleMap = {
-  contacts: typeof import("./utils/contacts").default;
+  contacts: typeof import("./utils/contacts-cached").default;
   notes: typeof import("./utils/notes").default;
   message: typeof import("./utils/message-cached").default; // FIXED: Use cached version
   mail: typeof import("./utils/mail").default;
@@ -60,7 +61,7 @@ async function loadModule<
   try {
     switch (moduleName) {
       case "contacts":
-        if (!contacts) contacts = (await import("./utils/contacts")).default;
+        if (!contacts) contacts = (await import("./utils/contacts-cached")).default;
         return contacts as ModuleMap[T];
       case "notes":
         if (!notes) notes = (await import("./utils/notes")).default;
@@ -119,8 +120,8 @@ async function attemptEagerLoading() {
     console.error("Attempting to eagerly load modules...");
 
     // Try to import all modules
-    contacts = (await import("./utils/contacts")).default;
-    console.error("- Contacts module loaded successfully");
+    contacts = (await import("./utils/contacts-cached")).default;
+    console.error("- Cached Contacts module loaded successfully");
 
     notes = (await import("./utils/notes")).default;
     console.error("- Notes module loaded successfully");
@@ -224,52 +225,153 @@ function initServer() {
 
           try {
             const contactsModule = await loadModule("contacts");
+            const textResult = (text: string) => ({
+              content: [{ type: "text", text }],
+              isError: false,
+            });
+
+            switch (args.operation || "search") {
+              case "lookup": {
+                if (!args.handle) {
+                  throw new Error("handle (phone number or email) is required for lookup operation");
+                }
 
-            if (args.name) {
-              const numbers = await contactsModule.findNumber(args.name);
-              return {
-                content: [
-                  {
-                    type: "text",
-                    text: numbers.length
-                      ? `${args.name}: ${numbers.join(", ")}`
-                      : `No contact found for "${args.name}". Try a different name or use no name parameter to list all contacts.`,
-                  },
-                ],
-                isError: false,
-              };
-            } else {
-              const allNumbers = await contactsModule.getAllNumbers();
-              const contactCount = Object.keys(allNumbers).length;
+                const record = await contactsModule.lookupContact(args.handle);
+                return textResult(
+                  record
+                    ? `${args.handle} belongs to ${record.name}:\n\n${JSON.stringify(record, null, 2)}`
+                    : `No contact has the phone number or email "${args.handle}"`,
+                );
+              }
 
-              if (contactCount === 0) {
+              case "organization": {
+                if (!args.organization && !args.domain) {
+                  throw new Error("organization or domain is required for organization operation");
+                }
+
+                const records = await contactsModule.findContactsByOrganization({
+                  organization: args.organization,
+                  domain: args.domain,
+                });
+                const criteria = [
+                  args.organization ? `organization "${args.organization}"` : null,
+                  args.domain ? `email domain "${args.domain}"` : null,
+                ].filter(Boolean).join(" or ");
+                return textResult(
+                  records.length
+                    ? `Found ${records.length} contact(s) with ${criteria}:\n\n${JSON.stringify(records, null, 2)}`
+                    : `No contacts found with ${criteria}`,
+                );
+              }
+
+              case "birthdays": {
+                const days = args.days ?? 30;
+                const birthdays = await contactsModule.getUpcomingBirthdays(days);
+                if (birthdays.length === 0) {
+                  return textResult(`No birthdays in the next ${days} days`);
+                }
+
+                const summary = birthdays
+                  .map((birthday) =>
+                    `🎂 ${birthday.date} ${birthday.contact.name}` +
+                    (birthday.turning ? ` turns ${birthday.turning}` : "") +
+                    (birthday.daysUntil === 0 ? " (today)" : ` (in ${birthday.daysUntil} day${birthday.daysUntil === 1 ? "" : "s"})`),
+                  )
+                  .join("\n");
+                return textResult(
+                  `${birthdays.length} birthday(s) in the next ${days} days:\n\n${summary}\n\n${JSON.stringify(birthdays, null, 2)}`,
+                );
+              }
+
+              case "card": {
+                if (!args.contactId && !args.name) {
+                  throw new Error("contactId or name is required for card operation");
+                }
+
+                const card = await contactsModule.getContactCard({ contactId: args.contactId, name: args.name });
+                return textResult(
+                  card
+                    ? JSON.stringify(card, null, 2)
+                    : `No contact found for "${args.contactId || args.name}"`,
+                );
+              }
+
+              case "create":
+              case "update": {
+                const details = {
+                  name: args.name,
+                  contactId: args.contactId,
+                  phoneNumber: args.phoneNumber,
+                  phoneLabel: args.phoneLabel,
+                  email: args.email,
+                  emailLabel: args.emailLabel,
+                  organization: args.organization,
+                  jobTitle: args.jobTitle,
+                };
+                const validation = args.operation === "create"
+                  ? await contactsModule.prepareCreateContact(details)
+                  : await contactsModule.prepareUpdateContact(details);
+
+                // Return validation prompt to user - DO NOT WRITE WITHOUT USER CONFIRMATION
                 return {
                   content: [
                     {
                       type: "text",
-                      text: "No contacts found in the address book. Please make sure you have granted access to Contacts.",
+                      text: `🛡️ CONTACT ${validation.action.toUpperCase()} CONFIRMATION REQUIRED - USER MUST CONFIRM BEFORE SAVING\n\n` +
+                            `👤 Contact: ${validation.contactName}${validation.contactId ? ` (${validation.contactId})` : " (new)"}\n` +
+                            (validation.changes.length > 0 ? `${validation.changes.join("\n")}\n` : "") +
+                            (validation.warnings.length > 0 ? `\n${validation.warnings.map((w) => `⚠️ ${w}`).join("\n")}\n` : "") +
+                            `\n⚠️ STOP: Do you want to save this to Contacts? Please confirm YES or NO.\n\n` +
+                            `❌ DO NOT PROCEED automatically. Wait for explicit user confirmation.\n` +
+                            `✅ Only if user confirms, then use operation 'confirm' with token: ${validation.confirmationToken}`,
                     },
                   ],
                   isError: false,
+                  requiresUserConfirmation: true,
+                  confirmationToken: validation.confirmationToken,
                 };
               }
 
-              const formattedContacts = Object.entries(allNumbers)
-                .filter(([_, phones]) => phones.length > 0)
-                .map(([name, phones]) => `${name}: ${phones.join(", ")}`);
+              case "confirm": {
+                if (!args.confirmationToken) {
+                  throw new Error(
+                    "confirmationToken is required for confirm operation. Use the 'create' or 'update' operation first to get a confirmation token.",
+                  );
+                }
 
-              return {
-                content: [
-                  {
-                    type: "text",
-                    text:
-                      formattedContacts.length > 0
-                        ? `Found ${contactCount} contacts:\n\n${formattedContacts.join("\n")}`
-                        : "Found contacts but none have phone numbers. Try searching by name to see more details.",
-                  },
-                ],
-                isError: false,
-              };
+                const result = await contactsModule.confirmContactChange(args.confirmationToken, args.userConfirmation || "yes");
+                return {
+                  content: [
+                    {
+                      type: "text",
+                      text: result.contact
+                        ? `${result.message}\n\n${JSON.stringify(result.contact, null, 2)}`
+                        : result.message,
+                    },
+                  ],
+                  isError: !result.success,
+                };
+              }
+
+              case "search": {
+                const records = await contactsModule.getContactRecords(args.name);
+
+                if (records.length === 0) {
+                  return textResult(
+                    args.name
+                      ? `No contact found for "${args.name}". Try a different name or use no name parameter to list all contacts.`
+                      : "No contacts found in the address book. Please make sure you have granted access to Contacts.",
+                  );
+                }
+
+                // One JSON record per contact: labeled phones and emails, organization, job title, nickname, birthday, addresses
+                return textResult(
+                  `${args.name ? `Found ${records.length} contact(s) matching "${args.name}"` : `Found ${records.length} contacts`}:\n\n${JSON.stringify(records, null, 2)}`,
+                );
+              }
+
+              default:
+                throw new Error(`Unknown operation: ${args.operation}`);
             }
           } catch (error) {
             return {
@@ -387,49 +489,40 @@ function initServer() {
             switch (args.operation) {
               case "send": {
                 const phoneNumberOrName = args.phoneNumberOrName || args.phoneNumber;
-                if (!phoneNumberOrName || !args.message) {
+                const isGroupSend = Boolean(args.chatName || (args.recipients && args.recipients.length > 0));
+                if ((!phoneNumberOrName && !isGroupSend) || (!args.message && !args.attachments?.length)) {
                   throw new Error(
-                    "Phone number/name and message are required for send operation",
+                    "Phone number/name (or chatName/recipients) and a message or attachments are required for send operation",
                   );
                 }
 
+                const sendOptions = {
+                  verifyContact: args.verifyContact ?? true,
+                  messageType: args.messageType || 'auto',
+                  attachments: args.attachments
+                } as const;
+
                 // Use the enhanced cached message system for proper confirmation
-                const result = await messageModule.sendMessageEnhanced(
-                  phoneNumberOrName,
-                  args.message,
-                  {
-                    verifyContact: args.verifyContact ?? true,
-                    messageType: args.messageType || 'auto'
-                  }
-                );
+                const result = isGroupSend
+                  ? await messageModule.sendGroupMessageEnhanced(
+                      { chatName: args.chatName, recipients: args.recipients },
+                      args.message || "",
+                      sendOptions
+                    )
+                  : await messageModule.sendMessageEnhanced(
+                      phoneNumberOrName!,
+                      args.message || "",
+                      sendOptions
+                    );
+
+                if ("disambiguation" in result && result.disambiguation) {
+                  // Several contacts fit the name: the user picks, nothing is sent yet
+                  return disambiguationResponse(result.disambiguation);
+                }
 
                 if (result.needsValidation && result.validationInfo) {
                   // Return validation prompt to user - DO NOT PROCEED WITHOUT USER CONFIRMATION
-                  return {
-                    content: [
-                      {
-                        type: "text",
-                        text: `🛡️ MESSAGE CONFIRMATION REQUIRED - USER MUST CONFIRM BEFORE SENDING\n\n` +
-                              `📱 To: ${result.validationInfo.resolvedContact}\n` +
-                              `📞 Phone: ${result.validationInfo.phoneNumber}\n` +
-                              `💬 Message: "${result.validationInfo.messagePreview}"\n` +
-                              `📡 Type: ${result.validationInfo.messageType.toUpperCase()}\n\n` +
-                              `⚠️ STOP: Do you want to send this message? Please confirm YES or NO.\n\n` +
-                              `❌ DO NOT PROCEED automatically. Wait for explicit user confirmation.\n` +
-                              `✅ Only if user confirms, then use token: ${result.validationInfo.confirmationToken}\n\n` +
-                              `(This confirmation prevents accidental sending to wrong recipients)`
-                      },
-                    ],
-                    isError: false,
-                    requiresUserConfirmation: true,
-                    confirmationToken: result.validationInfo.confirmationToken,
-                    validationData: {
-                      recipient: result.validationInfo.resolvedContact,
-                      phoneNumber: result.validationInfo.phoneNumber,
-                      messageType: result.validationInfo.messageType,
-                      message: result.validationInfo.messagePreview
-                    }
-                  };
+                  return messageConfirmationResponse(result.validationInfo);
                 } else {
                   return {
                     content: [
@@ -450,6 +543,18 @@ function initServer() {
                   );
                 }
                 
+                if (args.candidate !== undefined) {
+                  // The token is from a disambiguation: prepare the send to the chosen contact
+                  const choice = await messageModule.chooseRecipient(args.confirmationToken, args.candidate);
+                  if ("validationInfo" in choice && choice.validationInfo) {
+                    return messageConfirmationResponse(choice.validationInfo);
+                  }
+                  return {
+                    content: [{ type: "text", text: choice.message }],
+                    isError: true,
+                  };
+                }
+
                 // Actually send the message using the confirmation token
                 const result = await messageModule.sendMessageConfirmed(
                   args.confirmationToken,
@@ -470,10 +575,50 @@ function initServer() {
               }
 
               case "read": {
+                if (args.chatId) {
+                  const result = await messageModule.readChatMessages(args.chatId, args.limit || 20);
+                  if (!result.success || !result.thread) {
+                    return {
+                      content: [
+                        {
+                          type: "text",
+                          text: result.message || `No chat found for "${args.chatId}"`,
+                        },
+                      ],
+                      isError: true,
+                    };
+                  }
+
+                  const { thread } = result;
+                  const participantList = thread.participants
+                    .map((p) => (p.name ? `${p.name} (${p.handle})` : p.handle))
+                    .join(", ");
+                  let responseText = `Found ${result.messages.length} message(s) in ${thread.isGroup ? "group chat" : "chat"} "${thread.contactName}" (${thread.chatId})`;
+                  responseText += `\nParticipants: ${participantList || "unknown"}`;
+                  responseText += `\nUnread: ${thread.unreadCount}\n\n`;
+                  responseText += result.messages
+                    .slice()
+                    .reverse()
+                    .map((msg) =>
+                      messageWithReplies(msg, (m) => `[${new Date(m.date).toLocaleString()}] ${m.senderName || m.sender}: ${m.content}`),
+                    )
+                    .join("\n");
+
+                  return {
+                    content: [
+                      {
+                        type: "text",
+                        text: responseText,
+                      },
+                    ],
+                    isError: false,
+                  };
+                }
+
                 const phoneNumberOrName = args.phoneNumberOrName || args.phoneNumber;
                 if (!phoneNumberOrName) {
                   throw new Error(
-                    "Phone number or contact name is required for read operation",
+                    "Phone number, contact name or chatId is required for read operation",
                   );
                 }
 
@@ -495,11 +640,13 @@ function initServer() {
                   responseText += ":\n\n";
 
                   responseText += result.messages
-                    .map((msg) => {
-                      const displaySender = msg.is_from_me ? "Me" : (result.contactName || msg.sender);
-                      const messageType = msg.messageType ? `[${msg.messageType.toUpperCase()}]` : '';
-                      return `[${new Date(msg.date).toLocaleString()}] ${displaySender} ${messageType}: ${msg.content}`;
-                    })
+                    .map((msg) =>
+                      messageWithReplies(msg, (m) => {
+                        const displaySender = m.is_from_me ? "Me" : (result.contactName || m.sender);
+                        const messageType = m.messageType ? `[${m.messageType.toUpperCase()}]` : '';
+                        return `[${new Date(m.date).toLocaleString()}] ${displaySender} ${messageType}: ${m.content}`;
+                      }),
+                    )
                     .join("\n");
 
                   return {
@@ -516,7 +663,7 @@ function initServer() {
                     content: [
                       {
                         type: "text",
-                        text: `No messages found for "${phoneNumberOrName}"`,
+                        text: result.message || `No messages found for "${phoneNumberOrName}"`,
                       },
                     ],
                     isError: false,
@@ -525,21 +672,114 @@ function initServer() {
               }
 
               case "schedule": {
-                if (!args.phoneNumber || !args.message || !args.scheduledTime) {
+                const recipient = args.phoneNumberOrName || args.phoneNumber;
+                if (!recipient || !args.message || !args.scheduledTime) {
                   throw new Error(
-                    "Phone number, message, and scheduled time are required for schedule operation",
+                    "Recipient, message, and scheduled time are required for schedule operation",
                   );
                 }
-                const scheduledMsg = await messageModule.scheduleMessage(
-                  args.phoneNumber,
+                const result = await messageModule.scheduleMessage(
+                  recipient,
                   args.message,
                   new Date(args.scheduledTime),
+                  {
+                    verifyContact: args.verifyContact ?? true,
+                    messageType: args.messageType || 'auto'
+                  },
                 );
+
+                if ("disambiguation" in result && result.disambiguation) {
+                  return disambiguationResponse(result.disambiguation);
+                }
+
+                if (!("validationInfo" in result) || !result.validationInfo) {
+                  return {
+                    content: [
+                      {
+                        type: "text",
+                        text: `❌ Could not schedule message: ${result.message}`,
+                      },
+                    ],
+                    isError: true,
+                  };
+                }
+
+                // Confirm up front: at the scheduled time the daemon sends without asking again
+                return messageConfirmationResponse(result.validationInfo);
+              }
+
+              case "scheduled": {
+                const scheduled = await messageModule.listScheduledMessages();
+                if (scheduled.length === 0) {
+                  return {
+                    content: [{ type: "text", text: "No scheduled messages" }],
+                    isError: false,
+                  };
+                }
+
+                const statusIcons: Record<string, string> = {
+                  pending: "⏳",
+                  sending: "📤",
+                  sent: "✅",
+                  failed: "❌",
+                  cancelled: "🚫",
+                  missed: "⚠️",
+                };
+                const lines = scheduled.map((entry) => {
+                  let line = `${statusIcons[entry.status] || "•"} ${new Date(entry.scheduledTime).toLocaleString()} → ${entry.recipient} (${entry.phoneNumber}) [${entry.status}]\n   💬 "${entry.message}"\n   🆔 ${entry.id}`;
+                  if (entry.lastError) line += `\n   ⚠️ ${entry.lastError}`;
+                  if (entry.messageId) line += `\n   📬 Message #${entry.messageId} (check delivery with the status operation)`;
+                  return line;
+                });
+
                 return {
                   content: [
                     {
                       type: "text",
-                      text: `Message scheduled to be sent to ${args.phoneNumber} at ${scheduledMsg.scheduledTime}`,
+                      text: `📅 Scheduled messages (${scheduled.length}):\n\n${lines.join("\n\n")}`,
+                    },
+                  ],
+                  isError: false,
+                };
+              }
+
+              case "edit-scheduled": {
+                if (!args.scheduleId) {
+                  throw new Error("scheduleId is required for edit-scheduled operation");
+                }
+                if (!args.message && !args.scheduledTime) {
+                  throw new Error("Provide a new message and/or scheduledTime for edit-scheduled operation");
+                }
+                const result = await messageModule.editScheduledMessage(args.scheduleId, {
+                  message: args.message,
+                  scheduledTime: args.scheduledTime ? new Date(args.scheduledTime) : undefined,
+                });
+                if (!("validationInfo" in result) || !result.validationInfo) {
+                  return {
+                    content: [
+                      {
+                        type: "text",
+                        text: `❌ Could not edit scheduled message: ${result.message}`,
+                      },
+                    ],
+                    isError: true,
+                  };
+                }
+
+                // The edited message goes out unattended too, so it needs the same confirmation as scheduling
+                return messageConfirmationResponse(result.validationInfo);
+              }
+
+              case "cancel-scheduled": {
+                if (!args.scheduleId) {
+                  throw new Error("scheduleId is required for cancel-scheduled operation");
+                }
+                const cancelled = await messageModule.cancelScheduledMessage(args.scheduleId);
+                return {
+                  content: [
+                    {
+                      type: "text",
+                      text: `🚫 Cancelled scheduled message to ${cancelled.recipient} at ${new Date(cancelled.scheduledTime).toLocaleString()}`,
                     },
                   ],
                   isError: false,
@@ -551,25 +791,11 @@ function initServer() {
                   args.limit,
                 );
 
-                // Look up contact names for all messages
-                const contactsModule = await loadModule("contacts");
-                const messagesWithNames = await Promise.all(
-                  messages.map(async (msg) => {
-                    // Only look up names for messages not from me
-                    if (!msg.is_from_me) {
-                      const contactName =
-                        await contactsModule.findContactByPhone(msg.sender);
-                      return {
-                        ...msg,
-                        displayName: contactName || msg.sender, // Use contact name if found, otherwise use phone/email
-                      };
-                    }
-                    return {
-                      ...msg,
-                      displayName: "Me",
-                    };
-                  }),
-                );
+                // Sender names come from the contacts cache's reverse-lookup index
+                const messagesWithNames = messages.map((msg) => ({
+                  ...msg,
+                  displayName: msg.senderName || msg.sender,
+                }));
 
                 return {
                   content: [
@@ -599,8 +825,11 @@ function initServer() {
                   const responseText = `Found ${threads.length} conversation thread(s):\n\n` +
                     threads
                       .map((thread) => 
-                        `📱 ${thread.contactName}\n` +
-                        `   Phone: ${thread.phoneNumber}\n` +
+                        `${thread.isGroup ? '👥' : '📱'} ${thread.contactName}\n` +
+                        `   Chat ID: ${thread.chatId}\n` +
+                        (thread.isGroup
+                          ? `   Participants: ${thread.participants.map((p) => p.name || p.handle).join(', ')}\n`
+                          : `   Phone: ${thread.phoneNumber}\n`) +
                         `   Last: ${new Date(thread.lastMessageDate).toLocaleString()}\n` +
                         `   Unread: ${thread.unreadCount}\n` +
                         `   ${thread.isGroup ? 'Group Chat' : 'Direct Message'}`
@@ -629,6 +858,172 @@ function initServer() {
                 }
               }
 
+              case "search": {
+                const startDate = args.startDate ? new Date(args.startDate) : undefined;
+                const endDate = args.endDate ? new Date(args.endDate) : undefined;
+                if ((startDate && isNaN(startDate.getTime())) || (endDate && isNaN(endDate.getTime()))) {
+                  throw new Error("startDate and endDate must be ISO date strings");
+                }
+
+                const result = await messageModule.searchMessages({
+                  query: args.searchTerm,
+                  startDate,
+                  endDate,
+                  sender: args.sender,
+                  chatId: args.chatId,
+                  hasAttachment: args.hasAttachment,
+                  fromMe: args.fromMe,
+                  limit: args.limit || 20,
+                });
+
+                if (!result.success) {
+                  return {
+                    content: [{ type: "text", text: `❌ Could not search messages: ${result.message}` }],
+                    isError: true,
+                  };
+                }
+
+                const description = [
+                  args.searchTerm ? `matching "${args.searchTerm}"` : "",
+                  args.sender ? `from ${result.senderName || args.sender}` : "",
+                  args.chatId ? `in ${args.chatId}` : "",
+                ].filter(Boolean).join(" ");
+
+                if (result.results.length === 0) {
+                  return {
+                    content: [{ type: "text", text: `No messages found${description ? ` ${description}` : ""}` }],
+                    isError: false,
+                  };
+                }
+
+                const responseText = `Found ${result.results.length} message(s)${description ? ` ${description}` : ""}:\n\n` +
+                  result.results
+                    .map(({ message, snippet, chat }) =>
+                      `[${new Date(message.date).toLocaleString()}] ${message.senderName || message.sender}` +
+                      (chat ? ` ${chat.isGroup ? "in 👥" : "with 📱"} ${chat.name} (${chat.chatId})` : "") +
+                      `\n   ${snippet}`
+                    )
+                    .join("\n\n");
+
+                return {
+                  content: [{ type: "text", text: responseText }],
+                  isError: false,
+                };
+              }
+
+              case "attachment": {
+                if (!args.attachmentId) {
+                  throw new Error("attachmentId is required for attachment operation");
+                }
+
+                // With a destination the file is copied there; without one, small images and text come back inline
+                if (args.destination) {
+                  const result = await messageModule.exportAttachment(args.attachmentId, args.destination);
+                  return {
+                    content: [
+                      {
+                        type: "text",
+                        text: result.success
+                          ? `📎 Exported ${result.attachment!.transferName} (${result.attachment!.mimeType}) to ${result.path}`
+                          : `❌ Could not export attachment #${args.attachmentId}: ${result.message}`,
+                      },
+                    ],
+                    isError: !result.success,
+                  };
+                }
+
+                const result = await messageModule.readAttachmentInline(args.attachmentId);
+                if (!result.success || !result.resource) {
+                  return {
+                    content: [{ type: "text", text: `❌ Could not read attachment #${args.attachmentId}: ${result.message}` }],
+                    isError: true,
+                  };
+                }
+
+                const { attachment, resource } = result;
+                return {
+                  content: [
+                    {
+                      type: "text",
+                      text: `📎 ${attachment!.transferName} (${attachment!.mimeType}, ${attachment!.size} bytes)` +
+                        (attachment!.createdAt ? `, received ${new Date(attachment!.createdAt).toLocaleString()}` : ""),
+                    },
+                    { type: "resource", resource },
+                  ],
+                  isError: false,
+                };
+              }
+
+              case "status": {
+                const result = await messageModule.getMessageStatus({
+                  messageId: args.messageId,
+                  phoneNumberOrName: args.phoneNumberOrName || args.phoneNumber,
+                  chatId: args.chatId,
+                });
+                if (!result.success || !result.status) {
+                  return {
+                    content: [{ type: "text", text: `❌ ${result.message}` }],
+                    isError: true,
+                  };
+                }
+
+                const { status } = result;
+                const stateIcons: Record<string, string> = {
+                  sending: "📤",
+                  sent: "✅",
+                  delivered: "📬",
+                  read: "👀",
+                  failed: "❌",
+                };
+                const recipient = result.recipientName || status.chatId || status.recipient || "unknown";
+                const responseText =
+                  `${stateIcons[status.state]} Message #${status.id} to ${recipient}: ${status.state.toUpperCase()}\n` +
+                  `💬 "${status.text || (status.hasAttachments ? "[attachment]" : "")}"\n` +
+                  `📡 Service: ${status.service}\n` +
+                  `🕐 Sent: ${new Date(status.date).toLocaleString()}` +
+                  (status.deliveredAt ? `\n📬 Delivered: ${new Date(status.deliveredAt).toLocaleString()}` : "") +
+                  (status.readAt ? `\n👀 Read: ${new Date(status.readAt).toLocaleString()}` : "") +
+                  (status.state === "failed"
+                    ? `\n⚠️ Not delivered${status.errorCode ? ` (error ${status.errorCode})` : ""}; it can be retried from Messages`
+                    : "") +
+                  (status.state === "delivered" && status.service === "iMessage"
+                    ? `\n(Read receipts only appear if the recipient has them turned on)`
+                    : "");
+
+                return {
+                  content: [{ type: "text", text: responseText }],
+                  isError: false,
+                };
+              }
+
+              case "export": {
+                const startDate = args.startDate ? new Date(args.startDate) : undefined;
+                const endDate = args.endDate ? new Date(args.endDate) : undefined;
+                if ((startDate && isNaN(startDate.getTime())) || (endDate && isNaN(endDate.getTime()))) {
+                  throw new Error("startDate and endDate must be ISO date strings");
+                }
+
+                const result = await messageModule.exportConversation({
+                  chatId: args.chatId,
+                  phoneNumberOrName: args.phoneNumberOrName || args.phoneNumber,
+                  startDate,
+                  endDate,
+                  format: args.format,
+                  limit: args.limit,
+                });
+
+                // The transcript alone, so it can be passed on to a summary or a note as it is
+                return {
+                  content: [
+                    {
+                      type: "text",
+                      text: result.success ? result.transcript! : `❌ Could not export conversation: ${result.message}`,
+                    },
+                  ],
+                  isError: !result.success,
+                };
+              }
+
               case "search-contacts": {
                 if (!args.searchTerm) {
                   throw new Error("searchTerm is required for search-contacts operation");
@@ -641,7 +1036,7 @@ function initServer() {
                   const responseText = `Found ${matches.length} contact(s) matching "${args.searchTerm}":\n\n` +
                     matches
                       .map((contact) => 
-                        `📱 ${contact.name} (score: ${contact.matchScore})\n` +
+                        `📱 ${contact.name} (score: ${contact.matchScore}, matched by: ${contact.matchReasons.join(", ")})\n` +
                         `   📞 ${contact.phoneNumbers.join(', ')}\n` +
                         (contact.emails && contact.emails.length > 0 ? `   📧 ${contact.emails.join(', ')}\n` : '')
                       )
@@ -832,6 +1227,7 @@ end tell`;
                   // No account specified, use the general method
                   emails = await mailModule.getUnreadMails(args.limit);
                 }
+                emails = await withContactSenders(emails);
 
                 return {
                   content: [
@@ -859,9 +1255,8 @@ end tell`;
                     "Search term is required for search operation",
                   );
                 }
-                const emails = await mailModule.searchMails(
-                  args.searchTerm,
-                  args.limit,
+                const emails = await withContactSenders(
+                  await mailModule.searchMails(args.searchTerm, args.limit),
                 );
                 return {
                   content: [
@@ -883,6 +1278,97 @@ end tell`;
                 };
               }
 
+              case "imap-search": {
+                if (!args.imapAccount || !args.searchTerm) {
+                  throw new Error(
+                    "imapAccount and searchTerm are required for imap-search operation",
+                  );
+                }
+                const emails = await withContactSenders(
+                  await mailModule.searchMailsImap(
+                    args.imapAccount,
+                    args.searchTerm,
+                    args.limit,
+                  ),
+                );
+                return {
+                  content: [
+                    {
+                      type: "text",
+                      text:
+                        emails.length > 0
+                          ? `Found ${emails.length} email(s) for "${args.searchTerm}" in IMAP account "${args.imapAccount}":\n\n` +
+                            emails
+                              .map(
+                                (email) =>
+                                  `[${email.dateSent}] From: ${email.sender}\nMailbox: ${email.mailbox}\nSubject: ${email.subject}${email.isRead ? "" : " (unread)"}\n${email.content.substring(0, 500)}${email.content.length > 500 ? "..." : ""}` +
+                                  (email.attachments && email.attachments.length > 0
+                                    ? `\nAttachments:\n${email.attachments
+                                        .map(
+                                          (attachment) =>
+                                            `  📎 ${attachment.filename} (${attachment.contentType}, ${Math.max(1, Math.round(attachment.size / 1024))} KB)`,
+                                        )
+                                        .join("\n")}`
+                                    : ""),
+                              )
+                              .join("\n\n")
+                          : `No emails found for "${args.searchTerm}" in IMAP account "${args.imapAccount}"`,
+                    },
+                  ],
+                  isError: false,
+                };
+              }
+
+              case "setup-imap": {
+                if (
+                  !args.imapAccount ||
+                  !args.imapUser ||
+                  !args.imapPassword ||
+                  !args.imapHost
+                ) {
+                  throw new Error(
+                    "imapAccount, imapUser, imapPassword and imapHost are required for setup-imap operation",
+                  );
+                }
+                const port = args.imapPort ?? 993;
+                const tls = args.imapTls ?? true;
+                const saved = await mailModule.setupMailAccount(
+                  args.imapAccount,
+                  args.imapUser,
+                  args.imapPassword,
+                  args.imapHost,
+                  port,
+                  tls,
+                );
+                return {
+                  content: [
+                    {
+                      type: "text",
+                      text: saved
+                        ? `IMAP account "${args.imapAccount}" configured for ${args.imapUser} at ${args.imapHost}:${port}${tls ? " (TLS)" : ""}. Use imap-search with imapAccount "${args.imapAccount}" to search it.`
+                        : `Connected to ${args.imapHost}:${port} but could not save credentials for IMAP account "${args.imapAccount}" to the keychain.`,
+                    },
+                  ],
+                  isError: !saved,
+                };
+              }
+
+              case "list-imap-accounts": {
+                const accounts = await mailModule.listImapAccounts();
+                return {
+                  content: [
+                    {
+                      type: "text",
+                      text:
+                        accounts.length > 0
+                          ? `Found ${accounts.length} IMAP account(s):\n\n${accounts.join("\n")}`
+                          : "No IMAP accounts configured. Use the setup-imap operation to add an account.",
+                    },
+                  ],
+                  isError: false,
+                };
+              }
+
               case "send": {
                 if (!args.to || !args.subject || !args.body) {
                   throw new Error(
@@ -1512,12 +1998,47 @@ end tell`;
 }
 
 // Helper functions for argument type checking
-function isContactsArgs(args: unknown): args is { name?: string } {
-  return (
-    typeof args === "object" &&
-    args !== null &&
-    (!("name" in args) || typeof (args as { name: string }).name === "string")
-  );
+function isContactsArgs(args: unknown): args is {
+  operation?: "search" | "lookup" | "organization" | "birthdays" | "card" | "create" | "update" | "confirm";
+  name?: string;
+  handle?: string;
+  organization?: string;
+  domain?: string;
+  days?: number;
+  contactId?: string;
+  phoneNumber?: string;
+  phoneLabel?: string;
+  email?: string;
+  emailLabel?: string;
+  jobTitle?: string;
+  confirmationToken?: string;
+  userConfirmation?: string;
+} {
+  if (typeof args !== "object" || args === null) {
+    return false;
+  }
+
+  const { operation, days } = args as { operation?: unknown; days?: unknown };
+  if (
+    operation !== undefined &&
+    (typeof operation !== "string" ||
+      !["search", "lookup", "organization", "birthdays", "card", "create", "update", "confirm"].includes(operation))
+  ) {
+    return false;
+  }
+
+  const stringFields = [
+    "name", "handle", "organization", "domain", "contactId", "phoneNumber", "phoneLabel",
+    "email", "emailLabel", "jobTitle", "confirmationToken", "userConfirmation",
+  ];
+  for (const field of stringFields) {
+    const value = (args as Record<string, unknown>)[field];
+    if (value !== undefined && typeof value !== "string") {
+      return false;
+    }
+  }
+
+  return days === undefined || (typeof days === "number" && days >= 0);
 }
 
 function isNotesArgs(args: unknown): args is {
@@ -1567,18 +2088,153 @@ function isNotesArgs(args: unknown): args is {
   return true;
 }
 
+/**
+ * Append the contact name to mail senders found in the contacts cache's email index
+ */
+async function withContactSenders<T extends { sender: string }>(emails: T[]): Promise<T[]> {
+  const contactsCached = (await import("./utils/contacts-cached")).default;
+  return Promise.all(
+    emails.map(async (email) => {
+      const address = (email.sender.match(/<([^>]+)>/)?.[1] || email.sender).trim();
+      if (!address.includes("@")) return email;
+
+      const name = await contactsCached.findContactByEmail(address);
+      return name && !email.sender.includes(name) ? { ...email, sender: `${email.sender} (${name})` } : email;
+    }),
+  );
+}
+
+/**
+ * One line per message, with its inline replies indented underneath
+ */
+function messageWithReplies(msg: Message, line: (msg: Message) => string): string {
+  return [line(msg), ...(msg.replies || []).map((reply) => `    ↳ ${line(reply)}`)].join("\n");
+}
+
+/**
+ * Prompt for a prepared send (single, group or scheduled); the token must only be used once the user agrees
+ */
+function messageConfirmationResponse(info: MessageValidation) {
+  // Why this number, and how to pick another of the contact's numbers instead
+  const choice = info.numberChoice;
+  const numberLines = choice
+    ? `   ↳ ${choice.label ? `${choice.label}: ` : ""}${choice.explanation}\n` +
+      (choice.alternatives.length > 0
+        ? `   Other numbers: ${choice.alternatives.map((a) => `${a.phoneNumber}${a.label ? ` (${a.label})` : ""}`).join(", ")}. ` +
+          `To use one, send again to that number; it becomes the default for this contact.\n`
+        : "")
+    : "";
+  const attachmentLines = info.attachments
+    ? `📎 Attachments:\n${info.attachments.map((a) => `   - ${a.name} (${a.mimeType}, ${Math.max(1, Math.round(a.size / 1024))} KB) from ${a.path}`).join("\n")}\n`
+    : "";
+
+  const text = info.scheduledTime
+    ? `🛡️ SCHEDULED MESSAGE CONFIRMATION REQUIRED - USER MUST CONFIRM BEFORE SCHEDULING\n\n` +
+      (info.scheduleId ? `✏️ Replaces scheduled message ${info.scheduleId}\n` : "") +
+      `📱 To: ${info.resolvedContact}\n` +
+      `📞 Phone: ${info.phoneNumber}\n` +
+      numberLines +
+      `💬 Message: "${info.messagePreview}"\n` +
+      `📡 Type: ${info.messageType.toUpperCase()}\n` +
+      `⏰ Send at: ${new Date(info.scheduledTime).toLocaleString()}\n\n` +
+      `⚠️ STOP: It will be sent automatically at that time without another prompt. Do you want to schedule this message? Please confirm YES or NO.\n\n` +
+      `❌ DO NOT PROCEED automatically. Wait for explicit user confirmation.\n` +
+      `✅ Only if user confirms, then use send-confirmed with token: ${info.confirmationToken}`
+    : `🛡️ MESSAGE CONFIRMATION REQUIRED - USER MUST CONFIRM BEFORE SENDING\n\n` +
+      `📱 To: ${info.resolvedContact}\n` +
+      (info.recipients
+        ? `👥 Recipients:\n${info.recipients.map((r) => `   - ${r.name} (${r.phoneNumber})`).join("\n")}\n` +
+          (info.chatId
+            ? `💬 Chat: ${info.chatId} (existing conversation)\n`
+            : `🆕 Starts a new group conversation\n`)
+        : `📞 Phone: ${info.phoneNumber}\n` + numberLines) +
+      (info.messagePreview ? `💬 Message: "${info.messagePreview}"\n` : "") +
+      attachmentLines +
+      `📡 Type: ${info.messageType.toUpperCase()}\n\n` +
+      `⚠️ STOP: Do you want to send this message? Please confirm YES or NO.\n\n` +
+      `❌ DO NOT PROCEED automatically. Wait for explicit user confirmation.\n` +
+      `✅ Only if user confirms, then use token: ${info.confirmationToken}\n\n` +
+      `(This confirmation prevents accidental sending to wrong recipients)`;
+
+  return {
+    content: [{ type: "text", text }],
+    isError: false,
+    requiresUserConfirmation: true,
+    confirmationToken: info.confirmationToken,
+    validationData: {
+      recipient: info.resolvedContact,
+      phoneNumber: info.phoneNumber,
+      messageType: info.messageType,
+      message: info.messagePreview,
+      numberChoice: info.numberChoice,
+      attachments: info.attachments,
+    },
+  };
+}
+
+/**
+ * Ask the user which of several similarly named contacts a send is meant for
+ */
+function disambiguationResponse(disambiguation: RecipientDisambiguation) {
+  const candidateLines = disambiguation.candidates.map((candidate) => {
+    const history = candidate.lastMessageDate
+      ? `last message ${new Date(candidate.lastMessageDate).toLocaleString()} (${candidate.messageCount} total)`
+      : "no conversation yet";
+    const otherNumbers = candidate.phoneNumbers.length > 1 ? ` - ${candidate.phoneNumbers.length} numbers on card` : "";
+    const label = candidate.numberChoice?.label ? ` (${candidate.numberChoice.label})` : "";
+    return `${candidate.candidate}. ${candidate.name} - ${candidate.phoneNumber}${label}${otherNumbers}\n` +
+      `   Matched by ${candidate.matchReasons.join(", ")}; ${history}`;
+  });
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: `🤔 RECIPIENT CHOICE REQUIRED - "${disambiguation.query}" MATCHES SEVERAL CONTACTS\n\n` +
+              `${candidateLines.join("\n")}\n\n` +
+              `💬 Message: "${disambiguation.messagePreview}"\n` +
+              (disambiguation.scheduledTime
+                ? `⏰ Send at: ${new Date(disambiguation.scheduledTime).toLocaleString()}\n`
+                : "") +
+              `\n❌ DO NOT PICK automatically. Ask the user which contact they mean.\n` +
+              `✅ Then use send-confirmed with token: ${disambiguation.confirmationToken} and the chosen candidate number. ` +
+              `Nothing is sent yet: the usual confirmation follows for the chosen contact.`
+      },
+    ],
+    isError: false,
+    requiresUserChoice: true,
+    confirmationToken: disambiguation.confirmationToken,
+    candidates: disambiguation.candidates,
+  };
+}
+
 function isMessagesArgs(args: unknown): args is {
-  operation: "send" | "send-confirmed" | "read" | "schedule" | "unread" | "threads" | "search-contacts";
+  operation: "send" | "send-confirmed" | "read" | "schedule" | "scheduled" | "edit-scheduled" | "cancel-scheduled" | "unread" | "threads" | "search" | "search-contacts" | "attachment" | "status" | "export";
   phoneNumber?: string;
   phoneNumberOrName?: string;
+  chatId?: string;
+  chatName?: string;
+  recipients?: string[];
   message?: string;
+  attachments?: string[];
   limit?: number;
   scheduledTime?: string;
+  scheduleId?: string;
   messageType?: 'auto' | 'imessage' | 'sms';
   verifyContact?: boolean;
   includeContext?: boolean;
   searchTerm?: string;
+  startDate?: string;
+  endDate?: string;
+  sender?: string;
+  hasAttachment?: boolean;
+  fromMe?: boolean;
+  attachmentId?: number;
+  destination?: string;
+  messageId?: number;
+  format?: "markdown" | "json" | "text";
   confirmationToken?: string;
+  candidate?: number;
   userConfirmation?: string;
   validatedRecipient?: string;
   validatedPhoneNumber?: string;
@@ -1586,11 +2242,11 @@ function isMessagesArgs(args: unknown): args is {
 } {
   if (typeof args !== "object" || args === null) return false;
 
-  const { operation, phoneNumber, phoneNumberOrName, message, limit, scheduledTime, searchTerm, confirmationToken, validatedPhoneNumber, validatedRecipient } = args as any;
+  const { operation, phoneNumber, phoneNumberOrName, chatId, chatName, recipients, message, attachments, limit, scheduledTime, scheduleId, searchTerm, startDate, endDate, sender, hasAttachment, fromMe, attachmentId, destination, messageId, format, confirmationToken, candidate, validatedPhoneNumber, validatedRecipient } = args as any;
 
   if (
     !operation ||
-    !["send", "send-confirmed", "read", "schedule", "unread", "threads", "search-contacts"].includes(operation)
+    !["send", "send-confirmed", "read", "schedule", "scheduled", "edit-scheduled", "cancel-scheduled", "unread", "threads", "search", "search-contacts", "attachment", "status", "export"].includes(operation)
   ) {
     return false;
   }
@@ -1598,7 +2254,7 @@ function isMessagesArgs(args: unknown): args is {
   // Validate required fields based on operation
   switch (operation) {
     case "send":
-      if ((!phoneNumber && !phoneNumberOrName) || !message) return false;
+      if ((!phoneNumber && !phoneNumberOrName && !chatName && !recipients) || (!message && !attachments?.length)) return false;
       break;
     case "send-confirmed":
       // New token-based system requires confirmationToken
@@ -1607,14 +2263,34 @@ function isMessagesArgs(args: unknown): args is {
     case "schedule":
       if ((!phoneNumber && !phoneNumberOrName) || !message || !scheduledTime) return false;
       break;
+    case "edit-scheduled":
+      if (!scheduleId || (!message && !scheduledTime)) return false;
+      break;
+    case "cancel-scheduled":
+      if (!scheduleId) return false;
+      break;
     case "read":
-      if (!phoneNumber && !phoneNumberOrName) return false;
+      if (!phoneNumber && !phoneNumberOrName && !chatId) return false;
       break;
     case "search-contacts":
       if (!searchTerm || typeof searchTerm !== "string") return false;
       break;
+    case "search":
+      // Text, a filter, or both
+      if (!searchTerm && !sender && !chatId && !startDate && !endDate && hasAttachment === undefined && fromMe === undefined) return false;
+      break;
+    case "attachment":
+      if (!Number.isInteger(attachmentId) || attachmentId < 1) return false;
+      break;
+    case "status":
+      if (!messageId && !phoneNumber && !phoneNumberOrName && !chatId) return false;
+      break;
+    case "export":
+      if (!phoneNumber && !phoneNumberOrName && !chatId) return false;
+      break;
     case "unread":
     case "threads":
+    case "scheduled":
       // No additional required fields
       break;
   }
@@ -1622,9 +2298,34 @@ function isMessagesArgs(args: unknown): args is {
   // Validate field types if present
   if (phoneNumber && typeof phoneNumber !== "string") return false;
   if (phoneNumberOrName && typeof phoneNumberOrName !== "string") return false;
+  if (chatId && typeof chatId !== "string") return false;
+  if (chatName && typeof chatName !== "string") return false;
+  if (
+    recipients !== undefined &&
+    (!Array.isArray(recipients) || recipients.some((r: unknown) => typeof r !== "string" || !r.trim()))
+  ) {
+    return false;
+  }
   if (message && typeof message !== "string") return false;
+  if (
+    attachments !== undefined &&
+    (!Array.isArray(attachments) || attachments.some((a: unknown) => typeof a !== "string" || !a.trim()))
+  ) {
+    return false;
+  }
+  if (candidate !== undefined && (!Number.isInteger(candidate) || candidate < 1)) return false;
+  if (searchTerm && typeof searchTerm !== "string") return false;
+  if (startDate && typeof startDate !== "string") return false;
+  if (endDate && typeof endDate !== "string") return false;
+  if (sender && typeof sender !== "string") return false;
+  if (hasAttachment !== undefined && typeof hasAttachment !== "boolean") return false;
+  if (fromMe !== undefined && typeof fromMe !== "boolean") return false;
+  if (destination && typeof destination !== "string") return false;
+  if (messageId !== undefined && (!Number.isInteger(messageId) || messageId < 1)) return false;
+  if (format !== undefined && !["markdown", "json", "text"].includes(format)) return false;
   if (limit && typeof limit !== "number") return false;
   if (scheduledTime && typeof scheduledTime !== "string") return false;
+  if (scheduleId && typeof scheduleId !== "string") return false;
   if (confirmationToken && typeof confirmationToken !== "string") return false;
   if (validatedPhoneNumber && typeof validatedPhoneNumber !== "string") return false;
   if (validatedRecipient && typeof validatedRecipient !== "string") return false;
@@ -1633,7 +2334,15 @@ function isMessagesArgs(args: unknown): args is {
 }
 
 function isMailArgs(args: unknown): args is {
-  operation: "unread" | "search" | "send" | "mailboxes" | "accounts";
+  operation:
+    | "unread"
+    | "search"
+    | "imap-search"
+    | "setup-imap"
+    | "list-imap-accounts"
+    | "send"
+    | "mailboxes"
+    | "accounts";
   account?: string;
   mailbox?: string;
   limit?: number;
@@ -1643,6 +2352,12 @@ function isMailArgs(args: unknown): args is {
   body?: string;
   cc?: string;
   bcc?: string;
+  imapAccount?: string;
+  imapUser?: string;
+  imapPassword?: string;
+  imapHost?: string;
+  imapPort?: number;
+  imapTls?: boolean;
 } {
   if (typeof args !== "object" || args === null) return false;
 
@@ -1657,11 +2372,26 @@ function isMailArgs(args: unknown): args is {
     body,
     cc,
     bcc,
+    imapAccount,
+    imapUser,
+    imapPassword,
+    imapHost,
+    imapPort,
+    imapTls,
   } = args as any;
 
   if (
     !operation ||
-    !["unread", "search", "send", "mailboxes", "accounts"].includes(operation)
+    ![
+      "unread",
+      "search",
+      "imap-search",
+      "setup-imap",
+      "list-imap-accounts",
+      "send",
+      "mailboxes",
+      "accounts",
+    ].includes(operation)
   ) {
     return false;
   }
@@ -1671,6 +2401,28 @@ function isMailArgs(args: unknown): args is {
     case "search":
       if (!searchTerm || typeof searchTerm !== "string") return false;
       break;
+    case "imap-search":
+      if (
+        !imapAccount ||
+        typeof imapAccount !== "string" ||
+        !searchTerm ||
+        typeof searchTerm !== "string"
+      )
+        return false;
+      break;
+    case "setup-imap":
+      if (
+        !imapAccount ||
+        typeof imapAccount !== "string" ||
+        !imapUser ||
+        typeof imapUser !== "string" ||
+        !imapPassword ||
+        typeof imapPassword !== "string" ||
+        !imapHost ||
+        typeof imapHost !== "string"
+      )
+        return false;
+      break;
     case "send":
       if (
         !to ||
@@ -1683,6 +2435,7 @@ function isMailArgs(args: unknown): args is {
         return false;
       break;
     case "unread":
+    case "list-imap-accounts":
     case "mailboxes":
     case "accounts":
       // No additional required fields
@@ -1695,6 +2448,15 @@ function isMailArgs(args: unknown): args is {
   if (limit && typeof limit !== "number") return false;
   if (cc && typeof cc !== "string") return false;
   if (bcc && typeof bcc !== "string") return false;
+  if (
+    imapPort !== undefined &&
+    (typeof imapPort !== "number" ||
+      !Number.isInteger(imapPort) ||
+      imapPort < 1 ||
+      imapPort > 65535)
+  )
+    return false;
+  if (imapTls !== undefined && typeof imapTls !== "boolean") return false;
 
   return true;
 }
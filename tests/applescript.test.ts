@@ -0,0 +1,7 @@
+import { expect, test } from "bun:test";
+import { escapeAppleScriptString } from "../utils/applescript";
+
+test("a value stays inside one AppleScript string literal", () => {
+  expect(escapeAppleScriptString('Jones "JJ" \\ Sons\r\nline two\tend')).toBe('Jones \\"JJ\\" \\\\ Sons\\r\\nline two\\tend');
+  expect(escapeAppleScriptString("O'Brien")).toBe("O'Brien");
+});
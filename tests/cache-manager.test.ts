@@ -0,0 +1,263 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ContactsCacheManager } from "../cache-manager";
+import contactsSource, { type SourceContact } from "../utils/contacts-source";
+
+let dir: string;
+let sourceFile: string;
+
+function writeContacts(contacts: SourceContact[]): void {
+  writeFileSync(sourceFile, JSON.stringify(contacts));
+}
+
+function person(id: string, name: string, phone: string | null, modifiedAt = 1): SourceContact {
+  return {
+    id: `${id}:ABPerson`,
+    name,
+    phoneNumbers: phone ? [{ label: "mobile", value: phone }] : [],
+    emails: [],
+    modifiedAt,
+  };
+}
+
+function manager(): ContactsCacheManager {
+  return new ContactsCacheManager({ cacheDir: dir, source: new contactsSource.FakeContactsSource(sourceFile) });
+}
+
+const ANA = person("ana", "Ana Samat", "+33 6 12 34 56 78");
+const WINSTON = person("winston", "Winston Johnson", "(323) 656-8914");
+const INES = person("ines", "Inés García", "+44 7857 931718");
+const NO_PHONE: SourceContact = {
+  ...person("nophone", "No Phone Person", null),
+  emails: [{ label: "home", value: "nophone@example.com" }],
+};
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "apple-mcp-contacts-"));
+  sourceFile = join(dir, "contacts.json");
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("syncContacts", () => {
+  test("the first sync adds everyone, with or without a phone number", async () => {
+    writeContacts([ANA, WINSTON, NO_PHONE]);
+    const cache = manager();
+
+    const result = await cache.syncContacts();
+    expect(result).toMatchObject({ full: true, added: 3, updated: 0, deleted: 0, unchanged: 0 });
+    expect(result.changes.map((change) => [change.type, change.id])).toEqual([
+      ["added", ANA.id],
+      ["added", WINSTON.id],
+      ["added", NO_PHONE.id],
+    ]);
+    expect((await cache.findContactByPhoneNumber("+13236568914"))?.id).toBe(WINSTON.id);
+    expect((await cache.getContactById(NO_PHONE.id))?.phoneNumbers).toEqual([]);
+  });
+
+  test("a contact with only an email is found through the email index", async () => {
+    writeContacts([ANA, NO_PHONE]);
+    const cache = manager();
+    await cache.syncContacts();
+
+    expect((await cache.findContactByEmail(" NoPhone@Example.com"))?.name).toBe("No Phone Person");
+    expect((await cache.findContactByEmail("ana@example.com"))).toBeNull();
+    await cache.saveCache();
+
+    // The saved index resolves it too
+    const reloaded = manager();
+    await reloaded.loadExistingCache();
+    expect((await reloaded.findContactByEmail("nophone@example.com"))?.id).toBe(NO_PHONE.id);
+  });
+
+  test("adds people who appear later without re-reading the rest", async () => {
+    writeContacts([ANA, WINSTON]);
+    const cache = manager();
+    await cache.syncContacts();
+
+    writeContacts([ANA, WINSTON, INES]);
+    const result = await cache.syncContacts();
+    expect(result).toMatchObject({ full: false, added: 1, updated: 0, deleted: 0, unchanged: 2 });
+    expect(result.changes).toEqual([expect.objectContaining({ type: "added", id: INES.id, name: "Inés García" })]);
+  });
+
+  test("re-reads only people whose modification date moved", async () => {
+    writeContacts([ANA, WINSTON]);
+    const cache = manager();
+    await cache.syncContacts();
+
+    // Ana changed in Contacts; Winston's card differs too, but his modification date says it didn't change
+    writeContacts([
+      { ...ANA, phoneNumbers: [{ label: "work", value: "+33 1 23 45 67 89" }], modifiedAt: 2 },
+      { ...WINSTON, nickname: "Win" },
+    ]);
+    const result = await cache.syncContacts();
+    expect(result).toMatchObject({ full: false, added: 0, updated: 1, deleted: 0, unchanged: 1 });
+    expect(result.changes).toEqual([expect.objectContaining({ type: "updated", id: ANA.id })]);
+    expect((await cache.getContactById(ANA.id))?.phoneNumbers).toEqual(["+33 1 23 45 67 89"]);
+    expect((await cache.getContactById(WINSTON.id))?.nickname).toBeUndefined();
+    expect(await cache.findContactByPhoneNumber("+33612345678")).toBeNull();
+  });
+
+  test("a newer modification date with nothing visible changed is not reported", async () => {
+    writeContacts([ANA]);
+    const cache = manager();
+    await cache.syncContacts();
+
+    writeContacts([{ ...ANA, modifiedAt: 5 }]);
+    const result = await cache.syncContacts();
+    expect(result).toMatchObject({ added: 0, updated: 0, deleted: 0, unchanged: 1 });
+  });
+
+  test("deletes people by id when they leave the source", async () => {
+    writeContacts([ANA, WINSTON, INES]);
+    const cache = manager();
+    await cache.syncContacts();
+
+    writeContacts([ANA, INES]);
+    const result = await cache.syncContacts();
+    expect(result).toMatchObject({ added: 0, updated: 0, deleted: 1, unchanged: 2 });
+    expect(result.changes.map((change) => [change.type, change.id])).toEqual([["deleted", WINSTON.id]]);
+    expect(await cache.getContactById(WINSTON.id)).toBeNull();
+    expect(await cache.findContactByPhoneNumber("+13236568914")).toBeNull();
+  });
+
+  test("someone who loses their last number stays cached, out of the phone index", async () => {
+    writeContacts([{ ...ANA, emails: [{ label: "home", value: "ana@example.com" }] }]);
+    const cache = manager();
+    await cache.syncContacts();
+
+    writeContacts([{ ...ANA, phoneNumbers: [], emails: [{ label: "home", value: "ana@example.com" }], modifiedAt: 2 }]);
+    const result = await cache.syncContacts();
+    expect(result.changes.map((change) => [change.type, change.id])).toEqual([["updated", ANA.id]]);
+    expect(await cache.findContactByPhoneNumber("+33612345678")).toBeNull();
+    expect((await cache.findContactByEmail("ana@example.com"))?.id).toBe(ANA.id);
+  });
+
+  test("a renamed contact keeps its id and is an update, not a delete and add", async () => {
+    writeContacts([ANA]);
+    const cache = manager();
+    await cache.syncContacts();
+
+    writeContacts([{ ...ANA, name: "Ana Samat-Leroy", modifiedAt: 2 }]);
+    const result = await cache.syncContacts();
+    expect(result.changes.map((change) => [change.type, change.name])).toEqual([["updated", "Ana Samat-Leroy"]]);
+  });
+
+  test("survives a restart: stamps and contacts are read back from disk", async () => {
+    writeContacts([ANA, WINSTON]);
+    const first = manager();
+    await first.syncContacts();
+    await first.saveCache();
+
+    const second = manager();
+    await second.loadExistingCache();
+    const result = await second.syncContacts();
+    expect(result).toMatchObject({ full: false, added: 0, updated: 0, deleted: 0, unchanged: 2 });
+  });
+});
+
+describe("patchContact", () => {
+  test("a card saved without a phone number is cached and found by email", async () => {
+    writeContacts([ANA]);
+    const cache = manager();
+    await cache.syncContacts();
+
+    expect(await cache.patchContact(NO_PHONE)).toMatchObject({ type: "added", id: NO_PHONE.id });
+    expect((await cache.findContactByEmail("nophone@example.com"))?.name).toBe("No Phone Person");
+    expect(await cache.patchContact({ ...ANA, phoneNumbers: [], modifiedAt: 2 })).toMatchObject({ type: "updated", id: ANA.id });
+    expect(await cache.findContactByPhoneNumber("+33612345678")).toBeNull();
+    expect(await cache.getContactsCount()).toBe(2);
+  });
+});
+
+describe("legacy caches", () => {
+  test("name-keyed entries without ids are migrated by a full sync, not reported as new", async () => {
+    writeFileSync(
+      join(dir, "contacts-cache.json"),
+      JSON.stringify([
+        { name: "Ana Samat", phoneNumbers: ["+33 6 12 34 56 78"], lastUpdated: 1 },
+        { name: "Winston Johnson", phoneNumbers: ["(323) 555-0000"], lastUpdated: 1 },
+        { name: "Someone Gone", phoneNumbers: ["+1 212 555 0100"], lastUpdated: 1 },
+      ]),
+    );
+    writeContacts([ANA, WINSTON, INES]);
+    const cache = manager();
+    await cache.loadExistingCache();
+
+    const result = await cache.syncContacts();
+    expect(result.full).toBe(true);
+    // Legacy entries predate phone labels, so matched people count as updated; only Inés is new,
+    // and the legacy entry with no counterpart is dropped without a change (it never had an id)
+    expect(result.changes.map((change) => [change.type, change.name])).toEqual([
+      ["updated", "Ana Samat"],
+      ["updated", "Winston Johnson"],
+      ["added", "Inés García"],
+    ]);
+    const contacts = await cache.getAllContacts();
+    expect(contacts.map((contact) => contact.id).sort()).toEqual([ANA.id, INES.id, WINSTON.id].sort());
+    expect(await cache.findContactByName("Someone Gone")).toBeNull();
+    expect((await cache.getContactById(ANA.id))?.name).toBe("Ana Samat");
+  });
+
+  test("a cache with one id-less entry left still gets a full sync", async () => {
+    writeFileSync(
+      join(dir, "contacts-cache.json"),
+      JSON.stringify([
+        {
+          id: ANA.id,
+          modifiedAt: 1,
+          name: "Ana Samat",
+          phoneNumbers: ["+33 6 12 34 56 78"],
+          phoneLabels: { "+33 6 12 34 56 78": "mobile" },
+          lastUpdated: 1,
+        },
+        {
+          name: "Winston Johnson",
+          phoneNumbers: ["(323) 656-8914"],
+          phoneLabels: { "(323) 656-8914": "mobile" },
+          lastUpdated: 1,
+        },
+      ]),
+    );
+    writeFileSync(join(dir, "contacts-sync.json"), JSON.stringify({ lastSync: 1, stamps: { [ANA.id]: 1 }, changes: [] }));
+    writeContacts([ANA, WINSTON]);
+    const cache = manager();
+    await cache.loadExistingCache();
+
+    const result = await cache.syncContacts();
+    expect(result.full).toBe(true);
+    expect(result.changes).toEqual([]);
+    expect((await cache.getContactById(WINSTON.id))?.name).toBe("Winston Johnson");
+  });
+});
+
+describe("change log", () => {
+  test("keeps only the newest 500 changes, across syncs and restarts", async () => {
+    const crowd = Array.from({ length: 300 }, (_, i) => person(`p${i}`, `Person ${i}`, `+1 415 555 ${String(i).padStart(4, "0")}`));
+    writeContacts(crowd);
+    const cache = manager();
+    expect((await cache.syncContacts()).added).toBe(300);
+
+    writeContacts([]);
+    const result = await cache.syncContacts();
+    expect(result.deleted).toBe(300);
+    expect(result.changes).toHaveLength(300);
+
+    const recent = await cache.getRecentChanges(1000);
+    expect(recent).toHaveLength(500);
+    // Newest first: all 300 deletions, then the last 200 additions
+    expect(recent.slice(0, 300).every((change) => change.type === "deleted")).toBe(true);
+    expect(recent.slice(300).every((change) => change.type === "added")).toBe(true);
+    expect(recent[499].id).toBe("p100:ABPerson");
+
+    await cache.saveCache();
+    const reloaded = manager();
+    await reloaded.loadExistingCache();
+    expect(await reloaded.getRecentChanges(1000)).toEqual(recent);
+  });
+});
@@ -0,0 +1,142 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import { writeFileSync } from "node:fs";
+import { getSharedCacheManager } from "../cache-manager";
+import contactsCached from "../utils/contacts-cached";
+import type { SourceContact } from "../utils/contacts-source";
+
+// "--MM-DD" for the day that is `days` from today
+function birthdayIn(days: number, year = "-"): string {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return `${year}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+const CONTACTS: SourceContact[] = [
+  {
+    id: "cached-1:ABPerson",
+    name: "Winston Johnson",
+    phoneNumbers: [{ label: "mobile", value: "(323) 656-8914" }],
+    emails: [{ label: "work", value: "winston@acme.example" }],
+    organization: "Acme Corp",
+    birthday: birthdayIn(10, "1990"),
+    modifiedAt: 1,
+  },
+  {
+    id: "cached-2:ABPerson",
+    name: "Ana Samat",
+    phoneNumbers: [{ label: "iphone", value: "+33 6 12 34 56 78" }],
+    emails: [{ label: "home", value: "ana@example.com" }],
+    organization: "Acme Corporation",
+    birthday: birthdayIn(45),
+    modifiedAt: 1,
+  },
+  {
+    id: "cached-3:ABPerson",
+    name: "Priya Shah",
+    phoneNumbers: [],
+    emails: [{ label: "work", value: "priya@eu.acme.example" }],
+    organization: "Acme Corp",
+    birthday: birthdayIn(0),
+    modifiedAt: 1,
+  },
+  {
+    id: "cached-5:ABPerson",
+    name: "Winston Jones",
+    phoneNumbers: [{ label: "mobile", value: "+1 310 555 0142" }],
+    emails: [],
+    organization: "Jones & Sons",
+    modifiedAt: 1,
+  },
+  {
+    id: "cached-4:ABPerson",
+    name: "No Phone Person",
+    phoneNumbers: [],
+    emails: [{ label: "home", value: "nophone@example.com" }],
+    modifiedAt: 1,
+  },
+];
+
+beforeAll(async () => {
+  writeFileSync(process.env.APPLE_MCP_CONTACTS_SOURCE!, JSON.stringify(CONTACTS));
+  await getSharedCacheManager().syncContacts({ full: true });
+});
+
+describe("lookupContact", () => {
+  test("by phone number in any format", async () => {
+    expect((await contactsCached.lookupContact("+1 323-656-8914"))?.name).toBe("Winston Johnson");
+    expect((await contactsCached.lookupContact("+33612345678"))?.name).toBe("Ana Samat");
+  });
+
+  test("by email, including contacts with no phone number", async () => {
+    expect(await contactsCached.lookupContact("NoPhone@example.com")).toEqual({
+      id: "cached-4:ABPerson",
+      name: "No Phone Person",
+      phones: [],
+      emails: [{ label: "home", address: "nophone@example.com" }],
+      addresses: [],
+    });
+    expect((await contactsCached.lookupContact("priya@eu.acme.example"))?.organization).toBe("Acme Corp");
+  });
+
+  test("an unknown handle is null", async () => {
+    expect(await contactsCached.lookupContact("+1 212 555 0100")).toBeNull();
+    expect(await contactsCached.lookupContact("someone@example.com")).toBeNull();
+  });
+});
+
+describe("findContactsByOrganization", () => {
+  test("by organization, case-insensitively and sorted by name", async () => {
+    const people = await contactsCached.findContactsByOrganization({ organization: "acme corp" });
+    expect(people.map((person) => person.name)).toEqual(["Ana Samat", "Priya Shah", "Winston Johnson"]);
+  });
+
+  test("by email domain, subdomains included", async () => {
+    const people = await contactsCached.findContactsByOrganization({ domain: "@ACME.example" });
+    expect(people.map((person) => person.name)).toEqual(["Priya Shah", "Winston Johnson"]);
+  });
+
+  test("nothing to match on finds nobody", async () => {
+    expect(await contactsCached.findContactsByOrganization({ organization: " " })).toEqual([]);
+  });
+});
+
+describe("getUpcomingBirthdays", () => {
+  test("soonest first, with the age when the year is known", async () => {
+    const upcoming = await contactsCached.getUpcomingBirthdays(30);
+    expect(upcoming.map((birthday) => [birthday.contact.name, birthday.daysUntil])).toEqual([
+      ["Priya Shah", 0],
+      ["Winston Johnson", 10],
+    ]);
+    expect(upcoming[0].turning).toBeUndefined();
+    expect(upcoming[1].turning).toBe(Number(upcoming[1].date.substring(0, 4)) - 1990);
+    expect(upcoming[1].date).toBe(birthdayIn(10, upcoming[1].date.substring(0, 4)));
+  });
+
+  test("a longer window reaches further", async () => {
+    const upcoming = await contactsCached.getUpcomingBirthdays(60);
+    expect(upcoming.map((birthday) => birthday.contact.name)).toEqual(["Priya Shah", "Winston Johnson", "Ana Samat"]);
+  });
+});
+
+describe("prepareUpdateContact", () => {
+  test("a name that fits several contacts about equally lists them instead of picking one", async () => {
+    const attempt = contactsCached.prepareUpdateContact({ name: "Winston", jobTitle: "Designer" });
+    await expect(attempt).rejects.toThrow(
+      '"Winston" matches several contacts: Winston Johnson (Acme Corp, cached-1:ABPerson); Winston Jones (Jones & Sons, cached-5:ABPerson). Use a full name or the contactId.',
+    );
+  });
+
+  test("a full name or a contact id picks one", async () => {
+    const byName = await contactsCached.prepareUpdateContact({ name: "Winston Jones", jobTitle: "Designer" });
+    expect(byName).toMatchObject({ action: "update", contactName: "Winston Jones", contactId: "cached-5:ABPerson" });
+
+    const byId = await contactsCached.prepareUpdateContact({ contactId: "cached-1:ABPerson", name: "Winston", jobTitle: "Designer" });
+    expect(byId).toMatchObject({ contactName: "Winston Johnson", contactId: "cached-1:ABPerson" });
+  });
+
+  test("a clear best match is not a tie", async () => {
+    expect(await contactsCached.prepareUpdateContact({ name: "Priya", jobTitle: "Designer" })).toMatchObject({
+      contactId: "cached-3:ABPerson",
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import type { DecodedAttributedBody } from "../../utils/typedstream";
+
+/**
+ * message.attributedBody blobs with the text and attributes they decode to.
+ * "Hello" and the mention are laid out byte for byte like Messages on macOS writes them
+ * (NSAttributedString, a repeated attribute set referenced by number); the rest come from
+ * the fixture writer (NSMutableAttributedString, one attribute set per run).
+ */
+interface AttributedBodyFixture {
+  name: string;
+  hex: string;
+  expected: Partial<DecodedAttributedBody>;
+}
+
+const ATTRIBUTED_BODIES: AttributedBodyFixture[] = [
+  {
+    name: "plain text",
+    hex:
+      "040b73747265616d747970656481e803840140848484124e5341747472696275746564537472696e67008484084e534f" +
+      "626a656374008592848484084e53537472696e67019484012b0548656c6c6f86840269490105928484840c4e53446963" +
+      "74696f6e617279009484016901928496961d5f5f6b494d4d657373616765506172744174747269627574654e616d6586" +
+      "92848484084e534e756d626572008484074e5356616c7565009484012a84999900868686",
+    expected: {
+      text: "Hello",
+      runs: [{ location: 0, length: 5, attributes: { __kIMMessagePartAttributeName: 0 } }],
+      mentions: [],
+      links: [],
+      formatting: [],
+    },
+  },
+  {
+    name: "mention with a reused attribute set",
+    hex:
+      "040b73747265616d747970656481e803840140848484124e5341747472696275746564537472696e67008484084e534f" +
+      "626a656374008592848484084e53537472696e67019484012b07486920416e612186840269490103928484840c4e5344" +
+      "696374696f6e617279009484016901928496961d5f5f6b494d4d657373616765506172744174747269627574654e616d" +
+      "658692848484084e534e756d626572008484074e5356616c7565009484012a8499990086869702039284989902928496" +
+      "961d5f5f6b494d4d657373616765506172744174747269627574654e616d658692849b9c9d990086928496961c5f5f6b" +
+      "494d4d656e74696f6e436f6e6669726d65644d656e74696f6e86928496960c2b33333631323334353637388686970101" +
+      "86",
+    expected: {
+      text: "Hi Ana!",
+      runs: [
+        { location: 0, length: 3, attributes: { __kIMMessagePartAttributeName: 0 } },
+        {
+          location: 3,
+          length: 3,
+          attributes: { __kIMMessagePartAttributeName: 0, __kIMMentionConfirmedMention: "+33612345678" },
+        },
+        { location: 6, length: 1, attributes: { __kIMMessagePartAttributeName: 0 } },
+      ],
+      mentions: [{ handle: "+33612345678", text: "Ana", location: 3, length: 3 }],
+    },
+  },
+  {
+    name: "link preview",
+    hex:
+      "040b73747265616d747970656481e803840140848484194e534d757461626c6541747472696275746564537472696e67" +
+      "008484124e5341747472696275746564537472696e67008484084e534f626a656374008592848484084e53537472696e" +
+      "67019584012b1b68747470733a2f2f6578616d706c652e636f6d2f61727469636c658684026949011b928484840c4e53" +
+      "44696374696f6e617279009584016903928497971d5f5f6b494d4d657373616765506172744174747269627574654e61" +
+      "6d658692848484084e534e756d626572008484074e5356616c7565009584012a849a9a008692849797165f5f6b494d4c" +
+      "696e6b4174747269627574654e616d658692848484054e5355524c009584016300928497971b68747470733a2f2f6578" +
+      "616d706c652e636f6d2f61727469636c65868692849797205f5f6b494d4c696e6b4973526963684c696e6b4174747269" +
+      "627574654e616d658692849c9d849a9a01868686",
+    expected: {
+      text: "https://example.com/article",
+      links: [
+        { url: "https://example.com/article", text: "https://example.com/article", location: 0, length: 27, richLink: true },
+      ],
+      mentions: [],
+    },
+  },
+  {
+    name: "formatting ranges and a text effect",
+    hex:
+      "040b73747265616d747970656481e803840140848484194e534d757461626c6541747472696275746564537472696e67" +
+      "008484124e5341747472696275746564537472696e67008484084e534f626a656374008592848484084e53537472696e" +
+      "67019584012b17626f6c64206974616c696320706c61696e20756e64657286840269490105928484840c4e5344696374" +
+      "696f6e617279009584016902928497971d5f5f6b494d4d657373616765506172744174747269627574654e616d658692" +
+      "848484084e534e756d626572008484074e5356616c7565009584012a849a9a0086928497971a5f5f6b494d5465787442" +
+      "6f6c644174747269627574654e616d658692849c9d849a9a0186869802079284999a03928497971d5f5f6b494d4d6573" +
+      "73616765506172744174747269627574654e616d658692849c9d849a9a0086928497971c5f5f6b494d54657874497461" +
+      "6c69634174747269627574654e616d658692849c9d849a9a018692849797235f5f6b494d54657874537472696b657468" +
+      "726f7567684174747269627574654e616d658692849c9d849a9a0186869803069284999a01928497971d5f5f6b494d4d" +
+      "657373616765506172744174747269627574654e616d658692849c9d849a9a0086869804059284999a03928497971d5f" +
+      "5f6b494d4d657373616765506172744174747269627574654e616d658692849c9d849a9a0086928497971f5f5f6b494d" +
+      "54657874556e6465726c696e654174747269627574654e616d658692849c9d849a9a0186928497971c5f5f6b494d5465" +
+      "78744566666563744174747269627574654e616d658692849c9d849a9a05868686",
+    expected: {
+      text: "bold italic plain under",
+      formatting: [
+        { style: "bold", location: 0, length: 5 },
+        { style: "italic", location: 5, length: 7 },
+        { style: "strikethrough", location: 5, length: 7 },
+        { style: "underline", location: 18, length: 5 },
+      ],
+      effects: [{ effect: 5, location: 18, length: 5 }],
+      mentions: [],
+      links: [],
+    },
+  },
+  {
+    name: "inline attachment and an emoji (UTF-16 lengths)",
+    hex:
+      "040b73747265616d747970656481e803840140848484194e534d757461626c6541747472696275746564537472696e67" +
+      "008484124e5341747472696275746564537472696e67008484084e534f626a656374008592848484084e53537472696e" +
+      "67019584012b0cefbfbc4c6f6f6b20f09f8e8986840269490101928484840c4e5344696374696f6e6172790095840169" +
+      "02928497971d5f5f6b494d4d657373616765506172744174747269627574654e616d658692848484084e534e756d6265" +
+      "72008484074e5356616c7565009584012a849a9a008692849797225f5f6b494d46696c655472616e7366657247554944" +
+      "4174747269627574654e616d6586928497972961745f305f46334131433244342d313131312d323232322d333333332d" +
+      "34343434353535353636363686869802079284999a01928497971d5f5f6b494d4d657373616765506172744174747269" +
+      "627574654e616d658692849c9d849a9a01868686",
+    expected: {
+      text: "￼Look 🎉",
+      runs: [
+        {
+          location: 0,
+          length: 1,
+          attributes: {
+            __kIMMessagePartAttributeName: 0,
+            __kIMFileTransferGUIDAttributeName: "at_0_F3A1C2D4-1111-2222-3333-444455556666",
+          },
+        },
+        { location: 1, length: 7, attributes: { __kIMMessagePartAttributeName: 1 } },
+      ],
+      attachmentGuids: ["at_0_F3A1C2D4-1111-2222-3333-444455556666"],
+    },
+  },
+];
+
+// The "Hello" blob split around its string and run length, to rebuild it with longer text
+const PLAIN_BEFORE_TEXT =
+  "040b73747265616d747970656481e803840140848484124e5341747472696275746564537472696e67008484084e534f" +
+  "626a656374008592848484084e53537472696e67019484012b";
+const PLAIN_BEFORE_RUN_LENGTH = "868402694901";
+const PLAIN_AFTER_RUN_LENGTH =
+  "928484840c4e5344696374696f6e617279009484016901928496961d5f5f6b494d4d657373616765506172744174747269" +
+  "627574654e616d658692848484084e534e756d626572008484074e5356616c7565009484012a84999900868686";
+
+/**
+ * Length prefix as typedstream writes it: one byte, 0x81 + int16, or 0x82 + int32 (little-endian)
+ */
+function lengthPrefix(length: number): Buffer {
+  if (length <= 127) return Buffer.from([length]);
+  if (length <= 32767) {
+    const prefix = Buffer.alloc(3);
+    prefix[0] = 0x81;
+    prefix.writeInt16LE(length, 1);
+    return prefix;
+  }
+  const prefix = Buffer.alloc(5);
+  prefix[0] = 0x82;
+  prefix.writeInt32LE(length, 1);
+  return prefix;
+}
+
+/**
+ * A Messages-layout plain text blob, with the string and run lengths in whichever prefix size they need
+ */
+function plainAttributedBody(text: string): Uint8Array {
+  const encoded = Buffer.from(text, "utf8");
+  return Buffer.concat([
+    Buffer.from(PLAIN_BEFORE_TEXT, "hex"),
+    lengthPrefix(encoded.length),
+    encoded,
+    Buffer.from(PLAIN_BEFORE_RUN_LENGTH, "hex"),
+    lengthPrefix(text.length),
+    Buffer.from(PLAIN_AFTER_RUN_LENGTH, "hex"),
+  ]);
+}
+
+export type { AttributedBodyFixture };
+
+export { ATTRIBUTED_BODIES, plainAttributedBody };
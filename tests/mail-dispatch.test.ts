@@ -0,0 +1,127 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import FakeImapServer from "./support/imap-server";
+import McpTestClient from "./support/mcp-client";
+
+const USER = "ana@example.com";
+const PASSWORD = "s3cret";
+
+const imap = new FakeImapServer({
+  user: USER,
+  password: PASSWORD,
+  mailboxes: [
+    {
+      path: "INBOX",
+      messages: [
+        {
+          subject: "Invoice 42",
+          from: "billing@acme.example",
+          to: USER,
+          date: "Wed, 14 Oct 2026 08:00:00 +0000",
+          body: "Your invoice is attached.",
+          attachment: { filename: "invoice.pdf", contentType: "application/pdf", content: "%PDF-1.4 fake" },
+        },
+      ],
+    },
+  ],
+});
+const client = new McpTestClient();
+let port = 0;
+
+beforeAll(async () => {
+  port = await imap.start();
+  await client.start();
+}, 30000);
+
+afterAll(async () => {
+  await client.stop();
+  await imap.stop();
+});
+
+// One server process for the file, so the tests run in order: setup before list and search
+describe("mail tool IMAP operations", () => {
+  test("list-imap-accounts starts empty", async () => {
+    const result = await client.callTool("mail", { operation: "list-imap-accounts" });
+    expect(result.isError).toBe(false);
+    expect(result.content[0].text).toContain("No IMAP accounts configured");
+  });
+
+  test("setup-imap reports a failed login", async () => {
+    const result = await client.callTool("mail", {
+      operation: "setup-imap",
+      imapAccount: "billing",
+      imapUser: USER,
+      imapPassword: "wrong",
+      imapHost: "127.0.0.1",
+      imapPort: port,
+      imapTls: false,
+    });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("Error with mail operation: Error setting up mail account: Connection failed");
+  });
+
+  test("setup-imap saves an account that can log in", async () => {
+    const result = await client.callTool("mail", {
+      operation: "setup-imap",
+      imapAccount: "billing",
+      imapUser: USER,
+      imapPassword: PASSWORD,
+      imapHost: "127.0.0.1",
+      imapPort: port,
+      imapTls: false,
+    });
+    expect(result.isError).toBe(false);
+    expect(result.content[0].text).toBe(
+      `IMAP account "billing" configured for ${USER} at 127.0.0.1:${port}. Use imap-search with imapAccount "billing" to search it.`,
+    );
+  });
+
+  test("list-imap-accounts shows the saved account", async () => {
+    const result = await client.callTool("mail", { operation: "list-imap-accounts" });
+    expect(result.content[0].text).toBe("Found 1 IMAP account(s):\n\nbilling");
+  });
+
+  test("imap-search returns matching mail with attachments", async () => {
+    const result = await client.callTool("mail", { operation: "imap-search", imapAccount: "billing", searchTerm: "invoice" });
+    expect(result.isError).toBe(false);
+    const text = result.content[0].text;
+    expect(text).toStartWith('Found 1 email(s) for "invoice" in IMAP account "billing":');
+    expect(text).toContain("From: billing@acme.example");
+    expect(text).toContain("Subject: Invoice 42 (unread)");
+    expect(text).toContain("Your invoice is attached.");
+    expect(text).toContain("📎 invoice.pdf (application/pdf");
+  });
+
+  test("imap-search says when nothing matches", async () => {
+    const result = await client.callTool("mail", { operation: "imap-search", imapAccount: "billing", searchTerm: "holiday" });
+    expect(result.content[0].text).toBe('No emails found for "holiday" in IMAP account "billing"');
+  });
+
+  test("imap-search on an unknown account is an error", async () => {
+    const result = await client.callTool("mail", { operation: "imap-search", imapAccount: "nobody", searchTerm: "invoice" });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("No credentials found for account nobody");
+  });
+});
+
+describe("mail tool argument validation", () => {
+  const invalid: Array<[string, Record<string, unknown>]> = [
+    ["imap-search without imapAccount", { operation: "imap-search", searchTerm: "invoice" }],
+    ["imap-search without searchTerm", { operation: "imap-search", imapAccount: "billing" }],
+    ["imap-search with a numeric account", { operation: "imap-search", imapAccount: 7, searchTerm: "invoice" }],
+    ["setup-imap without imapHost", { operation: "setup-imap", imapAccount: "a", imapUser: USER, imapPassword: PASSWORD }],
+    ["setup-imap without imapPassword", { operation: "setup-imap", imapAccount: "a", imapUser: USER, imapHost: "127.0.0.1" }],
+    ["setup-imap without imapUser", { operation: "setup-imap", imapAccount: "a", imapPassword: PASSWORD, imapHost: "127.0.0.1" }],
+    ["setup-imap without imapAccount", { operation: "setup-imap", imapUser: USER, imapPassword: PASSWORD, imapHost: "127.0.0.1" }],
+    ["an unknown operation", { operation: "imap-delete", imapAccount: "billing" }],
+  ];
+
+  for (const [label, args] of invalid) {
+    test(`rejects ${label}`, async () => {
+      const result = await client.callTool("mail", args);
+      expect(result).toEqual({
+        content: [{ type: "text", text: "Error: Invalid arguments for mail tool" }],
+        isError: true,
+      });
+    });
+  }
+});
@@ -0,0 +1,131 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import mailImap from "../utils/mail-imap";
+import fakeKeytar from "./support/fake-keytar";
+import FakeImapServer from "./support/imap-server";
+
+const USER = "ana@example.com";
+const PASSWORD = "correct horse";
+
+const server = new FakeImapServer({
+  user: USER,
+  password: PASSWORD,
+  mailboxes: [
+    {
+      path: "INBOX",
+      messages: [
+        {
+          subject: "Quarterly report",
+          from: "winston@acme.example",
+          to: USER,
+          date: "Mon, 12 Oct 2026 09:30:00 +0000",
+          body: "The quarterly numbers are attached.",
+          seen: true,
+          attachment: { filename: "report.pdf", contentType: "application/pdf", content: "%PDF-1.4 fake" },
+        },
+        {
+          subject: "Lunch?",
+          from: "ines@example.com",
+          to: USER,
+          date: "Tue, 13 Oct 2026 12:00:00 +0000",
+          body: "Are you free for lunch on Thursday?",
+        },
+      ],
+    },
+    {
+      path: "Sent",
+      messages: [
+        {
+          subject: "Re: Quarterly report",
+          from: USER,
+          to: "winston@acme.example",
+          date: "Mon, 12 Oct 2026 10:00:00 +0000",
+          body: "Thanks, looks good.",
+          seen: true,
+        },
+      ],
+    },
+    { path: "Drafts", messages: [{ subject: "quarterly draft", from: USER, to: USER, date: "Mon, 12 Oct 2026 11:00:00 +0000", body: "unsent" }] },
+    { path: "[Gmail]", flags: ["\\Noselect"] },
+  ],
+});
+let port = 0;
+
+beforeAll(async () => {
+  port = await server.start();
+});
+
+afterAll(async () => {
+  await server.stop();
+});
+
+beforeEach(() => {
+  fakeKeytar.clear();
+});
+
+describe("setupMailAccount", () => {
+  test("saves the credentials after a successful login", async () => {
+    expect(await mailImap.setupMailAccount("work", USER, PASSWORD, "127.0.0.1", port, false)).toBe(true);
+    expect(await mailImap.getCredentials("work")).toEqual({ user: USER, password: PASSWORD, host: "127.0.0.1", port, tls: false });
+  });
+
+  test("rejects bad credentials without saving them", async () => {
+    await expect(mailImap.setupMailAccount("work", USER, "wrong", "127.0.0.1", port, false)).rejects.toThrow(
+      /Connection failed/,
+    );
+    expect(await mailImap.getCredentials("work")).toBeNull();
+  });
+});
+
+describe("listImapAccounts", () => {
+  test("lists saved accounts in order", async () => {
+    expect(await mailImap.listImapAccounts()).toEqual([]);
+    await mailImap.setupMailAccount("work", USER, PASSWORD, "127.0.0.1", port, false);
+    await mailImap.setupMailAccount("home", USER, PASSWORD, "127.0.0.1", port, false);
+    expect(await mailImap.listImapAccounts()).toEqual(["home", "work"]);
+  });
+});
+
+describe("searchMailsImap", () => {
+  test("fails for an account that was never set up", async () => {
+    await expect(mailImap.searchMailsImap("missing", "report")).rejects.toThrow(/No credentials found for account missing/);
+  });
+
+  test("searches inbox and sent folders, decoding bodies and listing attachments", async () => {
+    await mailImap.setupMailAccount("work", USER, PASSWORD, "127.0.0.1", port, false);
+    const results = await mailImap.searchMailsImap("work", "quarterly");
+
+    expect(results.map((email) => [email.mailbox, email.subject])).toEqual([
+      ["INBOX", "Quarterly report"],
+      ["Sent", "Re: Quarterly report"],
+    ]);
+    expect(results[0]).toMatchObject({
+      sender: "winston@acme.example",
+      dateSent: "2026-10-12T09:30:00.000Z",
+      content: "The quarterly numbers are attached.",
+      isRead: true,
+    });
+    expect(results[0].attachments).toEqual([
+      expect.objectContaining({ filename: "report.pdf", contentType: "application/pdf", part: "2" }),
+    ]);
+    // Drafts and \Noselect folders are never opened
+    expect(server.commands.some((command) => /SELECT "(Drafts|\[Gmail\])"/.test(command))).toBe(false);
+  });
+
+  test("stops at the limit", async () => {
+    await mailImap.setupMailAccount("work", USER, PASSWORD, "127.0.0.1", port, false);
+    expect(await mailImap.searchMailsImap("work", "quarterly", 1)).toHaveLength(1);
+  });
+
+  test("reports unread messages", async () => {
+    await mailImap.setupMailAccount("work", USER, PASSWORD, "127.0.0.1", port, false);
+    const [lunch] = await mailImap.searchMailsImap("work", "lunch");
+    expect(lunch).toMatchObject({ subject: "Lunch?", isRead: false, attachments: [] });
+  });
+
+  test("wraps connection errors", async () => {
+    await mailImap.setupMailAccount("work", USER, PASSWORD, "127.0.0.1", port, false);
+    const credentials = (await mailImap.getCredentials("work"))!;
+    await fakeKeytar.setPassword("apple-mcp-mail", "work", JSON.stringify({ ...credentials, password: "changed" }));
+    await expect(mailImap.searchMailsImap("work", "quarterly")).rejects.toThrow(/Error searching emails via IMAP/);
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, expect, test } from "bun:test";
+import type { MessageStructureObject } from "imapflow";
+import mailMime, { type MimeTextPart } from "../utils/mail-mime";
+
+function textPart(overrides: Partial<MimeTextPart> = {}): MimeTextPart {
+  return { part: "1", contentType: "text/plain", encoding: "7bit", charset: "utf-8", ...overrides };
+}
+
+function raw(text: string): Buffer {
+  return Buffer.from(text, "latin1");
+}
+
+describe("transfer encodings", () => {
+  test("quoted-printable escapes and soft line breaks", () => {
+    const body = raw("Caf=C3=A9 au lait, =E2=82=AC3 =\r\nthe cup=3D\r\nsecond line=\nstill second");
+    expect(mailMime.decodeTextPart(body, textPart({ encoding: "quoted-printable" }))).toBe(
+      "Café au lait, €3 the cup=\nsecond linestill second",
+    );
+  });
+
+  test("quoted-printable leaves a stray = alone", () => {
+    expect(mailMime.decodeQuotedPrintable(raw("50% =off =ZZ")).toString("latin1")).toBe("50% =off =ZZ");
+  });
+
+  test("base64 wrapped over several lines", () => {
+    const encoded = Buffer.from("Grüße aus Köln\nZweite Zeile").toString("base64").replace(/(.{8})/g, "$1\r\n");
+    expect(mailMime.decodeTextPart(raw(encoded), textPart({ encoding: "BASE64" }))).toBe("Grüße aus Köln\nZweite Zeile");
+  });
+
+  test("7bit, 8bit and binary pass through", () => {
+    for (const encoding of ["7bit", "8bit", "binary", ""]) {
+      expect(mailMime.decodeTransferEncoding(raw("a=41 b"), encoding).toString("latin1")).toBe("a=41 b");
+    }
+  });
+
+  test("text already decoded by the server is not decoded twice", () => {
+    expect(mailMime.decodeTextPart(raw("=41"), textPart({ encoding: "quoted-printable" }), true)).toBe("=41");
+  });
+});
+
+describe("charsets", () => {
+  test.each([
+    ["iso-8859-1", Buffer.from([0x63, 0x61, 0x66, 0xe9]), "café"],
+    ["windows-1252", Buffer.from([0x80, 0x20, 0x93, 0x71, 0x94]), "€ “q”"],
+    ['"UTF-8"', Buffer.from("naïve", "utf8"), "naïve"],
+    ["us-ascii", Buffer.from("plain"), "plain"],
+    ["shift_jis", Buffer.from([0x93, 0xfa, 0x96, 0x7b]), "日本"],
+  ])("%s", (charset, bytes, expected) => {
+    expect(mailMime.decodeCharset(bytes, charset)).toBe(expected);
+  });
+
+  test("an unknown charset falls back to UTF-8", () => {
+    expect(mailMime.decodeCharset(Buffer.from("ok ✓", "utf8"), "x-unheard-of")).toBe("ok ✓");
+  });
+
+  test("quoted-printable in latin-1 decodes through the part's charset", () => {
+    expect(mailMime.decodeTextPart(raw("Fa=E7ade"), textPart({ encoding: "quoted-printable", charset: "iso-8859-1" }))).toBe(
+      "Façade",
+    );
+  });
+
+  test("RFC 2047 encoded words in names", () => {
+    expect(mailMime.decodeMimeWords("=?UTF-8?B?UmFwcG9ydA==?= =?ISO-8859-1?Q?_d=E9cembre?=.pdf")).toBe("Rapport décembre.pdf");
+    expect(mailMime.decodeMimeWords("plain.txt")).toBe("plain.txt");
+  });
+});
+
+describe("htmlToText", () => {
+  test("drops markup, scripts and styles and keeps the text", () => {
+    const html =
+      "<html><head><title>T</title><style>p{color:red}</style></head><body>" +
+      "<script>alert('x')</script><!-- hidden --><p>Hello&nbsp;<b>Ana</b> &amp; co</p>" +
+      "<ul><li>one</li><li>two</li></ul>line<br>break &#8364;5 &#x263A; &unknown;</body></html>";
+    expect(mailMime.htmlToText(html)).toBe("Hello Ana & co\n\n• one\n• two\n\nline\nbreak €5 ☺ &unknown;");
+  });
+
+  test("links keep their target unless the label is the target", () => {
+    expect(mailMime.htmlToText('<a href="https://a.example/x">Read <i>more</i></a> <a href="https://b.example">https://b.example</a>')).toBe(
+      "Read more (https://a.example/x) https://b.example",
+    );
+  });
+
+  test("an HTML part is converted when it is the only text", () => {
+    const html = raw("<div>Invoice <strong>42</strong></div><div>Due =E2=80=94 Friday</div>");
+    expect(mailMime.decodeTextPart(html, textPart({ contentType: "text/html", encoding: "quoted-printable" }))).toBe(
+      "Invoice 42\n\nDue — Friday",
+    );
+  });
+});
+
+describe("analyzeStructure", () => {
+  test("a single-part message is part 1", () => {
+    const layout = mailMime.analyzeStructure({ type: "text/plain", parameters: { charset: "ISO-8859-1" }, encoding: "quoted-printable", size: 10 });
+    expect(layout).toEqual({
+      textPart: { part: "1", contentType: "text/plain", encoding: "quoted-printable", charset: "ISO-8859-1" },
+      attachments: [],
+    });
+  });
+
+  test("plain text wins over HTML in multipart/alternative, and attachments are listed with their parts", () => {
+    const structure: MessageStructureObject = {
+      type: "multipart/mixed",
+      childNodes: [
+        {
+          part: "1",
+          type: "multipart/alternative",
+          childNodes: [
+            { part: "1.1", type: "text/html", encoding: "base64", parameters: { charset: "utf-8" }, size: 400 },
+            { part: "1.2", type: "text/plain", encoding: "quoted-printable", parameters: { charset: "utf-8" }, size: 200 },
+          ],
+        },
+        {
+          part: "2",
+          type: "application/pdf",
+          encoding: "base64",
+          size: 4000,
+          disposition: "attachment",
+          dispositionParameters: { filename: "=?UTF-8?Q?Facture_n=C2=B042?=.pdf" },
+        },
+        { part: "3", type: "image/png", encoding: "base64", size: 800, parameters: { name: "logo.png" }, disposition: "inline" },
+        { part: "4", type: "text/plain", encoding: "7bit", size: 12, disposition: "attachment", dispositionParameters: { filename: "notes.txt" } },
+        { part: "5", type: "image/gif", encoding: "base64", size: 40 },
+      ],
+    };
+    expect(mailMime.analyzeStructure(structure)).toEqual({
+      textPart: { part: "1.2", contentType: "text/plain", encoding: "quoted-printable", charset: "utf-8" },
+      attachments: [
+        { filename: "Facture n°42.pdf", size: 3000, contentType: "application/pdf", part: "2" },
+        { filename: "logo.png", size: 600, contentType: "image/png", part: "3" },
+        { filename: "notes.txt", size: 12, contentType: "text/plain", part: "4" },
+        { filename: "part-5.gif", size: 30, contentType: "image/gif", part: "5" },
+      ],
+    });
+  });
+
+  test("HTML is the fallback when there is no plain text", () => {
+    const layout = mailMime.analyzeStructure({
+      type: "multipart/related",
+      childNodes: [
+        { type: "text/html", encoding: "7bit" },
+        { type: "image/jpeg", encoding: "base64", size: 400, parameters: { name: "photo.jpg" } },
+      ],
+    });
+    expect(layout.textPart).toEqual({ part: "1", contentType: "text/html", encoding: "7bit", charset: "utf-8" });
+    expect(layout.attachments).toEqual([{ filename: "photo.jpg", size: 300, contentType: "image/jpeg", part: "2" }]);
+  });
+
+  test("an embedded message is an attachment named after its subject, not walked into", () => {
+    const layout = mailMime.analyzeStructure({
+      type: "multipart/mixed",
+      childNodes: [
+        { part: "1", type: "text/plain", encoding: "7bit" },
+        {
+          part: "2",
+          type: "message/rfc822",
+          size: 900,
+          envelope: { subject: "Fwd: plans" },
+          childNodes: [{ part: "2.1", type: "text/plain", encoding: "7bit" }],
+        },
+      ],
+    });
+    expect(layout.textPart?.part).toBe("1");
+    expect(layout.attachments).toEqual([{ filename: "Fwd: plans.eml", size: 900, contentType: "message/rfc822", part: "2" }]);
+  });
+});
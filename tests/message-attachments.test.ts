@@ -0,0 +1,162 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import messageAttachments from "../utils/message-attachments";
+import messageEnhanced from "../utils/message-enhanced";
+import messagesStore from "../utils/messages-store";
+
+// Fixture attachments: the photo Inés sent (message 4) and the slides I sent Ana (message 5)
+const PHOTO = 1;
+const SLIDES = 2;
+let notes: number;
+let offloaded: number;
+let dir: string;
+
+const noNames = async () => null;
+
+beforeAll(async () => {
+  dir = mkdtempSync(join(tmpdir(), "apple-mcp-attachments-"));
+  const fixture = await messagesStore.createFixtureDatabase(join(process.env.APPLE_MCP_CACHE_DIR!, "chat.db"));
+
+  // A text file next to the fixture, and one whose file was offloaded to iCloud
+  writeFileSync(join(dirname(fixture.dbPath), "notes.txt"), "Bring sunscreen\n");
+  const store = new messagesStore.MessagesStore({ dbPath: fixture.dbPath, readonly: false });
+  store.run(
+    "INSERT INTO attachment (guid, filename, mime_type, transfer_name, total_bytes) VALUES ('NOTES', 'notes.txt', 'text/plain', 'notes.txt', 16)",
+  );
+  notes = store.get<{ id: number }>("SELECT last_insert_rowid() AS id")!.id;
+  store.run(
+    "INSERT INTO attachment (guid, filename, mime_type, transfer_name, total_bytes) VALUES ('ICLOUD', '~/Library/Messages/Attachments/gone/IMG_9999.HEIC', 'image/heic', 'IMG_9999.HEIC', 2202009)",
+  );
+  offloaded = store.get<{ id: number }>("SELECT last_insert_rowid() AS id")!.id;
+  store.close();
+
+  messagesStore.configureMessagesStore(fixture);
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("listing attachments", () => {
+  test("a message lists its attachments with resolved paths", () => {
+    const [photo] = messageAttachments.getMessageAttachments(4);
+    expect(photo).toMatchObject({ id: PHOTO, guid: "FIXTURE-ATTACHMENT-4", transferName: "IMG_0001.png", mimeType: "image/png", available: true });
+    expect(photo.path).toBe(join(dirname(messagesStore.getMessagesStore().dbPath), "Attachments/FIXTURE-4/IMG_0001.png"));
+    expect(photo.size).toBeGreaterThan(0);
+    expect(messageAttachments.getMessageAttachments(1)).toEqual([]);
+  });
+
+  test("reading a chat shows the attachments on their messages", async () => {
+    const result = await messageEnhanced.readChatMessages("ana@example.com", 10, noNames);
+    const slides = result.messages.find((message) => message.content.startsWith("Sent you the slides"));
+    expect(slides?.attachments?.map((attachment) => attachment.transferName)).toEqual(["slides.pdf"]);
+  });
+
+  test("descriptions name the file, type and size, and say when it is not downloaded", () => {
+    expect(messageAttachments.describeAttachment(messageAttachments.getAttachment(SLIDES)!)).toBe("#2 slides.pdf (application/pdf, 15 B)");
+    expect(messageAttachments.describeAttachment(messageAttachments.getAttachment(offloaded)!)).toBe(
+      `#${offloaded} IMG_9999.HEIC (image/heic, 2.1 MB, not downloaded)`,
+    );
+    expect(messageAttachments.getAttachment(999)).toBeNull();
+  });
+});
+
+describe("exporting attachments", () => {
+  test("copies the file under its original name without overwriting", async () => {
+    const first = await messageAttachments.exportAttachment(PHOTO, dir);
+    expect(first).toMatchObject({ success: true, path: join(dir, "IMG_0001.png") });
+    const second = await messageAttachments.exportAttachment(PHOTO, dir);
+    expect(second).toMatchObject({ success: true, path: join(dir, "IMG_0001 (2).png") });
+    expect(readFileSync(second.path!)).toEqual(readFileSync(first.path!));
+  });
+
+  test("creates the destination directory", async () => {
+    const result = await messageAttachments.exportAttachment(SLIDES, join(dir, "new", "folder"));
+    expect(result.success).toBe(true);
+    expect(readFileSync(result.path!, "utf8")).toStartWith("%PDF-1.4");
+  });
+
+  test("an attachment that is not on this Mac or does not exist is explained", async () => {
+    const missing = await messageAttachments.exportAttachment(offloaded, dir);
+    expect(missing).toMatchObject({ success: false, attachment: { id: offloaded, available: false } });
+    expect(missing.message).toContain("IMG_9999.HEIC is not on this Mac");
+    expect(existsSync(join(dir, "IMG_9999.HEIC"))).toBe(false);
+
+    expect(await messageAttachments.exportAttachment(999, dir)).toEqual({
+      success: false,
+      attachment: undefined,
+      message: "No attachment #999 in the Messages database",
+    });
+  });
+});
+
+describe("reading attachments inline", () => {
+  test("a small image comes back as a base64 blob", async () => {
+    const result = await messageAttachments.readAttachmentInline(PHOTO);
+    expect(result.success).toBe(true);
+    expect(result.resource).toMatchObject({ mimeType: "image/png" });
+    expect(result.resource?.uri).toStartWith("file://");
+    expect(Buffer.from(result.resource!.blob!, "base64").subarray(1, 4).toString()).toBe("PNG");
+  });
+
+  test("a text file comes back as text", async () => {
+    const result = await messageAttachments.readAttachmentInline(notes);
+    expect(result.resource).toMatchObject({ mimeType: "text/plain", text: "Bring sunscreen\n" });
+    expect(result.resource?.blob).toBeUndefined();
+  });
+
+  test("other types have to be exported", async () => {
+    const result = await messageAttachments.readAttachmentInline(SLIDES);
+    expect(result).toMatchObject({ success: false, message: "slides.pdf (application/pdf) can't be shown inline; export it to a directory instead" });
+  });
+
+  test("text over the inline limit has to be exported", async () => {
+    writeFileSync(join(dirname(messagesStore.getMessagesStore().dbPath), "notes.txt"), "x".repeat(300 * 1024));
+    const result = await messageAttachments.readAttachmentInline(notes);
+    expect(result).toMatchObject({ success: false, message: "notes.txt is 300 KB, over the 256 KB inline limit; export it to a directory instead" });
+  });
+
+  test("an offloaded file cannot be read", async () => {
+    expect((await messageAttachments.readAttachmentInline(offloaded)).success).toBe(false);
+  });
+});
+
+describe("checking files to send", () => {
+  test("existing files are accepted once each, with their type and size", () => {
+    const path = join(dir, "photo.png");
+    writeFileSync(path, "not really a png");
+    expect(messageAttachments.checkOutgoingAttachments([path, ` ${path} `], "imessage")).toEqual({
+      success: true,
+      attachments: [{ path, name: "photo.png", mimeType: "image/png", size: 16 }],
+    });
+  });
+
+  test("missing, empty, directory and oversized files are all reported", () => {
+    const empty = join(dir, "empty.txt");
+    const large = join(dir, "large.bin");
+    writeFileSync(empty, "");
+    writeFileSync(large, Buffer.alloc(2 * 1024 * 1024));
+    const result = messageAttachments.checkOutgoingAttachments([join(dir, "nope.jpg"), empty, dir, large], "sms");
+    expect(result).toEqual({
+      success: false,
+      attachments: [],
+      message:
+        "Cannot attach:\n" +
+        `- ${join(dir, "nope.jpg")}: file not found\n` +
+        `- ${empty}: file is empty\n` +
+        `- ${dir}: not a file\n` +
+        `- ${large}: 2.0 MB is over the 1.0 MB SMS limit`,
+    });
+    expect(messageAttachments.checkOutgoingAttachments([large], "imessage").success).toBe(true);
+  });
+
+  test("at most ten files at once", () => {
+    expect(messageAttachments.checkOutgoingAttachments(Array(11).fill(join(dir, "photo.png")), "imessage")).toEqual({
+      success: false,
+      attachments: [],
+      message: "At most 10 attachments can be sent at once",
+    });
+  });
+});
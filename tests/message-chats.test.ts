@@ -0,0 +1,62 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import messageEnhanced from "../utils/message-enhanced";
+import messagesStore from "../utils/messages-store";
+
+const WINSTON = "+13236568914";
+const noNames = async () => null;
+
+beforeAll(async () => {
+  messagesStore.configureMessagesStore(await messagesStore.createFixtureDatabase(join(process.env.APPLE_MCP_CACHE_DIR!, "chat.db")));
+});
+
+describe("findChat", () => {
+  test("an iMessage and an SMS chat with one identifier are one conversation", () => {
+    const { chat, error } = messageEnhanced.findChat(WINSTON);
+    expect(error).toBeUndefined();
+    // The iMessage chat had the latest message, so it is the one to send to
+    expect(chat).toMatchObject({ guid: `iMessage;-;${WINSTON}`, chat_identifier: WINSTON });
+    expect(chat!.chat_rowids).toHaveLength(2);
+    expect(chat!.chat_rowids[0]).toBe(chat!.chat_rowid);
+  });
+
+  test("a guid finds exactly that chat", () => {
+    const { chat } = messageEnhanced.findChat(`SMS;-;${WINSTON}`);
+    expect(chat).toMatchObject({ guid: `SMS;-;${WINSTON}`, chat_identifier: WINSTON });
+    expect(chat!.chat_rowids).toEqual([chat!.chat_rowid]);
+  });
+
+  test("a display name finds the group", () => {
+    expect(messageEnhanced.findChat("weekend plans").chat).toMatchObject({ chat_identifier: "chat100000000000000001" });
+  });
+
+  test("an unknown chat is an error", () => {
+    expect(messageEnhanced.findChat("nobody")).toEqual({ error: 'No chat found for "nobody"' });
+  });
+});
+
+describe("reading a direct chat by its thread id", () => {
+  test("every thread id from threads can be read", async () => {
+    const threads = await messageEnhanced.getMessageThreads(20, noNames);
+    expect(threads.map((thread) => thread.chatId)).toContain(WINSTON);
+    for (const thread of threads) {
+      const result = await messageEnhanced.readChatMessages(thread.chatId, 50, noNames);
+      expect(result.message).toBeUndefined();
+      expect(result.success).toBe(true);
+    }
+  });
+
+  test("messages from the iMessage and the SMS chat are read together", async () => {
+    const result = await messageEnhanced.readChatMessages(WINSTON, 50, noNames, { nestReplies: false });
+    expect(result.success).toBe(true);
+    const texts = result.messages.map((message) => message.content);
+    expect(texts).toContain("No signal here, texting instead");
+    expect(texts).toContain("Are we still on for lunch?");
+    expect(result.thread).toMatchObject({ chatId: WINSTON, isGroup: false, participants: [{ handle: WINSTON }] });
+  });
+
+  test("search within the chat covers both", async () => {
+    const result = await messageEnhanced.searchMessages({ chatId: WINSTON, limit: 50 }, noNames);
+    expect(result.results.map((entry) => entry.message.content)).toContain("No signal here, texting instead");
+  });
+});
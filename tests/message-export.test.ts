@@ -0,0 +1,151 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import { writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { getSharedCacheManager } from "../cache-manager";
+import type { SourceContact } from "../utils/contacts-source";
+import messageCached from "../utils/message-cached";
+import messagesStore from "../utils/messages-store";
+
+const INES = "+447857931718";
+const GROUP = "chat100000000000000001";
+const DAY = 24 * 60 * 60 * 1000;
+
+const CONTACTS: SourceContact[] = [
+  { id: "export-1:ABPerson", name: "Winston Johnson", phoneNumbers: [{ label: "mobile", value: "(323) 656-8914" }], emails: [], modifiedAt: 1 },
+  { id: "export-2:ABPerson", name: "Winston Jones", phoneNumbers: [{ label: "mobile", value: "+1 310 555 0142" }], emails: [], modifiedAt: 1 },
+  { id: "export-3:ABPerson", name: "Inés García", phoneNumbers: [{ label: "mobile", value: "+44 7857 931718" }], emails: [], modifiedAt: 1 },
+];
+
+// The heading the export gives a day
+function dayLabel(date: string | Date): string {
+  return new Date(date).toLocaleDateString(undefined, { weekday: "long", day: "numeric", month: "long", year: "numeric" });
+}
+
+// Distinct days of the exported messages, oldest first
+async function exportedDays(options: { chatId?: string; phoneNumberOrName?: string }): Promise<string[]> {
+  const result = await messageCached.exportConversation({ ...options, format: "json" });
+  const messages: Array<{ date: string }> = JSON.parse(result.transcript!).messages;
+  return [...new Set(messages.map((message) => dayLabel(message.date)))];
+}
+
+beforeAll(async () => {
+  writeFileSync(process.env.APPLE_MCP_CONTACTS_SOURCE!, JSON.stringify(CONTACTS));
+  await getSharedCacheManager().syncContacts();
+  const fixture = await messagesStore.createFixtureDatabase(join(process.env.APPLE_MCP_CACHE_DIR!, "chat.db"));
+
+  // An older message from Inés, so her conversation spans more than one day
+  const store = new messagesStore.MessagesStore({ dbPath: fixture.dbPath, readonly: false });
+  const date = messagesStore.toAppleTimestamp(new Date(Date.now() - 3 * DAY));
+  store.run(
+    "INSERT INTO message (guid, text, handle_id, service, date, is_from_me) VALUES ('EXPORT-1', 'Flying out on Friday', 2, 'iMessage', ?, 0)",
+    date,
+  );
+  const rowId = store.get<{ id: number }>("SELECT last_insert_rowid() AS id")!.id;
+  store.run("INSERT INTO chat_message_join (chat_id, message_id, message_date) VALUES (2, ?, ?)", rowId, date);
+  store.close();
+
+  messagesStore.configureMessagesStore(fixture);
+});
+
+describe("exportConversation as Markdown", () => {
+  test("a heading per day, oldest first, with names and attachments", async () => {
+    const result = await messageCached.exportConversation({ phoneNumberOrName: "Inés" });
+    expect(result).toMatchObject({ success: true, name: "Inés García", messageCount: 3, truncated: false });
+
+    const transcript = result.transcript!;
+    expect(transcript).toStartWith("# Inés García\n\nConversation with Inés García · 3 message(s), ");
+    const days = await exportedDays({ chatId: INES });
+    expect(days.length).toBeGreaterThan(1);
+    expect(transcript.split("\n").filter((line) => line.startsWith("## "))).toEqual(days.map((day) => `## ${day}`));
+
+    expect(transcript.indexOf("Flying out on Friday")).toBeLessThan(transcript.indexOf("Landed in London"));
+    expect(transcript).toMatch(/^\*\*.+ Inés García\*\*: Landed in London 🛬\n- 📎 #1 IMG_0001\.png \(image\/png, \d+ B\)$/m);
+    expect(transcript).toMatch(/^\*\*.+ Me\*\*: \[Message unsent\]$/m);
+  });
+
+  test("a group folds tapbacks into reactions and shows replies", async () => {
+    const transcript = (await messageCached.exportConversation({ chatId: GROUP })).transcript!;
+    expect(transcript).toStartWith("# Weekend Plans\n\nGroup chat with Winston Johnson, Inés García · 5 message(s), ");
+    expect(transcript).toMatch(/^\*\*.+ Me\*\*: I'll sort drinks\n- Reactions: ❤️ Inés García$/m);
+    expect(transcript).toMatch(/^\*\*.+ Me\*\* \(reply to Inés García: “I can bring crisps”\): Perfect, thank you!$/m);
+    expect(transcript).not.toContain("Loved “I'll sort drinks”");
+    expect(transcript).not.toContain("[Reactions:");
+    expect(transcript).not.toContain("[Mentions:");
+  });
+});
+
+describe("exportConversation as text", () => {
+  test("day separators, names, attachments and reactions", async () => {
+    const transcript = (await messageCached.exportConversation({ chatId: INES, format: "text" })).transcript!;
+    const days = await exportedDays({ chatId: INES });
+    expect(transcript.split("\n").filter((line) => line.startsWith("--- "))).toEqual(days.map((day) => `--- ${day} ---`));
+    expect(transcript).toMatch(/^\[.+\] Inés García: Landed in London 🛬\n {8}📎 #1 IMG_0001\.png \(image\/png, \d+ B\)$/m);
+
+    const group = (await messageCached.exportConversation({ chatId: GROUP, format: "text" })).transcript!;
+    expect(group).toStartWith("Weekend Plans\nGroup chat with Winston Johnson, Inés García · 5 message(s)");
+    expect(group).toMatch(/^\[.+\] Winston Johnson: Who is bringing snacks\?$/m);
+    expect(group).toMatch(/^\[.+\] Me: I'll sort drinks\n {8}Reactions: ❤️ Inés García$/m);
+  });
+});
+
+describe("exportConversation as JSON", () => {
+  test("structured messages with senders, attachments and reactions", async () => {
+    const direct = JSON.parse((await messageCached.exportConversation({ chatId: "ana@example.com", format: "json" })).transcript!);
+    expect(direct).toMatchObject({
+      conversation: { chatId: "ana@example.com", isGroup: false, participants: [{ handle: "ana@example.com" }] },
+      messageCount: 1,
+      truncated: false,
+      messages: [
+        {
+          guid: "FIXTURE-5",
+          senderName: "Me",
+          isFromMe: true,
+          text: "Sent you the slides",
+          attachments: [{ id: 2, name: "slides.pdf", mimeType: "application/pdf", size: 15, available: true }],
+        },
+      ],
+    });
+
+    const group = JSON.parse((await messageCached.exportConversation({ chatId: GROUP, format: "json" })).transcript!);
+    expect(group.conversation).toEqual({
+      chatId: GROUP,
+      name: "Weekend Plans",
+      isGroup: true,
+      participants: [
+        { handle: "+13236568914", name: "Winston Johnson" },
+        { handle: INES, name: "Inés García" },
+      ],
+    });
+    expect(group.messages.map((message: { guid: string }) => message.guid)).toEqual(["FIXTURE-6", "FIXTURE-7", "FIXTURE-8", "FIXTURE-11", "FIXTURE-9"]);
+    expect(group.messages[1]).toMatchObject({ sender: INES, senderName: "Inés García", text: "I can bring crisps" });
+    expect(group.messages[2].reactions).toMatchObject([{ type: "love", emoji: "❤️", sender: INES, senderName: "Inés García" }]);
+  });
+
+  test("an unsent message keeps its place with no text", async () => {
+    const { messages } = JSON.parse((await messageCached.exportConversation({ chatId: INES, format: "json" })).transcript!);
+    expect(messages[messages.length - 1]).toMatchObject({ guid: "FIXTURE-14", isFromMe: true, text: "", unsent: true });
+  });
+});
+
+describe("exportConversation by name", () => {
+  test("asks which contact is meant when a name matches several about equally", async () => {
+    const result = await messageCached.exportConversation({ phoneNumberOrName: "Winston" });
+    expect(result).toMatchObject({ success: false });
+    expect(result.transcript).toBeUndefined();
+    expect(result.candidates?.map((candidate) => candidate.name).sort()).toEqual(["Winston Johnson", "Winston Jones"]);
+    expect(result.message).toContain('"Winston" matches several contacts');
+  });
+
+  test("a full name exports that contact's conversation", async () => {
+    const result = await messageCached.exportConversation({ phoneNumberOrName: "Winston Johnson", format: "text" });
+    expect(result).toMatchObject({ success: true, name: "Winston Johnson" });
+    expect(result.transcript).toContain("Winston Johnson: Are we still on for lunch?");
+  });
+
+  test("a name nobody has is reported", async () => {
+    expect(await messageCached.exportConversation({ phoneNumberOrName: "Zebediah Quux" })).toEqual({
+      success: false,
+      message: 'No contact found matching "Zebediah Quux"',
+    });
+  });
+});
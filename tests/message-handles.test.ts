@@ -0,0 +1,59 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import { getSharedCacheManager } from "../cache-manager";
+import contactsSource from "../utils/contacts-source";
+import messagesStore from "../utils/messages-store";
+import messageCached from "../utils/message-cached";
+
+// Handles an attacker (or a confused model) could pass where a phone number or email is expected
+const HOSTILE_HANDLES = [
+  `"`,
+  `'`,
+  `+1555'; DROP TABLE message; --`,
+  `" OR 1=1 --`,
+  `' OR '1'='1`,
+  `%`,
+  `%%`,
+  `_`,
+  `+1%`,
+  `___________`,
+  `\\`,
+  `+1323\u00006568914`,
+  `\u0000`,
+  `$(rm -rf ~)`,
+  "`id`",
+  `; ls | cat &`,
+  `a@b.c'; DELETE FROM handle; --`,
+  `%@%.%`,
+];
+
+beforeAll(async () => {
+  const dir = process.env.APPLE_MCP_CACHE_DIR!;
+  await contactsSource.createFixtureContacts(join(dir, "contacts.json"));
+  await getSharedCacheManager().syncContacts();
+  messagesStore.configureMessagesStore(await messagesStore.createFixtureDatabase(join(dir, "chat.db")));
+});
+
+describe("hostile handles", () => {
+  test("the fixture has messages for a real handle", async () => {
+    const messages = await messageCached.readMessages("+13236568914", 50);
+    expect(messages.length).toBeGreaterThan(0);
+  });
+
+  for (const handle of HOSTILE_HANDLES) {
+    test(`readMessages returns nothing for ${JSON.stringify(handle)}`, async () => {
+      expect(await messageCached.readMessages(handle, 50)).toEqual([]);
+    });
+
+    test(`readMessagesEnhanced returns nothing for ${JSON.stringify(handle)}`, async () => {
+      const result = await messageCached.readMessagesEnhanced(handle, 50, false);
+      expect(result.messages).toEqual([]);
+    });
+  }
+
+  test("the tables survive", () => {
+    const store = messagesStore.getMessagesStore();
+    expect(store.get<{ count: number }>("SELECT COUNT(*) AS count FROM message")!.count).toBeGreaterThan(0);
+    expect(store.get<{ count: number }>("SELECT COUNT(*) AS count FROM handle")!.count).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,129 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import messageIndex, { type MessageIndex } from "../utils/message-index";
+import messagesStore, { type MessagesStore } from "../utils/messages-store";
+
+// Fixture message numbers are their ROWIDs
+const LUNCH = 1;
+const RUNNING_LATE = 13;
+const MENTION = 9;
+const NEWEST_FIXTURE_ROW = 15;
+
+let dir: string;
+let fixture: MessagesStore;
+let index: MessageIndex;
+
+function write(sql: string, ...params: Array<string | number | null>): void {
+  const store = new messagesStore.MessagesStore({ dbPath: fixture.dbPath, readonly: false });
+  store.run(sql, ...params);
+  store.close();
+}
+
+function addMessage(text: string): number {
+  const store = new messagesStore.MessagesStore({ dbPath: fixture.dbPath, readonly: false });
+  const date = messagesStore.toAppleTimestamp(new Date());
+  store.run("INSERT INTO message (guid, text, handle_id, service, date, is_from_me) VALUES (?, ?, 1, 'iMessage', ?, 0)", `INDEX-${date}`, text, date);
+  const rowId = store.get<{ id: number }>("SELECT last_insert_rowid() AS id")!.id;
+  store.close();
+  return rowId;
+}
+
+beforeAll(async () => {
+  dir = mkdtempSync(join(tmpdir(), "apple-mcp-index-"));
+  fixture = await messagesStore.createFixtureDatabase(join(dir, "chat.db"));
+  index = new messageIndex.MessageIndex(join(dir, "messages-index.db"));
+});
+
+afterAll(() => {
+  index.close();
+  fixture.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("MessageIndex", () => {
+  test("is not usable before it is built", () => {
+    expect(index.indexedUpTo(fixture.dbPath)).toBe(0);
+    expect(index.stats()).toEqual({ messages: 0, lastRowId: 0, source: "" });
+  });
+
+  test("the first refresh indexes every message with text, attributedBody included", async () => {
+    const result = await index.refresh(fixture);
+    expect(result).toMatchObject({ indexed: NEWEST_FIXTURE_ROW, reindexed: 0, lastRowId: NEWEST_FIXTURE_ROW, rebuilt: true });
+    expect(index.indexedUpTo(fixture.dbPath)).toBe(NEWEST_FIXTURE_ROW);
+    // The unsent message has nothing to index
+    expect(index.stats()).toMatchObject({ messages: NEWEST_FIXTURE_ROW - 1, lastRowId: NEWEST_FIXTURE_ROW, source: fixture.dbPath });
+    expect(index.matchingRowIds(["grab", "ice"], 10)).toEqual([MENTION]);
+  });
+
+  test("an index built from another chat.db is not used", () => {
+    expect(index.indexedUpTo(join(dir, "other.db"))).toBe(0);
+  });
+
+  test("words match as word prefixes, ignoring case and accents", () => {
+    expect(index.matchingRowIds(["lunch"], 10)).toEqual([LUNCH]);
+    expect(index.matchingRowIds(["lun"], 10)).toEqual([LUNCH]);
+    // Not at the start of a word
+    expect(index.matchingRowIds(["unch"], 10)).toEqual([]);
+    expect(index.matchingRowIds(["london"], 10)).toEqual(index.matchingRowIds(["LÓNDON"], 10));
+    expect(index.matchingRowIds(["london"], 10)).toHaveLength(1);
+  });
+
+  test("every word must match, newest first, one page at a time", () => {
+    expect(index.matchingRowIds(["lunch", "drinks"], 10)).toEqual([]);
+    const all = index.matchingRowIds(["perfect"], 10);
+    expect(all).toEqual([...all].sort((a, b) => b - a));
+    expect(all).toHaveLength(2);
+    expect(index.matchingRowIds(["perfect"], 1, 1)).toEqual([all[1]]);
+  });
+
+  test("quotes and punctuation in a word cannot break the query", () => {
+    expect(index.matchingRowIds(['"', "*", "lunch OR"], 10)).toEqual([]);
+  });
+
+  test("a refresh reads only rows added since the last one", async () => {
+    const rowId = addMessage("Croissants tomorrow morning?");
+    const result = await index.refresh(fixture);
+    expect(result).toMatchObject({ indexed: 1, reindexed: 0, lastRowId: rowId, rebuilt: false });
+    expect(index.matchingRowIds(["croissant"], 10)).toEqual([rowId]);
+
+    expect(await index.refresh(fixture)).toMatchObject({ indexed: 0, reindexed: 0, lastRowId: rowId });
+  });
+
+  test("edited messages are indexed again with their new text", async () => {
+    const edited = messagesStore.toAppleTimestamp(new Date());
+    write("UPDATE message SET text = ?, date_edited = ? WHERE ROWID = ?", "Running 20 minutes behind", edited, RUNNING_LATE);
+
+    expect((await index.refresh(fixture)).reindexed).toBe(1);
+    expect(index.matchingRowIds(["late"], 10)).toEqual([]);
+    expect(index.matchingRowIds(["behind"], 10)).toEqual([RUNNING_LATE]);
+  });
+
+  test("unsent messages leave the index", async () => {
+    expect(index.matchingRowIds(["lunch"], 10)).toEqual([LUNCH]);
+    const retracted = messagesStore.toAppleTimestamp(new Date()) + 1;
+    write("UPDATE message SET text = NULL, attributedBody = NULL, date_retracted = ? WHERE ROWID = ?", retracted, LUNCH);
+
+    expect((await index.refresh(fixture)).reindexed).toBe(1);
+    expect(index.matchingRowIds(["lunch"], 10)).toEqual([]);
+    expect(index.matchingRowIds(["late"], 10)).toEqual([]);
+  });
+
+  test("a full refresh starts over", async () => {
+    const result = await index.refresh(fixture, { full: true });
+    expect(result).toMatchObject({ rebuilt: true, reindexed: 0 });
+    expect(index.matchingRowIds(["behind"], 10)).toEqual([RUNNING_LATE]);
+    expect(index.matchingRowIds(["lunch"], 10)).toEqual([]);
+    // Nothing for the unsent fixture message or the one unsent above
+    expect(index.stats().messages).toBe(result.lastRowId - 2);
+  });
+
+  test("a replaced chat.db with fewer rows is a rebuild", async () => {
+    const replaced = await messagesStore.createFixtureDatabase(join(dir, "chat.db"));
+    const result = await index.refresh(replaced);
+    expect(result).toMatchObject({ rebuilt: true, lastRowId: NEWEST_FIXTURE_ROW });
+    expect(index.matchingRowIds(["lunch"], 10)).toEqual([LUNCH]);
+    replaced.close();
+  });
+});
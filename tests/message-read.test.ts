@@ -0,0 +1,163 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import { writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { getSharedCacheManager } from "../cache-manager";
+import type { SourceContact } from "../utils/contacts-source";
+import messageEnhanced from "../utils/message-enhanced";
+import messagesStore from "../utils/messages-store";
+import messageCached from "../utils/message-cached";
+
+type Message = Awaited<ReturnType<typeof messageEnhanced.readChatMessages>>["messages"][number];
+
+// The fixture chat.db has a conversation with +13236568914 only; the work number has none
+const CONTACTS: SourceContact[] = [
+  {
+    id: "read-1:ABPerson",
+    name: "Winston Johnson",
+    phoneNumbers: [
+      { label: "work", value: "+1 213 555 0188" },
+      { label: "mobile", value: "(323) 656-8914" },
+    ],
+    emails: [],
+    modifiedAt: 1,
+  },
+  {
+    id: "read-2:ABPerson",
+    name: "Winston Jones",
+    phoneNumbers: [{ label: "mobile", value: "+1 310 555 0142" }],
+    emails: [],
+    modifiedAt: 1,
+  },
+];
+
+beforeAll(async () => {
+  const dir = process.env.APPLE_MCP_CACHE_DIR!;
+  writeFileSync(process.env.APPLE_MCP_CONTACTS_SOURCE!, JSON.stringify(CONTACTS));
+  await getSharedCacheManager().syncContacts();
+  messagesStore.configureMessagesStore(await messagesStore.createFixtureDatabase(join(dir, "chat.db")));
+});
+
+describe("readMessagesEnhanced by name", () => {
+  test("reads the number with the recent conversation, not the first on the card", async () => {
+    const result = await messageCached.readMessagesEnhanced("Winston Johnson", 10, false);
+    expect(result.success).toBe(true);
+    expect(result.contactName).toBe("Winston Johnson");
+    expect(result.messages.length).toBeGreaterThan(0);
+    expect(result.messages.every((message) => message.thread_id === "+13236568914")).toBe(true);
+  });
+
+  test("asks which contact is meant when a name matches several about equally", async () => {
+    const result = await messageCached.readMessagesEnhanced("Winston", 10, false);
+    expect(result.success).toBe(false);
+    expect(result.messages).toEqual([]);
+    expect(result.candidates?.map((candidate) => candidate.name).sort()).toEqual(["Winston Johnson", "Winston Jones"]);
+    expect(result.message).toContain('"Winston" matches several contacts');
+  });
+
+  test("a name nobody has still returns nothing", async () => {
+    const result = await messageCached.readMessagesEnhanced("Zebediah Quux", 10, false);
+    expect(result).toMatchObject({ success: false, messages: [] });
+  });
+});
+
+describe("searchMessages by sender name", () => {
+  test("a full name searches that contact's messages", async () => {
+    const result = await messageCached.searchMessages({ sender: "Winston Johnson", limit: 50 });
+    expect(result.success).toBe(true);
+    expect(result.senderName).toBe("Winston Johnson");
+    expect(result.results.length).toBeGreaterThan(0);
+    expect(result.results.every((entry) => entry.message.sender === "+13236568914")).toBe(true);
+  });
+
+  test("asks which contact is meant when a name matches several about equally", async () => {
+    const result = await messageCached.searchMessages({ sender: "Winston", limit: 50 });
+    expect(result).toMatchObject({ success: false, results: [] });
+    expect(result.candidates?.map((candidate) => candidate.name).sort()).toEqual(["Winston Johnson", "Winston Jones"]);
+    expect(result.message).toContain('"Winston" matches several contacts');
+  });
+
+  test("a name nobody has finds nothing", async () => {
+    expect(await messageCached.searchMessages({ sender: "Zebediah Quux" })).toMatchObject({
+      success: false,
+      message: 'No contact found matching "Zebediah Quux"',
+    });
+  });
+});
+
+describe("tapbacks, replies, edits and unsends", () => {
+  const names: Record<string, string> = { "+13236568914": "Winston Johnson", "+447857931718": "Inés García" };
+  const resolveName = async (handle: string) => names[handle] || null;
+
+  function find(messages: Message[], text: string): Message {
+    const message = messages.find((candidate) => candidate.content.startsWith(text));
+    if (!message) throw new Error(`No message starting "${text}"`);
+    return message;
+  }
+
+  test("tapbacks are folded onto the message they react to, not listed", async () => {
+    const { messages } = await messageEnhanced.readChatMessages("Weekend Plans", 20, resolveName);
+    expect(messages.some((message) => message.content.startsWith("Loved"))).toBe(false);
+
+    const drinks = find(messages, "I'll sort drinks");
+    expect(drinks.reactions).toEqual([
+      { type: "love", emoji: "❤️", sender: "+447857931718", senderName: "Inés García", is_from_me: false, date: expect.any(String) },
+    ]);
+    expect(drinks.content).toBe("I'll sort drinks\n[Reactions: ❤️ Inés García]");
+  });
+
+  test("a tapback on a message outside the page read is left out", async () => {
+    const { messages } = await messageEnhanced.readChatMessages("+13236568914", 3, resolveName);
+    expect(messages.some((message) => message.content.startsWith("Liked"))).toBe(false);
+    expect(messages.every((message) => !message.reactions)).toBe(true);
+
+    const all = await messageEnhanced.readChatMessages("+13236568914", 20, resolveName);
+    expect(find(all.messages, "Yes, 12:30").reactions?.map((reaction) => [reaction.emoji, reaction.senderName])).toEqual([
+      ["👍", "Winston Johnson"],
+    ]);
+  });
+
+  test("replies nest under the message they answer", async () => {
+    const { messages } = await messageEnhanced.readChatMessages("Weekend Plans", 20, resolveName);
+    const crisps = find(messages, "I can bring crisps");
+    expect(crisps.replies?.map((reply) => reply.content)).toEqual(["Perfect, thank you!"]);
+    expect(crisps.replies![0].replyTo).toEqual({
+      guid: "FIXTURE-7",
+      sender: "+447857931718",
+      senderName: "Inés García",
+      is_from_me: false,
+      preview: "I can bring crisps",
+    });
+    // Nested replies are not repeated at the top level
+    expect(messages.some((message) => message.content.startsWith("Perfect, thank you!"))).toBe(false);
+  });
+
+  test("without nesting, a reply quotes what it answers", async () => {
+    const { messages } = await messageEnhanced.readChatMessages("Weekend Plans", 20, resolveName, { nestReplies: false });
+    const reply = find(messages, "Perfect, thank you!");
+    expect(reply.content).toBe("Perfect, thank you!\n[Reply to Inés García: “I can bring crisps”]");
+    expect(find(messages, "I can bring crisps").replies).toBeUndefined();
+  });
+
+  test("edited messages are marked with when they were edited", async () => {
+    const { messages } = await messageEnhanced.readChatMessages("+13236568914", 20, resolveName);
+    const late = find(messages, "Running 5 minutes late");
+    expect(late).toMatchObject({ edited: true, content: "Running 5 minutes late\n[Edited]" });
+    expect(new Date(late.editedAt!).getTime()).toBeGreaterThan(new Date(late.date).getTime());
+    expect(find(messages, "Are we still on for lunch?").edited).toBeUndefined();
+  });
+
+  test("unsent messages stay in the conversation without their text", async () => {
+    const { messages } = await messageEnhanced.readChatMessages("+447857931718", 20, resolveName);
+    const unsent = find(messages, "[Message unsent]");
+    expect(unsent).toMatchObject({ unsent: true, is_from_me: true, guid: "FIXTURE-14" });
+    expect(unsent.unsentAt).toBeDefined();
+    expect(unsent.edited).toBeUndefined();
+    expect(find(messages, "Landed in London").unsent).toBeUndefined();
+  });
+
+  test("reading by phone number shows the same markers", async () => {
+    const messages = await messageCached.readMessagesEnhanced("+13236568914", 20, false);
+    expect(find(messages.messages, "Running 5 minutes late").edited).toBe(true);
+    expect(find(messages.messages, "Yes, 12:30").reactions?.[0].type).toBe("like");
+  });
+});
@@ -0,0 +1,203 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { existsSync, mkdtempSync, rmSync, utimesSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import messageCached from "../utils/message-cached";
+import messageSchedule, { type ScheduledMessage } from "../utils/message-schedule";
+
+const { ScheduledMessageStore } = messageSchedule;
+const CATCH_UP_MS = 15 * 60 * 1000;
+
+let dir: string;
+let scheduleFile: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "apple-mcp-schedule-"));
+  scheduleFile = join(dir, "scheduled-messages.json");
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+async function addDue(store: InstanceType<typeof ScheduledMessageStore>, message: string): Promise<ScheduledMessage> {
+  return await store.add({
+    recipient: "Ana Samat",
+    phoneNumber: "+33612345678",
+    message,
+    messageType: "imessage",
+    scheduledTime: new Date(Date.now() + 1000),
+    confirmedAt: new Date(),
+  });
+}
+
+describe("ScheduledMessageStore", () => {
+  test("a cancel racing the daemon's claim either wins or loses, never both", async () => {
+    // Two instances on one file stand in for the MCP server and the cache daemon
+    const server = new ScheduledMessageStore(scheduleFile);
+    const daemon = new ScheduledMessageStore(scheduleFile);
+
+    for (let round = 0; round < 25; round++) {
+      const scheduled = await addDue(server, `round ${round}`);
+      const cancelFirst = round % 2 === 0;
+      const cancel = () =>
+        server.cancel(scheduled.id).then(
+          () => true,
+          () => false,
+        );
+      const claim = () => daemon.claimDue(CATCH_UP_MS, Date.now() + 60_000);
+      const [cancelled, { due }] = cancelFirst
+        ? await Promise.all([cancel(), claim()])
+        : await Promise.all([claim(), cancel()]).then(([claimResult, cancelResult]) => [cancelResult, claimResult] as const);
+
+      const claimed = due.some((entry) => entry.id === scheduled.id);
+      const stored = await server.get(scheduled.id);
+      expect(cancelled).toBe(!claimed);
+      expect(stored?.status).toBe(cancelled ? "cancelled" : "sending");
+    }
+  });
+
+  test("an edit racing the claim is never lost", async () => {
+    const server = new ScheduledMessageStore(scheduleFile);
+    const daemon = new ScheduledMessageStore(scheduleFile);
+
+    for (let round = 0; round < 25; round++) {
+      const scheduled = await addDue(server, "draft");
+      const [edited, { due }] = await Promise.all([
+        server.edit(scheduled.id, { message: "final" }, new Date()).then(
+          () => true,
+          () => false,
+        ),
+        daemon.claimDue(CATCH_UP_MS, Date.now() + 60_000),
+      ]);
+
+      const claim = due.find((entry) => entry.id === scheduled.id);
+      const stored = await server.get(scheduled.id);
+      // Either the edit landed first and the daemon sends the new text, or the claim did and the edit was refused
+      expect(claim?.message).toBe(edited ? "final" : "draft");
+      expect(stored?.message).toBe(edited ? "final" : "draft");
+      expect(stored?.status).toBe("sending");
+    }
+  });
+
+  test("waits for a lock held by another process", async () => {
+    const store = new ScheduledMessageStore(scheduleFile);
+    writeFileSync(`${scheduleFile}.lock`, "12345");
+    setTimeout(() => rmSync(`${scheduleFile}.lock`), 200);
+
+    const started = Date.now();
+    await addDue(store, "after the lock");
+    expect(Date.now() - started).toBeGreaterThanOrEqual(150);
+    expect(await store.list()).toHaveLength(1);
+    expect(existsSync(`${scheduleFile}.lock`)).toBe(false);
+  });
+
+  test("removes a stale lock left by a crashed process", async () => {
+    const store = new ScheduledMessageStore(scheduleFile);
+    writeFileSync(`${scheduleFile}.lock`, "12345");
+    const longAgo = new Date(Date.now() - 5 * 60 * 1000);
+    utimesSync(`${scheduleFile}.lock`, longAgo, longAgo);
+
+    await addDue(store, "despite the stale lock");
+    expect(await store.list()).toHaveLength(1);
+    expect(existsSync(`${scheduleFile}.lock`)).toBe(false);
+  });
+
+  test("the shared queue lives in APPLE_MCP_CACHE_DIR", () => {
+    const expected = join(process.env.APPLE_MCP_CACHE_DIR!, "scheduled-messages.json");
+    expect(messageSchedule.SCHEDULE_FILE).toBe(expected);
+    expect(messageSchedule.getScheduledMessageStore().filePath).toBe(expected);
+  });
+
+  test("creates the directory for a new queue", async () => {
+    const store = new ScheduledMessageStore(join(dir, "nested", "scheduled-messages.json"));
+    await addDue(store, "first");
+    expect(await store.list()).toHaveLength(1);
+  });
+
+  test("releases the lock when a change fails", async () => {
+    const store = new ScheduledMessageStore(scheduleFile);
+    await expect(store.cancel("sched_missing")).rejects.toThrow("No scheduled message with id sched_missing");
+    expect(existsSync(`${scheduleFile}.lock`)).toBe(false);
+    expect(await addDue(store, "still writable")).toMatchObject({ status: "pending" });
+  });
+});
+
+describe("editing a scheduled message", () => {
+  // The messages tool works on the shared queue in APPLE_MCP_CACHE_DIR
+  const shared = () => messageSchedule.getScheduledMessageStore();
+
+  async function addLater(message: string): Promise<ScheduledMessage> {
+    return await shared().add({
+      recipient: "Ana Samat",
+      phoneNumber: "+33612345678",
+      message,
+      messageType: "imessage",
+      scheduledTime: new Date(Date.now() + 60 * 60 * 1000),
+      confirmedAt: new Date(Date.now() - 60 * 1000),
+    });
+  }
+
+  test("changes nothing until the new text is confirmed", async () => {
+    const scheduled = await addLater("See you at 8");
+    const later = new Date(Date.now() + 2 * 60 * 60 * 1000);
+
+    const prepared = await messageCached.editScheduledMessage(scheduled.id, { message: "See you at 9", scheduledTime: later });
+    expect(prepared.validationInfo).toMatchObject({
+      resolvedContact: "Ana Samat",
+      phoneNumber: "+33612345678",
+      messagePreview: "See you at 9",
+      scheduledTime: later.toISOString(),
+      scheduleId: scheduled.id,
+    });
+    expect(await shared().get(scheduled.id)).toEqual(scheduled);
+
+    const confirmed = await messageCached.sendMessageConfirmed(prepared.validationInfo!.confirmationToken);
+    expect(confirmed).toMatchObject({ success: true, scheduleId: scheduled.id });
+    const stored = await shared().get(scheduled.id);
+    expect(stored).toMatchObject({ message: "See you at 9", scheduledTime: later.toISOString(), status: "pending" });
+    expect(Date.parse(stored!.confirmedAt)).toBeGreaterThan(Date.parse(scheduled.confirmedAt));
+  });
+
+  test("a declined edit leaves the message as it was", async () => {
+    const scheduled = await addLater("Original");
+    const prepared = await messageCached.editScheduledMessage(scheduled.id, { message: "Changed" });
+    const declined = await messageCached.sendMessageConfirmed(prepared.validationInfo!.confirmationToken, "no");
+    expect(declined.success).toBe(false);
+    expect(await shared().get(scheduled.id)).toEqual(scheduled);
+  });
+
+  test("an edit confirmed after the daemon claimed the message is refused", async () => {
+    const scheduled = await addLater("Too late to change");
+    const prepared = await messageCached.editScheduledMessage(scheduled.id, { message: "Changed" });
+    await shared().claimDue(CATCH_UP_MS, Date.parse(scheduled.scheduledTime));
+
+    const confirmed = await messageCached.sendMessageConfirmed(prepared.validationInfo!.confirmationToken);
+    expect(confirmed.success).toBe(false);
+    expect(confirmed.message).toContain("already sending");
+    expect((await shared().get(scheduled.id))?.message).toBe("Too late to change");
+  });
+
+  test("only pending messages can be edited", async () => {
+    const scheduled = await addLater("Cancelled");
+    await shared().cancel(scheduled.id);
+    expect(await messageCached.editScheduledMessage(scheduled.id, { message: "x" })).toEqual({
+      success: false,
+      message: `Scheduled message ${scheduled.id} is already cancelled`,
+    });
+    expect(await messageCached.editScheduledMessage("sched_missing", { message: "x" })).toEqual({
+      success: false,
+      message: "No scheduled message with id sched_missing",
+    });
+  });
+
+  test("the store records when the edit was confirmed", async () => {
+    const store = new ScheduledMessageStore(scheduleFile);
+    const scheduled = await addDue(store, "draft");
+    const confirmedAt = new Date();
+    expect(await store.edit(scheduled.id, { message: "final" }, confirmedAt)).toMatchObject({
+      message: "final",
+      confirmedAt: confirmedAt.toISOString(),
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { rmSync } from "node:fs";
+import { join } from "node:path";
+import messageEnhanced from "../utils/message-enhanced";
+import messageIndex from "../utils/message-index";
+import messagesStore from "../utils/messages-store";
+
+const EXTRA_MESSAGES = ["Meet me at the CAFÉ on Rue Cler", "The cafe on the corner is closed", "Crème brûlée for dessert?"];
+
+// Queries the scan and the index must answer alike: prefixes, mid-word text, accents, attributedBody-only text
+const QUERIES = ["cafe", "Café", "caf", "afe", "creme brulee", "lunch", "LUN", "unch", "grab ice", "rue-cler", "12:30", "?", "cafe dessert"];
+
+beforeAll(async () => {
+  const fixture = await messagesStore.createFixtureDatabase(join(process.env.APPLE_MCP_CACHE_DIR!, "chat.db"));
+  const store = new messagesStore.MessagesStore({ dbPath: fixture.dbPath, readonly: false });
+  const date = messagesStore.toAppleTimestamp(new Date());
+  EXTRA_MESSAGES.forEach((text, index) => {
+    store.run(
+      "INSERT INTO message (guid, text, handle_id, service, date, is_from_me) VALUES (?, ?, 1, 'iMessage', ?, 0)",
+      `SEARCH-${index}`,
+      text,
+      date + index,
+    );
+    const rowId = store.get<{ id: number }>("SELECT last_insert_rowid() AS id")!.id;
+    store.run("INSERT INTO chat_message_join (chat_id, message_id, message_date) VALUES (1, ?, ?)", rowId, date + index);
+  });
+  store.close();
+  messagesStore.configureMessagesStore(fixture);
+});
+
+async function search(query: string): Promise<string[]> {
+  const result = await messageEnhanced.searchMessages({ query, limit: 50 }, async () => null);
+  expect(result.success).toBe(true);
+  return result.results.map((entry) => entry.message.content).sort();
+}
+
+describe("searchMessages without an index", () => {
+  test("there is no index for the fixture", () => {
+    expect(messageIndex.getMessageIndex().indexedUpTo()).toBe(0);
+  });
+
+  test("folds accents and case on both sides, as the index does", async () => {
+    const expected = [EXTRA_MESSAGES[0], EXTRA_MESSAGES[1]].sort();
+    expect(await search("cafe")).toEqual(expected);
+    expect(await search("Café")).toEqual(expected);
+  });
+
+  test("every word must match", async () => {
+    expect(await search("creme brulee")).toEqual([EXTRA_MESSAGES[2]]);
+    expect(await search("cafe dessert")).toEqual([]);
+  });
+
+  test("plain ASCII text is still found", async () => {
+    expect(await search("LUNCH")).toEqual(["Are we still on for lunch?"]);
+  });
+
+  test("words match at the start of a word, as in the index", async () => {
+    expect(await search("lun")).toEqual(["Are we still on for lunch?"]);
+    expect(await search("unch")).toEqual([]);
+    expect(await search("afe")).toEqual([]);
+  });
+
+  test("punctuation alone matches nothing", async () => {
+    expect(await search("?")).toEqual([]);
+  });
+});
+
+describe("searchMessages with an index", () => {
+  const scanned = new Map<string, string[]>();
+  const index = messageIndex.getMessageIndex();
+
+  beforeAll(async () => {
+    for (const query of QUERIES) scanned.set(query, await search(query));
+    await index.refresh();
+  });
+
+  afterAll(() => {
+    index.close();
+    rmSync(index.filePath, { force: true });
+  });
+
+  test("the index covers the fixture", () => {
+    expect(index.indexedUpTo()).toBeGreaterThan(0);
+  });
+
+  test.each(QUERIES)("%p finds the same messages as the scan", async (query) => {
+    expect(await search(query)).toEqual(scanned.get(query)!);
+  });
+
+  test("finds text only stored in attributedBody", async () => {
+    expect(await search("grab ice")).toEqual(["@Jordan can you grab ice too?\n[Mentions: @Jordan (+447857931718)]"]);
+  });
+
+  test("messages newer than the index are scanned", async () => {
+    const store = new messagesStore.MessagesStore({ dbPath: messagesStore.getMessagesStore().dbPath, readonly: false });
+    const date = messagesStore.toAppleTimestamp(new Date());
+    store.run("INSERT INTO message (guid, text, handle_id, service, date, is_from_me) VALUES ('SEARCH-NEW', 'Brunch at the café instead?', 1, 'iMessage', ?, 0)", date);
+    const rowId = store.get<{ id: number }>("SELECT last_insert_rowid() AS id")!.id;
+    store.run("INSERT INTO chat_message_join (chat_id, message_id, message_date) VALUES (1, ?, ?)", rowId, date);
+    store.close();
+
+    expect(index.indexedUpTo()).toBeLessThan(rowId);
+    expect(await search("cafe")).toEqual([...scanned.get("cafe")!, "Brunch at the café instead?"].sort());
+  });
+});
@@ -0,0 +1,201 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import { writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { getSharedCacheManager } from "../cache-manager";
+import type { SourceContact } from "../utils/contacts-source";
+import messageCached from "../utils/message-cached";
+import messageStatus from "../utils/message-status";
+import messagesStore from "../utils/messages-store";
+
+const WINSTON = "+13236568914";
+const GROUP = "chat100000000000000001";
+// Fixture rows: my last message to Winston (edited), and my last one in the group (text only in attributedBody)
+const RUNNING_LATE = 13;
+const GRAB_ICE = 9;
+
+// Fixture chats and handles: Winston's iMessage chat and handle, and the SMS ones for the same number
+const IMESSAGE = { chat: 1, handle: 1, service: "iMessage" };
+const SMS = { chat: 5, handle: 4, service: "SMS" };
+
+// What Messages stores as the text of a row that only holds an attachment
+const ATTACHMENT_MARK = "\uFFFC";
+
+const CONTACTS: SourceContact[] = [
+  { id: "status-1:ABPerson", name: "Winston Johnson", phoneNumbers: [{ label: "mobile", value: "(323) 656-8914" }], emails: [], modifiedAt: 1 },
+  { id: "status-2:ABPerson", name: "Winston Jones", phoneNumbers: [{ label: "mobile", value: "+1 310 555 0142" }], emails: [], modifiedAt: 1 },
+];
+
+/**
+ * Write a row the way Messages does for something I sent; returns its ROWID
+ */
+function sent(
+  text: string,
+  options: { chat: number; handle: number; service: string; attachment?: boolean; delivered?: boolean; error?: number },
+): number {
+  const store = new messagesStore.MessagesStore({ dbPath: messagesStore.getMessagesStore().dbPath, readonly: false });
+  const date = messagesStore.toAppleTimestamp(new Date());
+  store.run(
+    `INSERT INTO message (guid, text, handle_id, service, date, date_delivered, is_delivered, is_from_me, is_sent, error, cache_has_attachments)
+     VALUES (?, ?, ?, ?, ?, ?, ?, 1, ?, ?, ?)`,
+    `STATUS-${date}-${Math.random()}`,
+    text,
+    options.handle,
+    options.service,
+    date,
+    options.delivered ? date : 0,
+    options.delivered ? 1 : 0,
+    options.error ? 0 : 1,
+    options.error ?? 0,
+    options.attachment ? 1 : 0,
+  );
+  const rowId = store.get<{ id: number }>("SELECT last_insert_rowid() AS id")!.id;
+  store.run("INSERT INTO chat_message_join (chat_id, message_id, message_date) VALUES (?, ?, ?)", options.chat, rowId, date);
+  store.close();
+  return rowId;
+}
+
+beforeAll(async () => {
+  writeFileSync(process.env.APPLE_MCP_CONTACTS_SOURCE!, JSON.stringify(CONTACTS));
+  await getSharedCacheManager().syncContacts();
+  messagesStore.configureMessagesStore(await messagesStore.createFixtureDatabase(join(process.env.APPLE_MCP_CACHE_DIR!, "chat.db")));
+});
+
+describe("status of messages already sent", () => {
+  test("by message id, only for my own messages", () => {
+    expect(messageStatus.getSentMessageStatus(2)).toMatchObject({
+      id: 2,
+      guid: "FIXTURE-2",
+      state: "read",
+      service: "iMessage",
+      text: "Yes, 12:30 at the usual place",
+      chatId: WINSTON,
+      recipient: WINSTON,
+    });
+    expect(messageStatus.getSentMessageStatus(1)).toBeNull();
+  });
+
+  test("the latest one to any spelling of a contact's number", () => {
+    expect(messageStatus.getLatestSentMessageStatus({ handles: ["(323) 656-8914"] })).toMatchObject({
+      id: RUNNING_LATE,
+      text: "Running 5 minutes late",
+    });
+  });
+
+  test("the latest one in a group, with text decoded from attributedBody", () => {
+    expect(messageStatus.getLatestSentMessageStatus({ chatId: GROUP })).toMatchObject({
+      id: GRAB_ICE,
+      text: "@Jordan can you grab ice too?",
+      chatId: GROUP,
+    });
+  });
+
+  test("nothing sent, or nothing to look for", () => {
+    expect(messageStatus.getLatestSentMessageStatus({ handles: ["+1 212 555 0100"] })).toBeNull();
+    expect(messageStatus.getLatestSentMessageStatus({ handles: [] })).toBeNull();
+    expect(messageStatus.getLatestSentMessageStatus({})).toBeNull();
+  });
+});
+
+describe("getMessageStatus", () => {
+  test("by contact name", async () => {
+    expect(await messageCached.getMessageStatus({ phoneNumberOrName: "Winston Johnson" })).toMatchObject({
+      success: true,
+      recipientName: "Winston Johnson",
+      status: { id: RUNNING_LATE },
+    });
+  });
+
+  test("asks which contact is meant when a name matches several about equally", async () => {
+    const result = await messageCached.getMessageStatus({ phoneNumberOrName: "Winston" });
+    expect(result).toMatchObject({ success: false });
+    expect(result.status).toBeUndefined();
+    expect(result.candidates?.map((candidate) => candidate.name).sort()).toEqual(["Winston Johnson", "Winston Jones"]);
+    expect(result.message).toContain('"Winston" matches several contacts');
+  });
+
+  test("by chat, across the iMessage and SMS chats with one identifier", async () => {
+    const smsRow = sent("Sent over SMS", { ...SMS, delivered: false });
+    expect(await messageCached.getMessageStatus({ chatId: WINSTON })).toMatchObject({
+      success: true,
+      status: { id: smsRow, service: "SMS", state: "sent" },
+    });
+  });
+
+  test("an unknown chat or message", async () => {
+    expect(await messageCached.getMessageStatus({ chatId: "nobody" })).toEqual({ success: false, message: 'No chat found for "nobody"' });
+    expect(await messageCached.getMessageStatus({ messageId: 1 })).toEqual({ success: false, message: "No message #1 sent from this Mac" });
+  });
+});
+
+describe("verifySend", () => {
+  test("picks the text row and the attachment rows after it", async () => {
+    const afterRowId = messageStatus.latestMessageRowId();
+    // Rows that are not this send: an earlier attachment and another text
+    sent(ATTACHMENT_MARK, { ...IMESSAGE, attachment: true, delivered: true });
+    sent("Something else", { ...IMESSAGE, delivered: true });
+    const text = sent("Photos from Sunday", { ...IMESSAGE, delivered: true });
+    const first = sent(ATTACHMENT_MARK, { ...IMESSAGE, attachment: true, delivered: true });
+    const second = sent("", { ...IMESSAGE, attachment: true, delivered: true });
+    sent(ATTACHMENT_MARK, { ...IMESSAGE, attachment: true, delivered: true });
+
+    const result = await messageStatus.verifySend(
+      { afterRowId, text: " Photos from Sunday ", attachmentCount: 2, handles: ["(323) 656-8914"] },
+      { timeoutMs: 0 },
+    );
+    expect(result.state).toBe("delivered");
+    expect(result.service).toBe("iMessage");
+    expect(result.messages.map((message) => message.id)).toEqual([text, first, second]);
+    expect(result.messages.map((message) => message.hasAttachments)).toEqual([false, true, true]);
+  });
+
+  test("attachments sent without text", async () => {
+    const afterRowId = messageStatus.latestMessageRowId();
+    const attachment = sent(ATTACHMENT_MARK, { ...IMESSAGE, attachment: true, delivered: true });
+    const result = await messageStatus.verifySend({ afterRowId, text: "", attachmentCount: 1, chatGuid: `iMessage;-;${WINSTON}` }, { timeoutMs: 0 });
+    expect(result).toMatchObject({ state: "delivered", messages: [{ id: attachment, text: "" }] });
+  });
+
+  test("a send that fell back to SMS stops at sent without waiting for a receipt", async () => {
+    const afterRowId = messageStatus.latestMessageRowId();
+    const row = sent("Can you hear me?", { ...SMS, delivered: false });
+
+    const started = Date.now();
+    const result = await messageStatus.verifySend(
+      { afterRowId, text: "Can you hear me?", attachmentCount: 0, handles: [WINSTON] },
+      { timeoutMs: 5000, intervalMs: 50 },
+    );
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(result).toMatchObject({ state: "sent", service: "SMS", messages: [{ id: row, recipient: WINSTON }] });
+  });
+
+  test("an iMessage with no receipt yet is still sent at the timeout", async () => {
+    const afterRowId = messageStatus.latestMessageRowId();
+    sent("Are you there?", { ...IMESSAGE, delivered: false });
+    const result = await messageStatus.verifySend(
+      { afterRowId, text: "Are you there?", attachmentCount: 0, handles: [WINSTON] },
+      { timeoutMs: 120, intervalMs: 40 },
+    );
+    expect(result).toMatchObject({ state: "sent", service: "iMessage" });
+  });
+
+  test("a failed row fails the send, without waiting for the rest", async () => {
+    const afterRowId = messageStatus.latestMessageRowId();
+    const row = sent("This will bounce", { ...IMESSAGE, error: 22 });
+
+    const started = Date.now();
+    const result = await messageStatus.verifySend(
+      { afterRowId, text: "This will bounce", attachmentCount: 2, handles: [WINSTON] },
+      { timeoutMs: 5000, intervalMs: 50 },
+    );
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(result).toMatchObject({ state: "failed", messages: [{ id: row, state: "failed", errorCode: 22 }] });
+  });
+
+  test("nothing written to chat.db is not-found", async () => {
+    const afterRowId = messageStatus.latestMessageRowId();
+    sent("Sent to someone else", { chat: 2, handle: 2, service: "iMessage", delivered: true });
+    expect(
+      await messageStatus.verifySend({ afterRowId, text: "Sent to someone else", attachmentCount: 0, handles: [WINSTON] }, { timeoutMs: 0 }),
+    ).toEqual({ state: "not-found", messages: [] });
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, expect, test } from "bun:test";
+import nameMatching from "../utils/name-matching";
+import { CORPUS_NAMES, MATCHING_CORPUS } from "../utils/name-matching-corpus";
+
+// Same cutoff as `bun utils/name-matching.ts benchmark`: below it no contact is picked with confidence
+const CONFIDENT_SCORE = 60;
+
+function bestMatch(query: string): string | null {
+  const [top] = nameMatching.rankByName(query, CORPUS_NAMES, (name) => [name], { limit: 1 });
+  return top && top.score >= CONFIDENT_SCORE ? top.item : null;
+}
+
+describe("name matching corpus", () => {
+  test.each(MATCHING_CORPUS.filter((testCase) => testCase.expected !== null))(
+    "$query resolves to $expected",
+    ({ query, expected }) => {
+      expect(bestMatch(query)).toBe(expected);
+    },
+  );
+
+  test.each(MATCHING_CORPUS.filter((testCase) => testCase.expected === null))(
+    "$query resolves to nobody",
+    ({ query }) => {
+      expect(bestMatch(query)).toBeNull();
+    },
+  );
+
+  test("the corpus covers both outcomes", () => {
+    expect(MATCHING_CORPUS.some((testCase) => testCase.expected === null)).toBe(true);
+    expect(MATCHING_CORPUS.every((testCase) => testCase.expected === null || CORPUS_NAMES.includes(testCase.expected))).toBe(true);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, expect, test } from "bun:test";
+import phoneNumbers from "../utils/phone-numbers";
+
+// [region, as written on a contact card, E.164]
+const NATIONAL_NUMBERS: Array<[string, string, string]> = [
+  ["US", "(323) 656-8914", "+13236568914"],
+  ["US", "1-323-656-8914", "+13236568914"],
+  ["CA", "416-555-0123", "+14165550123"],
+  ["MX", "55 1234 5678", "+525512345678"],
+  ["BR", "(11) 91234-5678", "+5511912345678"],
+  ["BR", "0 11 91234 5678", "+5511912345678"],
+  ["GB", "020 7946 0958", "+442079460958"],
+  ["GB", "07857 931718", "+447857931718"],
+  ["GB", "01632 960001", "+441632960001"],
+  ["IE", "087 123 4567", "+353871234567"],
+  ["IE", "01 234 5678", "+35312345678"],
+  ["FR", "06 12 34 56 78", "+33612345678"],
+  ["DE", "0151 23456789", "+4915123456789"],
+  ["DE", "030 1234567", "+49301234567"],
+  ["ES", "912 345 678", "+34912345678"],
+  ["IT", "06 1234 5678", "+390612345678"],
+  ["IT", "333 123 4567", "+393331234567"],
+  ["PT", "912 345 678", "+351912345678"],
+  ["NL", "06 12345678", "+31612345678"],
+  ["NL", "020 123 4567", "+31201234567"],
+  ["BE", "0470 12 34 56", "+32470123456"],
+  ["BE", "02 123 45 67", "+3221234567"],
+  ["CH", "044 668 18 00", "+41446681800"],
+  ["AT", "0664 1234567", "+436641234567"],
+  ["AT", "01 234567", "+431234567"],
+  ["SE", "070-123 45 67", "+46701234567"],
+  ["SE", "08-123 456 78", "+46812345678"],
+  ["AU", "0412 345 678", "+61412345678"],
+  ["AU", "(02) 9876 5432", "+61298765432"],
+  ["NZ", "021 123 4567", "+64211234567"],
+  ["NZ", "09 123 4567", "+6491234567"],
+  ["JP", "03-1234-5678", "+81312345678"],
+  ["JP", "090-1234-5678", "+819012345678"],
+  ["KR", "02-123-4567", "+8221234567"],
+  ["KR", "010-1234-5678", "+821012345678"],
+  ["CN", "010 1234 5678", "+861012345678"],
+  ["CN", "138 0013 8000", "+8613800138000"],
+  ["HK", "9123 4567", "+85291234567"],
+  ["SG", "9123 4567", "+6591234567"],
+  ["IN", "098765 43210", "+919876543210"],
+  ["IN", "98765 43210", "+919876543210"],
+];
+
+// Written with a country code, read with the US as the default region
+const INTERNATIONAL_NUMBERS: Array<[string, string]> = [
+  ["+44 20 7946 0958", "+442079460958"],
+  ["+44 (0)20 7946 0958", "+442079460958"],
+  ["+49 (0) 151 23456789", "+4915123456789"],
+  ["+49 0151 23456789", "+4915123456789"],
+  ["+33 (0)6 12 34 56 78", "+33612345678"],
+  ["+34 (0) 912 345 678", "+34912345678"],
+  ["+39 06 1234 5678", "+390612345678"],
+  ["+39 (0)6 1234 5678", "+390612345678"],
+  ["+52 1 55 1234 5678", "+525512345678"],
+  ["+52 55 1234 5678", "+525512345678"],
+  ["+61 (0)412 345 678", "+61412345678"],
+  ["+81 3-1234-5678", "+81312345678"],
+  ["011 44 20 7946 0958", "+442079460958"],
+  ["447857931718", "+447857931718"],
+];
+
+describe("normalizeToE164", () => {
+  test.each(NATIONAL_NUMBERS)("%s %s", (region, input, expected) => {
+    expect(phoneNumbers.normalizeToE164(input, region)).toBe(expected);
+  });
+
+  test.each(INTERNATIONAL_NUMBERS)("%s", (input, expected) => {
+    expect(phoneNumbers.normalizeToE164(input, "US")).toBe(expected);
+  });
+
+  test("the international prefix of the default region", () => {
+    expect(phoneNumbers.normalizeToE164("0044 20 7946 0958", "DE")).toBe("+442079460958");
+    expect(phoneNumbers.normalizeToE164("0011 44 20 7946 0958", "AU")).toBe("+442079460958");
+  });
+
+  test.each([["nophone@example.com"], [""], ["12345"], ["0000"], ["+49 0"]])("%p is not a phone number", (input) => {
+    expect(phoneNumbers.normalizeToE164(input, "US")).toBeNull();
+  });
+
+  test("every national number in the table is its own E.164 form", () => {
+    for (const [, , expected] of NATIONAL_NUMBERS) {
+      expect(phoneNumbers.normalizeToE164(expected, "US")).toBe(expected);
+    }
+  });
+});
+
+describe("parsePhoneNumber", () => {
+  test("extensions are kept apart from the number", () => {
+    expect(phoneNumbers.parsePhoneNumber("030 1234567 ext. 89", "DE")).toEqual({
+      e164: "+49301234567",
+      countryCode: "49",
+      nationalNumber: "301234567",
+      region: "DE",
+      extension: "89",
+    });
+  });
+});
+
+describe("phoneNumberVariants", () => {
+  test("include the local form with the trunk prefix", () => {
+    expect(phoneNumbers.phoneNumberVariants("0151 23456789", "DE")).toEqual(["+4915123456789", "4915123456789", "015123456789"]);
+    expect(phoneNumbers.phoneNumberVariants("(323) 656-8914", "US")).toEqual(["+13236568914", "13236568914", "3236568914"]);
+  });
+
+  test("two spellings of one German number match", () => {
+    expect(phoneNumbers.phoneNumbersMatch("0151 23456789", "+49 (0) 151 234 567 89", "DE")).toBe(true);
+  });
+});
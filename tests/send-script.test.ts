@@ -0,0 +1,146 @@
+import { describe, expect, test } from "bun:test";
+import { buildSendScript } from "../utils/message-cached";
+
+const PHONE = "+13236568914";
+const TRICKY_TEXT = 'She said "hi" \\o/\nsee C:\\temp\r\n\tend "';
+const TRICKY_PATH = '/Users/ana/Desktop/my "best" \\ photo\nfinal.jpg';
+
+type SendTarget = Parameters<typeof buildSendScript>[0];
+
+function script(target: Partial<SendTarget>): string {
+  return buildSendScript({ message: "", phoneNumber: PHONE, messageType: "imessage", ...target });
+}
+
+/**
+ * The send lines of a script, with each AppleScript string literal read back the way osascript would
+ */
+function sends(source: string): Array<{ kind: "text" | "file"; value: string; to: string }> {
+  return source
+    .split("\n")
+    .filter((line) => line.trim().startsWith("send "))
+    .map((line) => {
+      const match = /^\s*send (POSIX file )?"((?:[^"\\]|\\.)*)" to (.+)$/.exec(line);
+      if (!match) throw new Error(`Unparseable send line: ${line}`);
+      const value = match[2].replace(/\\(.)/g, (_, char: string) => ({ n: "\n", r: "\r", t: "\t" })[char] ?? char);
+      return { kind: match[1] ? "file" : "text", value, to: match[3] };
+    });
+}
+
+describe("buildSendScript content", () => {
+  test("text only", () => {
+    expect(sends(script({ message: "Lunch at 12:30?" }))).toEqual([
+      { kind: "text", value: "Lunch at 12:30?", to: "targetBuddy" },
+    ]);
+  });
+
+  test("attachments only", () => {
+    const source = script({ attachments: ["/tmp/a.jpg", "/tmp/b.pdf"] });
+    expect(sends(source)).toEqual([
+      { kind: "file", value: "/tmp/a.jpg", to: "targetBuddy" },
+      { kind: "file", value: "/tmp/b.pdf", to: "targetBuddy" },
+    ]);
+  });
+
+  test("text first, then each attachment", () => {
+    expect(sends(script({ message: "Photos from Sunday", attachments: ["/tmp/a.jpg", "/tmp/b.jpg"] }))).toEqual([
+      { kind: "text", value: "Photos from Sunday", to: "targetBuddy" },
+      { kind: "file", value: "/tmp/a.jpg", to: "targetBuddy" },
+      { kind: "file", value: "/tmp/b.jpg", to: "targetBuddy" },
+    ]);
+  });
+
+  test("nothing to send gives no send lines", () => {
+    expect(sends(script({}))).toEqual([]);
+  });
+});
+
+describe("buildSendScript escaping", () => {
+  test("quotes, backslashes and line breaks in the text survive as one literal", () => {
+    const source = script({ message: TRICKY_TEXT });
+    expect(sends(source)).toEqual([{ kind: "text", value: TRICKY_TEXT, to: "targetBuddy" }]);
+    expect(source).not.toContain("\r");
+    expect(source).not.toContain("\t");
+  });
+
+  test("quotes, backslashes and line breaks in attachment paths survive as one literal", () => {
+    expect(sends(script({ message: TRICKY_TEXT, attachments: [TRICKY_PATH] }))).toEqual([
+      { kind: "text", value: TRICKY_TEXT, to: "targetBuddy" },
+      { kind: "file", value: TRICKY_PATH, to: "targetBuddy" },
+    ]);
+  });
+
+  test("text cannot close the string and add statements", () => {
+    const injection = '" to buddy "+10000000000"\ndo shell script "rm -rf ~"\nsend "';
+    const source = script({ message: injection });
+    expect(sends(source)).toEqual([{ kind: "text", value: injection, to: "targetBuddy" }]);
+    expect(source).not.toMatch(/^\s*do shell script/m);
+  });
+
+  test("handles and chat ids are escaped too", () => {
+    expect(script({ message: "hi", phoneNumber: 'a"b\\c' })).toContain('buddy "a\\"b\\\\c" of targetService');
+    expect(script({ message: "hi", chatGuid: 'iMessage;+;chat"1' })).toContain('chat id "iMessage;+;chat\\"1"');
+  });
+});
+
+describe("buildSendScript targets", () => {
+  test("an iMessage buddy on the iMessage service", () => {
+    const source = script({ message: "hi" });
+    expect(source).toContain("set targetService to 1st service whose service type = iMessage");
+    expect(source).toContain(`set targetBuddy to buddy "${PHONE}" of targetService`);
+    expect(sends(source)[0].to).toBe("targetBuddy");
+  });
+
+  test("SMS or unknown numbers go to the plain buddy", () => {
+    for (const messageType of ["sms", "unknown"] as const) {
+      const source = script({ message: "hi", messageType });
+      expect(source).not.toContain("targetService");
+      expect(sends(source)).toEqual([{ kind: "text", value: "hi", to: `buddy "${PHONE}"` }]);
+    }
+  });
+
+  test("an existing group chat by its guid", () => {
+    const source = script({ message: "hi", chatGuid: "iMessage;+;chat123456", attachments: ["/tmp/a.jpg"] });
+    expect(source).not.toContain("targetBuddy");
+    expect(sends(source).map((send) => send.to)).toEqual(['chat id "iMessage;+;chat123456"', 'chat id "iMessage;+;chat123456"']);
+  });
+
+  test("a new group chat with every participant", () => {
+    const source = script({
+      message: "hi all",
+      recipients: [
+        { name: "Winston Johnson", phoneNumber: "+13236568914" },
+        { name: "Inés García", phoneNumber: "+447857931718" },
+      ],
+    });
+    expect(source).toContain("set targetService to 1st account whose service type = iMessage");
+    expect(source).toContain(
+      'set newChat to make new text chat with properties {participants:{participant "+13236568914" of targetService, participant "+447857931718" of targetService}}',
+    );
+    expect(sends(source)).toEqual([{ kind: "text", value: "hi all", to: "newChat" }]);
+  });
+
+  test("a single recipient is a buddy, not a new group", () => {
+    const source = script({ message: "hi", recipients: [{ name: "Winston Johnson", phoneNumber: PHONE }] });
+    expect(source).not.toContain("newChat");
+    expect(sends(source)[0].to).toBe("targetBuddy");
+  });
+
+  test("a chat guid wins over recipients", () => {
+    const source = script({
+      message: "hi",
+      chatGuid: "iMessage;+;chat1",
+      recipients: [
+        { name: "A", phoneNumber: "+1" },
+        { name: "B", phoneNumber: "+2" },
+      ],
+    });
+    expect(source).not.toContain("newChat");
+    expect(sends(source)[0].to).toBe('chat id "iMessage;+;chat1"');
+  });
+
+  test("the script is one tell block for Messages", () => {
+    const source = script({ message: "hi" }).trim();
+    expect(source.startsWith('tell application "Messages"')).toBe(true);
+    expect(source.endsWith("end tell")).toBe(true);
+  });
+});
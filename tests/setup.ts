@@ -0,0 +1,17 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll } from "bun:test";
+import "./support/keytar-preload";
+
+// Modules read these once at import, so they must be set before any test imports them.
+// Keeps the contacts cache, message index, schedule queue and chat.db out of the working tree.
+const scratchDir = mkdtempSync(join(tmpdir(), "apple-mcp-test-"));
+
+process.env.APPLE_MCP_CACHE_DIR = scratchDir;
+process.env.APPLE_MCP_CONTACTS_SOURCE = join(scratchDir, "contacts.json");
+process.env.APPLE_MCP_MESSAGES_DB = join(scratchDir, "chat.db");
+
+afterAll(() => {
+  rmSync(scratchDir, { recursive: true, force: true });
+});
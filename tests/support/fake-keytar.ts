@@ -0,0 +1,29 @@
+/**
+ * In-memory stand-in for the keytar keychain API used by mail-imap (keytar has no Linux build here)
+ */
+const entries = new Map<string, Map<string, string>>();
+
+function service(name: string): Map<string, string> {
+  if (!entries.has(name)) entries.set(name, new Map());
+  return entries.get(name)!;
+}
+
+const fakeKeytar = {
+  async getPassword(serviceName: string, account: string): Promise<string | null> {
+    return service(serviceName).get(account) ?? null;
+  },
+  async setPassword(serviceName: string, account: string, password: string): Promise<void> {
+    service(serviceName).set(account, password);
+  },
+  async deletePassword(serviceName: string, account: string): Promise<boolean> {
+    return service(serviceName).delete(account);
+  },
+  async findCredentials(serviceName: string): Promise<Array<{ account: string; password: string }>> {
+    return [...service(serviceName)].map(([account, password]) => ({ account, password }));
+  },
+  clear(): void {
+    entries.clear();
+  },
+};
+
+export default fakeKeytar;
@@ -0,0 +1,240 @@
+import { createServer, type Server, type Socket } from "node:net";
+
+/**
+ * A message held by the fake IMAP server. Messages with an attachment are served as multipart/mixed.
+ */
+interface FakeMail {
+  subject: string;
+  from: string;
+  to: string;
+  date: string;
+  body: string;
+  seen?: boolean;
+  attachment?: { filename: string; contentType: string; content: string };
+}
+
+interface FakeMailbox {
+  path: string;
+  // e.g. "\\Noselect" for a folder that only holds other folders
+  flags?: string[];
+  messages?: FakeMail[];
+}
+
+interface FakeImapOptions {
+  user: string;
+  password: string;
+  mailboxes: FakeMailbox[];
+}
+
+/**
+ * Minimal plain-text IMAP4rev1 responder covering what ImapFlow sends for a search:
+ * LOGIN, LIST, SELECT, SEARCH, FETCH (ENVELOPE FLAGS BODYSTRUCTURE, BODY.PEEK[n]) and LOGOUT.
+ * Every command received is kept in `commands` so tests can assert on the conversation.
+ */
+class FakeImapServer {
+  readonly commands: string[] = [];
+  private server: Server | null = null;
+  private readonly sockets = new Set<Socket>();
+
+  constructor(private readonly options: FakeImapOptions) {}
+
+  async start(): Promise<number> {
+    this.server = createServer((socket) => this.handle(socket));
+    await new Promise<void>((resolve) => this.server!.listen(0, "127.0.0.1", resolve));
+    const address = this.server.address();
+    return typeof address === "object" && address ? address.port : 0;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    for (const socket of this.sockets) socket.destroy();
+    await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+    this.server = null;
+  }
+
+  private handle(socket: Socket): void {
+    this.sockets.add(socket);
+    socket.on("close", () => this.sockets.delete(socket));
+    let buffer = Buffer.alloc(0);
+    let pending: Array<string | Buffer> = [];
+    let literalBytes = 0;
+    let selected: FakeMailbox | null = null;
+    let authenticated = false;
+
+    const send = (line: string) => socket.write(`${line}\r\n`);
+
+    const execute = (parts: Array<string | Buffer>) => {
+      const line = parts.map((part) => part.toString()).join("");
+      this.commands.push(line);
+      const [tag, rawCommand = ""] = line.split(" ", 2);
+      const command = rawCommand.toUpperCase();
+      const rest = line.slice(tag.length + rawCommand.length + 2);
+      const args = tokenize(rest);
+
+      switch (command) {
+        case "CAPABILITY":
+          send("* CAPABILITY IMAP4rev1");
+          send(`${tag} OK CAPABILITY completed`);
+          break;
+        case "NOOP":
+          send(`${tag} OK NOOP completed`);
+          break;
+        case "LOGIN":
+          if (args[0] === this.options.user && args[1] === this.options.password) {
+            authenticated = true;
+            send(`${tag} OK [CAPABILITY IMAP4rev1] LOGIN completed`);
+          } else {
+            send(`${tag} NO [AUTHENTICATIONFAILED] Invalid credentials`);
+          }
+          break;
+        case "LIST":
+          if (!authenticated) return send(`${tag} BAD Not authenticated`);
+          // An empty pattern only asks for the hierarchy delimiter
+          if (args[1] === "") send('* LIST (\\Noselect) "/" ""');
+          for (const mailbox of args[1] === "" ? [] : this.options.mailboxes) {
+            send(`* LIST (${(mailbox.flags || []).join(" ")}) "/" ${quote(mailbox.path)}`);
+          }
+          send(`${tag} OK LIST completed`);
+          break;
+        case "SELECT":
+        case "EXAMINE": {
+          selected = this.options.mailboxes.find((mailbox) => mailbox.path === args[0]) || null;
+          if (!authenticated || !selected || selected.flags?.includes("\\Noselect")) {
+            selected = null;
+            return send(`${tag} NO No such mailbox`);
+          }
+          const count = selected.messages?.length || 0;
+          send(`* ${count} EXISTS`);
+          send("* 0 RECENT");
+          send("* FLAGS (\\Seen \\Answered \\Flagged \\Deleted \\Draft)");
+          send("* OK [UIDVALIDITY 1] UIDs valid");
+          send(`* OK [UIDNEXT ${count + 1}] Predicted next UID`);
+          send(`${tag} OK [${command === "SELECT" ? "READ-WRITE" : "READ-ONLY"}] ${command} completed`);
+          break;
+        }
+        case "SEARCH": {
+          if (!selected) return send(`${tag} BAD No mailbox selected`);
+          const term = searchTerm(args);
+          const hits = (selected.messages || [])
+            .map((mail, index) => ({ mail, seq: index + 1 }))
+            .filter(({ mail }) =>
+              [mail.subject, mail.body, mail.from, mail.to].some((field) =>
+                field.toLowerCase().includes(term.toLowerCase()),
+              ),
+            )
+            .map(({ seq }) => seq);
+          send(`* SEARCH${hits.map((seq) => ` ${seq}`).join("")}`);
+          send(`${tag} OK SEARCH completed`);
+          break;
+        }
+        case "FETCH": {
+          if (!selected) return send(`${tag} BAD No mailbox selected`);
+          const seq = Number(args[0]);
+          const mail = selected.messages?.[seq - 1];
+          if (mail) socket.write(fetchResponse(seq, mail, rest.slice(args[0].length + 1).toUpperCase()));
+          send(`${tag} OK FETCH completed`);
+          break;
+        }
+        case "LOGOUT":
+          send("* BYE Logging out");
+          send(`${tag} OK LOGOUT completed`);
+          socket.end();
+          break;
+        default:
+          send(`${tag} BAD Unknown command ${rawCommand}`);
+      }
+    };
+
+    socket.on("data", (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      for (;;) {
+        if (literalBytes > 0) {
+          if (buffer.length < literalBytes) return;
+          pending.push(buffer.subarray(0, literalBytes));
+          buffer = buffer.subarray(literalBytes);
+          literalBytes = 0;
+          continue;
+        }
+        const end = buffer.indexOf("\r\n");
+        if (end < 0) return;
+        const line = buffer.subarray(0, end).toString();
+        buffer = buffer.subarray(end + 2);
+        const literal = line.match(/\{(\d+)\+?\}$/);
+        if (literal) {
+          // Hand the literal back as a quoted string so the command parses like any other
+          pending.push(line.slice(0, literal.index));
+          literalBytes = Number(literal[1]);
+          if (!literal[0].includes("+")) send("+ Ready for literal data");
+          continue;
+        }
+        pending.push(line);
+        const parts = pending.map((part) => (Buffer.isBuffer(part) ? quote(part.toString()) : part));
+        pending = [];
+        execute(parts);
+      }
+    });
+    socket.on("error", () => socket.destroy());
+
+    send("* OK [CAPABILITY IMAP4rev1] Fake IMAP ready");
+  }
+}
+
+// Split IMAP arguments into atoms and quoted strings; parentheses are dropped
+function tokenize(input: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /"((?:[^"\\]|\\.)*)"|([^\s()]+)/g;
+  for (const match of input.matchAll(pattern)) {
+    tokens.push(match[1] !== undefined ? match[1].replace(/\\(.)/g, "$1") : match[2]);
+  }
+  return tokens;
+}
+
+// The value following the first SUBJECT/BODY/FROM/TO key; the search ORs them with one term
+function searchTerm(args: string[]): string {
+  const index = args.findIndex((arg) => ["SUBJECT", "BODY", "FROM", "TO", "TEXT"].includes(arg.toUpperCase()));
+  return index >= 0 ? args[index + 1] || "" : "";
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+function address(value: string): string {
+  const [mailbox, host] = value.split("@");
+  return `((NIL NIL ${quote(mailbox)} ${quote(host)}))`;
+}
+
+function envelope(mail: FakeMail): string {
+  const from = address(mail.from);
+  return `(${quote(mail.date)} ${quote(mail.subject)} ${from} ${from} ${from} ${address(mail.to)} NIL NIL NIL NIL)`;
+}
+
+function bodyStructure(mail: FakeMail): string {
+  const lines = mail.body.split("\n").length;
+  const text = `("TEXT" "PLAIN" ("CHARSET" "utf-8") NIL NIL "7BIT" ${Buffer.byteLength(mail.body)} ${lines})`;
+  if (!mail.attachment) return text;
+  const [type, subtype] = mail.attachment.contentType.toUpperCase().split("/");
+  const encoded = Buffer.from(mail.attachment.content).toString("base64");
+  const name = quote(mail.attachment.filename);
+  const attachment = `(${quote(type)} ${quote(subtype)} ("NAME" ${name}) NIL NIL "BASE64" ${encoded.length} NIL ("ATTACHMENT" ("FILENAME" ${name})) NIL)`;
+  return `(${text}${attachment} "MIXED" ("BOUNDARY" "fake") NIL NIL)`;
+}
+
+function fetchResponse(seq: number, mail: FakeMail, items: string): string {
+  const fields: string[] = [];
+  const literals: string[] = [];
+  if (items.includes("FLAGS")) fields.push(`FLAGS (${mail.seen ? "\\Seen" : ""})`);
+  if (items.includes("ENVELOPE")) fields.push(`ENVELOPE ${envelope(mail)}`);
+  if (items.includes("BODYSTRUCTURE")) fields.push(`BODYSTRUCTURE ${bodyStructure(mail)}`);
+  const part = items.match(/BODY(?:\.PEEK)?\[([\d.]+)\]/);
+  if (part) {
+    const content =
+      part[1] === "2" && mail.attachment ? Buffer.from(mail.attachment.content).toString("base64") : mail.body;
+    literals.push(`BODY[${part[1]}] {${Buffer.byteLength(content)}}\r\n${content}`);
+  }
+  return `* ${seq} FETCH (${[...fields, ...literals].join(" ")})\r\n`;
+}
+
+export type { FakeMail, FakeMailbox, FakeImapOptions };
+
+export default FakeImapServer;
@@ -0,0 +1,10 @@
+import { plugin } from "bun";
+import fakeKeytar from "./fake-keytar";
+
+// Resolve `import keytar from "keytar"` to the in-memory keychain, in tests and in spawned servers
+plugin({
+  name: "fake keytar",
+  setup(build) {
+    build.module("keytar", () => ({ exports: { default: fakeKeytar, ...fakeKeytar }, loader: "object" }));
+  },
+});
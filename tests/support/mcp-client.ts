@@ -0,0 +1,78 @@
+import { spawn, type ChildProcessWithoutNullStreams } from "node:child_process";
+import { join } from "node:path";
+
+const ROOT = join(import.meta.dir, "..", "..");
+
+interface ToolResult {
+  content: Array<{ type: string; text: string }>;
+  isError?: boolean;
+}
+
+/**
+ * Runs index.ts as a child process and talks MCP JSON-RPC to it over stdio,
+ * the way a client does. The child inherits the test environment (scratch cache dir, fake sources)
+ * and resolves keytar to the in-memory keychain.
+ */
+class McpTestClient {
+  private child: ChildProcessWithoutNullStreams | null = null;
+  private nextId = 1;
+  private output = "";
+  private readonly waiting = new Map<number, (message: any) => void>();
+
+  async start(): Promise<void> {
+    this.child = spawn("bun", ["--preload", "./tests/support/keytar-preload.ts", "index.ts"], {
+      cwd: ROOT,
+      env: process.env,
+    });
+    this.child.stdout.on("data", (chunk: Buffer) => {
+      this.output += chunk.toString();
+      let newline: number;
+      while ((newline = this.output.indexOf("\n")) >= 0) {
+        const line = this.output.slice(0, newline).trim();
+        this.output = this.output.slice(newline + 1);
+        if (!line) continue;
+        const message = JSON.parse(line);
+        this.waiting.get(message.id)?.(message);
+        this.waiting.delete(message.id);
+      }
+    });
+    // The server logs progress on stderr; drain it so the pipe never fills
+    this.child.stderr.resume();
+
+    await this.request("initialize", {
+      protocolVersion: "2024-11-05",
+      capabilities: {},
+      clientInfo: { name: "apple-mcp-tests", version: "1.0.0" },
+    });
+    this.notify("notifications/initialized");
+  }
+
+  async callTool(name: string, args: Record<string, unknown>): Promise<ToolResult> {
+    const response = await this.request("tools/call", { name, arguments: args });
+    if (response.error) throw new Error(response.error.message);
+    return response.result as ToolResult;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.child) return;
+    const exited = new Promise((resolve) => this.child!.once("exit", resolve));
+    this.child.kill();
+    await exited;
+    this.child = null;
+  }
+
+  private request(method: string, params: unknown): Promise<any> {
+    const id = this.nextId++;
+    const response = new Promise((resolve) => this.waiting.set(id, resolve));
+    this.child!.stdin.write(`${JSON.stringify({ jsonrpc: "2.0", id, method, params })}\n`);
+    return response;
+  }
+
+  private notify(method: string): void {
+    this.child!.stdin.write(`${JSON.stringify({ jsonrpc: "2.0", method })}\n`);
+  }
+}
+
+export type { ToolResult };
+
+export default McpTestClient;
@@ -0,0 +1,153 @@
+import { describe, expect, test } from "bun:test";
+import typedstream, { TypedStreamError } from "../utils/typedstream";
+import { ATTRIBUTED_BODIES, plainAttributedBody } from "./fixtures/attributed-bodies";
+
+const HEADER = "040b73747265616d747970656481e803";
+
+function fromHex(hex: string): Uint8Array {
+  return Uint8Array.from(Buffer.from(hex, "hex"));
+}
+
+// Small deterministic generator so the garbage inputs are the same on every run
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomBytes(next: () => number, length: number): Uint8Array {
+  return Uint8Array.from({ length }, () => Math.floor(next() * 256));
+}
+
+describe("decodeAttributedBody corpus", () => {
+  for (const fixture of ATTRIBUTED_BODIES) {
+    test(fixture.name, () => {
+      expect(typedstream.decodeAttributedBody(fromHex(fixture.hex))).toMatchObject(fixture.expected);
+    });
+  }
+
+  test("the fixture writer round-trips every corpus entry", () => {
+    for (const fixture of ATTRIBUTED_BODIES) {
+      const decoded = typedstream.decodeAttributedBody(fromHex(fixture.hex));
+      const rewritten = typedstream.encodeAttributedBody(
+        decoded.text,
+        decoded.runs.map((run) => ({
+          length: run.length,
+          attributes: Object.fromEntries(
+            Object.entries(run.attributes).filter((entry): entry is [string, string | number] => entry[1] !== null),
+          ) as Record<string, string | number>,
+        })),
+      );
+      expect(typedstream.decodeAttributedBody(rewritten)).toEqual(decoded);
+    }
+  });
+});
+
+describe("length prefixes", () => {
+  test("1-byte lengths", () => {
+    const blob = plainAttributedBody("x".repeat(127));
+    expect(blob).toContain(127);
+    expect(typedstream.decodeAttributedBody(blob).text).toBe("x".repeat(127));
+  });
+
+  test("2-byte lengths", () => {
+    const text = "Long message. ".repeat(20);
+    const decoded = typedstream.decodeAttributedBody(plainAttributedBody(text));
+    expect(decoded.text).toBe(text);
+    expect(decoded.runs).toEqual([{ location: 0, length: 280, attributes: { __kIMMessagePartAttributeName: 0 } }]);
+  });
+
+  test("4-byte lengths", () => {
+    const text = "0123456789".repeat(4000);
+    const decoded = typedstream.decodeAttributedBody(plainAttributedBody(text));
+    expect(decoded.text).toBe(text);
+    expect(decoded.runs[0].length).toBe(40000);
+  });
+
+  test("UTF-8 byte length and UTF-16 run length differ for non-ASCII text", () => {
+    const text = "Café 🎉 ".repeat(30);
+    const decoded = typedstream.decodeAttributedBody(plainAttributedBody(text));
+    expect(decoded.text).toBe(text);
+    expect(decoded.runs[0].length).toBe(text.length);
+  });
+
+  test("the fixture writer picks the prefix size by value", () => {
+    for (const length of [5, 200, 40000]) {
+      const text = "a".repeat(length);
+      expect(typedstream.decodeAttributedBody(typedstream.encodeAttributedBody(text)).text).toBe(text);
+    }
+  });
+});
+
+describe("malformed input", () => {
+  test("every truncation of every corpus blob throws", () => {
+    for (const fixture of ATTRIBUTED_BODIES) {
+      const blob = fromHex(fixture.hex);
+      for (let length = 0; length < blob.length; length++) {
+        expect(() => typedstream.decodeAttributedBody(blob.subarray(0, length))).toThrow(TypedStreamError);
+      }
+    }
+  });
+
+  test("a truncated long string throws instead of reading past the end", () => {
+    const blob = plainAttributedBody("0123456789".repeat(4000));
+    expect(() => typedstream.decodeAttributedBody(blob.subarray(0, 1000))).toThrow(TypedStreamError);
+  });
+
+  test.each([
+    ["an empty blob", "", /Unexpected end/],
+    ["a wrong streamer version", "050b73747265616d747970656481e803", /streamer version 5/],
+    ["a wrong signature", "040b6e6f7420612073747265616d81e803", /Not a typedstream/],
+    ["a wrong system version", "040b73747265616d747970656481e903", /system version 1001/],
+    ["an unterminated type encoding", `${HEADER}84017b`, /Unterminated type encoding/],
+    ["an array longer than the data", `${HEADER}84075b39393939695d01`, /Unexpected end/],
+    ["a reference to an object never archived", `${HEADER}8401409f`, /unknown object/],
+    ["a reference to a string never archived", `${HEADER}9a`, /unknown shared string/],
+    ["a reserved tag where an integer belongs", `${HEADER}84016980`, /Unexpected tag -128/],
+    [
+      "a root object that is not an attributed string",
+      `${HEADER}840140848484084e53537472696e67018484084e534f626a656374008584012b017886`,
+      /does not contain an NSAttributedString/,
+    ],
+    ["a header and nothing else", HEADER, /does not contain an NSAttributedString/],
+  ])("%s throws", (_label, hex, message) => {
+    expect(() => typedstream.decodeAttributedBody(fromHex(hex))).toThrow(message);
+  });
+
+  test("random bytes throw", () => {
+    const next = random(1);
+    for (let i = 0; i < 500; i++) {
+      const blob = randomBytes(next, 1 + Math.floor(next() * 200));
+      expect(() => typedstream.decodeAttributedBody(blob)).toThrow(TypedStreamError);
+    }
+  });
+
+  test("a valid header followed by random bytes throws", () => {
+    const next = random(2);
+    for (let i = 0; i < 500; i++) {
+      const blob = new Uint8Array([...fromHex(HEADER), ...randomBytes(next, 1 + Math.floor(next() * 200))]);
+      expect(() => typedstream.decodeAttributedBody(blob)).toThrow(TypedStreamError);
+    }
+  });
+
+  test("corrupted corpus blobs either decode or throw a TypedStreamError, and finish quickly", () => {
+    const next = random(3);
+    const started = performance.now();
+    for (const fixture of ATTRIBUTED_BODIES) {
+      const blob = fromHex(fixture.hex);
+      for (let offset = 0; offset < blob.length; offset++) {
+        const corrupted = Uint8Array.from(blob);
+        corrupted[offset] = Math.floor(next() * 256);
+        try {
+          typedstream.decodeAttributedBody(corrupted);
+        } catch (error) {
+          expect(error).toBeInstanceOf(TypedStreamError);
+        }
+      }
+    }
+    expect(performance.now() - started).toBeLessThan(2000);
+  });
+});
@@ -2,14 +2,67 @@ import { type Tool } from "@modelcontextprotocol/sdk/types.js";
 
 const CONTACTS_TOOL: Tool = {
   name: "contacts",
-  description: "Search and retrieve contacts from Apple Contacts app",
+  description: "Search and retrieve contacts from Apple Contacts app. Returns structured records with contact ID, labeled phone numbers and emails (mobile, work, ...), organization, job title, nickname, birthday and postal addresses",
   inputSchema: {
     type: "object",
     properties: {
+      operation: {
+        type: "string",
+        description: "Operation to perform: 'search' (by name, the default), 'lookup' (who a phone number or email belongs to), 'organization' (by organization or email domain), 'birthdays' (upcoming birthdays), 'card' (everything about one contact), 'create' (add a person), 'update' (add a number or email to a contact, or change organization/job title), or 'confirm' (save a create or update after the user confirms)",
+        enum: ["search", "lookup", "organization", "birthdays", "card", "create", "update", "confirm"],
+      },
       name: {
         type: "string",
         description:
-          "Name to search for (optional - if not provided, returns all contacts). Can be partial name to search.",
+          "Name to search for (optional - if not provided, returns all contacts). Can be partial name to search. Also selects the contact for the card and update operations, and is the full name for create",
+      },
+      handle: {
+        type: "string",
+        description: "Phone number in any format, or email address (required for lookup operation)",
+      },
+      organization: {
+        type: "string",
+        description: "Organization name or part of it (for organization operation), or the organization to set (for create and update operations)",
+      },
+      domain: {
+        type: "string",
+        description: "Email domain such as 'acme.com' (for organization operation, alternative to organization)",
+      },
+      days: {
+        type: "number",
+        description: "How many days ahead to look for birthdays (optional for birthdays operation, defaults to 30)",
+      },
+      contactId: {
+        type: "string",
+        description: "Contacts person ID from an earlier result (for card and update operations, alternative to name)",
+      },
+      phoneNumber: {
+        type: "string",
+        description: "Phone number to add (for create and update operations)",
+      },
+      phoneLabel: {
+        type: "string",
+        description: "Label for the phone number, e.g. 'mobile', 'work', 'home' (optional, defaults to 'mobile')",
+      },
+      email: {
+        type: "string",
+        description: "Email address to add (for create and update operations)",
+      },
+      emailLabel: {
+        type: "string",
+        description: "Label for the email address, e.g. 'work', 'home' (optional, defaults to 'home')",
+      },
+      jobTitle: {
+        type: "string",
+        description: "Job title to set (for create and update operations)",
+      },
+      confirmationToken: {
+        type: "string",
+        description: "Token returned by create or update (required for confirm operation, only after the user explicitly confirms)",
+      },
+      userConfirmation: {
+        type: "string",
+        description: "The user's answer, e.g. 'yes' or 'no' (optional for confirm operation)",
       },
     },
   },
@@ -54,15 +107,15 @@ const NOTES_TOOL: Tool = {
 const MESSAGES_TOOL: Tool = {
   name: "messages",
   description:
-    "Interact with Apple Messages app - send, read, schedule messages and check unread messages. Supports both phone numbers and contact names with intelligent matching.",
+    "Interact with Apple Messages app - send, read, search, schedule (and list, edit or cancel scheduled) messages, check unread messages, check delivery status, open or export attachments and export conversations as transcripts. Supports both phone numbers and contact names with intelligent matching.",
   inputSchema: {
     type: "object",
     properties: {
       operation: {
         type: "string",
         description:
-          "Operation to perform: 'send', 'send-confirmed', 'read', 'schedule', 'unread', 'threads', or 'search-contacts'",
-        enum: ["send", "send-confirmed", "read", "schedule", "unread", "threads", "search-contacts"],
+          "Operation to perform: 'send', 'send-confirmed', 'read', 'schedule', 'scheduled' (list scheduled messages), 'edit-scheduled', 'cancel-scheduled', 'unread', 'threads', 'search' (find messages across all conversations), 'search-contacts', 'attachment' (show or export a message attachment), 'status' (delivery and read status of a sent message), or 'export' (a conversation as a Markdown, JSON or plain-text transcript)",
+        enum: ["send", "send-confirmed", "read", "schedule", "scheduled", "edit-scheduled", "cancel-scheduled", "unread", "threads", "search", "search-contacts", "attachment", "status", "export"],
       },
       phoneNumberOrName: {
         type: "string",
@@ -74,20 +127,47 @@ const MESSAGES_TOOL: Tool = {
         description:
           "Phone number (legacy field - use phoneNumberOrName instead)",
       },
+      chatName: {
+        type: "string",
+        description:
+          "Name (or chat identifier) of an existing group chat to send to (send operation, instead of phoneNumberOrName)",
+      },
+      recipients: {
+        type: "array",
+        items: { type: "string" },
+        description:
+          "Several contact names or phone numbers to message together as a group (send operation, instead of phoneNumberOrName)",
+      },
+      chatId: {
+        type: "string",
+        description:
+          "Chat identifier from the threads operation (e.g. 'chat123456789') or group chat name, to read or export a whole conversation including group chats (read and export operations) or limit a search to it (search operation)",
+      },
       message: {
         type: "string",
         description:
-          "Message to send (required for send and schedule operations)",
+          "Message to send (required for send and schedule operations unless attachments are given; new text for edit-scheduled, which returns a confirmation token like schedule)",
+      },
+      attachments: {
+        type: "array",
+        items: { type: "string" },
+        description:
+          "Paths of files to send with the message (optional for send operation; up to 10 files of at most 100 MB each, 1 MB over SMS). They are shown in the confirmation and sent after send-confirmed",
       },
       limit: {
         type: "number",
         description:
-          "Number of messages/threads to retrieve (optional)",
+          "Number of messages/threads to retrieve (optional; export includes up to 500 messages by default, 1000 at most)",
       },
       scheduledTime: {
         type: "string",
         description:
-          "ISO string of when to send the message (required for schedule operation)",
+          "ISO string of when to send the message (required for schedule operation; new time for edit-scheduled)",
+      },
+      scheduleId: {
+        type: "string",
+        description:
+          "Schedule ID from the schedule or scheduled operation (required for edit-scheduled and cancel-scheduled operations)",
       },
       messageType: {
         type: "string",
@@ -108,12 +188,63 @@ const MESSAGES_TOOL: Tool = {
       searchTerm: {
         type: "string",
         description:
-          "Contact name to search for (required for search-contacts operation)",
+          "Contact name to search for (required for search-contacts operation), or words to find in message text (search operation; every word must start a word of the message)",
+      },
+      startDate: {
+        type: "string",
+        description:
+          "Only messages sent on or after this ISO date (search and export operations)",
+      },
+      endDate: {
+        type: "string",
+        description:
+          "Only messages sent on or before this ISO date (search and export operations)",
+      },
+      sender: {
+        type: "string",
+        description:
+          "Only messages from this contact name, phone number or email (search operation)",
+      },
+      hasAttachment: {
+        type: "boolean",
+        description:
+          "Only messages with (true) or without (false) attachments (search operation)",
+      },
+      fromMe: {
+        type: "boolean",
+        description:
+          "Only messages I sent (true) or received (false) (search operation)",
+      },
+      attachmentId: {
+        type: "number",
+        description:
+          "Attachment number shown as #id in read, unread and search results (required for attachment operation)",
+      },
+      destination: {
+        type: "string",
+        description:
+          "Directory to copy the attachment into (optional for attachment operation; without it, images up to 1 MB and text files up to 256 KB are returned inline)",
+      },
+      messageId: {
+        type: "number",
+        description:
+          "Message number reported after sending (status operation; without it, status checks the last message sent to phoneNumberOrName or chatId)",
+      },
+      format: {
+        type: "string",
+        description:
+          "Transcript format for the export operation (default: 'markdown'); messages are grouped by day with names resolved, attachments listed and tapbacks shown on their messages",
+        enum: ["markdown", "json", "text"],
       },
       confirmationToken: {
         type: "string",
         description:
-          "Confirmation token from send operation (required for send-confirmed operation)",
+          "Confirmation token from send or schedule operation (required for send-confirmed operation)",
+      },
+      candidate: {
+        type: "number",
+        description:
+          "Number of the contact the user picked when send or schedule returned several matching contacts (send-confirmed operation with that token)",
       },
       userConfirmation: {
         type: "string",
@@ -0,0 +1,14 @@
+/**
+ * Quote a value for use inside an AppleScript string literal. Line breaks and tabs become
+ * escapes, so a value can never end the literal or start a new statement on the next line.
+ */
+function escapeAppleScriptString(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n")
+    .replace(/\r/g, "\\r")
+    .replace(/\t/g, "\\t");
+}
+
+export { escapeAppleScriptString };
@@ -1,12 +1,150 @@
-import ContactsCacheManager from "../cache-manager";
-import contactsOriginal from "./contacts";
+import ContactsCacheManager, { getSharedCacheManager, toCachedContact, type CachedContact } from "../cache-manager";
+import contactsOriginal, { type ContactFields, type NewContact } from "./contacts";
+import type { PostalAddress } from "./contacts-source";
+import phoneNumbers from "./phone-numbers";
+import nameMatching, { type MatchReason } from "./name-matching";
+
+/**
+ * A contact as returned by the contacts tool
+ */
+interface ContactRecord {
+  id?: string;
+  name: string;
+  nickname?: string;
+  organization?: string;
+  jobTitle?: string;
+  phones: Array<{ label?: string; number: string }>;
+  emails: Array<{ label?: string; address: string }>;
+  birthday?: string;
+  addresses: PostalAddress[];
+}
+
+/**
+ * A full contact card: the record plus how each number can be messaged
+ */
+interface ContactCard extends Omit<ContactRecord, "phones"> {
+  phones: Array<{ label?: string; number: string; service?: 'imessage' | 'sms' | 'unknown' }>;
+  modifiedAt?: string;
+}
+
+interface UpcomingBirthday {
+  date: string;
+  daysUntil: number;
+  // Only known when the card has a birth year
+  turning?: number;
+  contact: ContactRecord;
+}
+
+/**
+ * What the user asked to write to a contact card
+ */
+interface ContactDetails {
+  // Full name for create; the contact to change for update (or use contactId)
+  name?: string;
+  contactId?: string;
+  phoneNumber?: string;
+  phoneLabel?: string;
+  email?: string;
+  emailLabel?: string;
+  organization?: string;
+  jobTitle?: string;
+}
+
+// Details shown to the user before a contact is written
+interface ContactChangeValidation {
+  action: 'create' | 'update';
+  contactName: string;
+  contactId?: string;
+  changes: string[];
+  warnings: string[];
+  confirmationToken: string;
+}
+
+type PendingContactChange =
+  | { action: 'create'; contactName: string; contact: NewContact; timestamp: number }
+  | { action: 'update'; contactName: string; contactId: string; fields: ContactFields; timestamp: number };
+
+// Contact writes waiting for the user to confirm, like message sends
+const pendingContactChanges = new Map<string, PendingContactChange>();
+const CONFIRMATION_TIMEOUT_MS = 5 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Name matches within this many points of the best one are too close to pick between, as for message recipients
+const NAME_TIE_MARGIN = 10;
+
+/**
+ * Next occurrence of a "YYYY-MM-DD" or "--MM-DD" birthday on or after the given day
+ */
+function nextBirthday(birthday: string, from: Date): Omit<UpcomingBirthday, "contact"> | null {
+  const match = birthday.match(/^(?:(\d{4})|-)-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+
+  const birthYear = match[1] ? parseInt(match[1], 10) : undefined;
+  const month = parseInt(match[2], 10) - 1;
+  const day = parseInt(match[3], 10);
+  const today = Date.UTC(from.getFullYear(), from.getMonth(), from.getDate());
+
+  for (const year of [from.getFullYear(), from.getFullYear() + 1]) {
+    let occurrence = Date.UTC(year, month, day);
+    // Feb 29 birthdays are celebrated on Feb 28 in other years
+    if (new Date(occurrence).getUTCMonth() !== month) occurrence = Date.UTC(year, month, day - 1);
+    if (occurrence < today) continue;
+
+    return {
+      date: new Date(occurrence).toISOString().substring(0, 10),
+      daysUntil: Math.round((occurrence - today) / DAY_MS),
+      turning: birthYear ? year - birthYear : undefined
+    };
+  }
+  return null;
+}
+
+function normalizeDomain(domain: string): string {
+  return domain.trim().toLowerCase().replace(/^@/, '');
+}
+
+function hasEmailInDomain(contact: CachedContact, domain: string): boolean {
+  return (contact.emails || []).some(email => {
+    const emailDomain = email.toLowerCase().split('@')[1] || '';
+    return emailDomain === domain || emailDomain.endsWith(`.${domain}`);
+  });
+}
+
+// A contact matches on their full name or their nickname ("Win" for Winston)
+function contactNames(contact: CachedContact): Array<string | undefined> {
+  return [contact.name, contact.nickname];
+}
+
+function byName(a: ContactRecord, b: ContactRecord): number {
+  return a.name.localeCompare(b.name);
+}
+
+function toContactRecord(contact: CachedContact): ContactRecord {
+  return {
+    id: contact.id,
+    name: contact.name,
+    nickname: contact.nickname,
+    organization: contact.organization,
+    jobTitle: contact.jobTitle,
+    phones: contact.phoneNumbers.map(number => ({ label: contact.phoneLabels?.[number], number })),
+    emails: (contact.emails || []).map(address => ({ label: contact.emailLabels?.[address], address })),
+    birthday: contact.birthday,
+    addresses: contact.addresses || []
+  };
+}
+
+// The live AppleScript lookup only knows names and numbers
+function toNumbersOnlyRecord(name: string, numbers: string[]): ContactRecord {
+  return { name, phones: numbers.map(number => ({ number })), emails: [], addresses: [] };
+}
 
 // Cache-aware wrapper for contacts functionality
 class ContactsCachedWrapper {
   private cacheManager: ContactsCacheManager;
 
   constructor() {
-    this.cacheManager = new ContactsCacheManager();
+    this.cacheManager = getSharedCacheManager();
   }
 
   async getAllNumbers(): Promise<{ [key: string]: string[] }> {
@@ -55,33 +193,19 @@ class ContactsCachedWrapper {
     }
   }
 
+  /**
+   * Resolve a phone number or email handle to a contact name via the cache's reverse-lookup index
+   */
   async findContactByPhone(phoneNumber: string): Promise<string | null> {
     try {
-      // Try cache first
-      const cachedContacts = await this.cacheManager.getAllContacts();
-      
-      if (cachedContacts.length > 0) {
-        // Normalize the search number
-        const searchNumber = phoneNumber.replace(/[^0-9+]/g, "");
+      if (await this.cacheManager.getContactsCount() > 0) {
+        const contact = phoneNumber.includes('@')
+          ? await this.cacheManager.findContactByEmail(phoneNumber)
+          : await this.cacheManager.findContactByPhoneNumber(phoneNumber);
         
-        // Search through cached contacts
-        for (const contact of cachedContacts) {
-          const normalizedNumbers = contact.phoneNumbers.map((num) =>
-            num.replace(/[^0-9+]/g, "")
-          );
-          
-          const found = normalizedNumbers.some(
-            (num) =>
-              num === searchNumber ||
-              num === `+${searchNumber}` ||
-              num === `+1${searchNumber}` ||
-              `+1${num}` === searchNumber
-          );
-          
-          if (found) {
-            console.error(`📂 Found contact by phone in cache: ${phoneNumber} -> ${contact.name}`);
-            return contact.name;
-          }
+        if (contact) {
+          console.error(`📂 Found contact by phone in cache: ${phoneNumber} -> ${contact.name}`);
+          return contact.name;
         }
         
         console.error(`📂 Phone number ${phoneNumber} not found in cache`);
@@ -98,12 +222,384 @@ class ContactsCachedWrapper {
     }
   }
 
+  async findContactByEmail(email: string): Promise<string | null> {
+    try {
+      const contact = await this.cacheManager.findContactByEmail(email);
+      return contact ? contact.name : null;
+    } catch (error) {
+      console.error("❌ Cache error during email lookup:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Structured contact records: everyone, or the best matches for a name
+   */
+  async getContactRecords(name?: string, limit = 5): Promise<ContactRecord[]> {
+    try {
+      const cachedContacts = await this.cacheManager.getAllContacts();
+
+      if (cachedContacts.length > 0) {
+        if (!name) {
+          return cachedContacts
+            .map(toContactRecord)
+            .sort((a, b) => a.name.localeCompare(b.name));
+        }
+
+        const matches = nameMatching
+          .rankByName(name, cachedContacts, contactNames, { limit })
+          .map(match => toContactRecord(match.item));
+
+        if (matches.length > 0) {
+          console.error(`📂 Found ${matches.length} contact record(s) in cache for "${name}"`);
+          return matches;
+        }
+        console.error(`⚠️ Contact "${name}" not in cache, falling back to live AppleScript call`);
+      } else {
+        console.error("⚠️ Cache empty, falling back to live AppleScript call");
+      }
+    } catch (error) {
+      console.error("❌ Cache error, falling back to live AppleScript call:", error);
+    }
+
+    if (name) {
+      const numbers = await contactsOriginal.findNumber(name);
+      return numbers.length > 0 ? [toNumbersOnlyRecord(name, numbers)] : [];
+    }
+    const allNumbers = await contactsOriginal.getAllNumbers();
+    return Object.entries(allNumbers).map(([contactName, numbers]) => toNumbersOnlyRecord(contactName, numbers));
+  }
+
+  /**
+   * Cached contacts, or every card read live from Contacts when the cache is empty
+   */
+  private async searchableContacts(): Promise<CachedContact[]> {
+    try {
+      const cachedContacts = await this.cacheManager.getAllContacts();
+      if (cachedContacts.length > 0) return cachedContacts;
+      console.error("⚠️ Cache empty, falling back to live AppleScript call");
+    } catch (error) {
+      console.error("❌ Cache error, falling back to live AppleScript call:", error);
+    }
+
+    const now = Date.now();
+    return (await contactsOriginal.getContactCards()).map(card => toCachedContact(card, now));
+  }
+
+  /**
+   * Who a phone number (any format) or email address belongs to
+   */
+  async lookupContact(handle: string): Promise<ContactRecord | null> {
+    const isEmail = handle.includes('@');
+
+    try {
+      if (await this.cacheManager.getContactsCount() > 0) {
+        const contact = isEmail
+          ? await this.cacheManager.findContactByEmail(handle)
+          : await this.cacheManager.findContactByPhoneNumber(handle);
+        return contact ? toContactRecord(contact) : null;
+      }
+    } catch (error) {
+      console.error("❌ Cache error, falling back to live AppleScript call:", error);
+    }
+
+    const contact = (await this.searchableContacts()).find(candidate => isEmail
+      ? (candidate.emails || []).some(email => email.toLowerCase() === handle.trim().toLowerCase())
+      : candidate.phoneNumbers.some(number => phoneNumbers.phoneNumbersMatch(number, handle)));
+    return contact ? toContactRecord(contact) : null;
+  }
+
+  /**
+   * Contacts whose organization contains the given text, or who have an email address in the given domain
+   */
+  async findContactsByOrganization(query: { organization?: string; domain?: string }): Promise<ContactRecord[]> {
+    const organization = query.organization?.trim().toLowerCase();
+    const domain = query.domain ? normalizeDomain(query.domain) : undefined;
+    if (!organization && !domain) return [];
+
+    return (await this.searchableContacts())
+      .filter(contact =>
+        (organization && contact.organization?.toLowerCase().includes(organization)) ||
+        (domain && hasEmailInDomain(contact, domain)))
+      .map(toContactRecord)
+      .sort(byName);
+  }
+
+  /**
+   * Birthdays falling within the next `days` days (today included), soonest first
+   */
+  async getUpcomingBirthdays(days = 30, from = new Date()): Promise<UpcomingBirthday[]> {
+    const upcoming: UpcomingBirthday[] = [];
+
+    for (const contact of await this.searchableContacts()) {
+      const next = contact.birthday ? nextBirthday(contact.birthday, from) : null;
+      if (next && next.daysUntil <= days) {
+        upcoming.push({ ...next, contact: toContactRecord(contact) });
+      }
+    }
+
+    return upcoming.sort((a, b) => a.daysUntil - b.daysUntil || byName(a.contact, b.contact));
+  }
+
+  /**
+   * One contact by Contacts person id, or the best match for a name
+   */
+  private async resolveContact(query: { contactId?: string; name?: string }): Promise<CachedContact | null> {
+    if (query.contactId) {
+      const cached = await this.cacheManager.getContactById(query.contactId).catch(() => null);
+      if (cached) return cached;
+      const [card] = await contactsOriginal.getContactCards([query.contactId]);
+      return card ? toCachedContact(card, Date.now()) : null;
+    }
+
+    if (query.name) {
+      const [best] = nameMatching.rankByName(query.name, await this.searchableContacts(), contactNames, { limit: 1 });
+      return best?.item || null;
+    }
+
+    return null;
+  }
+
+  /**
+   * The best name matches for a query, when several are about as good as the best
+   */
+  private async closeNameMatches(name: string): Promise<CachedContact[]> {
+    const matches = nameMatching.rankByName(name, await this.searchableContacts(), contactNames, { limit: 5 });
+    if (matches.length === 0) return [];
+
+    // An exact name only competes with other exact names
+    const margin = matches[0].score === 100 ? 0 : NAME_TIE_MARGIN;
+    return matches.filter(match => matches[0].score - match.score <= margin).map(match => match.item);
+  }
+
+  /**
+   * Everything known about one contact, by Contacts person id or best name match
+   */
+  async getContactCard(query: { contactId?: string; name?: string }): Promise<ContactCard | null> {
+    const contact = await this.resolveContact(query);
+    if (!contact) return null;
+
+    const record = toContactRecord(contact);
+    const phones = await Promise.all(record.phones.map(async phone => {
+      const capability = await this.cacheManager.getMessageCapability(phone.number).catch(() => null);
+      return capability ? { ...phone, service: capability.type } : phone;
+    }));
+
+    return {
+      ...record,
+      phones,
+      modifiedAt: contact.modifiedAt ? new Date(contact.modifiedAt).toISOString() : undefined
+    };
+  }
+
+  private generateConfirmationToken(): string {
+    return `confirm_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+  }
+
+  private cleanupOldConfirmations() {
+    const cutoff = Date.now() - CONFIRMATION_TIMEOUT_MS;
+    for (const [token, pending] of pendingContactChanges.entries()) {
+      if (pending.timestamp < cutoff) {
+        pendingContactChanges.delete(token);
+      }
+    }
+  }
+
+  /**
+   * Validate the phone number, email, organization and job title to write, and describe them for confirmation
+   */
+  private async buildContactFields(details: ContactDetails, target?: CachedContact): Promise<{
+    fields: ContactFields;
+    changes: string[];
+    warnings: string[];
+  }> {
+    const fields: ContactFields = {};
+    const changes: string[] = [];
+    const warnings: string[] = [];
+
+    if (details.phoneNumber) {
+      // Stored in E.164 so the number can't be misread later in another region
+      const e164 = phoneNumbers.normalizeToE164(details.phoneNumber);
+      if (!e164) {
+        throw new Error(`"${details.phoneNumber}" is not a valid phone number (default region ${phoneNumbers.getDefaultRegion()})`);
+      }
+      if (target?.phoneNumbers.some(number => phoneNumbers.phoneNumbersMatch(number, e164))) {
+        throw new Error(`${e164} is already on ${target.name}'s card`);
+      }
+
+      const owner = await this.cacheManager.findContactByPhoneNumber(e164).catch(() => null);
+      if (owner && owner.id !== target?.id) {
+        warnings.push(`${e164} already belongs to ${owner.name}`);
+      }
+      fields.phones = [{ label: details.phoneLabel, number: e164 }];
+      changes.push(`➕ Phone (${details.phoneLabel || 'mobile'}): ${e164}`);
+    }
+
+    if (details.email) {
+      const address = details.email.trim();
+      if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(address)) {
+        throw new Error(`"${details.email}" is not a valid email address`);
+      }
+      if ((target?.emails || []).some(email => email.toLowerCase() === address.toLowerCase())) {
+        throw new Error(`${address} is already on ${target!.name}'s card`);
+      }
+
+      const owner = await this.cacheManager.findContactByEmail(address).catch(() => null);
+      if (owner && owner.id !== target?.id) {
+        warnings.push(`${address} already belongs to ${owner.name}`);
+      }
+      fields.emails = [{ label: details.emailLabel, address }];
+      changes.push(`➕ Email (${details.emailLabel || 'home'}): ${address}`);
+    }
+
+    if (details.organization !== undefined) {
+      fields.organization = details.organization.trim();
+      changes.push(`🏢 Organization: ${target?.organization ? `${target.organization} → ` : ''}${fields.organization || '(none)'}`);
+    }
+
+    if (details.jobTitle !== undefined) {
+      fields.jobTitle = details.jobTitle.trim();
+      changes.push(`💼 Job title: ${target?.jobTitle ? `${target.jobTitle} → ` : ''}${fields.jobTitle || '(none)'}`);
+    }
+
+    return { fields, changes, warnings };
+  }
+
+  /**
+   * Validate a new contact and hold it until the user confirms
+   */
+  async prepareCreateContact(details: ContactDetails): Promise<ContactChangeValidation> {
+    const name = details.name?.trim();
+    if (!name) {
+      throw new Error("name is required to create a contact");
+    }
+
+    const [firstName, ...lastNames] = name.split(/\s+/);
+    const { fields, changes, warnings } = await this.buildContactFields(details);
+
+    const existing = (await this.cacheManager.getAllContacts().catch(() => []))
+      .find(contact => contact.name.toLowerCase() === name.toLowerCase());
+    if (existing) {
+      warnings.push(`A contact named ${existing.name} already exists (${existing.id}); use update to add to it instead`);
+    }
+    if (!fields.phones) {
+      warnings.push("Without a phone number this contact can't be messaged and won't be added to the contacts cache");
+    }
+
+    this.cleanupOldConfirmations();
+    const confirmationToken = this.generateConfirmationToken();
+    pendingContactChanges.set(confirmationToken, {
+      action: 'create',
+      contactName: name,
+      contact: { firstName, lastName: lastNames.join(' ') || undefined, ...fields },
+      timestamp: Date.now()
+    });
+
+    return { action: 'create', contactName: name, changes, warnings, confirmationToken };
+  }
+
+  /**
+   * Validate changes to an existing contact and hold them until the user confirms
+   */
+  async prepareUpdateContact(details: ContactDetails): Promise<ContactChangeValidation> {
+    if (!details.contactId && !details.name) {
+      throw new Error("contactId or name is required to update a contact");
+    }
+
+    if (!details.contactId && details.name) {
+      const close = await this.closeNameMatches(details.name);
+      if (close.length > 1) {
+        const candidates = close.map(contact => `${contact.name} (${[contact.organization, contact.id].filter(Boolean).join(', ')})`);
+        throw new Error(`"${details.name}" matches several contacts: ${candidates.join('; ')}. Use a full name or the contactId.`);
+      }
+    }
+
+    const target = await this.resolveContact({ contactId: details.contactId, name: details.name });
+    if (!target || !target.id) {
+      throw new Error(`No contact found for "${details.contactId || details.name}"`);
+    }
+
+    const { fields, changes, warnings } = await this.buildContactFields(details, target);
+    if (changes.length === 0) {
+      throw new Error("Nothing to update: give a phoneNumber, email, organization or jobTitle");
+    }
+
+    this.cleanupOldConfirmations();
+    const confirmationToken = this.generateConfirmationToken();
+    pendingContactChanges.set(confirmationToken, {
+      action: 'update',
+      contactName: target.name,
+      contactId: target.id,
+      fields,
+      timestamp: Date.now()
+    });
+
+    return { action: 'update', contactName: target.name, contactId: target.id, changes, warnings, confirmationToken };
+  }
+
+  /**
+   * Write a confirmed create or update to Contacts, then patch the cache with the saved card
+   */
+  async confirmContactChange(confirmationToken: string, userConfirmation?: string): Promise<{
+    success: boolean;
+    message: string;
+    contact?: ContactRecord;
+  }> {
+    const pending = pendingContactChanges.get(confirmationToken);
+    if (!pending) {
+      return { success: false, message: "❌ Invalid or expired confirmation token. Please start the create or update again." };
+    }
+
+    if (userConfirmation && !['yes', 'y', 'confirm', 'save', 'ok', 'proceed'].includes(userConfirmation.toLowerCase().trim())) {
+      pendingContactChanges.delete(confirmationToken);
+      return { success: false, message: "❌ Contact change cancelled by user." };
+    }
+
+    this.cleanupOldConfirmations();
+    if (!pendingContactChanges.has(confirmationToken)) {
+      return { success: false, message: "❌ Confirmation token expired. Please start the create or update again." };
+    }
+    pendingContactChanges.delete(confirmationToken);
+
+    try {
+      let contactId: string;
+      if (pending.action === 'create') {
+        contactId = await contactsOriginal.createContact(pending.contact);
+      } else {
+        contactId = pending.contactId;
+        await contactsOriginal.updateContact(contactId, pending.fields);
+      }
+
+      const verb = pending.action === 'create' ? 'Created' : 'Updated';
+      const [card] = await contactsOriginal.getContactCards([contactId]);
+      if (!card) {
+        return {
+          success: true,
+          message: `✅ ${verb} ${pending.contactName} (${contactId}), but couldn't read the card back; it will appear after the next cache sync`
+        };
+      }
+
+      await this.cacheManager.patchContact(card);
+      console.error(`📂 Patched contacts cache with ${card.name}`);
+      return {
+        success: true,
+        message: `✅ ${verb} ${card.name} (${contactId})`,
+        contact: toContactRecord(toCachedContact(card, Date.now()))
+      };
+    } catch (error) {
+      return { success: false, message: `❌ ${error instanceof Error ? error.message : String(error)}` };
+    }
+  }
+
   // Enhanced fuzzy search using cache
   async findBestMatches(searchTerm: string, limit = 5): Promise<Array<{
+    id?: string;
     name: string;
     phoneNumbers: string[];
+    phoneLabels?: Record<string, string>;
     emails?: string[];
     matchScore: number;
+    matchReasons: MatchReason[];
   }>> {
     try {
       const cachedContacts = await this.cacheManager.getAllContacts();
@@ -114,26 +610,18 @@ class ContactsCachedWrapper {
         return numbers.length > 0 ? [{
           name: searchTerm,
           phoneNumbers: numbers,
-          matchScore: 100
+          matchScore: 100,
+          matchReasons: ['exact' as const]
         }] : [];
       }
 
       console.error(`📂 Performing fuzzy search in cache (${cachedContacts.length} contacts)`);
 
-      // Score and rank contacts
-      const scoredContacts = cachedContacts.map(contact => {
-        const score = this.calculateMatchScore(searchTerm.toLowerCase(), contact.name.toLowerCase());
-        return { 
-          ...contact, 
-          matchScore: score 
-        };
-      });
-
-      // Filter and sort by score
-      const results = scoredContacts
-        .filter(contact => contact.matchScore > 0)
-        .sort((a, b) => b.matchScore - a.matchScore)
-        .slice(0, limit);
+      // Only people with a phone number can be messaged
+      const reachable = cachedContacts.filter(contact => contact.phoneNumbers.length > 0);
+      const results = nameMatching
+        .rankByName(searchTerm, reachable, contactNames, { limit })
+        .map(match => ({ ...match.item, matchScore: match.score, matchReasons: match.reasons }));
 
       console.error(`📂 Found ${results.length} fuzzy matches for "${searchTerm}"`);
       return results;
@@ -143,55 +631,6 @@ class ContactsCachedWrapper {
     }
   }
 
-  private calculateMatchScore(searchTerm: string, contactName: string): number {
-    if (!searchTerm || !contactName) return 0;
-    
-    // Exact match
-    if (contactName === searchTerm) return 100;
-    
-    // Starts with
-    if (contactName.startsWith(searchTerm)) return 90;
-    
-    // Contains as whole word
-    if (contactName.includes(` ${searchTerm}`) || contactName.includes(`${searchTerm} `)) return 80;
-    
-    // Contains substring
-    if (contactName.includes(searchTerm)) return 70;
-    
-    // Check individual words
-    const searchWords = searchTerm.split(/\s+/);
-    const nameWords = contactName.split(/\s+/);
-    let wordMatchScore = 0;
-    
-    for (const searchWord of searchWords) {
-      for (const nameWord of nameWords) {
-        if (nameWord.startsWith(searchWord)) {
-          wordMatchScore += 30;
-        } else if (nameWord.includes(searchWord)) {
-          wordMatchScore += 15;
-        }
-      }
-    }
-    
-    if (wordMatchScore > 0) return Math.min(wordMatchScore, 65);
-    
-    // Fuzzy matching for typos
-    const similarity = this.calculateSimilarity(searchTerm, contactName);
-    if (similarity > 0.6) return Math.floor(similarity * 50);
-    
-    return 0;
-  }
-
-  private calculateSimilarity(str1: string, str2: string): number {
-    const longer = str1.length > str2.length ? str1 : str2;
-    const shorter = str1.length > str2.length ? str2 : str1;
-    
-    if (longer.length === 0) return 1.0;
-    
-    const matches = shorter.split('').filter((char, i) => char === longer[i]).length;
-    return matches / longer.length;
-  }
-
   // Cache management methods
   async getCacheStatus(): Promise<{
     age: number;
@@ -225,7 +664,19 @@ export default {
   getAllNumbers: () => contactsCached.getAllNumbers(),
   findNumber: (name: string) => contactsCached.findNumber(name),
   findContactByPhone: (phoneNumber: string) => contactsCached.findContactByPhone(phoneNumber),
+  findContactByEmail: (email: string) => contactsCached.findContactByEmail(email),
   findBestMatches: (searchTerm: string, limit?: number) => contactsCached.findBestMatches(searchTerm, limit),
+  getContactRecords: (name?: string, limit?: number) => contactsCached.getContactRecords(name, limit),
+  lookupContact: (handle: string) => contactsCached.lookupContact(handle),
+  findContactsByOrganization: (query: { organization?: string; domain?: string }) => contactsCached.findContactsByOrganization(query),
+  getUpcomingBirthdays: (days?: number) => contactsCached.getUpcomingBirthdays(days),
+  getContactCard: (query: { contactId?: string; name?: string }) => contactsCached.getContactCard(query),
+  prepareCreateContact: (details: ContactDetails) => contactsCached.prepareCreateContact(details),
+  prepareUpdateContact: (details: ContactDetails) => contactsCached.prepareUpdateContact(details),
+  confirmContactChange: (confirmationToken: string, userConfirmation?: string) =>
+    contactsCached.confirmContactChange(confirmationToken, userConfirmation),
   getCacheStatus: () => contactsCached.getCacheStatus(),
   refreshCache: () => contactsCached.refreshCache(),
 };
+
+export type { ContactRecord, ContactCard, UpcomingBirthday, ContactDetails, ContactChangeValidation };
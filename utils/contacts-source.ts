@@ -0,0 +1,318 @@
+#!/usr/bin/env bun
+import { runAppleScript } from "run-applescript";
+import { existsSync } from "node:fs";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import { escapeAppleScriptString } from "./applescript";
+
+// Environment variable that replaces the Contacts app with a JSON file (e.g. a fixture)
+const CONTACTS_SOURCE_ENV = "APPLE_MCP_CONTACTS_SOURCE";
+
+// Separators unlikely to appear in contact data, used to pass records out of AppleScript
+const FIELD_SEPARATOR = String.fromCharCode(31);
+const RECORD_SEPARATOR = String.fromCharCode(30);
+const LIST_SEPARATOR = String.fromCharCode(29);
+const PART_SEPARATOR = String.fromCharCode(28);
+
+// How many people to read per AppleScript call, so one huge script never has to run
+const FETCH_BATCH_SIZE = 200;
+
+/**
+ * Cheap per-contact change marker used to decide what needs re-reading
+ */
+interface ContactStamp {
+  id: string;
+  modifiedAt: number;
+}
+
+interface LabeledValue {
+  label?: string;
+  value: string;
+}
+
+interface PostalAddress {
+  label?: string;
+  street?: string;
+  city?: string;
+  state?: string;
+  postalCode?: string;
+  country?: string;
+}
+
+interface SourceContact extends ContactStamp {
+  name: string;
+  phoneNumbers: LabeledValue[];
+  emails: LabeledValue[];
+  organization?: string;
+  jobTitle?: string;
+  nickname?: string;
+  // "YYYY-MM-DD", or "--MM-DD" when the card has no birth year
+  birthday?: string;
+  addresses?: PostalAddress[];
+}
+
+/**
+ * Where contacts come from: the Contacts app on macOS, or a JSON file for tests
+ */
+interface ContactsSource {
+  readonly description: string;
+  listStamps(): Promise<ContactStamp[]>;
+  fetchContacts(ids: string[]): Promise<SourceContact[]>;
+}
+
+// Contacts returns built-in labels as "_$!<Mobile>!$_"; custom labels come through as typed
+function cleanLabel(label: string | undefined): string | undefined {
+  const cleaned = (label || "").replace(/^_\$!<(.*)>!\$_$/, "$1").trim().toLowerCase();
+  return cleaned || undefined;
+}
+
+function parseLabeledList(value: string): LabeledValue[] {
+  return value
+    .split(LIST_SEPARATOR)
+    .filter((item) => item.trim())
+    .map((item) => {
+      const [label, itemValue = ""] = item.split(PART_SEPARATOR);
+      return { label: cleanLabel(label), value: itemValue.trim() };
+    })
+    .filter((item) => item.value);
+}
+
+function parseAddresses(value: string): PostalAddress[] {
+  return value
+    .split(LIST_SEPARATOR)
+    .filter((item) => item.trim())
+    .map((item) => {
+      const [label, street, city, state, postalCode, country] = item.split(PART_SEPARATOR).map((part) => part.trim());
+      const address: PostalAddress = { label: cleanLabel(label), street, city, state, postalCode, country };
+      // Drop empty parts so records stay compact
+      return Object.fromEntries(Object.entries(address).filter(([, part]) => part)) as PostalAddress;
+    })
+    .filter((address) => Object.keys(address).some((key) => key !== "label"));
+}
+
+/**
+ * Reads the Contacts app through AppleScript
+ */
+class AppleScriptContactsSource implements ContactsSource {
+  readonly description = "Contacts app";
+
+  async listStamps(): Promise<ContactStamp[]> {
+    // Modification dates are returned as seconds since 1970 in local time; only their order matters
+    const script = `
+tell application "Contacts"
+    set idList to id of every person
+    set dateList to modification date of every person
+end tell
+set epochDate to current date
+set year of epochDate to 1970
+set month of epochDate to January
+set day of epochDate to 1
+set time of epochDate to 0
+set resultList to {}
+repeat with i from 1 to count of idList
+    set end of resultList to (item i of idList) & (character id 31) & (((item i of dateList) - epochDate) as integer)
+end repeat
+set AppleScript's text item delimiters to (character id 30)
+return resultList as string`;
+
+    const result = await runAppleScript(script);
+    if (!result || !result.trim()) return [];
+
+    return result.split(RECORD_SEPARATOR).flatMap((entry) => {
+      const [id, seconds] = entry.split(FIELD_SEPARATOR);
+      if (!id) return [];
+      return [{ id: id.trim(), modifiedAt: (parseInt(seconds, 10) || 0) * 1000 }];
+    });
+  }
+
+  async fetchContacts(ids: string[]): Promise<SourceContact[]> {
+    const stamps = new Map((await this.listStamps()).map((stamp) => [stamp.id, stamp.modifiedAt]));
+    const contacts: SourceContact[] = [];
+
+    for (let i = 0; i < ids.length; i += FETCH_BATCH_SIZE) {
+      const batch = ids.slice(i, i + FETCH_BATCH_SIZE);
+      const idList = batch.map((id) => `"${escapeAppleScriptString(id)}"`).join(", ");
+      const script = `
+on textOf(value)
+    if value is missing value then return ""
+    return value as string
+end textOf
+
+on birthdayOf(birthDate)
+    if birthDate is missing value then return ""
+    set monthDay to text -2 thru -1 of ("0" & ((month of birthDate) as integer)) & "-" & text -2 thru -1 of ("0" & (day of birthDate))
+    -- Contacts stores birthdays without a year as 1604
+    if (year of birthDate) is 1604 then return "--" & monthDay
+    return ((year of birthDate) as string) & "-" & monthDay
+end birthdayOf
+
+tell application "Contacts"
+    set resultList to {}
+    repeat with personId in {${idList}}
+        try
+            set currentPerson to person id personId
+            set phoneList to {}
+            repeat with phoneRecord in phones of currentPerson
+                set end of phoneList to my textOf(label of phoneRecord) & (character id 28) & my textOf(value of phoneRecord)
+            end repeat
+            set emailList to {}
+            repeat with emailRecord in emails of currentPerson
+                set end of emailList to my textOf(label of emailRecord) & (character id 28) & my textOf(value of emailRecord)
+            end repeat
+            set addressList to {}
+            repeat with addressRecord in addresses of currentPerson
+                set end of addressList to my textOf(label of addressRecord) & (character id 28) & my textOf(street of addressRecord) & (character id 28) & my textOf(city of addressRecord) & (character id 28) & my textOf(state of addressRecord) & (character id 28) & my textOf(zip of addressRecord) & (character id 28) & my textOf(country of addressRecord)
+            end repeat
+            set AppleScript's text item delimiters to (character id 29)
+            set end of resultList to (id of currentPerson) & (character id 31) & (name of currentPerson) & (character id 31) & (phoneList as string) & (character id 31) & (emailList as string) & (character id 31) & my textOf(organization of currentPerson) & (character id 31) & my textOf(job title of currentPerson) & (character id 31) & my textOf(nickname of currentPerson) & (character id 31) & my birthdayOf(birth date of currentPerson) & (character id 31) & (addressList as string)
+        on error
+            -- Deleted between listing and fetching, or unreadable: skip
+        end try
+    end repeat
+    set AppleScript's text item delimiters to (character id 30)
+    return resultList as string
+end tell`;
+
+      const result = await runAppleScript(script);
+      if (!result || !result.trim()) continue;
+
+      for (const entry of result.split(RECORD_SEPARATOR)) {
+        const [id, name, phones = "", emails = "", organization, jobTitle, nickname, birthday, addresses = ""] =
+          entry.split(FIELD_SEPARATOR);
+        if (!id || !name) continue;
+        contacts.push({
+          id,
+          name: name.trim(),
+          phoneNumbers: parseLabeledList(phones),
+          emails: parseLabeledList(emails),
+          organization: organization?.trim() || undefined,
+          jobTitle: jobTitle?.trim() || undefined,
+          nickname: nickname?.trim() || undefined,
+          birthday: birthday?.trim() || undefined,
+          addresses: parseAddresses(addresses),
+          modifiedAt: stamps.get(id) ?? Date.now(),
+        });
+      }
+      console.error(`📞 Read ${Math.min(i + FETCH_BATCH_SIZE, ids.length)} of ${ids.length} changed contacts`);
+    }
+
+    return contacts;
+  }
+}
+
+/**
+ * Contacts stored in a JSON array of SourceContact, for running sync on Linux or in CI.
+ * Edit the file (bumping modifiedAt) to simulate changes in the Contacts app.
+ */
+class FakeContactsSource implements ContactsSource {
+  readonly description: string;
+
+  constructor(readonly filePath: string) {
+    this.description = `fake contacts (${filePath})`;
+  }
+
+  private async load(): Promise<SourceContact[]> {
+    if (!existsSync(this.filePath)) return [];
+    return JSON.parse(await readFile(this.filePath, "utf8")) as SourceContact[];
+  }
+
+  async listStamps(): Promise<ContactStamp[]> {
+    return (await this.load()).map(({ id, modifiedAt }) => ({ id, modifiedAt }));
+  }
+
+  async fetchContacts(ids: string[]): Promise<SourceContact[]> {
+    const wanted = new Set(ids);
+    return (await this.load()).filter((contact) => wanted.has(contact.id));
+  }
+}
+
+/**
+ * The configured source: the JSON file named by APPLE_MCP_CONTACTS_SOURCE, otherwise the Contacts app
+ */
+function getContactsSource(): ContactsSource {
+  const fakePath = process.env[CONTACTS_SOURCE_ENV];
+  return fakePath ? new FakeContactsSource(resolve(fakePath)) : new AppleScriptContactsSource();
+}
+
+/**
+ * Write a small fake address book whose numbers match the Messages fixture
+ */
+async function createFixtureContacts(target: string): Promise<FakeContactsSource> {
+  await mkdir(dirname(resolve(target)), { recursive: true });
+  const now = Date.now();
+  const contacts: SourceContact[] = [
+    {
+      id: "fixture-1:ABPerson",
+      name: "Winston Johnson",
+      phoneNumbers: [{ label: "mobile", value: "(323) 656-8914" }, { label: "work", value: "+1 213 555 0188" }],
+      emails: [{ label: "work", value: "winston@acme.example" }],
+      organization: "Acme Corp",
+      jobTitle: "Head of Design",
+      nickname: "Win",
+      birthday: "1988-03-14",
+      addresses: [{ label: "work", street: "1 Main St", city: "Los Angeles", state: "CA", postalCode: "90012", country: "USA" }],
+      modifiedAt: now,
+    },
+    {
+      id: "fixture-2:ABPerson",
+      name: "Inés García",
+      phoneNumbers: [{ label: "mobile", value: "+44 7857 931718" }],
+      emails: [],
+      birthday: "--11-02",
+      modifiedAt: now,
+    },
+    {
+      id: "fixture-3:ABPerson",
+      name: "Ana Samat",
+      phoneNumbers: [{ label: "iphone", value: "+33 6 12 34 56 78" }],
+      emails: [{ label: "home", value: "ana@example.com" }],
+      organization: "Acme Corp",
+      jobTitle: "Engineer",
+      modifiedAt: now,
+    },
+    {
+      id: "fixture-4:ABPerson",
+      name: "No Phone Person",
+      phoneNumbers: [],
+      emails: [{ label: "home", value: "nophone@example.com" }],
+      modifiedAt: now,
+    },
+  ];
+  await writeFile(resolve(target), JSON.stringify(contacts, null, 2));
+  return new FakeContactsSource(resolve(target));
+}
+
+// CLI interface for building fake address books
+async function main() {
+  const command = process.argv[2];
+
+  switch (command) {
+    case "fixture": {
+      const target = process.argv[3] || "fixtures/contacts.json";
+      await createFixtureContacts(target);
+      console.error(`✅ Created fixture contacts at ${resolve(target)}`);
+      console.error(`   Run with ${CONTACTS_SOURCE_ENV}=${resolve(target)} to sync from it`);
+      break;
+    }
+
+    default:
+      console.error("📖 Usage:");
+      console.error("   bun utils/contacts-source.ts fixture [path]  - Create a fake address book for testing sync");
+      break;
+  }
+}
+
+// Run CLI if called directly
+if (import.meta.main) {
+  main().catch(console.error);
+}
+
+export type { ContactStamp, SourceContact, ContactsSource, LabeledValue, PostalAddress };
+
+export default {
+  AppleScriptContactsSource,
+  FakeContactsSource,
+  getContactsSource,
+  createFixtureContacts,
+  CONTACTS_SOURCE_ENV,
+};
@@ -1,5 +1,42 @@
 import { run } from "@jxa/run";
 import { runAppleScript } from "run-applescript";
+import { escapeAppleScriptString } from "./applescript";
+import contactsSource, { type SourceContact } from "./contacts-source";
+
+// Fields written to a contact card; phones and emails are added, never replaced
+interface ContactFields {
+  phones?: Array<{ label?: string; number: string }>;
+  emails?: Array<{ label?: string; address: string }>;
+  organization?: string;
+  jobTitle?: string;
+}
+
+interface NewContact extends ContactFields {
+  firstName: string;
+  lastName?: string;
+}
+
+// AppleScript lines that set the given fields on the person held in `personVar`
+function contactFieldsScript(personVar: string, fields: ContactFields): string[] {
+  const lines: string[] = [];
+  if (fields.organization !== undefined) {
+    lines.push(`    set organization of ${personVar} to "${escapeAppleScriptString(fields.organization)}"`);
+  }
+  if (fields.jobTitle !== undefined) {
+    lines.push(`    set job title of ${personVar} to "${escapeAppleScriptString(fields.jobTitle)}"`);
+  }
+  for (const phone of fields.phones || []) {
+    lines.push(
+      `    make new phone at end of phones of ${personVar} with properties {label:"${escapeAppleScriptString(phone.label || "mobile")}", value:"${escapeAppleScriptString(phone.number)}"}`,
+    );
+  }
+  for (const email of fields.emails || []) {
+    lines.push(
+      `    make new email at end of emails of ${personVar} with properties {label:"${escapeAppleScriptString(email.label || "home")}", value:"${escapeAppleScriptString(email.address)}"}`,
+    );
+  }
+  return lines;
+}
 
 async function checkContactsAccess(): Promise<boolean> {
   try {
@@ -220,4 +257,79 @@ async function findContactByPhone(phoneNumber: string): Promise<string | null> {
   }
 }
 
-export default { getAllNumbers, findNumber, findContactByPhone };
+/**
+ * Full contact cards (labels, organization, birthday, addresses), for everyone or the given person ids
+ */
+async function getContactCards(ids?: string[]): Promise<SourceContact[]> {
+  try {
+    if (!(await checkContactsAccess())) {
+      return [];
+    }
+
+    const source = new contactsSource.AppleScriptContactsSource();
+    const personIds = ids || (await source.listStamps()).map((stamp) => stamp.id);
+    return await source.fetchContacts(personIds);
+  } catch (error) {
+    throw new Error(
+      `Error reading contact cards: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Add a person to Contacts and return their person id
+ */
+async function createContact(contact: NewContact): Promise<string> {
+  try {
+    if (!(await checkContactsAccess())) {
+      throw new Error("No access to Contacts");
+    }
+
+    const properties = [`first name:"${escapeAppleScriptString(contact.firstName)}"`];
+    if (contact.lastName) {
+      properties.push(`last name:"${escapeAppleScriptString(contact.lastName)}"`);
+    }
+
+    const script = `
+tell application "Contacts"
+    set newPerson to make new person with properties {${properties.join(", ")}}
+${contactFieldsScript("newPerson", contact).join("\n")}
+    save
+    return id of newPerson
+end tell`;
+
+    return (await runAppleScript(script)).trim();
+  } catch (error) {
+    throw new Error(
+      `Error creating contact: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Add numbers or emails to an existing person, or change their organization or job title
+ */
+async function updateContact(personId: string, fields: ContactFields): Promise<void> {
+  try {
+    if (!(await checkContactsAccess())) {
+      throw new Error("No access to Contacts");
+    }
+
+    const script = `
+tell application "Contacts"
+    set targetPerson to person id "${escapeAppleScriptString(personId)}"
+${contactFieldsScript("targetPerson", fields).join("\n")}
+    save
+end tell`;
+
+    await runAppleScript(script);
+  } catch (error) {
+    throw new Error(
+      `Error updating contact: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+export type { ContactFields, NewContact };
+
+export default { getAllNumbers, findNumber, findContactByPhone, getContactCards, createContact, updateContact };
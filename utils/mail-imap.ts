@@ -1,5 +1,6 @@
 import { ImapFlow } from 'imapflow';
 import keytar from 'keytar';
+import mailMime, { type EmailAttachment } from './mail-mime';
 
 interface EmailCredentials {
   user: string;
@@ -16,8 +17,12 @@ interface EmailMessage {
   content: string;
   isRead: boolean;
   mailbox: string;
+  attachments?: EmailAttachment[];
 }
 
+// Longest decoded body we hand back per message
+const MAX_CONTENT_LENGTH = 5000;
+
 // Securely store credentials
 async function saveCredentials(account: string, credentials: EmailCredentials): Promise<boolean> {
   try {
@@ -67,21 +72,11 @@ async function searchMailsImap(account: string, searchTerm: string, limit = 10):
     
     // Get list of mailboxes (folders)
     const mailboxes = await client.list();
-    console.log('Mailboxes:', mailboxes);
     
     // Include a broader selection of folders for searching
     const searchableFolders = mailboxes.filter(mb => {
-      // Check if flags is a Set (common in newer ImapFlow versions)
-      const hasNoselect = mb.flags instanceof Set ? 
-                         mb.flags.has('\\Noselect') : 
-                         Array.isArray(mb.flags) ? 
-                         mb.flags.includes('\\Noselect') : 
-                         String(mb.flags).includes('\\Noselect');
-      
-      // Check if name exists and convert to string if needed
-      const name = mb.name ? 
-                  (typeof mb.name === 'string' ? mb.name.toLowerCase() : String(mb.name).toLowerCase()) : 
-                  '';
+      const hasNoselect = mb.flags.has('\\Noselect');
+      const name = mb.name ? mb.name.toLowerCase() : '';
       
       // Include important folders: inbox, all mail, archive, sent mail
       return !hasNoselect && (
@@ -95,7 +90,7 @@ async function searchMailsImap(account: string, searchTerm: string, limit = 10):
       );
     });
     
-    console.log('Searchable folders:', searchableFolders.map(f => f.path));
+    console.error('Searchable folders:', searchableFolders.map(f => f.path));
     
     // Search through each relevant folder
     for (const folder of searchableFolders) {
@@ -119,50 +114,51 @@ async function searchMailsImap(account: string, searchTerm: string, limit = 10):
         
         // Get message IDs that match search
         const messageIds = await client.search(searchOptions);
+        if (!messageIds) continue;
         
         // Get message details for each result
         for (const msgId of messageIds) {
           if (results.length >= limit) break;
           
           try {
-            // Fetch the full message data
-            const message = await client.fetchOne(msgId, { 
-              source: true, 
+            // Fetch the message metadata; the body is fetched separately once we know which part to read
+            const message = await client.fetchOne(String(msgId), { 
               envelope: true,
+              flags: true,
               bodyStructure: true 
             });
+            if (!message) continue;
             
-            console.log(`Retrieved message ${msgId}:`, message.envelope || message);
-            
-            // Since parseMessage doesn't exist, we'll extract information directly
-            const envelope = message.envelope || {};
+            const envelope = message.envelope;
+            const messageFlags = message.flags ?? new Set<string>();
             
-            // Safe handling of flags - check if flags is a Set, array, or something else
-            const messageFlags = message.flags instanceof Set ? Array.from(message.flags) :
-                               Array.isArray(message.flags) ? message.flags :
-                               typeof message.flags === 'string' ? [message.flags] : 
-                               [];
-            
-            // Try to get message content - this might vary based on ImapFlow version
             let content = '[No content available]';
-            if (message.source) {
-              // Try to extract text content from the source
-              // This is a simplified approach - a real implementation would parse the MIME structure
-              const sourceText = message.source.toString();
-              // Very simple extraction of body text after headers
-              const bodyParts = sourceText.split('\r\n\r\n');
-              if (bodyParts.length > 1) {
-                content = bodyParts.slice(1).join('\r\n\r\n').substring(0, 1000);
+            let attachments: EmailAttachment[] = [];
+            if (message.bodyStructure) {
+              const layout = mailMime.analyzeStructure(message.bodyStructure);
+              attachments = layout.attachments;
+              
+              if (layout.textPart) {
+                const bodyMessage = await client.fetchOne(String(msgId), { bodyParts: [layout.textPart.part] });
+                const raw = bodyMessage ? bodyMessage.bodyParts?.get(layout.textPart.part) : undefined;
+                if (raw) {
+                  const alreadyDecoded = bodyMessage && bodyMessage.binaryParts?.has(layout.textPart.part);
+                  const text = mailMime.decodeTextPart(raw, layout.textPart, !!alreadyDecoded);
+                  content = text.length > MAX_CONTENT_LENGTH ? `${text.substring(0, MAX_CONTENT_LENGTH)}...` : text;
+                }
+              } else if (attachments.length > 0) {
+                content = '[No text content - attachments only]';
               }
             }
             
             results.push({
-              subject: envelope.subject || 'No subject',
-              sender: envelope.from?.[0]?.address || 'Unknown sender',
-              dateSent: envelope.date ? new Date(envelope.date).toISOString() : new Date().toISOString(),
+              subject: envelope?.subject || 'No subject',
+              sender: envelope?.from?.[0]?.address || 'Unknown sender',
+              dateSent: envelope?.date ? new Date(envelope.date).toISOString() : new Date().toISOString(),
               content: content,
-              isRead: !messageFlags.includes('\\Unseen'),
-              mailbox: folder.path
+              isRead: messageFlags.has('\\Seen'),
+              mailbox: folder.path,
+              attachments
             });
           } catch (msgError) {
             console.error(`Error processing message ${msgId}:`, msgError);
@@ -226,24 +222,9 @@ async function setupMailAccount(
 // List configured accounts
 async function listImapAccounts(): Promise<string[]> {
   try {
-    // Since keytar doesn't have a direct method to list all accounts for a service,
-    // we'll use a workaround by finding all passwords for our service
-    
-    // First, let's create a list of known account nicknames
-    // For simplicity, we'll check if the configured account exists
-    const knownAccounts = ['gmail-test'];
-    const existingAccounts = [];
-    
-    for (const account of knownAccounts) {
-      const credentials = await keytar.getPassword('apple-mcp-mail', account);
-      if (credentials) {
-        existingAccounts.push(account);
-      }
-    }
-    
-    return existingAccounts.length > 0 ? 
-           existingAccounts : 
-           ['No IMAP accounts configured. Use setup-imap operation to add an account.'];
+    // Every account saved through setupMailAccount lives under our keychain service
+    const stored = await keytar.findCredentials('apple-mcp-mail');
+    return stored.map(entry => entry.account).sort();
   } catch (error) {
     console.error('Error listing accounts:', error);
     return [];
@@ -0,0 +1,217 @@
+import type { MessageStructureObject } from 'imapflow';
+
+interface EmailAttachment {
+  filename: string;
+  size: number;
+  contentType: string;
+  part?: string;
+}
+
+interface MimeTextPart {
+  part: string;
+  contentType: 'text/plain' | 'text/html';
+  encoding: string;
+  charset: string;
+}
+
+interface MimeLayout {
+  textPart?: MimeTextPart;
+  attachments: EmailAttachment[];
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0',
+  copy: '©',
+  reg: '®',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  bull: '•',
+  euro: '€',
+};
+
+// Decode RFC 2047 encoded words, e.g. =?UTF-8?B?UmFwcG9ydA==?= in attachment names
+function decodeMimeWords(value: string): string {
+  if (!value || !value.includes('=?')) return value;
+
+  return value
+    // Whitespace between two adjacent encoded words is not significant
+    .replace(/(\?=)\s+(=\?)/g, '$1$2')
+    .replace(/=\?([^?]+)\?([bBqQ])\?([^?]*)\?=/g, (match, charset: string, mode: string, text: string) => {
+      try {
+        const bytes = mode.toUpperCase() === 'B'
+          ? Buffer.from(text, 'base64')
+          : decodeQuotedPrintable(Buffer.from(text.replace(/_/g, ' '), 'latin1'));
+        return decodeCharset(bytes, charset);
+      } catch {
+        return match;
+      }
+    });
+}
+
+function decodeQuotedPrintable(input: Buffer): Buffer {
+  // Soft line breaks ("=" at end of line) join wrapped lines back together
+  const text = input.toString('latin1').replace(/=\r?\n/g, '');
+  const bytes: number[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '=' && /^[0-9A-Fa-f]{2}$/.test(text.substring(i + 1, i + 3))) {
+      bytes.push(parseInt(text.substring(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(text.charCodeAt(i) & 0xff);
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+function decodeTransferEncoding(input: Buffer, encoding?: string): Buffer {
+  switch ((encoding || '7bit').toLowerCase()) {
+    case 'base64':
+      return Buffer.from(input.toString('latin1').replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+    case 'quoted-printable':
+      return decodeQuotedPrintable(input);
+    default:
+      // 7bit, 8bit and binary are already raw bytes
+      return input;
+  }
+}
+
+function decodeCharset(input: Buffer, charset?: string): string {
+  let label = (charset || 'utf-8').trim().toLowerCase().replace(/^"|"$/g, '');
+  if (label === 'us-ascii' || label === 'ascii') label = 'utf-8';
+
+  try {
+    return new TextDecoder(label).decode(input);
+  } catch {
+    // Unknown charset label - UTF-8 is the most likely candidate for modern mail
+    console.error(`Unsupported charset "${charset}", decoding as UTF-8`);
+    return new TextDecoder('utf-8').decode(input);
+  }
+}
+
+function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint = entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.substring(2), 16)
+        : parseInt(entity.substring(1), 10);
+      return Number.isFinite(codePoint) && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : match;
+    }
+    return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+// Reduce an HTML body to readable plain text; markup, scripts and styles never reach the caller
+function htmlToText(html: string): string {
+  return decodeHtmlEntities(
+    html
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<(script|style|head|title)\b[^>]*>[\s\S]*?<\/\1\s*>/gi, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<li\b[^>]*>/gi, '\n• ')
+      .replace(/<\/(p|div|h[1-6]|tr|table|blockquote|ul|ol)\s*>/gi, '\n\n')
+      .replace(/<a\b[^>]*href=["']([^"']+)["'][^>]*>([\s\S]*?)<\/a\s*>/gi, (match, href: string, label: string) =>
+        label.replace(/<[^>]+>/g, '').trim() === href ? href : `${label} (${href})`)
+      .replace(/<[^>]+>/g, '')
+  )
+    .replace(/[ \t\u00a0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function estimateDecodedSize(node: MessageStructureObject): number {
+  const size = node.size || 0;
+  // Base64 inflates content by 4/3 on the wire
+  return (node.encoding || '').toLowerCase() === 'base64' ? Math.floor((size * 3) / 4) : size;
+}
+
+function attachmentName(node: MessageStructureObject): string | undefined {
+  const name = node.dispositionParameters?.filename || node.parameters?.name;
+  if (name) return decodeMimeWords(name);
+  if (node.type === 'message/rfc822' && node.envelope?.subject) return `${node.envelope.subject}.eml`;
+  return undefined;
+}
+
+/**
+ * Walk an IMAP BODYSTRUCTURE tree and pick the part to show as the message text
+ * (text/plain preferred, text/html as fallback) plus every attachment
+ */
+function analyzeStructure(root: MessageStructureObject): MimeLayout {
+  let plain: MimeTextPart | undefined;
+  let html: MimeTextPart | undefined;
+  const attachments: EmailAttachment[] = [];
+
+  const visit = (node: MessageStructureObject, partId: string) => {
+    const type = (node.type || 'text/plain').toLowerCase();
+
+    // Embedded messages are reported as attachments rather than walked into
+    if (node.childNodes && node.childNodes.length > 0 && type !== 'message/rfc822') {
+      node.childNodes.forEach((child, index) =>
+        visit(child, child.part || (partId ? `${partId}.${index + 1}` : String(index + 1))));
+      return;
+    }
+
+    const disposition = (node.disposition || '').toLowerCase();
+    const name = attachmentName(node);
+    const isAttachment = disposition === 'attachment' || (!!name && type !== 'text/plain' && type !== 'text/html');
+
+    if (!isAttachment && (type === 'text/plain' || type === 'text/html')) {
+      const textPart: MimeTextPart = {
+        part: partId,
+        contentType: type,
+        encoding: node.encoding || '7bit',
+        charset: node.parameters?.charset || 'utf-8',
+      };
+      if (type === 'text/plain' && !plain) plain = textPart;
+      if (type === 'text/html' && !html) html = textPart;
+      return;
+    }
+
+    // Parts without a name that are not text (e.g. inline tracking images) still count as attachments
+    attachments.push({
+      filename: name || `part-${partId}.${type.split('/')[1] || 'bin'}`,
+      size: estimateDecodedSize(node),
+      contentType: type,
+      part: partId,
+    });
+  };
+
+  // A single-part message has no part number of its own; IMAP addresses its body as part 1
+  visit(root, root.part || (root.childNodes?.length ? '' : '1'));
+
+  return { textPart: plain || html, attachments };
+}
+
+/**
+ * Decode the raw bytes of a text part into readable text
+ */
+function decodeTextPart(raw: Buffer, textPart: MimeTextPart, alreadyDecoded = false): string {
+  const bytes = alreadyDecoded ? raw : decodeTransferEncoding(raw, textPart.encoding);
+  const text = decodeCharset(bytes, textPart.charset).replace(/\r\n/g, '\n');
+  return textPart.contentType === 'text/html' ? htmlToText(text) : text.trim();
+}
+
+export type { EmailAttachment, MimeTextPart, MimeLayout };
+
+export default {
+  analyzeStructure,
+  decodeTextPart,
+  decodeMimeWords,
+  decodeQuotedPrintable,
+  decodeTransferEncoding,
+  decodeCharset,
+  htmlToText,
+};
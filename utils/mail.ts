@@ -1,5 +1,6 @@
 import { run } from "@jxa/run";
 import { runAppleScript } from "run-applescript";
+import mailImap from "./mail-imap";
 
 async function checkMailAccess(): Promise<boolean> {
   try {
@@ -386,15 +387,11 @@ end if`);
     console.error("No matches found in unread emails, trying IMAP search...");
     
     try {
-      // Check if we have the gmail-test account configured
-      const imapAccount = "gmail-test"; // Default IMAP account
+      // Search every IMAP account configured through the setup-imap operation
+      const imapAccounts = await mailImap.listImapAccounts();
       
-      // Try to get credentials to check if account exists
-      try {
-        // This is a method in mail-imap.ts that gets credentials
-        const credentials = await mailImap.getCredentials(imapAccount);
-        
-        if (credentials) {
+      for (const imapAccount of imapAccounts) {
+        try {
           console.error(`Found IMAP account "${imapAccount}", using IMAP search as fallback`);
           
           // Use IMAP search as fallback
@@ -405,10 +402,10 @@ end if`);
             return imapResults;
           }
           
-          console.error("IMAP search returned no results");
+          console.error(`IMAP search in "${imapAccount}" returned no results`);
+        } catch (accountError) {
+          console.error(`IMAP search failed for account "${imapAccount}":`, accountError);
         }
-      } catch (credError) {
-        console.error(`No IMAP credentials found for account "${imapAccount}":`, credError);
       }
     } catch (imapError) {
       console.error("Error during IMAP fallback search:", imapError);
@@ -681,4 +678,7 @@ export default {
   getMailboxes,
   getAccounts,
   getMailboxesForAccount,
+  searchMailsImap: mailImap.searchMailsImap,
+  setupMailAccount: mailImap.setupMailAccount,
+  listImapAccounts: mailImap.listImapAccounts,
 };
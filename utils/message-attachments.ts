@@ -0,0 +1,296 @@
+import { existsSync, statSync } from "node:fs";
+import { constants, copyFile, mkdir, readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { basename, dirname, extname, isAbsolute, join, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import messagesStore from "./messages-store";
+
+// Largest attachments returned inline rather than exported to a directory
+const MAX_INLINE_IMAGE_BYTES = 1024 * 1024;
+const MAX_INLINE_TEXT_BYTES = 256 * 1024;
+
+// Largest file Messages will send per attachment: iMessage allows about 100 MB, carriers limit MMS to about 1 MB
+const MAX_SEND_BYTES = {
+  imessage: 100 * 1024 * 1024,
+  sms: 1024 * 1024,
+};
+const MAX_SEND_ATTACHMENTS = 10;
+
+interface MessageAttachment {
+  // attachment.ROWID, used to ask for the file later
+  id: number;
+  guid: string;
+  // Original file name as sent, e.g. "IMG_1234.HEIC"
+  transferName: string;
+  mimeType: string;
+  uti?: string;
+  size: number;
+  createdAt?: string;
+  // Absolute path on disk; "~" and paths relative to the Messages folder are resolved
+  path?: string;
+  // Attachments offloaded to iCloud or not yet downloaded have no local file
+  available: boolean;
+}
+
+interface AttachmentRow {
+  id: number;
+  guid: string;
+  filename: string | null;
+  transfer_name: string | null;
+  mime_type: string | null;
+  uti: string | null;
+  total_bytes: number | null;
+  created_date: number | null;
+}
+
+// A file about to be sent, checked when the send is prepared and again when it is confirmed
+interface OutgoingAttachment {
+  path: string;
+  name: string;
+  mimeType: string;
+  size: number;
+}
+
+// Inline attachment content in the shape of an MCP embedded resource
+interface AttachmentResource {
+  uri: string;
+  mimeType: string;
+  text?: string;
+  blob?: string;
+}
+
+const ATTACHMENT_COLUMNS = `
+                a.ROWID as id,
+                a.guid,
+                a.filename,
+                a.transfer_name,
+                a.mime_type,
+                a.uti,
+                a.total_bytes,
+                a.created_date`;
+
+function expandHome(path: string): string {
+  if (path === "~" || path.startsWith("~/")) {
+    return join(process.env.HOME || homedir(), path.slice(1));
+  }
+  return path;
+}
+
+/**
+ * Absolute path of a chat.db attachment filename. Messages stores "~/Library/Messages/Attachments/…";
+ * relative paths are taken to be inside the folder holding chat.db.
+ */
+function resolveAttachmentPath(filename: string): string {
+  const expanded = expandHome(filename);
+  if (isAbsolute(expanded)) return expanded;
+  return resolve(dirname(messagesStore.getMessagesStore().dbPath), expanded);
+}
+
+function toAttachment(row: AttachmentRow): MessageAttachment {
+  const path = row.filename ? resolveAttachmentPath(row.filename) : undefined;
+  const available = Boolean(path && existsSync(path));
+  const transferName = row.transfer_name || (row.filename ? basename(row.filename) : `attachment-${row.id}`);
+
+  return {
+    id: row.id,
+    guid: row.guid,
+    transferName,
+    // Bun guesses from the extension when Messages did not record a type
+    mimeType: row.mime_type || Bun.file(transferName).type.split(";")[0],
+    uti: row.uti || undefined,
+    size: row.total_bytes || (available ? statSync(path!).size : 0),
+    createdAt: row.created_date ? messagesStore.fromAppleTimestamp(row.created_date).toISOString() : undefined,
+    path,
+    available,
+  };
+}
+
+/**
+ * Attachments of one message, in the order they were sent
+ */
+function getMessageAttachments(messageId: number): MessageAttachment[] {
+  try {
+    const rows = messagesStore.getMessagesStore().query<AttachmentRow>(
+      `SELECT ${ATTACHMENT_COLUMNS}
+            FROM attachment a
+            INNER JOIN message_attachment_join maj ON a.ROWID = maj.attachment_id
+            WHERE maj.message_id = ?
+            ORDER BY a.ROWID`,
+      messageId,
+    );
+    return rows.map(toAttachment);
+  } catch (error) {
+    console.error("Error getting attachments:", error);
+    return [];
+  }
+}
+
+function getAttachment(attachmentId: number): MessageAttachment | null {
+  const row = messagesStore.getMessagesStore().get<AttachmentRow>(
+    `SELECT ${ATTACHMENT_COLUMNS} FROM attachment a WHERE a.ROWID = ?`,
+    attachmentId,
+  );
+  return row ? toAttachment(row) : null;
+}
+
+/**
+ * One-line description used in message listings, e.g. "#12 IMG_1234.HEIC (image/heic, 2.1 MB)"
+ */
+function describeAttachment(attachment: MessageAttachment): string {
+  const details = [attachment.mimeType, attachment.size ? formatSize(attachment.size) : "", attachment.available ? "" : "not downloaded"];
+  return `#${attachment.id} ${attachment.transferName} (${details.filter(Boolean).join(", ")})`;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function isTextType(mimeType: string): boolean {
+  return mimeType.startsWith("text/") || ["application/json", "application/xml"].includes(mimeType);
+}
+
+// Look up an attachment whose file can be read, or explain why not
+function findAvailableAttachment(attachmentId: number): { attachment?: MessageAttachment; message?: string } {
+  const attachment = getAttachment(attachmentId);
+  if (!attachment) {
+    return { message: `No attachment #${attachmentId} in the Messages database` };
+  }
+  if (!attachment.available || !attachment.path) {
+    return {
+      attachment,
+      message: `${attachment.transferName} is not on this Mac (it may be stored in iCloud); open the conversation in Messages to download it`,
+    };
+  }
+  return { attachment };
+}
+
+/**
+ * Resolve files to send and check that each exists, is a regular file and fits the service's size limit
+ */
+function checkOutgoingAttachments(
+  paths: string[],
+  messageType: "imessage" | "sms" | "unknown",
+): { success: boolean; attachments: OutgoingAttachment[]; message?: string } {
+  if (paths.length > MAX_SEND_ATTACHMENTS) {
+    return { success: false, attachments: [], message: `At most ${MAX_SEND_ATTACHMENTS} attachments can be sent at once` };
+  }
+
+  // Unknown services are most likely iMessage; SMS failures are reported by Messages itself
+  const maxBytes = messageType === "sms" ? MAX_SEND_BYTES.sms : MAX_SEND_BYTES.imessage;
+  const attachments: OutgoingAttachment[] = [];
+  const problems: string[] = [];
+
+  for (const input of paths) {
+    const path = resolve(expandHome(input.trim()));
+    if (!existsSync(path)) {
+      problems.push(`${input}: file not found`);
+      continue;
+    }
+    const stats = statSync(path);
+    if (!stats.isFile()) {
+      problems.push(`${input}: not a file`);
+    } else if (stats.size === 0) {
+      problems.push(`${input}: file is empty`);
+    } else if (stats.size > maxBytes) {
+      problems.push(`${input}: ${formatSize(stats.size)} is over the ${formatSize(maxBytes)} ${messageType === "sms" ? "SMS" : "iMessage"} limit`);
+    } else if (!attachments.some((attachment) => attachment.path === path)) {
+      const name = basename(path);
+      attachments.push({ path, name, mimeType: Bun.file(path).type.split(";")[0], size: stats.size });
+    }
+  }
+
+  if (problems.length > 0) {
+    return { success: false, attachments: [], message: `Cannot attach:\n${problems.map((problem) => `- ${problem}`).join("\n")}` };
+  }
+  return { success: true, attachments };
+}
+
+/**
+ * Copy an attachment into a directory, keeping its original name and never overwriting an existing file
+ */
+async function exportAttachment(
+  attachmentId: number,
+  destinationDir: string,
+): Promise<{ success: boolean; attachment?: MessageAttachment; path?: string; message?: string }> {
+  const { attachment, message } = findAvailableAttachment(attachmentId);
+  if (!attachment || message) {
+    return { success: false, attachment, message };
+  }
+
+  try {
+    const directory = resolve(expandHome(destinationDir));
+    await mkdir(directory, { recursive: true });
+
+    // The name comes from the sender; never let it point outside the directory
+    const fileName = basename(attachment.transferName);
+    const extension = extname(fileName);
+    const stem = basename(fileName, extension);
+    for (let copy = 1; ; copy++) {
+      const target = join(directory, copy === 1 ? fileName : `${stem} (${copy})${extension}`);
+      try {
+        await copyFile(attachment.path!, target, constants.COPYFILE_EXCL);
+        return { success: true, attachment, path: target };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+      }
+    }
+  } catch (error) {
+    console.error("Error exporting attachment:", error);
+    return { success: false, attachment, message: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Read a small image or text attachment so it can be returned inline; anything else has to be exported
+ */
+async function readAttachmentInline(
+  attachmentId: number,
+): Promise<{ success: boolean; attachment?: MessageAttachment; resource?: AttachmentResource; message?: string }> {
+  const { attachment, message } = findAvailableAttachment(attachmentId);
+  if (!attachment || message) {
+    return { success: false, attachment, message };
+  }
+
+  const isImage = attachment.mimeType.startsWith("image/");
+  const isText = isTextType(attachment.mimeType);
+  const maxBytes = isImage ? MAX_INLINE_IMAGE_BYTES : MAX_INLINE_TEXT_BYTES;
+  const size = statSync(attachment.path!).size;
+
+  if (!isImage && !isText) {
+    return { success: false, attachment, message: `${attachment.transferName} (${attachment.mimeType}) can't be shown inline; export it to a directory instead` };
+  }
+  if (size > maxBytes) {
+    return {
+      success: false,
+      attachment,
+      message: `${attachment.transferName} is ${formatSize(size)}, over the ${formatSize(maxBytes)} inline limit; export it to a directory instead`,
+    };
+  }
+
+  try {
+    const data = await readFile(attachment.path!);
+    const uri = pathToFileURL(attachment.path!).href;
+    const resource = isText
+      ? { uri, mimeType: attachment.mimeType, text: data.toString("utf8") }
+      : { uri, mimeType: attachment.mimeType, blob: data.toString("base64") };
+    return { success: true, attachment, resource };
+  } catch (error) {
+    console.error("Error reading attachment:", error);
+    return { success: false, attachment, message: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export type { MessageAttachment, AttachmentResource, OutgoingAttachment };
+
+export default {
+  getMessageAttachments,
+  getAttachment,
+  describeAttachment,
+  formatSize,
+  checkOutgoingAttachments,
+  exportAttachment,
+  readAttachmentInline,
+  resolveAttachmentPath,
+};
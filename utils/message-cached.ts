@@ -1,6 +1,13 @@
-import ContactsCacheManager from "../cache-manager";
+import ContactsCacheManager, { getSharedCacheManager } from "../cache-manager";
 import messageOriginal from "./message-enhanced";
 import contactsCached from "./contacts-cached";
+import phoneNumbers from "./phone-numbers";
+import messageSchedule, { type ScheduledMessage, type ScheduledMessageStatus } from "./message-schedule";
+import recipientPreferences from "./recipient-preferences";
+import messageAttachments, { type MessageAttachment, type OutgoingAttachment } from "./message-attachments";
+import messageStatus, { type SendTarget, type SendVerification } from "./message-status";
+import messageExport, { type ConversationExport, type ExportFormat } from "./message-export";
+import { escapeAppleScriptString } from "./applescript";
 import { runAppleScript } from "run-applescript";
 
 interface Message {
@@ -9,14 +16,36 @@ interface Message {
   sender: string;
   is_from_me: boolean;
   messageType: 'imessage' | 'sms' | 'unknown';
-  attachments?: string[];
+  attachments?: MessageAttachment[];
   url?: string;
   thread_id?: string;
+  mentions?: Array<{ handle: string; text: string }>;
+  formatting?: Array<{ style: 'bold' | 'italic' | 'underline' | 'strikethrough'; location: number; length: number }>;
+  senderName?: string;
+  guid?: string;
+  // Tapbacks, at most one per person
+  reactions?: Array<{
+    type: 'love' | 'like' | 'dislike' | 'laugh' | 'emphasize' | 'question' | 'emoji';
+    emoji: string;
+    sender: string;
+    senderName?: string;
+    is_from_me: boolean;
+    date: string;
+  }>;
+  replyTo?: { guid: string; sender: string; senderName?: string; is_from_me: boolean; preview: string };
+  replies?: Message[];
+  edited?: boolean;
+  editedAt?: string;
+  unsent?: boolean;
+  unsentAt?: string;
 }
 
 interface MessageThread {
+  chatId: string;
   contactName: string;
   phoneNumber: string;
+  displayName?: string;
+  participants: Array<{ handle: string; name?: string }>;
   lastMessageDate: string;
   unreadCount: number;
   isGroup: boolean;
@@ -25,8 +54,118 @@ interface MessageThread {
 interface SendMessageOptions {
   verifyContact?: boolean;
   messageType?: 'auto' | 'imessage' | 'sms';
+  // Paths of files to send after the text
+  attachments?: string[];
+}
+
+interface MessageSearchOptions {
+  query?: string;
+  startDate?: Date;
+  endDate?: Date;
+  // Contact name, phone number or email the messages must come from
+  sender?: string;
+  chatId?: string;
+  hasAttachment?: boolean;
+  fromMe?: boolean;
+  limit?: number;
+}
+
+interface GroupRecipient {
+  name: string;
+  phoneNumber: string;
+}
+
+// Why one of a contact's numbers was picked, shown with the confirmation so the user can correct it
+interface NumberChoice {
+  reason: 'only-number' | 'remembered' | 'recent-conversation' | 'label' | 'first-on-card';
+  explanation: string;
+  label?: string;
+  alternatives: Array<{ phoneNumber: string; label?: string; lastMessageDate?: string }>;
+}
+
+// Details shown to the user before a send is confirmed
+interface MessageValidation {
+  resolvedContact: string;
+  phoneNumber: string;
+  messagePreview: string;
+  messageType: 'imessage' | 'sms' | 'unknown';
+  confirmationToken: string;
+  recipients?: GroupRecipient[];
+  chatId?: string;
+  newConversation?: boolean;
+  scheduledTime?: string;
+  // Set when confirming replaces the text or time of this scheduled message
+  scheduleId?: string;
+  numberChoice?: NumberChoice;
+  attachments?: OutgoingAttachment[];
 }
 
+// A contact a recipient name could refer to, with hints for telling similar names apart
+interface RecipientCandidate {
+  // 1-based; passed back as `candidate` to pick this contact
+  candidate: number;
+  name: string;
+  // The number the message would go to, and why
+  phoneNumber: string;
+  numberChoice?: NumberChoice;
+  phoneNumbers: string[];
+  matchScore: number;
+  matchReasons: string[];
+  lastMessageDate?: string;
+  messageCount: number;
+}
+
+// Returned instead of a confirmation when a name matches several contacts about equally well
+interface RecipientDisambiguation {
+  query: string;
+  messagePreview: string;
+  candidates: RecipientCandidate[];
+  confirmationToken: string;
+  scheduledTime?: string;
+}
+
+// Which labeled number to message when there is no remembered choice or conversation history;
+// unlisted custom labels rank with unlabeled numbers
+const LABEL_PRIORITY: Record<string, number> = {
+  iphone: 0,
+  mobile: 0,
+  cell: 0,
+  main: 1,
+  home: 2,
+  other: 2,
+  work: 3,
+  pager: 9,
+  'home fax': 9,
+  'work fax': 9,
+  'other fax': 9
+};
+
+function labelPriority(label?: string): number {
+  return label ? LABEL_PRIORITY[label] ?? 2 : 2;
+}
+
+// Digits with the punctuation people type in phone numbers; anything else is a name or an email
+function looksLikePhoneNumber(value: string): boolean {
+  return /^\+?[0-9\s().-]+$/.test(value);
+}
+
+// Candidates within this many points of the best match are too close to pick between automatically
+const AMBIGUITY_MARGIN = 10;
+
+// Messages per export unless a limit is given, and the most one export includes
+const EXPORT_DEFAULT_LIMIT = 500;
+const EXPORT_MAX_LIMIT = 1000;
+
+// Sends waiting for the caller to pick which contact was meant
+const pendingDisambiguations = new Map<string, {
+  query: string;
+  message: string;
+  options: SendMessageOptions;
+  candidates: RecipientCandidate[];
+  timestamp: number;
+  scheduledTime?: string;
+}>();
+
 // Store pending confirmations (in production, this should be in a database or redis)
 const pendingConfirmations = new Map<string, {
   validatedRecipient: string;
@@ -34,13 +173,102 @@ const pendingConfirmations = new Map<string, {
   message: string;
   validatedMessageType: 'imessage' | 'sms' | 'unknown';
   timestamp: number;
+  // Set for group sends: every resolved participant, and the chat to send to when it already exists
+  recipients?: GroupRecipient[];
+  chatGuid?: string;
+  // Set for scheduled sends: confirming queues the message for this time instead of sending now
+  scheduledTime?: string;
+  // Set for edits of a scheduled send: confirming updates this queued message instead of adding one
+  scheduleId?: string;
+  // Set when the user typed one of several numbers on a card: confirming makes it the preferred one
+  rememberNumberFor?: { contactId: string; name: string };
+  attachments?: OutgoingAttachment[];
 }>();
 
+/**
+ * Build the Messages AppleScript for an already validated send: the text (if any), then each file
+ */
+function buildSendScript(target: {
+  message: string;
+  phoneNumber: string;
+  messageType: 'imessage' | 'sms' | 'unknown';
+  recipients?: GroupRecipient[];
+  chatGuid?: string;
+  attachments?: string[];
+}): string {
+  let setup = '';
+  let recipient: string;
+
+  if (target.chatGuid) {
+    // Existing conversation (group chat found by name or by its participants)
+    recipient = `chat id "${escapeAppleScriptString(target.chatGuid)}"`;
+  } else if (target.recipients && target.recipients.length > 1) {
+    // New group conversation with every confirmed participant
+    const participantList = target.recipients
+      .map(r => `participant "${escapeAppleScriptString(r.phoneNumber)}" of targetService`)
+      .join(', ');
+    setup = `    set targetService to 1st account whose service type = iMessage
+    set newChat to make new text chat with properties {participants:{${participantList}}}
+`;
+    recipient = 'newChat';
+  } else if (target.messageType === 'imessage') {
+    setup = `    set targetService to 1st service whose service type = iMessage
+    set targetBuddy to buddy "${escapeAppleScriptString(target.phoneNumber)}" of targetService
+`;
+    recipient = 'targetBuddy';
+  } else {
+    // Default to SMS or auto-detect
+    recipient = `buddy "${escapeAppleScriptString(target.phoneNumber)}"`;
+  }
+
+  const sends = [
+    ...(target.message ? [`    send "${escapeAppleScriptString(target.message)}" to ${recipient}`] : []),
+    ...(target.attachments || []).map(path => `    send POSIX file "${escapeAppleScriptString(path)}" to ${recipient}`)
+  ];
+
+  return `
+tell application "Messages"
+${setup}${sends.join('\n')}
+end tell`;
+}
+
+/**
+ * Note the last chat.db row before a send, so the rows it creates can be found afterwards.
+ * Without Full Disk Access there is nothing to verify against and the send goes out unverified.
+ */
+function startVerification(target: Omit<SendTarget, 'afterRowId'>): SendTarget | undefined {
+  try {
+    return { ...target, afterRowId: messageStatus.latestMessageRowId() };
+  } catch (error) {
+    console.error("⚠️ Cannot read chat.db, sending without verification:", error);
+    return undefined;
+  }
+}
+
+/**
+ * Describe what chat.db says happened to a send, including a fallback to another service
+ */
+function describeVerification(verification: SendVerification, expectedType: 'imessage' | 'sms' | 'unknown'): string {
+  if (verification.state === 'not-found') {
+    return `⚠️ Messages has not recorded the message yet; check it later with the status operation.`;
+  }
+  const ids = verification.messages.map(m => `#${m.id}`).join(', ');
+  const lines = [`📬 Status: ${verification.state} via ${verification.service} (message ${ids})`];
+  if (expectedType === 'imessage' && verification.service !== 'iMessage') {
+    lines.push(`⚠️ Sent as ${verification.service} instead of iMessage`);
+  }
+  // SMS has no delivery receipts; anything else may just be waiting for the recipient's device
+  if (verification.state === 'sending' || (verification.state === 'sent' && verification.service !== 'SMS')) {
+    lines.push(`Not delivered yet; check it later with the status operation and messageId ${verification.messages[0].id}.`);
+  }
+  return lines.join('\n');
+}
+
 class MessageCachedWrapper {
   private cacheManager: ContactsCacheManager;
 
   constructor() {
-    this.cacheManager = new ContactsCacheManager();
+    this.cacheManager = getSharedCacheManager();
   }
 
   /**
@@ -60,6 +288,11 @@ class MessageCachedWrapper {
         pendingConfirmations.delete(token);
       }
     }
+    for (const [token, data] of pendingDisambiguations.entries()) {
+      if (data.timestamp < fiveMinutesAgo) {
+        pendingDisambiguations.delete(token);
+      }
+    }
   }
 
   /**
@@ -133,6 +366,258 @@ end tell`;
     }
   }
 
+  /**
+   * Resolve a contact name or phone number to a single sendable number using the cache
+   */
+  private async resolveRecipient(
+    phoneNumberOrName: string,
+    verifyContact = true
+  ): Promise<
+    | { success: true; name?: string; phoneNumber: string; numberChoice?: NumberChoice; rememberNumberFor?: { contactId: string; name: string } }
+    | { success: false; message: string; candidates?: RecipientCandidate[] }
+  > {
+    let recipientName: string | undefined;
+    let rememberNumberFor: { contactId: string; name: string } | undefined;
+    
+    const isPhoneNumber = looksLikePhoneNumber(phoneNumberOrName);
+    
+    if (!isPhoneNumber) {
+      console.error(`🔍 Searching for contact in cache: ${phoneNumberOrName}`);
+      const matches = await this.findBestContactMatches(phoneNumberOrName, 5);
+      
+      if (matches.length === 0) {
+        return {
+          success: false,
+          message: `No contact found matching "${phoneNumberOrName}". Try a different name or use the phone number directly.`
+        };
+      }
+      
+      const candidates = await this.findAmbiguousCandidates(matches);
+      if (candidates.length > 1) {
+        console.error(`⚠️ "${phoneNumberOrName}" matches ${candidates.length} contacts about equally: ${candidates.map(c => c.name).join(', ')}`);
+        return {
+          success: false,
+          message: `"${phoneNumberOrName}" matches several contacts: ${candidates.map(c => `${c.name} (${c.phoneNumber})`).join(', ')}. Use a full name or the phone number.`,
+          candidates
+        };
+      }
+      
+      const bestMatch = matches[0];
+      const selection = await this.chooseContactNumber(bestMatch);
+      if (!selection) {
+        return {
+          success: false,
+          message: `Contact "${bestMatch.name}" found but has no valid phone numbers.`
+        };
+      }
+      
+      console.error(`📞 Using ${selection.phoneNumber} for ${bestMatch.name}: ${selection.choice.explanation}`);
+      return { success: true, name: bestMatch.name, phoneNumber: selection.phoneNumber, numberChoice: selection.choice };
+    } else if (verifyContact) {
+      // Phone number provided - try to find the contact using cache
+      const contact = await contactsCached.lookupContact(phoneNumberOrName);
+      recipientName = contact?.name;
+      
+      // Typing one of several numbers on a card is an explicit choice worth remembering
+      if (contact?.id && contact.phones.length > 1) {
+        rememberNumberFor = { contactId: contact.id, name: contact.name };
+      }
+    }
+    
+    const normalizedNumbers = this.normalizePhoneNumber(phoneNumberOrName);
+    if (normalizedNumbers.length === 0) {
+      return {
+        success: false,
+        message: `Invalid phone number format: ${phoneNumberOrName}`
+      };
+    }
+    
+    return { success: true, name: recipientName, phoneNumber: normalizedNumbers[0], rememberNumberFor };
+  }
+
+  /**
+   * Pick which of a contact's numbers to message: the one the user chose before, else the one
+   * with the most recent conversation in chat.db, else the best label (mobile over work or fax).
+   */
+  private async chooseContactNumber(contact: {
+    id?: string;
+    name: string;
+    phoneNumbers: string[];
+    phoneLabels?: Record<string, string>;
+  }): Promise<{ phoneNumber: string; choice: NumberChoice } | null> {
+    const seen = new Set<string>();
+    const options: Array<{ original: string; phoneNumber: string; label?: string; lastMessageDate?: string }> = [];
+    for (const original of contact.phoneNumbers.filter(num => num && num.trim() !== '')) {
+      const phoneNumber = this.normalizePhoneNumber(original)[0];
+      if (!phoneNumber || seen.has(phoneNumber)) continue;
+      seen.add(phoneNumber);
+      options.push({ original, phoneNumber, label: contact.phoneLabels?.[original] });
+    }
+    if (options.length === 0) return null;
+    
+    const pick = (chosen: typeof options[number], reason: NumberChoice['reason'], explanation: string) => ({
+      phoneNumber: chosen.phoneNumber,
+      choice: {
+        reason,
+        explanation,
+        label: chosen.label,
+        alternatives: options
+          .filter(option => option !== chosen)
+          .map(({ phoneNumber, label, lastMessageDate }) => ({ phoneNumber, label, lastMessageDate }))
+      }
+    });
+    
+    if (options.length === 1) {
+      return pick(options[0], 'only-number', `only number for ${contact.name}`);
+    }
+    
+    if (contact.id) {
+      try {
+        const remembered = await recipientPreferences.getRecipientPreferenceStore().get(contact.id);
+        const chosen = remembered && options.find(option => option.phoneNumber === remembered.phoneNumber);
+        if (remembered && chosen) {
+          return pick(chosen, 'remembered', `you chose this number for ${contact.name} on ${new Date(remembered.chosenAt).toLocaleDateString()}`);
+        }
+      } catch (error) {
+        console.error(`⚠️ Could not read number preference for ${contact.name}:`, error);
+      }
+    }
+    
+    try {
+      for (const activity of messageOriginal.getHandleActivity(options.map(option => option.original))) {
+        const option = options.find(o => o.phoneNumber === this.normalizePhoneNumber(activity.handle)[0]);
+        if (option && !option.lastMessageDate) {
+          option.lastMessageDate = activity.lastMessageDate;
+        }
+      }
+    } catch (error) {
+      console.error(`⚠️ No conversation history for ${contact.name}:`, error);
+    }
+    
+    const recent = options
+      .filter(option => option.lastMessageDate)
+      .sort((a, b) => b.lastMessageDate!.localeCompare(a.lastMessageDate!))[0];
+    if (recent) {
+      return pick(recent, 'recent-conversation', `most recent conversation with ${contact.name} (${new Date(recent.lastMessageDate!).toLocaleString()})`);
+    }
+    
+    const ranked = [...options].sort((a, b) => labelPriority(a.label) - labelPriority(b.label));
+    if (labelPriority(ranked[0].label) < labelPriority(ranked[1].label)) {
+      const others = ranked.slice(1).map(option => option.label || 'unlabeled').join(', ');
+      return pick(ranked[0], 'label', `${ranked[0].label || 'unlabeled'} number preferred over ${others}; no conversation with ${contact.name} yet`);
+    }
+    
+    return pick(options[0], 'first-on-card', `first number on ${contact.name}'s card; no conversation yet`);
+  }
+
+  /**
+   * Make the number the user confirmed the default for that contact in future sends by name
+   */
+  private async rememberNumberChoice(contact: { contactId: string; name: string }, phoneNumber: string): Promise<void> {
+    try {
+      await recipientPreferences.getRecipientPreferenceStore().remember(contact.contactId, contact.name, phoneNumber);
+      console.error(`📌 Remembered ${phoneNumber} as the number for ${contact.name}`);
+    } catch (error) {
+      console.error(`⚠️ Could not remember number choice for ${contact.name}:`, error);
+    }
+  }
+
+  /**
+   * Matches scoring too close to the best one to choose automatically, with recent-conversation hints.
+   * Returns at most one entry when the best match is clear.
+   */
+  private async findAmbiguousCandidates(matches: Array<{
+    id?: string;
+    name: string;
+    phoneNumbers: string[];
+    phoneLabels?: Record<string, string>;
+    matchScore: number;
+    matchReasons: string[];
+  }>): Promise<RecipientCandidate[]> {
+    const [best] = matches;
+    // An exact name only competes with other exact names
+    const margin = best.matchScore === 100 ? 0 : AMBIGUITY_MARGIN;
+    const close = matches.filter(match => best.matchScore - match.matchScore <= margin);
+    
+    const candidates: RecipientCandidate[] = [];
+    const seenNumbers = new Set<string>();
+    for (const match of close) {
+      const validNumbers = match.phoneNumbers.filter(num => num && num.trim() !== '');
+      if (validNumbers.length === 0) continue;
+      
+      // Duplicate cards for the same person are not a real choice
+      const numbers = validNumbers.map(num => phoneNumbers.normalizeToE164(num) || num);
+      if (numbers.every(num => seenNumbers.has(num))) continue;
+      numbers.forEach(num => seenNumbers.add(num));
+      
+      let activity: ReturnType<typeof messageOriginal.getHandleActivity> = [];
+      try {
+        activity = messageOriginal.getHandleActivity(validNumbers);
+      } catch (error) {
+        console.error(`⚠️ No conversation history for ${match.name}:`, error);
+      }
+      
+      const selection = await this.chooseContactNumber(match);
+      if (!selection) continue;
+      
+      candidates.push({
+        candidate: candidates.length + 1,
+        name: match.name,
+        phoneNumber: selection.phoneNumber,
+        numberChoice: selection.choice,
+        phoneNumbers: validNumbers,
+        matchScore: match.matchScore,
+        matchReasons: match.matchReasons,
+        lastMessageDate: activity[0]?.lastMessageDate,
+        messageCount: activity.reduce((sum, entry) => sum + entry.messageCount, 0)
+      });
+    }
+    return candidates;
+  }
+
+  /**
+   * Continue a send that stopped for disambiguation, with the contact the user picked
+   */
+  async chooseRecipient(confirmationToken: string, candidate: number) {
+    this.cleanupOldConfirmations();
+    const pending = pendingDisambiguations.get(confirmationToken);
+    if (!pending) {
+      return {
+        success: false,
+        message: `❌ Invalid or expired token. Please start the send process again.`
+      };
+    }
+    
+    const chosen = pending.candidates.find(c => c.candidate === candidate);
+    if (!chosen) {
+      return {
+        success: false,
+        message: `❌ Pick a candidate between 1 and ${pending.candidates.length}.`
+      };
+    }
+    pendingDisambiguations.delete(confirmationToken);
+    
+    // The regular confirmation follows, now for the chosen contact's number
+    const result = pending.scheduledTime
+      ? await this.scheduleMessage(chosen.phoneNumber, pending.message, new Date(pending.scheduledTime), pending.options)
+      : await this.sendMessageEnhanced(chosen.phoneNumber, pending.message, pending.options);
+    
+    const validation = 'validationInfo' in result ? result.validationInfo as MessageValidation | undefined : undefined;
+    if (validation) {
+      // The number may be on several cards; show the contact the user picked
+      validation.resolvedContact = chosen.name;
+      validation.numberChoice = chosen.numberChoice;
+      const pendingData = pendingConfirmations.get(validation.confirmationToken);
+      if (pendingData) {
+        pendingData.validatedRecipient = chosen.name;
+        // Picking a contact is not a choice between its numbers
+        delete pendingData.rememberNumberFor;
+      }
+      return { success: false, message: result.message, needsValidation: true, validationInfo: validation };
+    }
+    return { success: false, message: result.message };
+  }
+
   /**
    * Enhanced message sending with cache-aware contact verification
    * Now handles the complete flow without delegating to message-enhanced.ts
@@ -145,107 +630,214 @@ end tell`;
     try {
       const { verifyContact = true, messageType = 'auto' } = options;
       
-      let targetPhoneNumber = phoneNumberOrName;
-      let recipientName: string | undefined;
+      // Step 1 & 2: Fast contact resolution using cache, then normalize the phone number
+      const recipient = await this.resolveRecipient(phoneNumberOrName, verifyContact);
+      if (!recipient.success && recipient.candidates) {
+        // Never guess between similar names: hand the choice back to the caller
+        this.cleanupOldConfirmations();
+        const confirmationToken = this.generateConfirmationToken();
+        pendingDisambiguations.set(confirmationToken, {
+          query: phoneNumberOrName,
+          message,
+          options,
+          candidates: recipient.candidates,
+          timestamp: Date.now()
+        });
+        
+        return {
+          success: false,
+          message: recipient.message,
+          needsDisambiguation: true,
+          disambiguation: {
+            query: phoneNumberOrName,
+            messagePreview: message,
+            candidates: recipient.candidates,
+            confirmationToken
+          } as RecipientDisambiguation
+        };
+      }
+      if (!recipient.success) {
+        return { success: false, message: recipient.message };
+      }
       
-      // Step 1: Fast contact resolution using cache
-      const isPhoneNumber = /^\+?[0-9\s\-\(\)\.]+$/.test(phoneNumberOrName);
+      const primaryNumber = recipient.phoneNumber;
       
-      if (!isPhoneNumber) {
-        console.error(`🔍 Searching for contact in cache: ${phoneNumberOrName}`);
-        const matches = await this.findBestContactMatches(phoneNumberOrName, 3);
-        
-        if (matches.length === 0) {
+      // Step 3: Fast message type detection using cache
+      let detectedMessageType: 'imessage' | 'sms' | 'unknown' = 'unknown';
+      if (messageType === 'auto') {
+        detectedMessageType = await this.detectMessageType(primaryNumber);
+      }
+      
+      const finalMessageType = messageType === 'auto' ? detectedMessageType : messageType as any;
+      const displayName = recipient.name || phoneNumberOrName;
+      
+      // Files are checked against the limit of the service that will carry them
+      const files = messageAttachments.checkOutgoingAttachments(options.attachments || [], finalMessageType);
+      if (!files.success) {
+        return { success: false, message: files.message! };
+      }
+      
+      // Step 4: Generate confirmation token and store pending confirmation
+      this.cleanupOldConfirmations(); // Clean up old confirmations first
+      const confirmationToken = this.generateConfirmationToken();
+      
+      pendingConfirmations.set(confirmationToken, {
+        validatedRecipient: displayName,
+        validatedPhoneNumber: primaryNumber,
+        message: message,
+        validatedMessageType: finalMessageType,
+        timestamp: Date.now(),
+        rememberNumberFor: recipient.rememberNumberFor,
+        attachments: files.attachments
+      });
+      
+      // Step 5: Return validation info for Claude to present to user
+      return {
+        success: false,
+        message: `Ready to send message`,
+        needsValidation: true,
+        validationInfo: {
+          resolvedContact: displayName,
+          phoneNumber: primaryNumber,
+          messagePreview: message,
+          messageType: finalMessageType,
+          confirmationToken: confirmationToken,
+          numberChoice: recipient.numberChoice,
+          attachments: files.attachments.length > 0 ? files.attachments : undefined
+        } as MessageValidation
+      };
+      
+    } catch (error) {
+      return {
+        success: false,
+        message: `Failed to prepare message: ${error instanceof Error ? error.message : String(error)}`
+      };
+    }
+  }
+
+  /**
+   * Prepare a message to an existing group chat (by name or chat id) or to several recipients.
+   * Goes through the same confirmation-token flow as single-recipient sends.
+   */
+  async sendGroupMessageEnhanced(
+    target: { chatName?: string; recipients?: string[] },
+    message: string,
+    options: SendMessageOptions = {}
+  ) {
+    try {
+      const { verifyContact = true } = options;
+      let recipients: GroupRecipient[] = [];
+      let chat: { guid: string; chatId: string; displayName?: string } | undefined;
+      
+      if (target.chatName) {
+        // Step 1a: Existing group chat - participants come from chat.db
+        const lookup = messageOriginal.findChat(target.chatName);
+        if (!lookup.chat) {
           return {
             success: false,
-            message: `No contact found matching "${phoneNumberOrName}". Try a different name or use the phone number directly.`
+            message: lookup.error || `No chat found for "${target.chatName}"`
           };
         }
         
-        const bestMatch = matches[0];
-        recipientName = bestMatch.name;
-        
-        // Smart phone number selection: prefer normalized formats over parentheses
-        console.log(`🔧 DEBUG: Available phone numbers for ${bestMatch.name}: ${JSON.stringify(bestMatch.phoneNumbers)}`);
-        
-        const validNumbers = bestMatch.phoneNumbers.filter(num => num && num.trim() !== '');
-        if (validNumbers.length === 0) {
+        const thread = await messageOriginal.readChatMessages(lookup.chat.chat_identifier, 1, (handle) => contactsCached.findContactByPhone(handle));
+        chat = {
+          guid: lookup.chat.guid,
+          chatId: lookup.chat.chat_identifier,
+          displayName: lookup.chat.display_name || undefined,
+        };
+        recipients = (thread.thread?.participants || []).map(p => ({ name: p.name || p.handle, phoneNumber: p.handle }));
+      } else {
+        // Step 1b: Resolve every named recipient through the cache; any failure stops the send
+        const names = [...new Set((target.recipients || []).map(r => r.trim()).filter(Boolean))];
+        if (names.length === 0) {
           return {
             success: false,
-            message: `Contact "${bestMatch.name}" found but has no valid phone numbers.`
+            message: `At least one recipient is required`
           };
         }
         
-        // Prefer numbers that start with + or are already normalized, then fall back to any valid number
-        const preferredNumber = validNumbers.find(num => num.startsWith('+')) || 
-                               validNumbers.find(num => /^\d{10,11}$/.test(num.replace(/\D/g, ''))) ||
-                               validNumbers[0];
+        const failures: string[] = [];
+        for (const name of names) {
+          const recipient = await this.resolveRecipient(name, verifyContact);
+          if (recipient.success) {
+            recipients.push({ name: recipient.name || name, phoneNumber: recipient.phoneNumber });
+          } else {
+            failures.push(recipient.message);
+          }
+        }
         
-        console.log(`🔧 DEBUG: Selected phone number: "${preferredNumber}" from available: ${JSON.stringify(validNumbers)}`);
+        if (failures.length > 0) {
+          return {
+            success: false,
+            message: `Could not resolve all recipients:\n${failures.map(f => `- ${f}`).join('\n')}`
+          };
+        }
         
-        targetPhoneNumber = preferredNumber;
+        // Two names can resolve to the same person
+        recipients = recipients.filter((r, i) => recipients.findIndex(o => o.phoneNumber === r.phoneNumber) === i);
         
-        if (matches.length > 1) {
-          const alternativeContacts = matches.slice(1, 3).map(m => m.name).join(', ');
-          console.error(`Multiple contacts found. Using: ${bestMatch.name}. Alternatives: ${alternativeContacts}`);
+        if (recipients.length === 1) {
+          return await this.sendMessageEnhanced(recipients[0].phoneNumber, message, options);
         }
-      } else {
-        // Phone number provided - try to find contact name using cache
-        if (verifyContact) {
-          recipientName = await contactsCached.findContactByPhone(phoneNumberOrName);
+        
+        // Reuse the existing conversation with exactly these people, if there is one
+        const existing = messageOriginal.findGroupChatByParticipants(recipients.map(r => r.phoneNumber));
+        if (existing) {
+          chat = {
+            guid: existing.guid,
+            chatId: existing.chat_identifier,
+            displayName: existing.display_name || undefined,
+          };
         }
       }
       
-      // Step 2: Normalize phone number
-      const normalizedNumbers = this.normalizePhoneNumber(targetPhoneNumber);
-      if (normalizedNumbers.length === 0) {
-        return {
-          success: false,
-          message: `Invalid phone number format: ${targetPhoneNumber}`
-        };
-      }
-      
-      const primaryNumber = normalizedNumbers[0];
+      const recipientNames = recipients.map(r => r.name).join(', ');
+      const displayName = chat?.displayName || recipientNames || chat?.chatId || 'group chat';
+      // Group chats with more than one other person only work over iMessage
+      const finalMessageType: 'imessage' | 'sms' | 'unknown' = chat?.guid.startsWith('SMS;') ? 'sms' : 'imessage';
       
-      // Step 3: Fast message type detection using cache
-      let detectedMessageType: 'imessage' | 'sms' | 'unknown' = 'unknown';
-      if (messageType === 'auto') {
-        detectedMessageType = await this.detectMessageType(primaryNumber);
+      const files = messageAttachments.checkOutgoingAttachments(options.attachments || [], finalMessageType);
+      if (!files.success) {
+        return { success: false, message: files.message! };
       }
       
-      const finalMessageType = messageType === 'auto' ? detectedMessageType : messageType as any;
-      const displayName = recipientName || targetPhoneNumber;
-      
-      // Step 4: Generate confirmation token and store pending confirmation
-      this.cleanupOldConfirmations(); // Clean up old confirmations first
+      // Step 2: Generate confirmation token and store pending confirmation
+      this.cleanupOldConfirmations();
       const confirmationToken = this.generateConfirmationToken();
       
       pendingConfirmations.set(confirmationToken, {
         validatedRecipient: displayName,
-        validatedPhoneNumber: primaryNumber,
+        validatedPhoneNumber: chat ? chat.chatId : recipients.map(r => r.phoneNumber).join(', '),
         message: message,
         validatedMessageType: finalMessageType,
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        recipients,
+        chatGuid: chat?.guid,
+        attachments: files.attachments
       });
       
-      // Step 5: Return validation info for Claude to present to user
+      // Step 3: Return validation info for Claude to present to user
       return {
         success: false,
         message: `Ready to send message`,
         needsValidation: true,
         validationInfo: {
           resolvedContact: displayName,
-          phoneNumber: primaryNumber,
+          phoneNumber: chat ? chat.chatId : recipients.map(r => r.phoneNumber).join(', '),
           messagePreview: message,
           messageType: finalMessageType,
-          confirmationToken: confirmationToken
-        }
+          confirmationToken: confirmationToken,
+          recipients,
+          chatId: chat?.chatId,
+          newConversation: !chat,
+          attachments: files.attachments.length > 0 ? files.attachments : undefined
+        } as MessageValidation
       };
       
     } catch (error) {
       return {
         success: false,
-        message: `Failed to prepare message: ${error instanceof Error ? error.message : String(error)}`
+        message: `Failed to prepare group message: ${error instanceof Error ? error.message : String(error)}`
       };
     }
   }
@@ -289,6 +881,8 @@ end tell`;
     recipientName?: string;
     messageType?: 'imessage' | 'sms' | 'unknown';
     phoneNumber?: string;
+    scheduleId?: string;
+    verification?: SendVerification;
   }> {
     try {
       // Step 1: Validate confirmation token and get pending confirmation data
@@ -325,39 +919,111 @@ end tell`;
       }
       
       // Step 5: Extract the validated data
-      const { validatedRecipient, validatedPhoneNumber, message, validatedMessageType } = pendingData;
+      const { validatedRecipient, validatedPhoneNumber, message, validatedMessageType, recipients, chatGuid, scheduledTime, scheduleId, rememberNumberFor, attachments = [] } = pendingData;
       
-      // Step 6: Send the message using validated details
-      const escapedMessage = message.replace(/"/g, '\\\\"');
-      let sendScript: string;
+      if (scheduledTime && scheduleId) {
+        // Fails if the daemon claimed it or it was cancelled since the edit was prepared
+        const edited = await messageSchedule.getScheduledMessageStore().edit(
+          scheduleId,
+          { message, scheduledTime: new Date(scheduledTime) },
+          new Date()
+        );
+        pendingConfirmations.delete(confirmationToken);
+        
+        return {
+          success: true,
+          message: `✏️ Scheduled message to ${edited.recipient} (${edited.phoneNumber}) updated: ${new Date(edited.scheduledTime).toLocaleString()}\n💬 "${edited.message}"\n🆔 Schedule ID: ${edited.id}`,
+          recipientName: edited.recipient,
+          messageType: edited.messageType,
+          phoneNumber: edited.phoneNumber,
+          scheduleId: edited.id
+        };
+      }
       
-      if (validatedMessageType === 'imessage') {
-        sendScript = `
-tell application "Messages"
-    set targetService to 1st service whose service type = iMessage
-    set targetBuddy to buddy "${validatedPhoneNumber}" of targetService
-    send "${escapedMessage}" to targetBuddy
-end tell`;
-      } else {
-        // Default to SMS or auto-detect
-        sendScript = `
-tell application "Messages"
-    send "${escapedMessage}" to buddy "${validatedPhoneNumber}"
-end tell`;
+      if (scheduledTime) {
+        // Bind what the user just confirmed; the daemon sends it as-is at the scheduled time
+        const scheduled = await messageSchedule.getScheduledMessageStore().add({
+          recipient: validatedRecipient,
+          phoneNumber: validatedPhoneNumber,
+          message,
+          messageType: validatedMessageType,
+          scheduledTime: new Date(scheduledTime),
+          confirmedAt: new Date()
+        });
+        pendingConfirmations.delete(confirmationToken);
+        if (rememberNumberFor) {
+          await this.rememberNumberChoice(rememberNumberFor, validatedPhoneNumber);
+        }
+        
+        return {
+          success: true,
+          message: `📅 Message to ${validatedRecipient} (${validatedPhoneNumber}) scheduled for ${new Date(scheduled.scheduledTime).toLocaleString()} via ${validatedMessageType.toUpperCase()}\n🆔 Schedule ID: ${scheduled.id}\n\nThe cache daemon sends it at that time without asking again, so it must be running (bun run daemon:start).`,
+          recipientName: validatedRecipient,
+          messageType: validatedMessageType,
+          phoneNumber: validatedPhoneNumber,
+          scheduleId: scheduled.id
+        };
       }
       
-      await runAppleScript(sendScript);
+      // Step 6: Make sure the files are still there and unchanged in size since the user saw them
+      if (attachments.length > 0) {
+        const files = messageAttachments.checkOutgoingAttachments(attachments.map(a => a.path), validatedMessageType);
+        const changed = attachments.filter(a => !files.attachments.some(f => f.path === a.path && f.size === a.size));
+        if (!files.success || changed.length > 0) {
+          pendingConfirmations.delete(confirmationToken);
+          return {
+            success: false,
+            message: `❌ Attachments changed since confirmation was requested${files.message ? `:\n${files.message}` : `: ${changed.map(a => a.name).join(', ')}`}\nPlease start the send process again.`
+          };
+        }
+      }
       
-      // Step 7: Clean up the confirmation token after successful send
+      // Step 7: Send the message using validated details
+      const target = startVerification({
+        text: message,
+        attachmentCount: attachments.length,
+        chatGuid,
+        handles: chatGuid || (recipients && recipients.length > 1) ? undefined : [validatedPhoneNumber]
+      });
+      await runAppleScript(buildSendScript({
+        message,
+        phoneNumber: validatedPhoneNumber,
+        messageType: validatedMessageType,
+        recipients,
+        chatGuid,
+        attachments: attachments.map(a => a.path)
+      }));
       pendingConfirmations.delete(confirmationToken);
       
-      // Step 8: Return success with details  
+      // Step 8: AppleScript returns before the message goes out; chat.db tells whether it did
+      const verification = target ? await messageStatus.verifySend(target) : undefined;
+      if (verification?.state === 'failed') {
+        const errorCode = verification.messages.find(m => m.errorCode)?.errorCode;
+        return {
+          success: false,
+          message: `❌ Messages could not deliver the message to ${validatedRecipient} (${validatedPhoneNumber})${errorCode ? `, error ${errorCode}` : ''}. ` +
+            `It shows as "Not Delivered" in Messages, where it can be retried.`,
+          recipientName: validatedRecipient,
+          messageType: validatedMessageType,
+          phoneNumber: validatedPhoneNumber,
+          verification
+        };
+      }
+      
+      if (rememberNumberFor) {
+        await this.rememberNumberChoice(rememberNumberFor, validatedPhoneNumber);
+      }
+      
+      // Step 9: Return success with details  
       return {
         success: true,
-        message: `✅ Message sent to ${validatedRecipient} (${validatedPhoneNumber}) via ${validatedMessageType.toUpperCase()}`,
+        message: `✅ Message sent to ${validatedRecipient} (${validatedPhoneNumber}) via ${validatedMessageType.toUpperCase()}` +
+          (attachments.length > 0 ? ` with ${attachments.length} attachment(s): ${attachments.map(a => a.name).join(', ')}` : '') +
+          (verification ? `\n${describeVerification(verification, validatedMessageType)}` : ''),
         recipientName: validatedRecipient,
         messageType: validatedMessageType,
-        phoneNumber: validatedPhoneNumber
+        phoneNumber: validatedPhoneNumber,
+        verification
       };
       
     } catch (error) {
@@ -382,10 +1048,12 @@ end tell`;
       let targetPhoneNumber = phoneNumberOrName;
       let contactName: string | undefined;
       
-      const isPhoneNumber = /^\+?[0-9\s\-\(\)\.]+$/.test(phoneNumberOrName);
+      const isPhoneNumber = looksLikePhoneNumber(phoneNumberOrName);
+      // Email addresses are Messages handles in their own right, not contact names
+      const isEmailHandle = /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(phoneNumberOrName.trim());
       
-      if (!isPhoneNumber) {
-        const matches = await this.findBestContactMatches(phoneNumberOrName, 1);
+      if (!isPhoneNumber && !isEmailHandle) {
+        const matches = await this.findBestContactMatches(phoneNumberOrName, 5);
         if (matches.length === 0) {
           return {
             success: false,
@@ -393,30 +1061,36 @@ end tell`;
           };
         }
         
+        // Reading the wrong person's conversation is as bad as messaging them: ask instead of guessing
+        const candidates = await this.findAmbiguousCandidates(matches);
+        if (candidates.length > 1) {
+          return {
+            success: false,
+            messages: [],
+            message: `"${phoneNumberOrName}" matches several contacts: ${candidates.map(c => `${c.name} (${c.phoneNumber})`).join(', ')}. Use a full name or the phone number.`,
+            candidates,
+          };
+        }
+        
         const bestMatch = matches[0];
         contactName = bestMatch.name;
         
-        // Smart phone number selection: prefer normalized formats over parentheses
-        const validNumbers = bestMatch.phoneNumbers.filter(num => num && num.trim() !== '');
-        if (validNumbers.length === 0) {
+        const selection = await this.chooseContactNumber(bestMatch);
+        if (!selection) {
           return {
             success: false,
             messages: [],
           };
         }
         
-        // Prefer numbers that start with + or are already normalized, then fall back to any valid number
-        const preferredNumber = validNumbers.find(num => num.startsWith('+')) || 
-                               validNumbers.find(num => /^\d{10,11}$/.test(num.replace(/\D/g, ''))) ||
-                               validNumbers[0];
-        
-        targetPhoneNumber = preferredNumber;
+        console.error(`📞 Reading ${selection.phoneNumber} for ${bestMatch.name}: ${selection.choice.explanation}`);
+        targetPhoneNumber = selection.phoneNumber;
       } else {
         contactName = await contactsCached.findContactByPhone(phoneNumberOrName);
       }
 
       // Use original implementation for actual message reading (this doesn't involve contact search)
-      const messages = await messageOriginal.readMessages(targetPhoneNumber, limit);
+      const messages = await messageOriginal.readMessages(targetPhoneNumber, limit, (handle) => contactsCached.findContactByPhone(handle));
       
       // Enhanced messages with fast message type detection
       const enhancedMessages = await Promise.all(
@@ -433,7 +1107,7 @@ end tell`;
       // Get thread context using original implementation
       let threadInfo;
       if (includeContext) {
-        const threads = await messageOriginal.getMessageThreads(50);
+        const threads = await this.getMessageThreads(50);
         const currentThread = threads.find(t => 
           t.phoneNumber === targetPhoneNumber || t.contactName === contactName
         );
@@ -463,10 +1137,232 @@ end tell`;
   }
 
   /**
-   * Get message threads (delegate to original)
+   * Get message threads, with participant names resolved through the contacts cache
    */
   async getMessageThreads(limit = 20): Promise<MessageThread[]> {
-    return await messageOriginal.getMessageThreads(limit);
+    return await messageOriginal.getMessageThreads(limit, (handle) => contactsCached.findContactByPhone(handle));
+  }
+
+  /**
+   * Read a full conversation (including group chats) by chat identifier or group name
+   */
+  async readChatMessages(chatIdentifier: string, limit = 20) {
+    const result = await messageOriginal.readChatMessages(
+      chatIdentifier,
+      limit,
+      (handle) => contactsCached.findContactByPhone(handle),
+    );
+
+    const messages = await Promise.all(
+      result.messages.map(async (msg) => ({
+        ...msg,
+        messageType: msg.sender ? await this.detectMessageType(msg.sender) : msg.messageType,
+      })),
+    );
+
+    return { ...result, messages };
+  }
+
+  /**
+   * Render one conversation as a Markdown, JSON or plain-text transcript. The conversation is a chat
+   * (chatId) or the direct chat with a contact, number or email, optionally limited to a date range.
+   */
+  async exportConversation(options: {
+    chatId?: string;
+    phoneNumberOrName?: string;
+    startDate?: Date;
+    endDate?: Date;
+    format?: ExportFormat;
+    limit?: number;
+  }): Promise<{
+    success: boolean;
+    transcript?: string;
+    messageCount?: number;
+    truncated?: boolean;
+    name?: string;
+    message?: string;
+    candidates?: RecipientCandidate[];
+  }> {
+    try {
+      let chatId = options.chatId;
+      let contactName: string | undefined;
+
+      if (!chatId && options.phoneNumberOrName) {
+        let handles = [options.phoneNumberOrName];
+        const isHandle = looksLikePhoneNumber(options.phoneNumberOrName) || options.phoneNumberOrName.includes('@');
+        if (!isHandle) {
+          const matches = await this.findBestContactMatches(options.phoneNumberOrName, 5);
+          if (matches.length === 0) {
+            return { success: false, message: `No contact found matching "${options.phoneNumberOrName}"` };
+          }
+
+          // Exporting someone else's conversation is as bad as reading it: ask instead of guessing
+          const candidates = await this.findAmbiguousCandidates(matches);
+          if (candidates.length > 1) {
+            return {
+              success: false,
+              message: `"${options.phoneNumberOrName}" matches several contacts: ${candidates.map(c => `${c.name} (${c.phoneNumber})`).join(', ')}. Use a full name or the phone number.`,
+              candidates
+            };
+          }
+
+          const [match] = matches;
+          contactName = match.name;
+          handles = [...match.phoneNumbers, ...(match.emails || [])].filter(handle => handle && handle.trim() !== '');
+        }
+
+        // The contact's number or email with the most recent direct conversation
+        const directChat = messageOriginal
+          .getHandleActivity(handles)
+          .map(activity => messageOriginal.findChat(activity.handle).chat)
+          .find(chat => chat !== undefined);
+        if (!directChat) {
+          return { success: false, message: `No conversation with ${contactName || options.phoneNumberOrName} found` };
+        }
+        chatId = directChat.chat_identifier;
+      }
+      if (!chatId) {
+        return { success: false, message: `A chatId or phoneNumberOrName is required` };
+      }
+
+      const limit = Math.min(Math.max(Math.floor(options.limit || EXPORT_DEFAULT_LIMIT), 1), EXPORT_MAX_LIMIT);
+      const result = await messageOriginal.readChatMessages(
+        chatId,
+        limit,
+        (handle) => contactsCached.findContactByPhone(handle),
+        { startDate: options.startDate, endDate: options.endDate, nestReplies: false },
+      );
+      if (!result.success || !result.thread) {
+        return { success: false, message: result.message || `Could not read ${chatId}` };
+      }
+
+      const { thread } = result;
+      const conversation: ConversationExport = {
+        chatId: thread.chatId,
+        name: thread.isGroup ? thread.contactName : contactName || thread.contactName,
+        isGroup: thread.isGroup,
+        participants: thread.participants,
+        startDate: options.startDate,
+        endDate: options.endDate,
+        messages: result.messages.slice().reverse(),
+        truncated: result.messages.length >= limit,
+      };
+
+      return {
+        success: true,
+        transcript: messageExport.renderConversation(conversation, options.format || 'markdown'),
+        messageCount: conversation.messages.length,
+        truncated: conversation.truncated,
+        name: conversation.name,
+      };
+    } catch (error) {
+      console.error("Error exporting conversation:", error);
+      return { success: false, message: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Search message text across all conversations. The sender may be a contact name, phone number or email.
+   */
+  async searchMessages(options: MessageSearchOptions) {
+    let senderHandles: string[] | undefined;
+    let senderName: string | undefined;
+    
+    if (options.sender) {
+      const isHandle = looksLikePhoneNumber(options.sender) || options.sender.includes('@');
+      if (isHandle) {
+        senderHandles = [options.sender];
+      } else {
+        const matches = await this.findBestContactMatches(options.sender, 5);
+        if (matches.length === 0) {
+          return { success: false, results: [], message: `No contact found matching "${options.sender}"`, senderName };
+        }
+        
+        // Same rule as reading: a name that fits several people is a question, not a guess
+        const candidates = await this.findAmbiguousCandidates(matches);
+        if (candidates.length > 1) {
+          return {
+            success: false,
+            results: [],
+            message: `"${options.sender}" matches several contacts: ${candidates.map(c => `${c.name} (${c.phoneNumber})`).join(', ')}. Use a full name or the phone number.`,
+            candidates,
+            senderName
+          };
+        }
+        
+        const [match] = matches;
+        senderName = match.name;
+        senderHandles = [...match.phoneNumbers, ...(match.emails || [])].filter(handle => handle && handle.trim() !== '');
+      }
+    }
+    
+    const result = await messageOriginal.searchMessages(
+      { ...options, senderHandles },
+      (handle) => contactsCached.findContactByPhone(handle),
+    );
+    return { ...result, senderName };
+  }
+
+  /**
+   * Delivery status of a message I sent: by message id, or the latest one to a contact, number or chat
+   */
+  async getMessageStatus(target: { messageId?: number; phoneNumberOrName?: string; chatId?: string }) {
+    try {
+      if (target.messageId) {
+        const status = messageStatus.getSentMessageStatus(target.messageId);
+        return status
+          ? { success: true, status }
+          : { success: false, message: `No message #${target.messageId} sent from this Mac` };
+      }
+      
+      if (target.chatId) {
+        const lookup = messageOriginal.findChat(target.chatId);
+        if (!lookup.chat) {
+          return { success: false, message: lookup.error || `No chat found for "${target.chatId}"` };
+        }
+        const status = messageStatus.getLatestSentMessageStatus({ chatId: lookup.chat.chat_identifier });
+        return status
+          ? { success: true, status, recipientName: lookup.chat.display_name || lookup.chat.chat_identifier }
+          : { success: false, message: `Nothing sent to ${target.chatId} yet` };
+      }
+      
+      if (target.phoneNumberOrName) {
+        let handles = [target.phoneNumberOrName];
+        let recipientName: string | undefined;
+        const isHandle = looksLikePhoneNumber(target.phoneNumberOrName) || target.phoneNumberOrName.includes('@');
+        if (!isHandle) {
+          const matches = await this.findBestContactMatches(target.phoneNumberOrName, 5);
+          if (matches.length === 0) {
+            return { success: false, message: `No contact found matching "${target.phoneNumberOrName}"` };
+          }
+          
+          // Another contact's delivery status would be a wrong answer, not a close one
+          const candidates = await this.findAmbiguousCandidates(matches);
+          if (candidates.length > 1) {
+            return {
+              success: false,
+              message: `"${target.phoneNumberOrName}" matches several contacts: ${candidates.map(c => `${c.name} (${c.phoneNumber})`).join(', ')}. Use a full name or the phone number.`,
+              candidates
+            };
+          }
+          
+          const [match] = matches;
+          recipientName = match.name;
+          handles = [...match.phoneNumbers, ...(match.emails || [])].filter(handle => handle && handle.trim() !== '');
+        }
+        const status = messageStatus.getLatestSentMessageStatus({ handles });
+        return status
+          ? { success: true, status, recipientName }
+          : { success: false, message: `Nothing sent to ${recipientName || target.phoneNumberOrName} yet` };
+      }
+      
+      return { success: false, message: `A messageId, phoneNumberOrName or chatId is required` };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Failed to check message status: ${error instanceof Error ? error.message : String(error)}`
+      };
+    }
   }
 
   /**
@@ -477,76 +1373,156 @@ end tell`;
   }
 
   async readMessages(phoneNumber: string, limit = 10): Promise<Message[]> {
-    return await messageOriginal.readMessages(phoneNumber, limit);
+    return await messageOriginal.readMessages(phoneNumber, limit, (handle) => contactsCached.findContactByPhone(handle));
   }
 
-  async scheduleMessage(phoneNumber: string, message: string, scheduledTime: Date) {
-    return await messageOriginal.scheduleMessage(phoneNumber, message, scheduledTime);
+  /**
+   * Prepare a scheduled message. Like sendMessageEnhanced this only returns a confirmation token;
+   * confirming it queues the message for the cache daemon to send at scheduledTime.
+   */
+  async scheduleMessage(
+    phoneNumberOrName: string,
+    message: string,
+    scheduledTime: Date,
+    options: SendMessageOptions = {}
+  ) {
+    if (isNaN(scheduledTime.getTime())) {
+      return { success: false, message: `Invalid scheduled time` };
+    }
+    if (scheduledTime.getTime() < Date.now()) {
+      return { success: false, message: `Cannot schedule message in the past` };
+    }
+    if (options.attachments && options.attachments.length > 0) {
+      // The queue stores text only; files could move or change before the send time
+      return { success: false, message: `Attachments can only be sent right away, not scheduled` };
+    }
+    
+    const result = await this.sendMessageEnhanced(phoneNumberOrName, message, options);
+    if ('disambiguation' in result && result.disambiguation) {
+      // Carry the time through, so picking a contact leads to the scheduling confirmation
+      const pendingChoice = pendingDisambiguations.get(result.disambiguation.confirmationToken);
+      if (pendingChoice) {
+        pendingChoice.scheduledTime = scheduledTime.toISOString();
+      }
+      result.disambiguation.scheduledTime = scheduledTime.toISOString();
+      return result;
+    }
+    if (!('validationInfo' in result) || !result.validationInfo) {
+      return result;
+    }
+    
+    const pendingData = pendingConfirmations.get(result.validationInfo.confirmationToken);
+    if (pendingData) {
+      pendingData.scheduledTime = scheduledTime.toISOString();
+    }
+    result.validationInfo.scheduledTime = scheduledTime.toISOString();
+    return result;
   }
 
-  async getUnreadMessages(limit = 10): Promise<Message[]> {
-    return await messageOriginal.getUnreadMessages(limit);
+  async listScheduledMessages(status?: ScheduledMessageStatus): Promise<ScheduledMessage[]> {
+    return await messageSchedule.getScheduledMessageStore().list(status);
   }
 
-  // Utility methods
-  private normalizePhoneNumber(phone: string): string[] {
-    if (!phone || typeof phone !== 'string') return [];
-    
-    console.log(`🔧 DEBUG: Normalizing phone number: "${phone}"`);
+  /**
+   * Prepare a change to the text or time of a scheduled message. Like scheduleMessage this only returns
+   * a confirmation token: the daemon sends unattended, so it must only ever send what the user confirmed.
+   */
+  async editScheduledMessage(id: string, changes: { message?: string; scheduledTime?: Date }) {
+    if (changes.scheduledTime) {
+      if (isNaN(changes.scheduledTime.getTime())) {
+        return { success: false, message: `Invalid scheduled time` };
+      }
+      if (changes.scheduledTime.getTime() < Date.now()) {
+        return { success: false, message: `Cannot schedule message in the past` };
+      }
+    }
     
-    // Remove all non-digit characters except + (handles parentheses, dashes, spaces, dots)
-    // This handles formats like (323) 656-8914, +33 1 23 45 67 89, +44 20 1234 5678, etc.
-    const cleaned = phone.replace(/[^\d+]/g, "");
+    const scheduled = await messageSchedule.getScheduledMessageStore().get(id);
+    if (!scheduled) {
+      return { success: false, message: `No scheduled message with id ${id}` };
+    }
+    if (scheduled.status !== 'pending') {
+      return { success: false, message: `Scheduled message ${id} is already ${scheduled.status}` };
+    }
     
-    console.log(`🔧 DEBUG: Cleaned phone number: "${cleaned}"`);
+    this.cleanupOldConfirmations();
+    const confirmationToken = this.generateConfirmationToken();
+    const message = changes.message ?? scheduled.message;
+    const scheduledTime = changes.scheduledTime?.toISOString() ?? scheduled.scheduledTime;
+    pendingConfirmations.set(confirmationToken, {
+      validatedRecipient: scheduled.recipient,
+      validatedPhoneNumber: scheduled.phoneNumber,
+      message,
+      validatedMessageType: scheduled.messageType,
+      timestamp: Date.now(),
+      scheduledTime,
+      scheduleId: id
+    });
     
-    // Handle various formats
-    const formats = new Set<string>();
+    return {
+      success: false,
+      message: `Ready to update scheduled message`,
+      needsValidation: true,
+      validationInfo: {
+        resolvedContact: scheduled.recipient,
+        phoneNumber: scheduled.phoneNumber,
+        messagePreview: message,
+        messageType: scheduled.messageType,
+        confirmationToken,
+        scheduledTime,
+        scheduleId: id
+      } as MessageValidation
+    };
+  }
+
+  async cancelScheduledMessage(id: string): Promise<ScheduledMessage> {
+    return await messageSchedule.getScheduledMessageStore().cancel(id);
+  }
 
-    // Case 1: Already has international prefix (+)
-    if (cleaned.startsWith('+')) {
-      // International number with + prefix (e.g., +33123456789, +44201234567, +13236568914)
-      formats.add(cleaned);
+  /**
+   * Deliver a claimed scheduled message; called by the cache daemon when it is due
+   */
+  async sendScheduledMessage(scheduled: ScheduledMessage): Promise<{ success: boolean; error?: string; messageId?: number }> {
+    try {
+      const target = startVerification({ text: scheduled.message, attachmentCount: 0, handles: [scheduled.phoneNumber] });
+      await runAppleScript(buildSendScript(scheduled));
       
-      // For US numbers (+1), also add without country code
-      if (cleaned.startsWith('+1') && cleaned.length === 12) {
-        formats.add(cleaned.substring(2)); // Remove +1 for US compatibility
+      const verification = target ? await messageStatus.verifySend(target) : undefined;
+      const messageId = verification?.messages[0]?.id;
+      if (verification?.state === 'failed') {
+        const errorCode = verification.messages.find(m => m.errorCode)?.errorCode;
+        return { success: false, error: `Not delivered${errorCode ? ` (error ${errorCode})` : ''}`, messageId };
       }
-      
-      console.log(`🌍 DEBUG: International number detected: ${cleaned}`);
-      
-    } else if (cleaned.length === 10) {
-      // US number without country code: 3236568914
-      formats.add(`+1${cleaned}`);
-      formats.add(cleaned);
-      console.log(`🇺🇸 DEBUG: US 10-digit number detected: ${cleaned}`);
-      
-    } else if (cleaned.length === 11 && cleaned.startsWith('1')) {
-      // US number with country code: 13236568914
-      formats.add(`+${cleaned}`);
-      formats.add(cleaned.substring(1));
-      console.log(`🇺🇸 DEBUG: US 11-digit number detected: ${cleaned}`);
-      
-    } else if (cleaned.length >= 7 && cleaned.length <= 15) {
-      // International number without + prefix - could be many countries
-      // Add as-is for flexibility, but don't assume US (+1)
-      formats.add(cleaned);
-      
-      // Try adding + prefix for international format
-      formats.add(`+${cleaned}`);
-      
-      console.log(`🌍 DEBUG: Possible international number (no +): ${cleaned}`);
-      
-    } else if (cleaned.length > 0) {
-      // Fallback: any remaining digits - add as-is  
-      formats.add(cleaned);
-      console.log(`⚠️ DEBUG: Unusual format, adding as-is: ${cleaned}`);
+      return { success: true, messageId };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
     }
+  }
 
-    const result = Array.from(formats);
-    console.log(`🔧 DEBUG: Normalized formats: ${JSON.stringify(result)}`);
+  async getUnreadMessages(limit = 10): Promise<Message[]> {
+    const messages = await messageOriginal.getUnreadMessages(limit, (handle) => contactsCached.findContactByPhone(handle));
     
-    return result;
+    // Indexed reverse lookups, so naming every sender stays cheap
+    return await Promise.all(
+      messages.map(async (msg) => ({
+        ...msg,
+        senderName: msg.is_from_me
+          ? 'Me'
+          : (await contactsCached.findContactByPhone(msg.sender)) || undefined
+      }))
+    );
+  }
+
+  // Utility methods
+  private normalizePhoneNumber(phone: string): string[] {
+    if (!phone || typeof phone !== 'string') return [];
+    
+    const variants = phoneNumbers.phoneNumberVariants(phone);
+    if (variants.length > 0) return variants;
+    
+    // Not a full phone number (e.g. an SMS short code): pass the digits through unchanged
+    const digits = phone.replace(/[^\d+]/g, '');
+    return digits ? [digits] : [];
   }
 
   // Cache management
@@ -572,10 +1548,18 @@ end tell`;
 // Create and export singleton instance
 const messageCached = new MessageCachedWrapper();
 
+export type { Message, MessageValidation, NumberChoice, RecipientCandidate, RecipientDisambiguation };
+
+export { buildSendScript };
+
 export default {
   // Enhanced functions
   sendMessageEnhanced: (phoneNumberOrName: string, message: string, options?: SendMessageOptions) => 
     messageCached.sendMessageEnhanced(phoneNumberOrName, message, options),
+  sendGroupMessageEnhanced: (target: { chatName?: string; recipients?: string[] }, message: string, options?: SendMessageOptions) =>
+    messageCached.sendGroupMessageEnhanced(target, message, options),
+  chooseRecipient: (confirmationToken: string, candidate: number) =>
+    messageCached.chooseRecipient(confirmationToken, candidate),
   sendMessageConfirmed: (confirmationTokenOrRecipient: string, validatedPhoneNumberOrConfirmation?: string, message?: string, validatedMessageType?: 'imessage' | 'sms' | 'unknown') =>
     messageCached.sendMessageConfirmed(confirmationTokenOrRecipient, validatedPhoneNumberOrConfirmation, message, validatedMessageType),
   readMessagesEnhanced: (phoneNumberOrName: string, limit?: number, includeContext?: boolean) =>
@@ -584,6 +1568,23 @@ export default {
     messageCached.findBestContactMatches(searchTerm, limit),
   getMessageThreads: (limit?: number) =>
     messageCached.getMessageThreads(limit),
+  searchMessages: (options: MessageSearchOptions) =>
+    messageCached.searchMessages(options),
+
+  getMessageStatus: (target: { messageId?: number; phoneNumberOrName?: string; chatId?: string }) =>
+    messageCached.getMessageStatus(target),
+  exportConversation: (options: { chatId?: string; phoneNumberOrName?: string; startDate?: Date; endDate?: Date; format?: ExportFormat; limit?: number }) =>
+    messageCached.exportConversation(options),
+
+  // Attachments are read straight from chat.db and the Messages folder
+  getAttachment: (attachmentId: number) =>
+    messageAttachments.getAttachment(attachmentId),
+  exportAttachment: (attachmentId: number, destinationDir: string) =>
+    messageAttachments.exportAttachment(attachmentId, destinationDir),
+  readAttachmentInline: (attachmentId: number) =>
+    messageAttachments.readAttachmentInline(attachmentId),
+  readChatMessages: (chatIdentifier: string, limit?: number) =>
+    messageCached.readChatMessages(chatIdentifier, limit),
   detectMessageType: (phoneNumber: string) =>
     messageCached.detectMessageType(phoneNumber),
   
@@ -592,11 +1593,21 @@ export default {
     messageCached.sendMessage(phoneNumber, message),
   readMessages: (phoneNumber: string, limit?: number) =>
     messageCached.readMessages(phoneNumber, limit),
-  scheduleMessage: (phoneNumber: string, message: string, scheduledTime: Date) =>
-    messageCached.scheduleMessage(phoneNumber, message, scheduledTime),
+  scheduleMessage: (phoneNumberOrName: string, message: string, scheduledTime: Date, options?: SendMessageOptions) =>
+    messageCached.scheduleMessage(phoneNumberOrName, message, scheduledTime, options),
   getUnreadMessages: (limit?: number) =>
     messageCached.getUnreadMessages(limit),
 
+  // Scheduled messages
+  listScheduledMessages: (status?: ScheduledMessageStatus) =>
+    messageCached.listScheduledMessages(status),
+  editScheduledMessage: (id: string, changes: { message?: string; scheduledTime?: Date }) =>
+    messageCached.editScheduledMessage(id, changes),
+  cancelScheduledMessage: (id: string) =>
+    messageCached.cancelScheduledMessage(id),
+  sendScheduledMessage: (scheduled: ScheduledMessage) =>
+    messageCached.sendScheduledMessage(scheduled),
+
   // Cache management
   getCacheStatus: () => messageCached.getCacheStatus(),
   refreshCache: () => messageCached.refreshCache(),
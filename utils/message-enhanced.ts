@@ -1,10 +1,11 @@
 import { runAppleScript } from "run-applescript";
-import { promisify } from "node:util";
-import { exec } from "node:child_process";
-import { access } from "node:fs/promises";
 import contacts from "./contacts";
-
-const execAsync = promisify(exec);
+import messagesStore from "./messages-store";
+import typedstream from "./typedstream";
+import phoneNumbers from "./phone-numbers";
+import nameMatching, { type MatchReason } from "./name-matching";
+import messageIndex from "./message-index";
+import messageAttachments, { type MessageAttachment } from "./message-attachments";
 
 // Retry configuration
 const MAX_RETRIES = 3;
@@ -15,25 +16,82 @@ interface Contact {
   phoneNumbers: string[];
   emails: string[];
   matchScore?: number;
+  matchReasons?: MatchReason[];
+}
+
+interface ChatParticipant {
+  handle: string;
+  name?: string;
 }
 
 interface MessageThread {
+  // chat.chat_identifier: the handle for direct chats, "chat…" for group chats
+  chatId: string;
+  // Group display name, or the participant's name for direct chats
   contactName: string;
   phoneNumber: string;
+  displayName?: string;
+  participants: ChatParticipant[];
   lastMessageDate: string;
   unreadCount: number;
   isGroup: boolean;
 }
 
+// Resolves a handle (phone number or email) to a contact name
+type NameResolver = (handle: string) => Promise<string | null>;
+
 interface Message {
   content: string;
   date: string;
   sender: string;
   is_from_me: boolean;
   messageType: 'imessage' | 'sms' | 'unknown';
-  attachments?: string[];
+  attachments?: MessageAttachment[];
   url?: string;
   thread_id?: string;
+  mentions?: MessageMention[];
+  formatting?: MessageFormatting[];
+  senderName?: string;
+  // message.guid, which tapbacks and replies refer to
+  guid?: string;
+  reactions?: MessageReaction[];
+  // The message this one answers in an inline thread
+  replyTo?: MessageReplyContext;
+  // Inline replies to this message, oldest first, when they were read along with it
+  replies?: Message[];
+  edited?: boolean;
+  editedAt?: string;
+  unsent?: boolean;
+  unsentAt?: string;
+}
+
+interface MessageReaction {
+  type: 'love' | 'like' | 'dislike' | 'laugh' | 'emphasize' | 'question' | 'emoji';
+  emoji: string;
+  sender: string;
+  senderName?: string;
+  is_from_me: boolean;
+  date: string;
+}
+
+interface MessageReplyContext {
+  guid: string;
+  sender: string;
+  senderName?: string;
+  is_from_me: boolean;
+  // Start of the original message's text
+  preview: string;
+}
+
+interface MessageMention {
+  handle: string;
+  text: string;
+}
+
+interface MessageFormatting {
+  style: 'bold' | 'italic' | 'underline' | 'strikethrough';
+  location: number;
+  length: number;
 }
 
 interface SendMessageOptions {
@@ -97,6 +155,14 @@ async function retryOperation<T>(
   }
 }
 
+/**
+ * Clamp a caller-supplied row limit to a positive integer for use as a bound LIMIT parameter
+ */
+function sanitizeLimit(limit: unknown, fallback: number): number {
+  const value = Math.floor(Number(limit));
+  return Number.isFinite(value) && value > 0 ? Math.min(value, 1000) : fallback;
+}
+
 /**
  * Enhanced contact search with fuzzy matching and scoring
  */
@@ -118,17 +184,9 @@ async function findBestContactMatches(searchTerm: string, limit = 5): Promise<Co
       }
     }
 
-    // Score and rank contacts
-    const scoredContacts = contactList.map(contact => {
-      const score = calculateMatchScore(searchTerm.toLowerCase(), contact.name.toLowerCase());
-      return { ...contact, matchScore: score };
-    });
-
-    // Filter and sort by score
-    return scoredContacts
-      .filter(contact => contact.matchScore! > 0)
-      .sort((a, b) => b.matchScore! - a.matchScore!)
-      .slice(0, limit);
+    return nameMatching
+      .rankByName(searchTerm, contactList, contact => [contact.name], { limit })
+      .map(match => ({ ...match.item, matchScore: match.score, matchReasons: match.reasons }));
   } catch (error) {
     console.error("Error in enhanced contact search:", error);
     return [];
@@ -136,90 +194,17 @@ async function findBestContactMatches(searchTerm: string, limit = 5): Promise<Co
 }
 
 /**
- * Calculate match score for fuzzy contact search
+ * Every stored form of a phone number (E.164 first), for matching Messages handles
  */
-function calculateMatchScore(searchTerm: string, contactName: string): number {
-  if (!searchTerm || !contactName) return 0;
-  
-  // Exact match
-  if (contactName === searchTerm) return 100;
-  
-  // Starts with
-  if (contactName.startsWith(searchTerm)) return 90;
-  
-  // Contains as whole word
-  if (contactName.includes(` ${searchTerm}`) || contactName.includes(`${searchTerm} `)) return 80;
-  
-  // Contains substring
-  if (contactName.includes(searchTerm)) return 70;
-  
-  // Check individual words
-  const searchWords = searchTerm.split(/\s+/);
-  const nameWords = contactName.split(/\s+/);
-  let wordMatchScore = 0;
-  
-  for (const searchWord of searchWords) {
-    for (const nameWord of nameWords) {
-      if (nameWord.startsWith(searchWord)) {
-        wordMatchScore += 30;
-      } else if (nameWord.includes(searchWord)) {
-        wordMatchScore += 15;
-      }
-    }
-  }
-  
-  if (wordMatchScore > 0) return Math.min(wordMatchScore, 65);
-  
-  // Fuzzy matching for typos (simple Levenshtein-like)
-  const similarity = calculateSimilarity(searchTerm, contactName);
-  if (similarity > 0.6) return Math.floor(similarity * 50);
-  
-  return 0;
+function normalizePhoneNumber(phone: string): string[] {
+  return phoneNumbers.phoneNumberVariants(phone);
 }
 
 /**
- * Simple similarity calculation
+ * Whether a handle contains control characters (e.g. NUL), which no real phone number or email has
  */
-function calculateSimilarity(str1: string, str2: string): number {
-  const longer = str1.length > str2.length ? str1 : str2;
-  const shorter = str1.length > str2.length ? str2 : str1;
-  
-  if (longer.length === 0) return 1.0;
-  
-  const matches = shorter.split('').filter((char, i) => char === longer[i]).length;
-  return matches / longer.length;
-}
-
-/**
- * Enhanced phone number normalization with validation
- */
-function normalizePhoneNumber(phone: string): string[] {
-  // Safety check for null/undefined phone numbers
-  if (!phone || typeof phone !== 'string') {
-    return [];
-  }
-  
-  // Remove all non-numeric characters except +
-  const cleaned = phone.replace(/[^0-9+]/g, "");
-
-  // Validate input
-  if (cleaned.length < 10) return [];
-
-  const formats = new Set<string>();
-
-  // Handle different input formats
-  if (/^\+1\d{10}$/.test(cleaned)) {
-    formats.add(cleaned);
-    formats.add(cleaned.substring(2)); // Remove +1
-  } else if (/^1\d{10}$/.test(cleaned)) {
-    formats.add(`+${cleaned}`);
-    formats.add(cleaned.substring(1)); // Remove leading 1
-  } else if (/^\d{10}$/.test(cleaned)) {
-    formats.add(`+1${cleaned}`);
-    formats.add(cleaned);
-  }
-
-  return Array.from(formats);
+function hasControlCharacters(handle: string): boolean {
+  return [...handle].some((char) => char.charCodeAt(0) < 32 || char.charCodeAt(0) === 127);
 }
 
 /**
@@ -478,7 +463,51 @@ end tell`;
 /**
  * Get conversation threads with unread counts
  */
-async function getMessageThreads(limit = 20): Promise<MessageThread[]> {
+// chat.style for group conversations; direct chats use 45
+const CHAT_STYLE_GROUP = 43;
+
+/**
+ * Resolve handles to names once per call, however often each handle appears
+ */
+function cachedResolver(resolveName: NameResolver): NameResolver {
+  const names = new Map<string, Promise<string | null>>();
+  return (handle: string) => {
+    if (!names.has(handle)) {
+      names.set(handle, resolveName(handle).catch(() => null));
+    }
+    return names.get(handle)!;
+  };
+}
+
+async function getChatParticipants(
+  chatRowIds: number[],
+  resolveName: NameResolver,
+): Promise<Map<number, ChatParticipant[]>> {
+  const participants = new Map<number, ChatParticipant[]>();
+  if (chatRowIds.length === 0) return participants;
+
+  const rows = messagesStore.getMessagesStore().query<{ chat_id: number; handle: string }>(
+    `SELECT chj.chat_id, h.id as handle
+     FROM chat_handle_join chj
+     INNER JOIN handle h ON h.ROWID = chj.handle_id
+     WHERE chj.chat_id IN (${chatRowIds.map(() => "?").join(", ")})
+     ORDER BY h.id`,
+    ...chatRowIds,
+  );
+
+  for (const row of rows) {
+    const name = await resolveName(row.handle);
+    const list = participants.get(row.chat_id) || [];
+    list.push(name ? { handle: row.handle, name } : { handle: row.handle });
+    participants.set(row.chat_id, list);
+  }
+  return participants;
+}
+
+async function getMessageThreads(
+  limit = 20,
+  resolveName: NameResolver = contacts.findContactByPhone,
+): Promise<MessageThread[]> {
   try {
     const hasAccess = await retryOperation(checkMessagesDBAccess);
     if (!hasAccess) {
@@ -487,58 +516,511 @@ async function getMessageThreads(limit = 20): Promise<MessageThread[]> {
 
     const query = `
       SELECT 
-        h.id as contact_identifier,
+        c.ROWID as chat_rowid,
+        c.chat_identifier,
+        c.display_name,
+        c.style,
         COUNT(CASE WHEN m.is_read = 0 AND m.is_from_me = 0 THEN 1 END) as unread_count,
-        MAX(m.date) as last_message_date,
-        COUNT(DISTINCT m.handle_id) > 1 as is_group_chat
-      FROM message m 
-      INNER JOIN handle h ON h.ROWID = m.handle_id 
+        MAX(m.date) as last_message_date
+      FROM chat c
+      INNER JOIN chat_message_join cmj ON cmj.chat_id = c.ROWID
+      INNER JOIN message m ON m.ROWID = cmj.message_id
       WHERE m.item_type = 0
-      GROUP BY h.id
-      HAVING COUNT(m.ROWID) > 0
+      GROUP BY c.ROWID
       ORDER BY last_message_date DESC 
-      LIMIT ${limit}
+      LIMIT ?
     `;
 
-    const { stdout } = await retryOperation(() =>
-      execAsync(
-        `sqlite3 -json "${process.env.HOME}/Library/Messages/chat.db" "${query}"`,
-      ),
+    const chats = await retryOperation(async () =>
+      messagesStore.getMessagesStore().query<{
+        chat_rowid: number;
+        chat_identifier: string;
+        display_name: string | null;
+        style: number | null;
+        unread_count: number;
+        last_message_date: number;
+      }>(query, sanitizeLimit(limit, 20)),
     );
 
-    if (!stdout.trim()) {
+    if (chats.length === 0) {
       return [];
     }
 
-    const threads = JSON.parse(stdout) as {
-      contact_identifier: string;
-      unread_count: number;
-      last_message_date: number;
-      is_group_chat: number;
-    }[];
-
-    // Enhance with contact names
-    const enhancedThreads = await Promise.all(
-      threads.map(async (thread) => {
-        const contactName = await contacts.findContactByPhone(thread.contact_identifier);
-        
-        return {
-          contactName: contactName || thread.contact_identifier,
-          phoneNumber: thread.contact_identifier,
-          lastMessageDate: new Date(thread.last_message_date / 1000000000 + new Date('2001-01-01').getTime()).toISOString(),
-          unreadCount: thread.unread_count,
-          isGroup: Boolean(thread.is_group_chat),
-        };
-      })
-    );
+    const resolve = cachedResolver(resolveName);
+    const participants = await getChatParticipants(chats.map((chat) => chat.chat_rowid), resolve);
+
+    return chats.map((chat) => {
+      const members = participants.get(chat.chat_rowid) || [];
+      const isGroup = chat.style === CHAT_STYLE_GROUP || members.length > 1;
+      const displayName = chat.display_name || undefined;
+      const memberNames = members.map((member) => member.name || member.handle);
 
-    return enhancedThreads;
+      return {
+        chatId: chat.chat_identifier,
+        contactName: isGroup
+          ? displayName || memberNames.join(", ") || chat.chat_identifier
+          : memberNames[0] || chat.chat_identifier,
+        phoneNumber: isGroup ? chat.chat_identifier : members[0]?.handle || chat.chat_identifier,
+        displayName,
+        participants: members,
+        lastMessageDate: messagesStore.fromAppleTimestamp(chat.last_message_date).toISOString(),
+        unreadCount: chat.unread_count,
+        isGroup,
+      };
+    });
   } catch (error) {
     console.error("Error getting message threads:", error);
     return [];
   }
 }
 
+interface ChatRecord {
+  chat_rowid: number;
+  guid: string;
+  chat_identifier: string;
+  display_name: string | null;
+  style: number | null;
+  // Every chat row with this identifier (e.g. the iMessage and the SMS chat with one number), most recently active first
+  chat_rowids: number[];
+}
+
+/**
+ * Find a single chat by guid, identifier or (unambiguous) display name.
+ * Chats sharing an identifier are one conversation: the most recently active one is returned, with all of their rows.
+ */
+function findChat(chatIdentifier: string): { chat?: ChatRecord; error?: string } {
+  const chats = messagesStore.getMessagesStore().query<Omit<ChatRecord, "chat_rowids">>(
+    `SELECT c.ROWID as chat_rowid, c.guid, c.chat_identifier, c.display_name, c.style
+     FROM chat c
+     WHERE c.guid = ? OR c.chat_identifier = ? OR c.display_name = ? COLLATE NOCASE
+     ORDER BY (SELECT MAX(cmj.message_date) FROM chat_message_join cmj WHERE cmj.chat_id = c.ROWID) DESC, c.ROWID DESC`,
+    chatIdentifier,
+    chatIdentifier,
+    chatIdentifier,
+  );
+
+  // A guid names exactly one chat
+  const byGuid = chats.find((chat) => chat.guid === chatIdentifier);
+  if (byGuid) {
+    return { chat: { ...byGuid, chat_rowids: [byGuid.chat_rowid] } };
+  }
+
+  // An exact identifier wins over display names, which need not be unique
+  const exact = chats.filter((chat) => chat.chat_identifier === chatIdentifier);
+  const candidates = exact.length > 0 ? exact : chats;
+  if (candidates.length === 0) {
+    return { error: `No chat found for "${chatIdentifier}"` };
+  }
+  const identifiers = [...new Set(candidates.map((chat) => chat.chat_identifier))];
+  if (identifiers.length > 1) {
+    return {
+      error: `Several chats are named "${chatIdentifier}": ${identifiers.join(", ")}. Use the chat identifier instead.`,
+    };
+  }
+  return { chat: { ...candidates[0], chat_rowids: candidates.map((chat) => chat.chat_rowid) } };
+}
+
+/**
+ * Find an existing group chat whose participants are exactly the given handles
+ */
+function findGroupChatByParticipants(handles: string[]): ChatRecord | null {
+  const wanted = [...new Set(handles)];
+  if (wanted.length < 2) return null;
+
+  const chat = messagesStore.getMessagesStore().get<Omit<ChatRecord, "chat_rowids">>(
+    `SELECT c.ROWID as chat_rowid, c.guid, c.chat_identifier, c.display_name, c.style
+     FROM chat c
+     INNER JOIN chat_handle_join chj ON chj.chat_id = c.ROWID
+     INNER JOIN handle h ON h.ROWID = chj.handle_id
+     GROUP BY c.ROWID
+     HAVING COUNT(DISTINCT h.id) = ?
+        AND SUM(CASE WHEN h.id IN (${wanted.map(() => "?").join(", ")}) THEN 1 ELSE 0 END) = COUNT(*)
+     ORDER BY c.ROWID DESC
+     LIMIT 1`,
+    wanted.length,
+    ...wanted,
+  );
+  return chat ? { ...chat, chat_rowids: [chat.chat_rowid] } : null;
+}
+
+interface HandleActivity {
+  handle: string;
+  lastMessageDate: string;
+  messageCount: number;
+}
+
+/**
+ * Message history with each of the given phone numbers or emails, most recently used first.
+ * Handles with no messages are left out.
+ */
+function getHandleActivity(phoneNumbersOrEmails: string[]): HandleActivity[] {
+  const handles = [
+    ...new Set(phoneNumbersOrEmails.flatMap((value) => (value.includes("@") ? [value.trim()] : normalizePhoneNumber(value)))),
+  ];
+  if (handles.length === 0) return [];
+
+  const rows = messagesStore.getMessagesStore().query<{ handle: string; last_date: number; message_count: number }>(
+    `SELECT h.id as handle, MAX(m.date) as last_date, COUNT(m.ROWID) as message_count
+     FROM message m
+     INNER JOIN handle h ON h.ROWID = m.handle_id
+     WHERE h.id COLLATE NOCASE IN (${handles.map(() => "?").join(", ")})
+     GROUP BY h.id
+     ORDER BY last_date DESC`,
+    ...handles,
+  );
+
+  return rows.map((row) => ({
+    handle: row.handle,
+    lastMessageDate: messagesStore.fromAppleTimestamp(row.last_date).toISOString(),
+    messageCount: row.message_count,
+  }));
+}
+
+/**
+ * Read a whole conversation by chat identifier (e.g. "chat123456789" for a group, or a handle for a direct chat).
+ * Group display names are accepted too when they are unambiguous. The newest messages come first, optionally
+ * only those sent between startDate and endDate.
+ */
+async function readChatMessages(
+  chatIdentifier: string,
+  limit = 20,
+  resolveName: NameResolver = contacts.findContactByPhone,
+  options: { startDate?: Date; endDate?: Date; nestReplies?: boolean } = {},
+): Promise<{
+  success: boolean;
+  messages: Message[];
+  thread?: MessageThread;
+  message?: string;
+}> {
+  try {
+    const hasAccess = await retryOperation(checkMessagesDBAccess);
+    if (!hasAccess) {
+      return { success: false, messages: [], message: "Cannot access the Messages database" };
+    }
+
+    const lookup = findChat(chatIdentifier);
+    if (!lookup.chat) {
+      return { success: false, messages: [], message: lookup.error };
+    }
+    const chat = lookup.chat;
+
+    const query = `
+            SELECT ${messageColumns()}
+            FROM chat_message_join cmj
+            INNER JOIN message m ON m.ROWID = cmj.message_id
+            LEFT JOIN handle h ON h.ROWID = m.handle_id
+            WHERE cmj.chat_id IN (${chat.chat_rowids.map(() => "?").join(", ")})
+                AND ${listedMessagesFilter()}
+                AND m.item_type = 0
+                AND m.is_audio_message = 0
+                ${options.startDate ? "AND m.date >= ?" : ""}
+                ${options.endDate ? "AND m.date <= ?" : ""}
+            ORDER BY m.date DESC
+            LIMIT ?
+        `;
+    const dateParams = [options.startDate, options.endDate]
+      .filter((date): date is Date => date !== undefined)
+      .map((date) => messagesStore.toAppleTimestamp(date));
+
+    const rows = await retryOperation(async () =>
+      messagesStore.getMessagesStore().query<MessageRow>(query, ...chat.chat_rowids, ...dateParams, sanitizeLimit(limit, 20)),
+    );
+
+    const unread = messagesStore.getMessagesStore().get<{ unread_count: number }>(
+      `SELECT COUNT(*) as unread_count
+       FROM chat_message_join cmj
+       INNER JOIN message m ON m.ROWID = cmj.message_id
+       WHERE cmj.chat_id IN (${chat.chat_rowids.map(() => "?").join(", ")})
+         AND m.is_read = 0 AND m.is_from_me = 0 AND m.item_type = 0`,
+      ...chat.chat_rowids,
+    );
+
+    const resolve = cachedResolver(resolveName);
+    // The iMessage and SMS chats with one person have the same participant under two handle rows
+    const participantsByChat = await getChatParticipants(chat.chat_rowids, resolve);
+    const participants = [
+      ...new Map(chat.chat_rowids.flatMap((id) => participantsByChat.get(id) || []).map((p) => [p.handle, p])).values(),
+    ];
+    const isGroup = chat.style === CHAT_STYLE_GROUP || participants.length > 1;
+
+    const entries = await Promise.all(
+      rows.map(async (row) => {
+        const msg = await formatMessageRow(row);
+        msg.thread_id = chat.chat_identifier;
+        // Our own messages in group chats have no handle
+        msg.sender = msg.sender || "";
+        if (msg.is_from_me) {
+          msg.senderName = "Me";
+        } else if (msg.sender) {
+          msg.senderName = (await resolve(msg.sender)) || msg.sender;
+        }
+        return { row, message: msg };
+      }),
+    );
+    const messages = await addMessageContext(entries, { resolveName: resolve, nestReplies: options.nestReplies ?? true });
+
+    return {
+      success: true,
+      messages,
+      thread: {
+        chatId: chat.chat_identifier,
+        contactName: chat.display_name || participants.map((p) => p.name || p.handle).join(", ") || chat.chat_identifier,
+        phoneNumber: isGroup ? chat.chat_identifier : participants[0]?.handle || chat.chat_identifier,
+        displayName: chat.display_name || undefined,
+        participants,
+        lastMessageDate: entries[0]?.message.date || "",
+        unreadCount: unread?.unread_count ?? 0,
+        isGroup,
+      },
+    };
+  } catch (error) {
+    console.error("Error reading chat messages:", error);
+    return { success: false, messages: [], message: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+interface MessageSearchOptions {
+  // Words that must all start a word of the message, ignoring case and accents; may be empty when filtering only
+  query?: string;
+  startDate?: Date;
+  endDate?: Date;
+  // Phone numbers or emails the message must come from
+  senderHandles?: string[];
+  // Chat identifier, guid or group name, as accepted by readChatMessages
+  chatId?: string;
+  hasAttachment?: boolean;
+  fromMe?: boolean;
+  limit?: number;
+}
+
+interface MessageSearchResult {
+  message: Message;
+  // Part of the message around the first matching word
+  snippet: string;
+  chat?: {
+    chatId: string;
+    name: string;
+    isGroup: boolean;
+  };
+}
+
+// Rows fetched per round while looking for matches, newest first
+const SEARCH_PAGE_SIZE = 500;
+const SNIPPET_RADIUS = 60;
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+// Lowercase without accents, keeping every character at the same position
+function foldForSearch(text: string): string {
+  return text.toLowerCase().replace(/[\u0080-\uffff]/g, (char) => char.normalize("NFD")[0]);
+}
+
+// Letters and digits, split where the index's unicode61 tokenizer splits them
+function searchWords(text: string): string[] {
+  return foldForSearch(text).match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+// Same rule as the index's prefix queries: every query word starts some word of the text
+function containsEveryWord(text: string, words: string[]): boolean {
+  const textWords = searchWords(text);
+  return words.every((word) => textWords.some((textWord) => textWord.startsWith(word)));
+}
+
+/**
+ * Cut the text down to the part around the first matching word
+ */
+function searchSnippet(text: string, words: string[]): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  const lower = foldForSearch(flat);
+  const positions = words.map((word) => lower.indexOf(word)).filter((index) => index >= 0);
+  if (positions.length === 0 || flat.length <= SNIPPET_RADIUS * 2) {
+    return flat.length <= SNIPPET_RADIUS * 2 ? flat : `${flat.slice(0, SNIPPET_RADIUS * 2)}…`;
+  }
+
+  const first = Math.min(...positions);
+  const start = Math.max(0, first - SNIPPET_RADIUS);
+  const end = Math.min(flat.length, first + SNIPPET_RADIUS);
+  return `${start > 0 ? "…" : ""}${flat.slice(start, end).trim()}${end < flat.length ? "…" : ""}`;
+}
+
+/**
+ * Search message text across every conversation, newest first.
+ * Words are looked up in the full-text index kept by the cache daemon; messages newer than the index
+ * (or all of them, when there is no index) are scanned, decoding attributedBody where needed.
+ */
+async function searchMessages(
+  options: MessageSearchOptions,
+  resolveName: NameResolver = contacts.findContactByPhone,
+): Promise<{
+  success: boolean;
+  results: MessageSearchResult[];
+  message?: string;
+}> {
+  try {
+    const hasAccess = await retryOperation(checkMessagesDBAccess);
+    if (!hasAccess) {
+      return { success: false, results: [], message: "Cannot access the Messages database" };
+    }
+
+    const words = searchWords(options.query || "");
+    if (words.length === 0 && options.query?.trim()) {
+      // Punctuation alone is not a word, in the index or here
+      return { success: true, results: [] };
+    }
+    const conditions = ["m.item_type = 0", listedMessagesFilter()];
+    const params: Array<string | number> = [];
+
+    if (options.chatId) {
+      const lookup = findChat(options.chatId);
+      if (!lookup.chat) {
+        return { success: false, results: [], message: lookup.error };
+      }
+      conditions.push(`cmj.chat_id IN (${lookup.chat.chat_rowids.map(() => "?").join(", ")})`);
+      params.push(...lookup.chat.chat_rowids);
+    }
+    if (options.senderHandles) {
+      const handles = [
+        ...new Set(options.senderHandles.flatMap((value) => (value.includes("@") ? [value.trim()] : normalizePhoneNumber(value)))),
+      ];
+      if (handles.length === 0) {
+        return { success: true, results: [] };
+      }
+      conditions.push(`m.is_from_me = 0 AND h.id COLLATE NOCASE IN (${handles.map(() => "?").join(", ")})`);
+      params.push(...handles);
+    }
+    if (options.startDate) {
+      conditions.push("m.date >= ?");
+      params.push(messagesStore.toAppleTimestamp(options.startDate));
+    }
+    if (options.endDate) {
+      conditions.push("m.date <= ?");
+      params.push(messagesStore.toAppleTimestamp(options.endDate));
+    }
+    if (options.hasAttachment !== undefined) {
+      conditions.push(options.hasAttachment ? "m.cache_has_attachments = 1" : "m.cache_has_attachments = 0");
+    }
+    if (options.fromMe !== undefined) {
+      conditions.push("m.is_from_me = ?");
+      params.push(options.fromMe ? 1 : 0);
+    }
+    const query = (where: string[]) => `
+            SELECT ${messageColumns()},
+                c.ROWID as chat_rowid,
+                c.chat_identifier,
+                c.display_name as chat_display_name,
+                c.style as chat_style
+            FROM message m
+            LEFT JOIN handle h ON h.ROWID = m.handle_id
+            LEFT JOIN chat_message_join cmj ON cmj.message_id = m.ROWID
+            LEFT JOIN chat c ON c.ROWID = cmj.chat_id
+            WHERE ${[...conditions, ...where].join("\n                AND ")}
+            ORDER BY m.date DESC
+            LIMIT ? OFFSET ?
+        `;
+
+    const limit = sanitizeLimit(options.limit, 20);
+    const matches: Array<{ row: SearchRow; body: ReturnType<typeof messageBody>; message: Message }> = [];
+
+    // Page through rows matching the filters, keeping those whose subject and text have every word
+    const collect = async (where: string[], whereParams: Array<string | number>, verify: boolean) => {
+      const sql = query(where);
+      for (let offset = 0; matches.length < limit; offset += SEARCH_PAGE_SIZE) {
+        const rows = await retryOperation(async () =>
+          messagesStore.getMessagesStore().query<SearchRow>(sql, ...params, ...whereParams, SEARCH_PAGE_SIZE, offset),
+        );
+
+        for (const row of rows) {
+          const body = messageBody(row);
+          if (!verify || containsEveryWord(`${row.subject || ""}\n${body.text}`, words)) {
+            matches.push({ row, body, message: await formatMessageRow(row, body) });
+            if (matches.length >= limit) break;
+          }
+        }
+        if (rows.length < SEARCH_PAGE_SIZE) break;
+      }
+    };
+
+    // Returns false when there is no usable index for the current chat.db
+    const searchIndex = async (): Promise<boolean> => {
+      const index = messageIndex.getMessageIndex();
+      const indexedUpTo = index.indexedUpTo();
+      if (indexedUpTo === 0) return false;
+
+      // Messages that arrived since the daemon last refreshed the index
+      await collect(["m.ROWID > ?"], [indexedUpTo], true);
+
+      for (let offset = 0; matches.length < limit; offset += SEARCH_PAGE_SIZE) {
+        const rowIds = index.matchingRowIds(words, SEARCH_PAGE_SIZE, offset);
+        if (rowIds.length > 0) {
+          await collect([`m.ROWID IN (${rowIds.map(() => "?").join(", ")})`], rowIds, false);
+        }
+        if (rowIds.length < SEARCH_PAGE_SIZE) break;
+      }
+      return true;
+    };
+
+    let searched = false;
+    if (words.length > 0) {
+      try {
+        searched = await searchIndex();
+      } catch (error) {
+        // A broken index only costs speed
+        console.error("⚠️ Message index unavailable, scanning instead:", error);
+        matches.length = 0;
+      }
+    }
+
+    if (!searched && words.length > 0) {
+      // Plain ASCII text must contain every word; LIKE cannot fold accents, so text with any other character
+      // and attributedBody-only messages are folded and checked after fetching, like the index does
+      const searchable = "(COALESCE(m.subject, '') || char(10) || COALESCE(m.text, ''))";
+      await collect(
+        [
+          `((${words.map(() => `${searchable} LIKE ? ESCAPE '\\'`).join(" AND ")}
+            OR ${searchable} GLOB '*[^ -~]*')
+          OR ((m.text IS NULL OR m.text = '') AND m.attributedBody IS NOT NULL))`,
+        ],
+        words.map((word) => `%${escapeLike(word)}%`),
+        true,
+      );
+    } else if (!searched) {
+      await collect([], [], false);
+    }
+
+    const resolve = cachedResolver(resolveName);
+    const chatRowIds = [...new Set(matches.map(({ row }) => row.chat_rowid).filter((id): id is number => id !== null))];
+    const participants = await getChatParticipants(chatRowIds, resolve);
+
+    const results = await Promise.all(
+      matches.map(async ({ row, body, message }) => {
+        message.sender = message.sender || "";
+        message.senderName = message.is_from_me ? "Me" : (message.sender && (await resolve(message.sender))) || message.sender;
+
+        const result: MessageSearchResult = { message, snippet: searchSnippet(body.text, words) };
+        if (row.chat_rowid !== null && row.chat_identifier) {
+          const members = participants.get(row.chat_rowid) || [];
+          const isGroup = row.chat_style === CHAT_STYLE_GROUP || members.length > 1;
+          message.thread_id = row.chat_identifier;
+          result.chat = {
+            chatId: row.chat_identifier,
+            name: row.chat_display_name || members.map((member) => member.name || member.handle).join(", ") || row.chat_identifier,
+            isGroup,
+          };
+        }
+        return result;
+      }),
+    );
+    await addMessageContext(matches, { resolveName: resolve });
+
+    return { success: true, results };
+  } catch (error) {
+    console.error("Error searching messages:", error);
+    return { success: false, results: [], message: error instanceof Error ? error.message : String(error) };
+  }
+}
+
 /**
  * Enhanced message reading with conversation context
  */
@@ -562,8 +1044,10 @@ async function readMessagesEnhanced(
     let contactName: string | undefined;
     
     const isPhoneNumber = /^\+?[0-9\s\-\(\)\.]+$/.test(phoneNumberOrName);
+    // Email addresses are Messages handles in their own right, not contact names
+    const isEmailHandle = /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(phoneNumberOrName.trim());
     
-    if (!isPhoneNumber) {
+    if (!isPhoneNumber && !isEmailHandle) {
       const matches = await findBestContactMatches(phoneNumberOrName, 1);
       if (matches.length === 0) {
         return {
@@ -638,257 +1122,405 @@ async function readMessagesEnhanced(
 
 // Re-export existing functions for compatibility
 async function checkMessagesDBAccess(): Promise<boolean> {
-  try {
-    const dbPath = `${process.env.HOME}/Library/Messages/chat.db`;
-    await access(dbPath);
-    await execAsync(`sqlite3 "${dbPath}" "SELECT 1;"`);
-    return true;
-  } catch (error) {
-    console.error(`
-Error: Cannot access Messages database.
-To fix this, please grant Full Disk Access to Terminal/iTerm2:
-1. Open System Preferences
-2. Go to Security & Privacy > Privacy
-3. Select "Full Disk Access" from the left sidebar
-4. Click the lock icon to make changes
-5. Add Terminal.app or iTerm.app to the list
-6. Restart your terminal and try again
-
-Error details: ${error instanceof Error ? error.message : String(error)}
-`);
-    return false;
-  }
+  return await messagesStore.getMessagesStore().checkAccess();
 }
 
-function decodeAttributedBody(hexString: string): {
+// Decode the typedstream in message.attributedBody (used instead of text by newer macOS versions)
+function decodeAttributedBody(blob: Uint8Array): {
   text: string;
   url?: string;
+  mentions?: MessageMention[];
+  formatting?: MessageFormatting[];
 } {
   try {
-    const buffer = Buffer.from(hexString, "hex");
-    const content = buffer.toString();
-
-    const patterns = [
-      /NSString">(.*?)</, 
-      /NSString">([^<]+)/, 
-      /NSNumber">\d+<.*?NSString">(.*?)</, 
-      /NSArray">.*?NSString">(.*?)</, 
-      /"string":\s*"([^"]+)"/, 
-      /text[^>]*>(.*?)</, 
-      /message>(.*?)</, 
-    ];
+    const decoded = typedstream.decodeAttributedBody(blob);
+    // Inline attachments are marked with U+FFFC; they are listed separately
+    const text = decoded.text.replace(/\uFFFC/g, "").trim();
 
-    let text = "";
-    for (const pattern of patterns) {
-      const match = content.match(pattern);
-      if (match?.[1]) {
-        text = match[1];
-        if (text.length > 5) {
-          break;
-        }
-      }
-    }
+    return {
+      text,
+      url: decoded.links[0]?.url,
+      mentions: decoded.mentions.map(({ handle, text }) => ({ handle, text })),
+      formatting: decoded.formatting,
+    };
+  } catch (error) {
+    console.error("Error decoding attributedBody:", error);
+    return { text: "[Message content not readable]" };
+  }
+}
 
-    const urlPatterns = [
-      /(https?:\/\/[^\s<"]+)/, 
-      /NSString">(https?:\/\/[^\s<"]+)/, 
-      /"url":\s*"(https?:\/\/[^"]+)"/, 
-      /link[^>]*>(https?:\/\/[^<]+)/, 
-    ];
+// Columns newer macOS versions added to message, with what older chat.db files read instead
+const OPTIONAL_MESSAGE_COLUMNS = {
+  thread_originator_guid: "NULL",
+  date_edited: "0",
+  date_retracted: "0",
+  associated_message_emoji: "NULL",
+};
 
-    let url: string | undefined;
-    for (const pattern of urlPatterns) {
-      const match = content.match(pattern);
-      if (match?.[1]) {
-        url = match[1];
-        break;
-      }
-    }
+const messageTableColumns = new Map<string, Set<string>>();
 
-    if (!text && !url) {
-      const readableText = content
-        .replace(/streamtyped.*?NSString/g, "") 
-        .replace(/NSAttributedString.*?NSString/g, "") 
-        .replace(/NSDictionary.*?$/g, "") 
-        .replace(/\+[A-Za-z]+\s/g, "") 
-        .replace(/NSNumber.*?NSValue.*?\*/g, "") 
-        .replace(/[^\x20-\x7E]/g, " ") 
-        .replace(/\s+/g, " ") 
-        .trim();
-
-      if (readableText.length > 5) {
-        text = readableText;
-      } else {
-        return { text: "[Message content not readable]" };
-      }
-    }
+function optionalColumn(name: keyof typeof OPTIONAL_MESSAGE_COLUMNS): string {
+  const store = messagesStore.getMessagesStore();
+  let columns = messageTableColumns.get(store.dbPath);
+  if (!columns) {
+    columns = new Set(store.query<{ name: string }>("PRAGMA table_info(message)").map((column) => column.name));
+    messageTableColumns.set(store.dbPath, columns);
+  }
+  return columns.has(name) ? `m.${name}` : OPTIONAL_MESSAGE_COLUMNS[name];
+}
 
-    if (text) {
-      text = text
-        .replace(/^[+\s]+/, "") 
-        .replace(/\s*iI\s*[A-Z]\s*$/, "") 
-        .replace(/\s+/g, " ") 
-        .trim();
-    }
+// Tapbacks are messages of their own (associated_message_type 2000-2006, or 3000-3006 to take one back)
+const TAPBACKS: Record<number, { type: MessageReaction["type"]; emoji: string }> = {
+  2000: { type: "love", emoji: "❤️" },
+  2001: { type: "like", emoji: "👍" },
+  2002: { type: "dislike", emoji: "👎" },
+  2003: { type: "laugh", emoji: "😂" },
+  2004: { type: "emphasize", emoji: "‼️" },
+  2005: { type: "question", emoji: "❓" },
+  2006: { type: "emoji", emoji: "" },
+};
+const TAPBACK_REMOVAL_OFFSET = 1000;
 
-    return { text: text || url || "", url };
-  } catch (error) {
-    console.error("Error decoding attributedBody:", error);
-    return { text: "[Message content not readable]" };
+/**
+ * Conditions every message listing shares: rows with something to show (including edited and unsent
+ * messages, whose text may be gone) and no tapbacks, which are folded onto their messages instead
+ */
+function listedMessagesFilter(): string {
+  return `(m.text IS NOT NULL OR m.attributedBody IS NOT NULL OR m.cache_has_attachments = 1
+                    OR ${optionalColumn("date_edited")} > 0 OR ${optionalColumn("date_retracted")} > 0)
+                AND COALESCE(m.associated_message_type, 0) NOT BETWEEN 2000 AND 3999`;
+}
+
+// Columns shared by every message listing; content_type tells formatMessageRow where the body lives
+function messageColumns(): string {
+  return `
+                m.ROWID as message_id,
+                m.guid,
+                ${optionalColumn("thread_originator_guid")} as thread_originator_guid,
+                COALESCE(${optionalColumn("date_edited")}, 0) as date_edited,
+                COALESCE(${optionalColumn("date_retracted")}, 0) as date_retracted,
+                CASE 
+                    WHEN m.text IS NOT NULL AND m.text != '' THEN m.text
+                    ELSE NULL
+                END as content,
+                m.attributedBody as attributed_body,
+                datetime(m.date/1000000000 + strftime('%s', '2001-01-01'), 'unixepoch', 'localtime') as date,
+                h.id as sender,
+                m.is_from_me,
+                m.is_audio_message,
+                m.cache_has_attachments,
+                m.subject,
+                CASE 
+                    WHEN m.text IS NOT NULL AND m.text != '' THEN 0
+                    WHEN m.attributedBody IS NOT NULL THEN 1
+                    ELSE 2
+                END as content_type`;
+}
+
+type MessageRow = Message & {
+  message_id: number;
+  guid: string;
+  thread_originator_guid: string | null;
+  date_edited: number;
+  date_retracted: number;
+  is_audio_message: number;
+  cache_has_attachments: number;
+  subject: string | null;
+  content_type: number;
+  attributed_body: Uint8Array | null;
+};
+
+type SearchRow = MessageRow & {
+  chat_rowid: number | null;
+  chat_identifier: string | null;
+  chat_display_name: string | null;
+  chat_style: number | null;
+};
+
+/**
+ * The text a message row holds, from the text column or the decoded attributedBody
+ */
+function messageBody(msg: MessageRow): ReturnType<typeof decodeAttributedBody> {
+  if (msg.content_type === 1 && msg.attributed_body) {
+    return decodeAttributedBody(msg.attributed_body);
   }
+  const text = msg.content || "";
+  return { text, url: text.match(/(https?:\/\/[^\s]+)/)?.[1] };
 }
 
-async function getAttachmentPaths(messageId: number): Promise<string[]> {
-  try {
-    const query = `
-            SELECT filename
-            FROM attachment
-            INNER JOIN message_attachment_join 
-            ON attachment.ROWID = message_attachment_join.attachment_id
-            WHERE message_attachment_join.message_id = ${messageId}
-        `;
+// Unsending clears the text; older macOS versions only record it as an edit that left nothing behind
+function isUnsent(msg: MessageRow, body: { text: string }): boolean {
+  return msg.date_retracted > 0 || (msg.date_edited > 0 && !body.text && !msg.cache_has_attachments);
+}
+
+async function formatMessageRow(msg: MessageRow, body = messageBody(msg)): Promise<Message> {
+  let content = body.text;
+  const { url, mentions, formatting } = body;
+
+  if (isUnsent(msg, body)) {
+    return {
+      content: "[Message unsent]",
+      date: new Date(msg.date).toISOString(),
+      sender: msg.sender,
+      is_from_me: Boolean(msg.is_from_me),
+      messageType: 'unknown',
+      guid: msg.guid,
+      unsent: true,
+      unsentAt: messagesStore.fromAppleTimestamp(msg.date_retracted || msg.date_edited).toISOString(),
+    };
+  }
+
+  const attachments = msg.cache_has_attachments ? messageAttachments.getMessageAttachments(msg.message_id) : [];
+
+  if (msg.subject) {
+    content = `Subject: ${msg.subject}\n${content}`;
+  }
+
+  const formattedMsg: Message = {
+    content: content || "[No text content]",
+    date: new Date(msg.date).toISOString(),
+    sender: msg.sender,
+    is_from_me: Boolean(msg.is_from_me),
+    messageType: 'unknown', // Will be enhanced in calling function
+    guid: msg.guid,
+  };
+
+  if (msg.date_edited > 0) {
+    formattedMsg.edited = true;
+    formattedMsg.editedAt = messagesStore.fromAppleTimestamp(msg.date_edited).toISOString();
+    formattedMsg.content += "\n[Edited]";
+  }
+
+  if (attachments.length > 0) {
+    formattedMsg.attachments = attachments;
+    formattedMsg.content += `\n[Attachments: ${attachments.map(messageAttachments.describeAttachment).join(", ")}]`;
+  }
+
+  if (url) {
+    formattedMsg.url = url;
+    formattedMsg.content += `\n[URL: ${url}]`;
+  }
+
+  if (mentions && mentions.length > 0) {
+    formattedMsg.mentions = mentions;
+    formattedMsg.content += `\n[Mentions: ${mentions.map((m) => `${m.text} (${m.handle})`).join(", ")}]`;
+  }
+
+  if (formatting && formatting.length > 0) {
+    formattedMsg.formatting = formatting;
+  }
+
+  return formattedMsg;
+}
+
+interface ReactionRow {
+  target_guid: string;
+  associated_message_type: number;
+  associated_message_emoji: string | null;
+  text: string | null;
+  sender: string | null;
+  is_from_me: number;
+  date: number;
+}
+
+const REPLY_PREVIEW_LENGTH = 80;
+
+/**
+ * Tapbacks on the given messages, by message guid. A newer tapback from the same person replaces
+ * their earlier one, and taking a tapback back removes it.
+ */
+function getReactions(guids: string[]): Map<string, MessageReaction[]> {
+  if (guids.length === 0) return new Map();
+
+  // associated_message_guid is "p:<part>/<guid>", or "bp:<guid>" on older versions
+  const targetGuid = `CASE
+                    WHEN instr(m.associated_message_guid, '/') > 0
+                        THEN substr(m.associated_message_guid, instr(m.associated_message_guid, '/') + 1)
+                    WHEN m.associated_message_guid LIKE 'bp:%' THEN substr(m.associated_message_guid, 4)
+                    ELSE m.associated_message_guid
+                END`;
+  const rows = messagesStore.getMessagesStore().query<ReactionRow>(
+    `SELECT ${targetGuid} as target_guid,
+                m.associated_message_type,
+                ${optionalColumn("associated_message_emoji")} as associated_message_emoji,
+                m.text,
+                h.id as sender,
+                m.is_from_me,
+                m.date
+            FROM message m
+            LEFT JOIN handle h ON h.ROWID = m.handle_id
+            WHERE m.associated_message_type BETWEEN 2000 AND 3999
+                AND ${targetGuid} IN (${guids.map(() => "?").join(", ")})
+            ORDER BY m.date`,
+    ...guids,
+  );
+
+  const reactions = new Map<string, Map<string, MessageReaction>>();
+  for (const row of rows) {
+    const removed = row.associated_message_type >= 2000 + TAPBACK_REMOVAL_OFFSET;
+    const tapback = TAPBACKS[row.associated_message_type - (removed ? TAPBACK_REMOVAL_OFFSET : 0)];
+    if (!tapback) continue;
+
+    const bySender = reactions.get(row.target_guid) ?? new Map<string, MessageReaction>();
+    reactions.set(row.target_guid, bySender);
+    const senderKey = row.is_from_me ? "me" : row.sender || "";
+
+    if (removed) {
+      if (bySender.get(senderKey)?.type === tapback.type) bySender.delete(senderKey);
+      continue;
+    }
+    bySender.set(senderKey, {
+      type: tapback.type,
+      // Older versions only spell a custom emoji out in the text, e.g. "Reacted 🎉 to “…”"
+      emoji: tapback.emoji || row.associated_message_emoji || row.text?.match(/^Reacted (.+?) to /)?.[1] || "?",
+      sender: row.sender || "",
+      is_from_me: Boolean(row.is_from_me),
+      date: messagesStore.fromAppleTimestamp(row.date).toISOString(),
+    });
+  }
+
+  return new Map(
+    [...reactions].filter(([, bySender]) => bySender.size > 0).map(([guid, bySender]) => [guid, [...bySender.values()]]),
+  );
+}
+
+function replyPreview(row: MessageRow): string {
+  const body = messageBody(row);
+  if (isUnsent(row, body)) return "[Message unsent]";
+  const text = body.text.replace(/\s+/g, " ").trim();
+  if (!text) return row.cache_has_attachments ? "[Attachment]" : "[No text content]";
+  return text.length > REPLY_PREVIEW_LENGTH ? `${text.slice(0, REPLY_PREVIEW_LENGTH)}…` : text;
+}
+
+/**
+ * Fold tapbacks onto the messages they react to and link inline replies to the message they answer.
+ * With nestReplies, replies to a message that was read too move into its replies; every other reply
+ * keeps a preview of the original in replyTo. Returns the messages left at the top level.
+ */
+async function addMessageContext(
+  entries: Array<{ row: MessageRow; message: Message }>,
+  options: { resolveName?: NameResolver; nestReplies?: boolean } = {},
+): Promise<Message[]> {
+  const nameOf = async (handle: string, isFromMe: boolean): Promise<string | undefined> => {
+    if (isFromMe) return "Me";
+    if (!handle || !options.resolveName) return undefined;
+    return (await options.resolveName(handle)) || handle;
+  };
 
-    const { stdout } = await execAsync(
-      `sqlite3 -json "${process.env.HOME}/Library/Messages/chat.db" "${query}"`,
+  const byGuid = new Map(entries.map((entry) => [entry.row.guid, entry]));
+
+  for (const [guid, reactions] of getReactions([...byGuid.keys()])) {
+    const message = byGuid.get(guid)!.message;
+    for (const reaction of reactions) {
+      reaction.senderName = await nameOf(reaction.sender, reaction.is_from_me);
+    }
+    message.reactions = reactions;
+    message.content += `\n[Reactions: ${reactions.map((r) => `${r.emoji} ${r.senderName || r.sender}`).join(", ")}]`;
+  }
+
+  const replies = entries.filter((entry) => entry.row.thread_originator_guid);
+  const originals = new Map(entries.map((entry) => [entry.row.guid, entry.row]));
+  const missing = [...new Set(replies.map((entry) => entry.row.thread_originator_guid!))].filter((guid) => !originals.has(guid));
+  if (missing.length > 0) {
+    const rows = messagesStore.getMessagesStore().query<MessageRow>(
+      `SELECT ${messageColumns()}
+            FROM message m
+            LEFT JOIN handle h ON h.ROWID = m.handle_id
+            WHERE m.guid IN (${missing.map(() => "?").join(", ")})`,
+      ...missing,
     );
+    rows.forEach((row) => originals.set(row.guid, row));
+  }
 
-    if (!stdout.trim()) {
-      return [];
+  const nested = new Set<Message>();
+  for (const { row, message } of replies) {
+    const original = originals.get(row.thread_originator_guid!);
+    if (!original || original.guid === row.guid) continue;
+
+    const parent = byGuid.get(original.guid)?.message;
+    const sender = original.sender || "";
+    message.replyTo = {
+      guid: original.guid,
+      sender,
+      senderName: parent?.senderName ?? (await nameOf(sender, Boolean(original.is_from_me))),
+      is_from_me: Boolean(original.is_from_me),
+      preview: replyPreview(original),
+    };
+
+    if (parent && options.nestReplies) {
+      (parent.replies ??= []).push(message);
+      nested.add(message);
+    } else {
+      message.content += `\n[Reply to ${message.replyTo.senderName || sender}: “${message.replyTo.preview}”]`;
     }
+  }
 
-    const attachments = JSON.parse(stdout) as { filename: string }[];
-    return attachments.map((a) => a.filename).filter(Boolean);
-  } catch (error) {
-    console.error("Error getting attachments:", error);
-    return [];
+  for (const { message } of entries) {
+    message.replies?.sort((a, b) => a.date.localeCompare(b.date));
   }
+  return entries.map((entry) => entry.message).filter((message) => !nested.has(message));
 }
 
 async function readMessages(
   phoneNumber: string,
   limit = 10,
+  resolveName?: NameResolver,
 ): Promise<Message[]> {
   try {
     const hasAccess = await retryOperation(checkMessagesDBAccess);
-    if (!hasAccess) {
+    if (!hasAccess || hasControlCharacters(phoneNumber)) {
       return [];
     }
 
+    // Email handles (and anything else that is not a phone number) are matched as given
     const phoneFormats = normalizePhoneNumber(phoneNumber);
-    console.error("Trying phone formats:", phoneFormats);
+    const handles = phoneFormats.length > 0 ? phoneFormats : [phoneNumber.trim()];
+    console.error("Trying handle formats:", handles);
 
-    const phoneList = phoneFormats
-      .map((p) => `'${p.replace(/'/g, "''")}'`)
-      .join(",");
+    const handlePlaceholders = handles.map(() => "?").join(", ");
 
     const query = `
-            SELECT 
-                m.ROWID as message_id,
-                CASE 
-                    WHEN m.text IS NOT NULL AND m.text != '' THEN m.text
-                    WHEN m.attributedBody IS NOT NULL THEN hex(m.attributedBody)
-                    ELSE NULL
-                END as content,
-                datetime(m.date/1000000000 + strftime('%s', '2001-01-01'), 'unixepoch', 'localtime') as date,
-                h.id as sender,
-                m.is_from_me,
-                m.is_audio_message,
-                m.cache_has_attachments,
-                m.subject,
-                CASE 
-                    WHEN m.text IS NOT NULL AND m.text != '' THEN 0
-                    WHEN m.attributedBody IS NOT NULL THEN 1
-                    ELSE 2
-                END as content_type
+            SELECT ${messageColumns()}
             FROM message m 
             INNER JOIN handle h ON h.ROWID = m.handle_id 
-            WHERE h.id IN (${phoneList})
-                AND (m.text IS NOT NULL OR m.attributedBody IS NOT NULL OR m.cache_has_attachments = 1)
+            WHERE h.id IN (${handlePlaceholders})
+                AND ${listedMessagesFilter()}
                 AND m.is_from_me IS NOT NULL  
                 AND m.item_type = 0  
                 AND m.is_audio_message = 0  
             ORDER BY m.date DESC 
-            LIMIT ${limit}
+            LIMIT ?
         `;
 
-    const { stdout } = await retryOperation(() =>
-      execAsync(
-        `sqlite3 -json "${process.env.HOME}/Library/Messages/chat.db" "${query}"`,
-      ),
+    const messages = await retryOperation(async () =>
+      messagesStore.getMessagesStore().query<MessageRow>(query, ...handles, sanitizeLimit(limit, 10)),
     );
 
-    if (!stdout.trim()) {
+    if (messages.length === 0) {
       console.error("No messages found in database for the given phone number");
       return [];
     }
 
-    const messages = JSON.parse(stdout) as (Message & {
-      message_id: number;
-      is_audio_message: number;
-      cache_has_attachments: number;
-      subject: string | null;
-      content_type: number;
-    })[];
-
+    const rows = messages.filter(
+      (msg) =>
+        msg.content !== null ||
+        msg.attributed_body !== null ||
+        msg.cache_has_attachments === 1 ||
+        msg.date_edited > 0 ||
+        msg.date_retracted > 0,
+    );
     const processedMessages = await Promise.all(
-      messages
-        .filter(
-          (msg) => msg.content !== null || msg.cache_has_attachments === 1,
-        )
-        .map(async (msg) => {
-          let content = msg.content || "";
-          let url: string | undefined;
-
-          if (msg.content_type === 1) {
-            const decoded = decodeAttributedBody(content);
-            content = decoded.text;
-            url = decoded.url;
-          } else {
-            const urlMatch = content.match(/(https?:\/\/[^\s]+)/);
-            if (urlMatch) {
-              url = urlMatch[1];
-            }
-          }
-
-          let attachments: string[] = [];
-          if (msg.cache_has_attachments) {
-            attachments = await getAttachmentPaths(msg.message_id);
-          }
-
-          if (msg.subject) {
-            content = `Subject: ${msg.subject}\n${content}`;
-          }
-
-          const formattedMsg: Message = {
-            content: content || "[No text content]",
-            date: new Date(msg.date).toISOString(),
-            sender: msg.sender,
-            is_from_me: Boolean(msg.is_from_me),
-            messageType: 'unknown', // Will be enhanced in calling function
-          };
-
-          if (attachments.length > 0) {
-            formattedMsg.attachments = attachments;
-            formattedMsg.content += `\n[Attachments: ${attachments.length}]`;
-          }
-
-          if (url) {
-            formattedMsg.url = url;
-            formattedMsg.content += `\n[URL: ${url}]`;
-          }
-
-          return formattedMsg;
-        }),
+      rows.map(async (row) => ({ row, message: await formatMessageRow(row) })),
     );
 
-    return processedMessages;
+    return await addMessageContext(processedMessages, { resolveName, nestReplies: true });
   } catch (error) {
     console.error("Error reading messages:", error);
     return [];
   }
 }
 
-async function getUnreadMessages(limit = 10): Promise<Message[]> {
+async function getUnreadMessages(limit = 10, resolveName?: NameResolver): Promise<Message[]> {
   try {
     const hasAccess = await retryOperation(checkMessagesDBAccess);
     if (!hasAccess) {
@@ -896,149 +1528,46 @@ async function getUnreadMessages(limit = 10): Promise<Message[]> {
     }
 
     const query = `
-            SELECT 
-                m.ROWID as message_id,
-                CASE 
-                    WHEN m.text IS NOT NULL AND m.text != '' THEN m.text
-                    WHEN m.attributedBody IS NOT NULL THEN hex(m.attributedBody)
-                    ELSE NULL
-                END as content,
-                datetime(m.date/1000000000 + strftime('%s', '2001-01-01'), 'unixepoch', 'localtime') as date,
-                h.id as sender,
-                m.is_from_me,
-                m.is_audio_message,
-                m.cache_has_attachments,
-                m.subject,
-                CASE 
-                    WHEN m.text IS NOT NULL AND m.text != '' THEN 0
-                    WHEN m.attributedBody IS NOT NULL THEN 1
-                    ELSE 2
-                END as content_type
+            SELECT ${messageColumns()}
             FROM message m 
             INNER JOIN handle h ON h.ROWID = m.handle_id 
             WHERE m.is_from_me = 0  
                 AND m.is_read = 0   
-                AND (m.text IS NOT NULL OR m.attributedBody IS NOT NULL OR m.cache_has_attachments = 1)
+                AND ${listedMessagesFilter()}
                 AND m.is_audio_message = 0  
                 AND m.item_type = 0  
             ORDER BY m.date DESC 
-            LIMIT ${limit}
+            LIMIT ?
         `;
 
-    const { stdout } = await retryOperation(() =>
-      execAsync(
-        `sqlite3 -json "${process.env.HOME}/Library/Messages/chat.db" "${query}"`,
-      ),
+    const messages = await retryOperation(async () =>
+      messagesStore.getMessagesStore().query<MessageRow>(query, sanitizeLimit(limit, 10)),
     );
 
-    if (!stdout.trim()) {
+    if (messages.length === 0) {
       console.error("No unread messages found");
       return [];
     }
 
-    const messages = JSON.parse(stdout) as (Message & {
-      message_id: number;
-      is_audio_message: number;
-      cache_has_attachments: number;
-      subject: string | null;
-      content_type: number;
-    })[];
-
+    const rows = messages.filter(
+      (msg) =>
+        msg.content !== null ||
+        msg.attributed_body !== null ||
+        msg.cache_has_attachments === 1 ||
+        msg.date_edited > 0 ||
+        msg.date_retracted > 0,
+    );
     const processedMessages = await Promise.all(
-      messages
-        .filter(
-          (msg) => msg.content !== null || msg.cache_has_attachments === 1,
-        )
-        .map(async (msg) => {
-          let content = msg.content || "";
-          let url: string | undefined;
-
-          if (msg.content_type === 1) {
-            const decoded = decodeAttributedBody(content);
-            content = decoded.text;
-            url = decoded.url;
-          } else {
-            const urlMatch = content.match(/(https?:\/\/[^\s]+)/);
-            if (urlMatch) {
-              url = urlMatch[1];
-            }
-          }
-
-          let attachments: string[] = [];
-          if (msg.cache_has_attachments) {
-            attachments = await getAttachmentPaths(msg.message_id);
-          }
-
-          if (msg.subject) {
-            content = `Subject: ${msg.subject}\n${content}`;
-          }
-
-          const formattedMsg: Message = {
-            content: content || "[No text content]",
-            date: new Date(msg.date).toISOString(),
-            sender: msg.sender,
-            is_from_me: Boolean(msg.is_from_me),
-            messageType: 'unknown',
-          };
-
-          if (attachments.length > 0) {
-            formattedMsg.attachments = attachments;
-            formattedMsg.content += `\n[Attachments: ${attachments.length}]`;
-          }
-
-          if (url) {
-            formattedMsg.url = url;
-            formattedMsg.content += `\n[URL: ${url}]`;
-          }
-
-          return formattedMsg;
-        }),
+      rows.map(async (row) => ({ row, message: await formatMessageRow(row) })),
     );
 
-    return processedMessages;
+    return await addMessageContext(processedMessages, { resolveName, nestReplies: false });
   } catch (error) {
     console.error("Error reading unread messages:", error);
     return [];
   }
 }
 
-async function scheduleMessage(
-  phoneNumber: string,
-  message: string,
-  scheduledTime: Date,
-) {
-  const scheduledMessages = new Map();
-
-  const delay = scheduledTime.getTime() - Date.now();
-
-  if (delay < 0) {
-    throw new Error("Cannot schedule message in the past");
-  }
-
-  const timeoutId = setTimeout(async () => {
-    try {
-      await sendMessageEnhanced(phoneNumber, message);
-      scheduledMessages.delete(timeoutId);
-    } catch (error) {
-      console.error("Failed to send scheduled message:", error);
-    }
-  }, delay);
-
-  scheduledMessages.set(timeoutId, {
-    phoneNumber,
-    message,
-    scheduledTime,
-    timeoutId,
-  });
-
-  return {
-    id: timeoutId,
-    scheduledTime,
-    message,
-    phoneNumber,
-  };
-}
-
 // Legacy sendMessage for backward compatibility
 async function sendMessage(phoneNumber: string, message: string) {
   const result = await sendMessageEnhanced(phoneNumber, message);
@@ -1055,11 +1584,15 @@ export default {
   readMessagesEnhanced,
   findBestContactMatches,
   getMessageThreads,
+  readChatMessages,
+  findChat,
+  findGroupChatByParticipants,
+  getHandleActivity,
+  searchMessages,
   detectMessageType,
   
   // Legacy functions for compatibility
   sendMessage,
   readMessages,
-  scheduleMessage,
   getUnreadMessages,
 };
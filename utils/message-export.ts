@@ -0,0 +1,186 @@
+import messageAttachments from "./message-attachments";
+import type { Message } from "./message-cached";
+
+type ExportFormat = "markdown" | "json" | "text";
+
+interface ConversationExport {
+  chatId: string;
+  // Group name, or the other person's name for a direct chat
+  name: string;
+  isGroup: boolean;
+  participants: Array<{ handle: string; name?: string }>;
+  startDate?: Date;
+  endDate?: Date;
+  // Oldest first, with replies in date order rather than nested
+  messages: Message[];
+  // The limit was reached, so earlier messages in the range may be missing
+  truncated: boolean;
+}
+
+// Lines formatMessageRow appends to the text; the export shows the structured fields instead
+const CONTENT_SUFFIX = /^\[(Attachments|URL|Mentions|Reactions|Reply to|Edited)\b/;
+
+function messageText(msg: Message): string {
+  const lines = msg.content.split("\n");
+  while (lines.length > 1 && CONTENT_SUFFIX.test(lines[lines.length - 1])) {
+    lines.pop();
+  }
+  return lines.join("\n").trim();
+}
+
+function senderLabel(msg: Message): string {
+  return msg.is_from_me ? "Me" : msg.senderName || msg.sender || "Unknown";
+}
+
+function dayLabel(date: Date): string {
+  return date.toLocaleDateString(undefined, { weekday: "long", day: "numeric", month: "long", year: "numeric" });
+}
+
+function timeLabel(date: Date): string {
+  return date.toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+}
+
+function replyLabel(msg: Message): string {
+  return msg.replyTo ? ` (reply to ${msg.replyTo.senderName || msg.replyTo.sender || "Unknown"}: “${msg.replyTo.preview}”)` : "";
+}
+
+function reactionsLabel(msg: Message): string {
+  return (msg.reactions || []).map((reaction) => `${reaction.emoji} ${reaction.senderName || reaction.sender}`).join(", ");
+}
+
+// Messages grouped by local calendar day, oldest day first
+function byDay(messages: Message[]): Array<{ day: string; messages: Message[] }> {
+  const days: Array<{ key: string; day: string; messages: Message[] }> = [];
+  for (const msg of messages) {
+    const date = new Date(msg.date);
+    const key = date.toDateString();
+    if (days[days.length - 1]?.key !== key) {
+      days.push({ key, day: dayLabel(date), messages: [] });
+    }
+    days[days.length - 1].messages.push(msg);
+  }
+  return days;
+}
+
+// "Group chat with Ana, Ben" or "Conversation with Ana", plus message count and dates covered
+function summaryLine(conversation: ConversationExport): string {
+  const { messages } = conversation;
+  const names = conversation.participants.map((p) => p.name || p.handle).join(", ");
+  const first = conversation.startDate || (messages[0] ? new Date(messages[0].date) : undefined);
+  const last = conversation.endDate || (messages.length > 0 ? new Date(messages[messages.length - 1].date) : undefined);
+  let range = "";
+  if (first && last) {
+    range = first.toDateString() === last.toDateString() ? `, ${dayLabel(first)}` : `, ${dayLabel(first)} to ${dayLabel(last)}`;
+  }
+  const kind = conversation.isGroup ? `Group chat with ${names || conversation.chatId}` : `Conversation with ${names || conversation.name}`;
+  return `${kind} · ${messages.length} message(s)${range}`;
+}
+
+function truncationNote(conversation: ConversationExport): string {
+  return `Only the latest ${conversation.messages.length} messages are included; narrow the dates or raise the limit for earlier ones.`;
+}
+
+function renderMarkdown(conversation: ConversationExport): string {
+  const lines = [`# ${conversation.name}`, "", summaryLine(conversation)];
+  if (conversation.truncated) lines.push("", `> ${truncationNote(conversation)}`);
+
+  for (const { day, messages } of byDay(conversation.messages)) {
+    lines.push("", `## ${day}`, "");
+    for (const msg of messages) {
+      const text = messageText(msg).split("\n").join("  \n");
+      const edited = msg.edited ? " _(edited)_" : "";
+      lines.push(`**${timeLabel(new Date(msg.date))} ${senderLabel(msg)}**${replyLabel(msg)}: ${text}${edited}`);
+      for (const attachment of msg.attachments || []) {
+        lines.push(`- 📎 ${messageAttachments.describeAttachment(attachment)}`);
+      }
+      if (msg.reactions?.length) lines.push(`- Reactions: ${reactionsLabel(msg)}`);
+      lines.push("");
+    }
+    lines.pop();
+  }
+  return lines.join("\n");
+}
+
+function renderText(conversation: ConversationExport): string {
+  const lines = [conversation.name, summaryLine(conversation)];
+  if (conversation.truncated) lines.push(truncationNote(conversation));
+  const indent = " ".repeat(8);
+
+  for (const { day, messages } of byDay(conversation.messages)) {
+    lines.push("", `--- ${day} ---`);
+    for (const msg of messages) {
+      const [first, ...rest] = messageText(msg).split("\n");
+      const edited = msg.edited ? " (edited)" : "";
+      lines.push(`[${timeLabel(new Date(msg.date))}] ${senderLabel(msg)}${replyLabel(msg)}: ${first}${rest.length === 0 ? edited : ""}`);
+      rest.forEach((line, index) => lines.push(`${indent}${line}${index === rest.length - 1 ? edited : ""}`));
+      for (const attachment of msg.attachments || []) {
+        lines.push(`${indent}📎 ${messageAttachments.describeAttachment(attachment)}`);
+      }
+      if (msg.reactions?.length) lines.push(`${indent}Reactions: ${reactionsLabel(msg)}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+function renderJson(conversation: ConversationExport): string {
+  return JSON.stringify(
+    {
+      conversation: {
+        chatId: conversation.chatId,
+        name: conversation.name,
+        isGroup: conversation.isGroup,
+        participants: conversation.participants,
+      },
+      startDate: conversation.startDate?.toISOString(),
+      endDate: conversation.endDate?.toISOString(),
+      exportedAt: new Date().toISOString(),
+      messageCount: conversation.messages.length,
+      truncated: conversation.truncated,
+      messages: conversation.messages.map((msg) => ({
+        guid: msg.guid,
+        date: msg.date,
+        sender: msg.sender || undefined,
+        senderName: senderLabel(msg),
+        isFromMe: msg.is_from_me,
+        text: msg.unsent ? "" : messageText(msg),
+        edited: msg.edited || undefined,
+        editedAt: msg.editedAt,
+        unsent: msg.unsent || undefined,
+        unsentAt: msg.unsentAt,
+        replyTo: msg.replyTo,
+        reactions: msg.reactions,
+        attachments: msg.attachments?.map(({ id, transferName, mimeType, size, path, available }) => ({
+          id,
+          name: transferName,
+          mimeType,
+          size,
+          path,
+          available,
+        })),
+      })),
+    },
+    null,
+    2,
+  );
+}
+
+/**
+ * Render a conversation as a transcript: Markdown and plain text group messages under day headings,
+ * JSON keeps every field for tools that want structure
+ */
+function renderConversation(conversation: ConversationExport, format: ExportFormat): string {
+  switch (format) {
+    case "json":
+      return renderJson(conversation);
+    case "text":
+      return renderText(conversation);
+    default:
+      return renderMarkdown(conversation);
+  }
+}
+
+export type { ExportFormat, ConversationExport };
+
+export default {
+  renderConversation,
+};
@@ -0,0 +1,304 @@
+#!/usr/bin/env bun
+import { Database } from "bun:sqlite";
+import { existsSync, mkdirSync } from "node:fs";
+import { dirname, join } from "node:path";
+import messagesStore, { type MessagesStore } from "./messages-store";
+import typedstream from "./typedstream";
+
+// Kept with the contacts cache; the cache daemon writes it and the messages tool reads it
+const INDEX_FILE = join(process.env.APPLE_MCP_CACHE_DIR || join(__dirname, ".."), "messages-index.db");
+
+// Bump when the indexed text or schema changes, to force a rebuild
+const INDEX_VERSION = 1;
+
+// Messages read from chat.db and written per transaction
+const REFRESH_BATCH_SIZE = 2000;
+
+const INDEX_SCHEMA = `
+CREATE VIRTUAL TABLE IF NOT EXISTS message_text USING fts5(body, tokenize = "unicode61 remove_diacritics 2");
+CREATE TABLE IF NOT EXISTS index_state (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+`;
+
+interface IndexState {
+  version: number;
+  // chat.db the index was built from
+  source: string;
+  // Highest message ROWID indexed; newer rows are not in the index yet
+  lastRowId: number;
+  // Latest edit or unsend already re-indexed (chat.db timestamp)
+  lastChange: number;
+  lastRefresh: number;
+}
+
+interface IndexRefreshResult {
+  indexed: number;
+  reindexed: number;
+  lastRowId: number;
+  rebuilt: boolean;
+  durationMs: number;
+}
+
+interface MessageRowText {
+  rowid: number;
+  text: string | null;
+  attributed_body: Uint8Array | null;
+  subject: string | null;
+}
+
+// Searchable text of a message: subject plus the text column or the decoded attributedBody
+function indexableText(row: MessageRowText): string {
+  let body = row.text || "";
+  if (!body && row.attributed_body) {
+    try {
+      body = typedstream.decodeAttributedBody(row.attributed_body).text;
+    } catch {
+      // Unreadable bodies are left out rather than failing the whole refresh
+      body = "";
+    }
+  }
+  return [row.subject, body.replace(/\uFFFC/g, "")].filter(Boolean).join("\n").trim();
+}
+
+// Every word as a quoted prefix query, so punctuation in the input cannot break FTS syntax
+function toMatchQuery(words: string[]): string {
+  return words.map((word) => `"${word.replace(/"/g, '""')}"*`).join(" ");
+}
+
+/**
+ * Full-text index of message text, kept in a separate SQLite file keyed on chat.db message ROWID.
+ * Refreshes are incremental: only rows added, edited or unsent since the last refresh are read.
+ */
+export class MessageIndex {
+  private db: Database | null = null;
+
+  constructor(readonly filePath: string = INDEX_FILE) {}
+
+  private open(): Database {
+    if (!this.db) {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      this.db = new Database(this.filePath, { create: true, readwrite: true });
+      // The daemon writes while the messages tool reads
+      this.db.run("PRAGMA journal_mode = WAL");
+      this.db.run("PRAGMA busy_timeout = 5000");
+      for (const statement of INDEX_SCHEMA.split(";").map((s) => s.trim()).filter(Boolean)) {
+        this.db.run(statement);
+      }
+    }
+    return this.db;
+  }
+
+  private readState(): IndexState | null {
+    const rows = this.open().query("SELECT key, value FROM index_state").all() as Array<{ key: string; value: string }>;
+    if (rows.length === 0) return null;
+    const values = Object.fromEntries(rows.map((row) => [row.key, row.value]));
+    return {
+      version: Number(values.version) || 0,
+      source: values.source || "",
+      lastRowId: Number(values.lastRowId) || 0,
+      lastChange: Number(values.lastChange) || 0,
+      lastRefresh: Number(values.lastRefresh) || 0,
+    };
+  }
+
+  private writeState(state: IndexState): void {
+    const statement = this.open().query("INSERT OR REPLACE INTO index_state (key, value) VALUES (?, ?)");
+    for (const [key, value] of Object.entries(state)) {
+      statement.run(key, String(value));
+    }
+  }
+
+  /**
+   * Highest message ROWID covered by the index for the given chat.db, or 0 when it cannot be used
+   * (never built, built from another database, or built by an older version)
+   */
+  indexedUpTo(source: string = messagesStore.getMessagesStore().dbPath): number {
+    if (!existsSync(this.filePath)) return 0;
+    const state = this.readState();
+    if (!state || state.version !== INDEX_VERSION || state.source !== source) return 0;
+    return state.lastRowId;
+  }
+
+  /**
+   * ROWIDs of indexed messages containing every word (as a word prefix, ignoring case and accents), newest first
+   */
+  matchingRowIds(words: string[], limit: number, offset = 0): number[] {
+    if (words.length === 0) return [];
+    const rows = this.open()
+      .query("SELECT rowid FROM message_text WHERE message_text MATCH ? ORDER BY rowid DESC LIMIT ? OFFSET ?")
+      .all(toMatchQuery(words), limit, offset) as Array<{ rowid: number }>;
+    return rows.map((row) => row.rowid);
+  }
+
+  /**
+   * Bring the index up to date with chat.db. A full refresh (or a different or rebuilt chat.db) starts over.
+   */
+  async refresh(store: MessagesStore = messagesStore.getMessagesStore(), options: { full?: boolean } = {}): Promise<IndexRefreshResult> {
+    const startTime = Date.now();
+    const db = this.open();
+    const maxRowId = store.get<{ max_rowid: number | null }>("SELECT MAX(ROWID) as max_rowid FROM message")?.max_rowid ?? 0;
+
+    let state = this.readState();
+    const rebuild =
+      options.full ||
+      !state ||
+      state.version !== INDEX_VERSION ||
+      state.source !== store.dbPath ||
+      // Fewer rows than we indexed: chat.db was replaced
+      maxRowId < state.lastRowId;
+
+    if (rebuild) {
+      db.run("DELETE FROM message_text");
+      state = { version: INDEX_VERSION, source: store.dbPath, lastRowId: 0, lastChange: 0, lastRefresh: 0 };
+    }
+    const current = state!;
+
+    const insert = db.query("INSERT INTO message_text (rowid, body) VALUES (?, ?)");
+    const remove = db.query("DELETE FROM message_text WHERE rowid = ?");
+    const write = db.transaction((rows: MessageRowText[]) => {
+      for (const row of rows) {
+        remove.run(row.rowid);
+        const body = indexableText(row);
+        if (body) insert.run(row.rowid, body);
+      }
+    });
+
+    // Older chat.db versions have no edit or unsend columns
+    const columns = new Set(store.query<{ name: string }>("PRAGMA table_info(message)").map((column) => column.name));
+    const changeColumns = ["date_edited", "date_retracted"].filter((column) => columns.has(column));
+    const changeExpression = changeColumns.length > 0
+      ? `MAX(${changeColumns.map((column) => `COALESCE(${column}, 0)`).join(", ")}, 0)`
+      : "0";
+
+    let indexed = 0;
+    while (current.lastRowId < maxRowId) {
+      const rows = store.query<MessageRowText & { changed: number }>(
+        `SELECT ROWID as rowid, text, attributedBody as attributed_body, subject, ${changeExpression} as changed
+         FROM message
+         WHERE ROWID > ? AND item_type = 0
+         ORDER BY ROWID
+         LIMIT ?`,
+        current.lastRowId,
+        REFRESH_BATCH_SIZE,
+      );
+      if (rows.length === 0) {
+        current.lastRowId = maxRowId;
+        break;
+      }
+
+      write(rows);
+      indexed += rows.length;
+      current.lastRowId = rows[rows.length - 1].rowid;
+      current.lastChange = Math.max(current.lastChange, ...rows.map((row) => row.changed || 0));
+      this.writeState(current);
+
+      if (rows.length === REFRESH_BATCH_SIZE) {
+        console.error(`🔎 Indexed messages up to #${current.lastRowId} of ${maxRowId}`);
+        // Let timers (e.g. scheduled sends) run between batches of a large first build
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+    }
+
+    // Messages edited or unsent since the last refresh get their new text (or none)
+    let reindexed = 0;
+    if (changeColumns.length > 0 && !rebuild) {
+      const changed = store.query<MessageRowText & { changed: number }>(
+        `SELECT ROWID as rowid, text, attributedBody as attributed_body, subject, ${changeExpression} as changed
+         FROM message
+         WHERE ROWID <= ? AND ${changeExpression} > ?`,
+        current.lastRowId,
+        current.lastChange,
+      );
+      if (changed.length > 0) {
+        write(changed);
+        reindexed = changed.length;
+        current.lastChange = Math.max(current.lastChange, ...changed.map((row) => row.changed || 0));
+      }
+    }
+
+    current.lastRefresh = Date.now();
+    this.writeState(current);
+
+    return { indexed, reindexed, lastRowId: current.lastRowId, rebuilt: rebuild, durationMs: Date.now() - startTime };
+  }
+
+  stats(): { messages: number; lastRowId: number; source: string; lastRefresh?: number } {
+    if (!existsSync(this.filePath)) {
+      return { messages: 0, lastRowId: 0, source: "" };
+    }
+    const state = this.readState();
+    const count = this.open().query("SELECT COUNT(*) as count FROM message_text").get() as { count: number };
+    return {
+      messages: count.count,
+      lastRowId: state?.lastRowId ?? 0,
+      source: state?.source ?? "",
+      lastRefresh: state?.lastRefresh || undefined,
+    };
+  }
+
+  close(): void {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+  }
+}
+
+let sharedIndex: MessageIndex | null = null;
+
+/**
+ * Shared index used by the messages tool and the cache daemon
+ */
+function getMessageIndex(): MessageIndex {
+  if (!sharedIndex) {
+    sharedIndex = new MessageIndex();
+  }
+  return sharedIndex;
+}
+
+// CLI interface for building and inspecting the index
+async function main() {
+  const command = process.argv[2];
+  const index = getMessageIndex();
+
+  switch (command) {
+    case "refresh": {
+      const full = process.argv.includes("--full");
+      const result = await index.refresh(messagesStore.getMessagesStore(), { full });
+      console.error(
+        `✅ ${result.rebuilt ? "Rebuilt" : "Refreshed"} message index in ${result.durationMs}ms: ` +
+          `${result.indexed} new, ${result.reindexed} edited or unsent (up to #${result.lastRowId})`,
+      );
+      break;
+    }
+
+    case "status": {
+      const stats = index.stats();
+      console.error("🔎 Message Index:");
+      console.error(`   📂 Path: ${index.filePath}`);
+      console.error(`   💬 Indexed messages: ${stats.messages}`);
+      console.error(`   #️⃣ Up to message: ${stats.lastRowId}`);
+      console.error(`   🗄️ Built from: ${stats.source || "not built"}`);
+      if (stats.lastRefresh) console.error(`   🕐 Last refresh: ${new Date(stats.lastRefresh).toLocaleString()}`);
+      break;
+    }
+
+    default:
+      console.error("📖 Usage:");
+      console.error("   bun utils/message-index.ts refresh [--full]  - Index new, edited and unsent messages (or rebuild)");
+      console.error("   bun utils/message-index.ts status            - Show what the index covers");
+      break;
+  }
+  index.close();
+}
+
+// Run CLI if called directly
+if (import.meta.main) {
+  main().catch(console.error);
+}
+
+export type { IndexRefreshResult };
+
+export default {
+  MessageIndex,
+  getMessageIndex,
+};
@@ -0,0 +1,288 @@
+import { existsSync } from "node:fs";
+import { mkdir, open, readFile, rename, stat, unlink, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+
+// Lives next to the contacts cache so the MCP server and the cache daemon share it
+const SCHEDULE_FILE = join(process.env.APPLE_MCP_CACHE_DIR || join(__dirname, ".."), "scheduled-messages.json");
+
+// A send that was claimed but never reported back (e.g. the daemon was killed mid-send)
+const STALE_SENDING_MS = 10 * 60 * 1000;
+
+// Changes hold a lock file so the server's cancel/edit and the daemon's claim never overwrite each other
+const LOCK_RETRY_MS = 20;
+const LOCK_TIMEOUT_MS = 10 * 1000;
+// No change takes this long; an older lock was left behind by a process that died holding it
+const LOCK_STALE_MS = 30 * 1000;
+
+type ScheduledMessageStatus = 'pending' | 'sending' | 'sent' | 'failed' | 'cancelled' | 'missed';
+
+interface ScheduledMessage {
+  id: string;
+  recipient: string;
+  phoneNumber: string;
+  message: string;
+  messageType: 'imessage' | 'sms' | 'unknown';
+  scheduledTime: string;
+  status: ScheduledMessageStatus;
+  createdAt: string;
+  updatedAt: string;
+  // When the user confirmed recipient, number, service and text; the daemon sends without asking again
+  confirmedAt: string;
+  attempts: number;
+  sentAt?: string;
+  lastError?: string;
+  // chat.db message id of the send, for checking its delivery status
+  messageId?: number;
+}
+
+interface NewScheduledMessage {
+  recipient: string;
+  phoneNumber: string;
+  message: string;
+  messageType?: 'imessage' | 'sms' | 'unknown';
+  scheduledTime: Date;
+  confirmedAt: Date;
+}
+
+/**
+ * Durable queue of scheduled messages, stored as JSON on disk.
+ * Every change re-reads the file so the server and the daemon see each other's updates.
+ */
+export class ScheduledMessageStore {
+  constructor(readonly filePath: string = SCHEDULE_FILE) {}
+
+  private async load(): Promise<ScheduledMessage[]> {
+    if (!existsSync(this.filePath)) return [];
+    try {
+      const data = JSON.parse(await readFile(this.filePath, 'utf8'));
+      return Array.isArray(data) ? data : [];
+    } catch (error) {
+      console.error("❌ Error reading scheduled messages:", error);
+      throw new Error(`Scheduled messages file is unreadable: ${this.filePath}`);
+    }
+  }
+
+  private async save(messages: ScheduledMessage[]): Promise<void> {
+    // Write then rename, so a reader never sees a half-written file
+    const tempFile = `${this.filePath}.${process.pid}.tmp`;
+    await writeFile(tempFile, JSON.stringify(messages, null, 2));
+    await rename(tempFile, this.filePath);
+  }
+
+  private get lockFile(): string {
+    return `${this.filePath}.lock`;
+  }
+
+  private async lock(): Promise<void> {
+    const started = Date.now();
+    await mkdir(dirname(this.filePath), { recursive: true });
+    for (;;) {
+      try {
+        const handle = await open(this.lockFile, 'wx');
+        await handle.writeFile(String(process.pid));
+        await handle.close();
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      }
+
+      try {
+        const { mtimeMs } = await stat(this.lockFile);
+        if (Date.now() - mtimeMs > LOCK_STALE_MS) {
+          console.error(`⚠️ Removing stale scheduled messages lock: ${this.lockFile}`);
+          await unlink(this.lockFile).catch(() => {});
+          continue;
+        }
+      } catch {
+        // Released between our attempt and the stat; try again straight away
+        continue;
+      }
+
+      if (Date.now() - started > LOCK_TIMEOUT_MS) {
+        throw new Error(`Timed out waiting for the scheduled messages lock: ${this.lockFile}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+
+  /**
+   * Read, change and write the queue while holding the lock
+   */
+  private async update<T>(change: (messages: ScheduledMessage[]) => T): Promise<T> {
+    await this.lock();
+    try {
+      const messages = await this.load();
+      const result = change(messages);
+      await this.save(messages);
+      return result;
+    } finally {
+      await unlink(this.lockFile).catch(() => {});
+    }
+  }
+
+  async list(status?: ScheduledMessageStatus): Promise<ScheduledMessage[]> {
+    const messages = await this.load();
+    return messages
+      .filter(m => !status || m.status === status)
+      .sort((a, b) => a.scheduledTime.localeCompare(b.scheduledTime));
+  }
+
+  async get(id: string): Promise<ScheduledMessage | undefined> {
+    return (await this.load()).find(m => m.id === id);
+  }
+
+  async add(entry: NewScheduledMessage): Promise<ScheduledMessage> {
+    if (isNaN(entry.scheduledTime.getTime())) {
+      throw new Error("Invalid scheduled time");
+    }
+    if (entry.scheduledTime.getTime() < Date.now()) {
+      throw new Error("Cannot schedule message in the past");
+    }
+
+    const now = new Date().toISOString();
+    const scheduled: ScheduledMessage = {
+      id: `sched_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+      recipient: entry.recipient,
+      phoneNumber: entry.phoneNumber,
+      message: entry.message,
+      messageType: entry.messageType || 'unknown',
+      scheduledTime: entry.scheduledTime.toISOString(),
+      status: 'pending',
+      createdAt: now,
+      updatedAt: now,
+      confirmedAt: entry.confirmedAt.toISOString(),
+      attempts: 0,
+    };
+
+    await this.update(messages => messages.push(scheduled));
+    return scheduled;
+  }
+
+  /**
+   * Change the text or time of a message that has not been sent yet.
+   * The user must have confirmed the changed message, since the daemon sends it unattended.
+   */
+  async edit(id: string, changes: { message?: string; scheduledTime?: Date }, confirmedAt: Date): Promise<ScheduledMessage> {
+    if (changes.scheduledTime) {
+      if (isNaN(changes.scheduledTime.getTime())) throw new Error("Invalid scheduled time");
+      if (changes.scheduledTime.getTime() < Date.now()) throw new Error("Cannot schedule message in the past");
+    }
+
+    return await this.update(messages => {
+      const scheduled = this.findPending(messages, id);
+      if (changes.message !== undefined) scheduled.message = changes.message;
+      if (changes.scheduledTime) scheduled.scheduledTime = changes.scheduledTime.toISOString();
+      scheduled.confirmedAt = confirmedAt.toISOString();
+      scheduled.updatedAt = new Date().toISOString();
+      return { ...scheduled };
+    });
+  }
+
+  async cancel(id: string): Promise<ScheduledMessage> {
+    return await this.update(messages => {
+      const scheduled = this.findPending(messages, id);
+      scheduled.status = 'cancelled';
+      scheduled.updatedAt = new Date().toISOString();
+      return { ...scheduled };
+    });
+  }
+
+  private findPending(messages: ScheduledMessage[], id: string): ScheduledMessage {
+    const scheduled = messages.find(m => m.id === id);
+    if (!scheduled) {
+      throw new Error(`No scheduled message with id ${id}`);
+    }
+    if (scheduled.status !== 'pending') {
+      throw new Error(`Scheduled message ${id} is already ${scheduled.status}`);
+    }
+    return scheduled;
+  }
+
+  /**
+   * Claim every pending message that is due, marking it as sending.
+   * Messages more than catchUpMs overdue (e.g. the Mac was asleep or off) are marked missed instead of sent late.
+   */
+  async claimDue(catchUpMs: number, now = Date.now()): Promise<{ due: ScheduledMessage[]; missed: ScheduledMessage[] }> {
+    return await this.update(messages => {
+      const due: ScheduledMessage[] = [];
+      const missed: ScheduledMessage[] = [];
+      const timestamp = new Date(now).toISOString();
+
+      for (const scheduled of messages) {
+        if (scheduled.status === 'sending' && now - Date.parse(scheduled.updatedAt) > STALE_SENDING_MS) {
+          // Never retry automatically: the message may have gone out before the interruption
+          scheduled.status = 'failed';
+          scheduled.lastError = "Send was interrupted; check the conversation before rescheduling";
+          scheduled.updatedAt = timestamp;
+          continue;
+        }
+
+        if (scheduled.status !== 'pending') continue;
+
+        if (!scheduled.confirmedAt) {
+          // Queued before scheduling required confirmation; never send those unattended
+          scheduled.status = 'failed';
+          scheduled.lastError = "Scheduled without confirmation; schedule it again to confirm";
+          scheduled.updatedAt = timestamp;
+          continue;
+        }
+
+        const dueTime = Date.parse(scheduled.scheduledTime);
+        if (dueTime > now) continue;
+
+        if (now - dueTime > catchUpMs) {
+          scheduled.status = 'missed';
+          scheduled.lastError = `Not sent: ${Math.round((now - dueTime) / 60000)} minutes overdue when the daemon caught up`;
+          scheduled.updatedAt = timestamp;
+          missed.push({ ...scheduled });
+        } else {
+          scheduled.status = 'sending';
+          scheduled.attempts += 1;
+          scheduled.updatedAt = timestamp;
+          due.push({ ...scheduled });
+        }
+      }
+
+      return { due, missed };
+    });
+  }
+
+  async recordResult(id: string, result: { success: boolean; error?: string; messageId?: number }): Promise<void> {
+    await this.update(messages => {
+      const scheduled = messages.find(m => m.id === id);
+      if (!scheduled || scheduled.status !== 'sending') return;
+      const timestamp = new Date().toISOString();
+      scheduled.status = result.success ? 'sent' : 'failed';
+      scheduled.updatedAt = timestamp;
+      if (result.messageId) {
+        scheduled.messageId = result.messageId;
+      }
+      if (result.success) {
+        scheduled.sentAt = timestamp;
+        delete scheduled.lastError;
+      } else {
+        scheduled.lastError = result.error || "Unknown error";
+      }
+    });
+  }
+}
+
+let sharedStore: ScheduledMessageStore | null = null;
+
+/**
+ * Shared schedule used by the messages tool and the cache daemon
+ */
+function getScheduledMessageStore(): ScheduledMessageStore {
+  if (!sharedStore) {
+    sharedStore = new ScheduledMessageStore();
+  }
+  return sharedStore;
+}
+
+export type { ScheduledMessage, ScheduledMessageStatus, NewScheduledMessage };
+
+export default {
+  ScheduledMessageStore,
+  getScheduledMessageStore,
+  SCHEDULE_FILE,
+};
@@ -0,0 +1,266 @@
+import messagesStore from "./messages-store";
+import phoneNumbers from "./phone-numbers";
+import typedstream from "./typedstream";
+
+// How long to watch chat.db after a send, and how often to look
+const VERIFY_TIMEOUT_MS = 10 * 1000;
+const VERIFY_INTERVAL_MS = 500;
+
+// Where an outgoing message is, from Messages' own flags; a failed send is the red exclamation mark
+type DeliveryState = "sending" | "sent" | "delivered" | "read" | "failed";
+
+interface SentMessageStatus {
+  // message.ROWID, used to ask for the status again later
+  id: number;
+  guid: string;
+  state: DeliveryState;
+  // Service Messages actually used: "iMessage", "SMS" or "RCS"
+  service: string;
+  text: string;
+  hasAttachments: boolean;
+  date: string;
+  deliveredAt?: string;
+  readAt?: string;
+  // message.error, set when the send failed
+  errorCode?: number;
+  chatId?: string;
+  // Recipient handle for direct messages
+  recipient?: string;
+}
+
+// What was just sent, to pick its rows out of chat.db
+interface SendTarget {
+  // Highest message ROWID before the send; the new rows come after it
+  afterRowId: number;
+  text: string;
+  attachmentCount: number;
+  // Existing conversation, or the recipient's handles for a direct message
+  chatGuid?: string;
+  handles?: string[];
+}
+
+interface SendVerification {
+  // "not-found" when Messages wrote nothing to chat.db before the timeout
+  state: DeliveryState | "not-found";
+  service?: string;
+  messages: SentMessageStatus[];
+}
+
+interface StatusRow {
+  id: number;
+  guid: string;
+  text: string | null;
+  attributed_body: Uint8Array | null;
+  service: string | null;
+  error: number;
+  is_sent: number;
+  is_delivered: number;
+  is_read: number;
+  date: number;
+  date_delivered: number;
+  date_read: number;
+  cache_has_attachments: number;
+  chat_identifier: string | null;
+  recipient: string | null;
+}
+
+const STATUS_COLUMNS = `
+                m.ROWID as id,
+                m.guid,
+                m.text,
+                m.attributedBody as attributed_body,
+                m.service,
+                m.error,
+                m.is_sent,
+                m.is_delivered,
+                m.is_read,
+                m.date,
+                m.date_delivered,
+                m.date_read,
+                m.cache_has_attachments,
+                c.chat_identifier,
+                h.id as recipient`;
+
+const STATUS_FROM = `
+            FROM message m
+            LEFT JOIN handle h ON h.ROWID = m.handle_id
+            LEFT JOIN chat_message_join cmj ON cmj.message_id = m.ROWID
+            LEFT JOIN chat c ON c.ROWID = cmj.chat_id`;
+
+// From failed to furthest along; a read message was also delivered and sent
+const STATE_ORDER: DeliveryState[] = ["failed", "sending", "sent", "delivered", "read"];
+
+function deliveryState(row: StatusRow): DeliveryState {
+  if (row.error) return "failed";
+  if (row.date_read > 0 || row.is_read) return "read";
+  if (row.date_delivered > 0 || row.is_delivered) return "delivered";
+  if (row.is_sent) return "sent";
+  return "sending";
+}
+
+function rowText(row: StatusRow): string {
+  let text = row.text || "";
+  if (!text && row.attributed_body) {
+    try {
+      text = typedstream.decodeAttributedBody(row.attributed_body).text;
+    } catch {
+      text = "";
+    }
+  }
+  // Inline attachments are marked with U+FFFC
+  return text.replace(/\uFFFC/g, "").trim();
+}
+
+// Every spelling of a phone number chat.db might use; emails are matched as they are
+function handleVariants(handles: string[]): string[] {
+  return [...new Set(handles.flatMap((handle) => (handle.includes("@") ? [handle.trim()] : phoneNumbers.phoneNumberVariants(handle))))];
+}
+
+function toStatus(row: StatusRow): SentMessageStatus {
+  const status: SentMessageStatus = {
+    id: row.id,
+    guid: row.guid,
+    state: deliveryState(row),
+    service: row.service || "unknown",
+    text: rowText(row),
+    hasAttachments: Boolean(row.cache_has_attachments),
+    date: messagesStore.fromAppleTimestamp(row.date).toISOString(),
+    chatId: row.chat_identifier || undefined,
+    recipient: row.recipient || undefined,
+  };
+  if (row.date_delivered > 0) status.deliveredAt = messagesStore.fromAppleTimestamp(row.date_delivered).toISOString();
+  if (row.date_read > 0) status.readAt = messagesStore.fromAppleTimestamp(row.date_read).toISOString();
+  if (row.error) status.errorCode = row.error;
+  return status;
+}
+
+/**
+ * Highest message ROWID right now; pass it as afterRowId before sending
+ */
+function latestMessageRowId(): number {
+  return messagesStore.getMessagesStore().get<{ max_rowid: number | null }>("SELECT MAX(ROWID) as max_rowid FROM message")?.max_rowid ?? 0;
+}
+
+/**
+ * Status of a message I sent, by message id
+ */
+function getSentMessageStatus(messageId: number): SentMessageStatus | null {
+  const row = messagesStore.getMessagesStore().get<StatusRow>(
+    `SELECT ${STATUS_COLUMNS} ${STATUS_FROM} WHERE m.ROWID = ? AND m.is_from_me = 1`,
+    messageId,
+  );
+  return row ? toStatus(row) : null;
+}
+
+/**
+ * Status of the last message I sent to a conversation (by chat identifier) or to any of a contact's handles
+ */
+function getLatestSentMessageStatus(target: { chatId?: string; handles?: string[] }): SentMessageStatus | null {
+  const conditions = ["m.is_from_me = 1", "m.item_type = 0"];
+  const params: string[] = [];
+
+  if (target.chatId) {
+    conditions.push("c.chat_identifier = ?");
+    params.push(target.chatId);
+  } else if (target.handles && target.handles.length > 0) {
+    const handles = handleVariants(target.handles);
+    conditions.push(`h.id COLLATE NOCASE IN (${handles.map(() => "?").join(", ")})`);
+    params.push(...handles);
+  } else {
+    return null;
+  }
+
+  const row = messagesStore.getMessagesStore().get<StatusRow>(
+    `SELECT ${STATUS_COLUMNS} ${STATUS_FROM} WHERE ${conditions.join(" AND ")} ORDER BY m.date DESC LIMIT 1`,
+    ...params,
+  );
+  return row ? toStatus(row) : null;
+}
+
+/**
+ * Rows Messages wrote for a send: the text (if any) and one per attachment
+ */
+function findSentMessages(target: SendTarget): SentMessageStatus[] {
+  const conditions = ["m.ROWID > ?", "m.is_from_me = 1", "m.item_type = 0"];
+  const params: Array<string | number> = [target.afterRowId];
+
+  if (target.chatGuid) {
+    conditions.push("c.guid = ?");
+    params.push(target.chatGuid);
+  } else if (target.handles && target.handles.length > 0) {
+    const handles = handleVariants(target.handles);
+    conditions.push(`h.id COLLATE NOCASE IN (${handles.map(() => "?").join(", ")})`);
+    params.push(...handles);
+  }
+
+  const rows = messagesStore.getMessagesStore().query<StatusRow>(
+    `SELECT ${STATUS_COLUMNS} ${STATUS_FROM} WHERE ${conditions.join(" AND ")} ORDER BY m.ROWID`,
+    ...params,
+  );
+
+  const text = target.text.trim();
+  const textRow = text ? rows.map(toStatus).find((status) => status.text === text) : undefined;
+  // Attachments sent right after the text (or on their own) carry no text of their own
+  const attachmentRows = rows
+    .filter((row) => row.cache_has_attachments && (!textRow || row.id > textRow.id))
+    .map(toStatus)
+    .filter((status) => !status.text || status.text === text)
+    .slice(0, target.attachmentCount);
+
+  return [...(textRow ? [textRow] : []), ...attachmentRows];
+}
+
+// The least advanced state across the rows of one send; any failure fails the whole send
+function overallState(messages: SentMessageStatus[]): DeliveryState {
+  return messages.reduce<DeliveryState>(
+    (state, message) => (STATE_ORDER.indexOf(message.state) < STATE_ORDER.indexOf(state) ? message.state : state),
+    "read",
+  );
+}
+
+/**
+ * Watch chat.db after a send until Messages reports it delivered or failed, or the timeout passes.
+ * A send still "sent" at the timeout is normal (the recipient's phone may be off); check it later by id.
+ */
+async function verifySend(
+  target: SendTarget,
+  options: { timeoutMs?: number; intervalMs?: number } = {},
+): Promise<SendVerification> {
+  const { timeoutMs = VERIFY_TIMEOUT_MS, intervalMs = VERIFY_INTERVAL_MS } = options;
+  const expected = (target.text.trim() ? 1 : 0) + target.attachmentCount;
+  const deadline = Date.now() + timeoutMs;
+  let messages: SentMessageStatus[] = [];
+
+  for (;;) {
+    try {
+      messages = findSentMessages(target);
+    } catch (error) {
+      // Verification is best effort: the send itself already happened
+      console.error("Error checking sent message status:", error);
+      return { state: "not-found", messages: [] };
+    }
+
+    const complete = messages.length >= expected && expected > 0;
+    const state = complete || messages.some((message) => message.state === "failed") ? overallState(messages) : undefined;
+    if (state === "failed" || state === "delivered" || state === "read") break;
+    // SMS has no delivery receipts, so "sent" is as far as it gets
+    if (state === "sent" && messages.every((message) => message.service === "SMS")) break;
+    if (Date.now() + intervalMs > deadline) break;
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+  }
+
+  if (messages.length === 0) {
+    return { state: "not-found", messages };
+  }
+  return { state: overallState(messages), service: messages[0].service, messages };
+}
+
+export type { DeliveryState, SentMessageStatus, SendTarget, SendVerification };
+
+export default {
+  latestMessageRowId,
+  getSentMessageStatus,
+  getLatestSentMessageStatus,
+  findSentMessages,
+  verifySend,
+};
@@ -0,0 +1,418 @@
+#!/usr/bin/env bun
+import { Database } from "bun:sqlite";
+import { existsSync } from "node:fs";
+import { access, mkdir, unlink, writeFile } from "node:fs/promises";
+import { constants } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import typedstream from "./typedstream";
+
+// Environment variable that points the messages tool at a different chat.db (e.g. a fixture)
+const MESSAGES_DB_ENV = "APPLE_MCP_MESSAGES_DB";
+
+// Seconds between the Unix epoch and Apple's reference date (2001-01-01 UTC)
+const APPLE_EPOCH_OFFSET = 978307200;
+
+interface MessagesStoreOptions {
+  dbPath?: string;
+  readonly?: boolean;
+}
+
+type SQLValue = string | number | bigint | boolean | null | Uint8Array;
+
+/**
+ * Resolve which chat.db to use: explicit path, then environment, then the macOS default
+ */
+function resolveMessagesDbPath(explicitPath?: string): string {
+  if (explicitPath) return resolve(explicitPath);
+  if (process.env[MESSAGES_DB_ENV]) return resolve(process.env[MESSAGES_DB_ENV]!);
+  return `${process.env.HOME}/Library/Messages/chat.db`;
+}
+
+/**
+ * In-process access to a Messages chat.db
+ */
+export class MessagesStore {
+  readonly dbPath: string;
+  private readonly readonly: boolean;
+  private db: Database | null = null;
+
+  constructor(options: MessagesStoreOptions = {}) {
+    this.dbPath = resolveMessagesDbPath(options.dbPath);
+    this.readonly = options.readonly ?? true;
+  }
+
+  private open(): Database {
+    if (!this.db) {
+      this.db = this.readonly
+        ? new Database(this.dbPath, { readonly: true })
+        : new Database(this.dbPath, { create: true, readwrite: true });
+    }
+    return this.db;
+  }
+
+  async checkAccess(): Promise<boolean> {
+    try {
+      await access(this.dbPath, constants.R_OK);
+      this.open().query("SELECT 1").get();
+      return true;
+    } catch (error) {
+      console.error(`
+Error: Cannot access Messages database at ${this.dbPath}.
+To fix this, please grant Full Disk Access to Terminal/iTerm2:
+1. Open System Preferences
+2. Go to Security & Privacy > Privacy
+3. Select "Full Disk Access" from the left sidebar
+4. Click the lock icon to make changes
+5. Add Terminal.app or iTerm.app to the list
+6. Restart your terminal and try again
+
+Error details: ${error instanceof Error ? error.message : String(error)}
+`);
+      this.close();
+      return false;
+    }
+  }
+
+  query<T>(sql: string, ...params: SQLValue[]): T[] {
+    return this.open().query(sql).all(...params) as T[];
+  }
+
+  get<T>(sql: string, ...params: SQLValue[]): T | null {
+    return (this.open().query(sql).get(...params) as T | null) ?? null;
+  }
+
+  run(sql: string, ...params: SQLValue[]): void {
+    this.open().query(sql).run(...params);
+  }
+
+  close(): void {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+  }
+}
+
+let sharedStore: MessagesStore | null = null;
+
+/**
+ * Shared store used by the messages tool
+ */
+function getMessagesStore(): MessagesStore {
+  if (!sharedStore) {
+    sharedStore = new MessagesStore();
+  }
+  return sharedStore;
+}
+
+/**
+ * Point the messages tool at a different chat.db (or a prepared store)
+ */
+function configureMessagesStore(storeOrOptions: MessagesStore | MessagesStoreOptions): MessagesStore {
+  sharedStore?.close();
+  sharedStore = storeOrOptions instanceof MessagesStore ? storeOrOptions : new MessagesStore(storeOrOptions);
+  return sharedStore;
+}
+
+/**
+ * Convert a JS date to chat.db's nanoseconds-since-2001 timestamp
+ */
+function toAppleTimestamp(date: Date): number {
+  return (date.getTime() / 1000 - APPLE_EPOCH_OFFSET) * 1e9;
+}
+
+/**
+ * Convert a chat.db timestamp (seconds on old databases, nanoseconds since High Sierra) to a JS date
+ */
+function fromAppleTimestamp(value: number): Date {
+  const seconds = value > 1e11 ? value / 1e9 : value;
+  return new Date((seconds + APPLE_EPOCH_OFFSET) * 1000);
+}
+
+// Subset of the real chat.db schema that the messages tool reads
+const FIXTURE_SCHEMA = `
+CREATE TABLE handle (
+  ROWID INTEGER PRIMARY KEY AUTOINCREMENT,
+  id TEXT NOT NULL,
+  country TEXT,
+  service TEXT NOT NULL DEFAULT 'iMessage',
+  uncanonicalized_id TEXT
+);
+CREATE TABLE chat (
+  ROWID INTEGER PRIMARY KEY AUTOINCREMENT,
+  guid TEXT UNIQUE NOT NULL,
+  style INTEGER,
+  chat_identifier TEXT,
+  service_name TEXT,
+  display_name TEXT
+);
+CREATE TABLE message (
+  ROWID INTEGER PRIMARY KEY AUTOINCREMENT,
+  guid TEXT UNIQUE NOT NULL,
+  text TEXT,
+  attributedBody BLOB,
+  handle_id INTEGER DEFAULT 0,
+  other_handle INTEGER DEFAULT 0,
+  subject TEXT,
+  service TEXT,
+  error INTEGER DEFAULT 0,
+  date INTEGER,
+  date_read INTEGER DEFAULT 0,
+  date_delivered INTEGER DEFAULT 0,
+  date_edited INTEGER DEFAULT 0,
+  date_retracted INTEGER DEFAULT 0,
+  is_delivered INTEGER DEFAULT 0,
+  is_from_me INTEGER DEFAULT 0,
+  is_read INTEGER DEFAULT 0,
+  is_sent INTEGER DEFAULT 0,
+  is_audio_message INTEGER DEFAULT 0,
+  item_type INTEGER DEFAULT 0,
+  cache_has_attachments INTEGER DEFAULT 0,
+  cache_roomnames TEXT,
+  associated_message_guid TEXT,
+  associated_message_type INTEGER DEFAULT 0,
+  thread_originator_guid TEXT
+);
+CREATE TABLE attachment (
+  ROWID INTEGER PRIMARY KEY AUTOINCREMENT,
+  guid TEXT UNIQUE NOT NULL,
+  created_date INTEGER DEFAULT 0,
+  filename TEXT,
+  uti TEXT,
+  mime_type TEXT,
+  transfer_name TEXT,
+  total_bytes INTEGER DEFAULT 0
+);
+CREATE TABLE chat_handle_join (chat_id INTEGER, handle_id INTEGER, UNIQUE(chat_id, handle_id));
+CREATE TABLE chat_message_join (chat_id INTEGER, message_id INTEGER, message_date INTEGER DEFAULT 0, PRIMARY KEY (chat_id, message_id));
+CREATE TABLE message_attachment_join (message_id INTEGER, attachment_id INTEGER, UNIQUE(message_id, attachment_id));
+`;
+
+// 1x1 PNG for the fixture's photo attachment
+const FIXTURE_PNG = "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==";
+
+/**
+ * Create a synthetic chat.db with a couple of conversations, for running the messages tool off-macOS
+ */
+async function createFixtureDatabase(dbPath: string): Promise<MessagesStore> {
+  const target = resolve(dbPath);
+  await mkdir(dirname(target), { recursive: true });
+  if (existsSync(target)) {
+    await unlink(target);
+  }
+
+  const store = new MessagesStore({ dbPath: target, readonly: false });
+  store.run("PRAGMA journal_mode = DELETE");
+  for (const statement of FIXTURE_SCHEMA.split(";").map((s) => s.trim()).filter(Boolean)) {
+    store.run(statement);
+  }
+
+  const now = Date.now();
+  const minutesAgo = (minutes: number) => toAppleTimestamp(new Date(now - minutes * 60 * 1000));
+
+  const handles = ["+13236568914", "+447857931718", "ana@example.com"];
+  handles.forEach((id) => store.run("INSERT INTO handle (id, service) VALUES (?, 'iMessage')", id));
+
+  // One direct conversation per handle plus a group chat with the first two
+  handles.forEach((id, index) => {
+    store.run(
+      "INSERT INTO chat (guid, style, chat_identifier, service_name) VALUES (?, 45, ?, 'iMessage')",
+      `iMessage;-;${id}`,
+      id,
+    );
+    store.run("INSERT INTO chat_handle_join (chat_id, handle_id) VALUES (?, ?)", index + 1, index + 1);
+  });
+  store.run(
+    "INSERT INTO chat (guid, style, chat_identifier, service_name, display_name) VALUES ('iMessage;+;chat100000000000000001', 43, 'chat100000000000000001', 'iMessage', 'Weekend Plans')",
+  );
+  store.run("INSERT INTO chat_handle_join (chat_id, handle_id) VALUES (4, 1), (4, 2)");
+
+  // The first number also texted over SMS: Messages keeps a second handle and chat with the same identifier
+  store.run("INSERT INTO handle (id, service) VALUES ('+13236568914', 'SMS')");
+  store.run(
+    "INSERT INTO chat (guid, style, chat_identifier, service_name) VALUES ('SMS;-;+13236568914', 45, '+13236568914', 'SMS')",
+  );
+  store.run("INSERT INTO chat_handle_join (chat_id, handle_id) VALUES (5, 4)");
+
+  // Messages with a mention are stored the way newer macOS does: attributedBody only, text NULL
+  const messages: Array<{
+    chat: number;
+    handle: number;
+    fromMe: boolean;
+    text: string;
+    minutes: number;
+    read: boolean;
+    mention?: { handle: string; length: number };
+    attachment?: { name: string; mimeType: string; data: Uint8Array };
+    // Fixture message numbers (1-based) that a tapback reacts to or a reply answers
+    tapback?: { target: number; type: number };
+    replyTo?: number;
+    edited?: boolean;
+    unsent?: boolean;
+    sms?: boolean;
+  }> = [
+    { chat: 1, handle: 1, fromMe: false, text: "Are we still on for lunch?", minutes: 120, read: true },
+    { chat: 1, handle: 1, fromMe: true, text: "Yes, 12:30 at the usual place", minutes: 115, read: true },
+    { chat: 1, handle: 1, fromMe: false, text: "Perfect, see you there", minutes: 110, read: false },
+    {
+      chat: 2,
+      handle: 2,
+      fromMe: false,
+      text: "Landed in London 🛬",
+      minutes: 60,
+      read: false,
+      attachment: { name: "IMG_0001.png", mimeType: "image/png", data: Buffer.from(FIXTURE_PNG, "base64") },
+    },
+    {
+      chat: 3,
+      handle: 3,
+      fromMe: true,
+      text: "Sent you the slides",
+      minutes: 30,
+      read: true,
+      attachment: { name: "slides.pdf", mimeType: "application/pdf", data: Buffer.from("%PDF-1.4\n%%EOF\n") },
+    },
+    { chat: 4, handle: 1, fromMe: false, text: "Who is bringing snacks?", minutes: 20, read: true },
+    { chat: 4, handle: 2, fromMe: false, text: "I can bring crisps", minutes: 15, read: false },
+    { chat: 4, handle: 0, fromMe: true, text: "I'll sort drinks", minutes: 10, read: true },
+    {
+      chat: 4,
+      handle: 0,
+      fromMe: true,
+      text: "@Jordan can you grab ice too?",
+      minutes: 5,
+      read: true,
+      mention: { handle: "+447857931718", length: 7 },
+    },
+    { chat: 4, handle: 2, fromMe: false, text: "Loved “I'll sort drinks”", minutes: 9, read: true, tapback: { target: 8, type: 2000 } },
+    { chat: 4, handle: 0, fromMe: true, text: "Perfect, thank you!", minutes: 8, read: true, replyTo: 7 },
+    { chat: 1, handle: 1, fromMe: false, text: "Liked “Yes, 12:30 at the usual place”", minutes: 112, read: true, tapback: { target: 2, type: 2001 } },
+    { chat: 1, handle: 1, fromMe: true, text: "Running 5 minutes late", minutes: 100, read: true, edited: true },
+    // Unsending leaves the row with no text, marked as edited
+    { chat: 2, handle: 2, fromMe: true, text: "", minutes: 50, read: true, unsent: true },
+    { chat: 5, handle: 4, fromMe: false, text: "No signal here, texting instead", minutes: 105, read: true, sms: true },
+  ];
+
+  messages.forEach((msg, index) => {
+    const date = minutesAgo(msg.minutes);
+    const attributedBody = typedstream.encodeAttributedBody(
+      msg.text,
+      msg.mention
+        ? [
+            {
+              length: msg.mention.length,
+              attributes: { __kIMMessagePartAttributeName: 0, __kIMMentionConfirmedMention: msg.mention.handle },
+            },
+            { length: msg.text.length - msg.mention.length, attributes: { __kIMMessagePartAttributeName: 0 } },
+          ]
+        : undefined,
+    );
+    store.run(
+      `INSERT INTO message (guid, text, attributedBody, handle_id, service, date, date_read, date_delivered, date_edited,
+         is_delivered, is_from_me, is_read, is_sent, associated_message_guid, associated_message_type, thread_originator_guid)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 1, ?, ?, ?, ?, ?, ?)`,
+      `FIXTURE-${index + 1}`,
+      msg.mention || msg.unsent ? null : msg.text,
+      msg.unsent ? null : attributedBody,
+      msg.handle,
+      msg.sms ? "SMS" : "iMessage",
+      date,
+      msg.read ? date : 0,
+      date,
+      msg.edited || msg.unsent ? minutesAgo(msg.minutes - 1) : 0,
+      msg.fromMe ? 1 : 0,
+      msg.fromMe || msg.read ? 1 : 0,
+      msg.fromMe ? 1 : 0,
+      msg.tapback ? `p:0/FIXTURE-${msg.tapback.target}` : null,
+      msg.tapback?.type ?? 0,
+      msg.replyTo ? `FIXTURE-${msg.replyTo}` : null,
+    );
+    store.run(
+      "INSERT INTO chat_message_join (chat_id, message_id, message_date) VALUES (?, ?, ?)",
+      msg.chat,
+      index + 1,
+      date,
+    );
+  });
+
+  // Attachment files live next to the fixture, the way real ones live under ~/Library/Messages/Attachments
+  for (const [index, msg] of messages.entries()) {
+    if (!msg.attachment) continue;
+    const filename = `Attachments/FIXTURE-${index + 1}/${msg.attachment.name}`;
+    await mkdir(join(dirname(target), dirname(filename)), { recursive: true });
+    await writeFile(join(dirname(target), filename), msg.attachment.data);
+
+    store.run(
+      "INSERT INTO attachment (guid, created_date, filename, mime_type, transfer_name, total_bytes) VALUES (?, ?, ?, ?, ?, ?)",
+      `FIXTURE-ATTACHMENT-${index + 1}`,
+      Math.round(minutesAgo(msg.minutes) / 1e9),
+      filename,
+      msg.attachment.mimeType,
+      msg.attachment.name,
+      msg.attachment.data.length,
+    );
+    store.run(
+      "INSERT INTO message_attachment_join (message_id, attachment_id) SELECT ?, MAX(ROWID) FROM attachment",
+      index + 1,
+    );
+    store.run("UPDATE message SET cache_has_attachments = 1 WHERE ROWID = ?", index + 1);
+  }
+
+  store.close();
+  return new MessagesStore({ dbPath: target });
+}
+
+// CLI interface for inspecting chat.db access and building fixtures
+async function main() {
+  const command = process.argv[2];
+
+  switch (command) {
+    case "fixture": {
+      const target = process.argv[3] || "fixtures/chat.db";
+      await createFixtureDatabase(target);
+      console.error(`✅ Created fixture Messages database at ${resolve(target)}`);
+      console.error(`   Run the server with ${MESSAGES_DB_ENV}=${resolve(target)} to use it`);
+      break;
+    }
+
+    case "status": {
+      const store = new MessagesStore();
+      const accessible = await store.checkAccess();
+      console.error("📊 Messages Database:");
+      console.error(`   📂 Path: ${store.dbPath}`);
+      console.error(`   🔓 Accessible: ${accessible ? "YES" : "NO"}`);
+      if (accessible) {
+        const counts = store.get<{ messages: number; chats: number; handles: number }>(
+          "SELECT (SELECT COUNT(*) FROM message) AS messages, (SELECT COUNT(*) FROM chat) AS chats, (SELECT COUNT(*) FROM handle) AS handles",
+        );
+        console.error(`   💬 Messages: ${counts?.messages ?? 0}`);
+        console.error(`   🗂️ Chats: ${counts?.chats ?? 0}`);
+        console.error(`   👤 Handles: ${counts?.handles ?? 0}`);
+      }
+      store.close();
+      break;
+    }
+
+    default:
+      console.error("📖 Usage:");
+      console.error("   bun utils/messages-store.ts status          - Show which chat.db is used and whether it is readable");
+      console.error("   bun utils/messages-store.ts fixture [path]  - Create a synthetic chat.db for testing");
+      break;
+  }
+}
+
+// Run CLI if called directly
+if (import.meta.main) {
+  main().catch(console.error);
+}
+
+export default {
+  MessagesStore,
+  getMessagesStore,
+  configureMessagesStore,
+  createFixtureDatabase,
+  resolveMessagesDbPath,
+  toAppleTimestamp,
+  fromAppleTimestamp,
+  MESSAGES_DB_ENV,
+};
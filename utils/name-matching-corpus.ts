@@ -0,0 +1,78 @@
+// Queries people actually type for contacts, with the contact each should resolve to.
+// Run `bun utils/name-matching.ts benchmark` after changing the matcher.
+
+const CORPUS_NAMES = [
+  "Winston Johnson",
+  "Inés García",
+  "Ana Samat",
+  "Anabel Ruiz",
+  "Liliana Torres",
+  "Robert Chen",
+  "Elizabeth Warren",
+  "William Turner",
+  "John Smith",
+  "Jonathan Price",
+  "Katherine O'Brien",
+  "Michael Scott",
+  "Mikael Lindqvist",
+  "Stephen Hawking",
+  "Jean-Luc Picard",
+  "Zoë Kravitz",
+  "María José Fernández",
+  "François Dupont",
+  "Søren Kierkegaard",
+  "Priya Patel",
+  "Chris Evans",
+  "Christine Baranski",
+  "Nguyễn Văn An",
+  "Margaret Thatcher",
+  "Alexander Hamilton",
+];
+
+// expected: null means no contact should be picked with confidence
+const MATCHING_CORPUS: Array<{ query: string; expected: string | null }> = [
+  { query: "Winston", expected: "Winston Johnson" },
+  { query: "winston johnson", expected: "Winston Johnson" },
+  { query: "Johnson Winston", expected: "Winston Johnson" },
+  { query: "Winstn", expected: "Winston Johnson" },
+  { query: "Wnston Jonson", expected: "Winston Johnson" },
+  { query: "WJ", expected: "Winston Johnson" },
+  { query: "Win", expected: "Winston Johnson" },
+  { query: "Ines", expected: "Inés García" },
+  { query: "ines garcia", expected: "Inés García" },
+  { query: "Garsia", expected: "Inés García" },
+  { query: "Ana", expected: "Ana Samat" },
+  { query: "Anabel", expected: "Anabel Ruiz" },
+  { query: "Lili", expected: "Liliana Torres" },
+  { query: "Bob Chen", expected: "Robert Chen" },
+  { query: "Liz Warren", expected: "Elizabeth Warren" },
+  { query: "Bill", expected: "William Turner" },
+  { query: "Jhon Smith", expected: "John Smith" },
+  { query: "Jon Smith", expected: "John Smith" },
+  { query: "Smyth", expected: "John Smith" },
+  { query: "Jonathon Price", expected: "Jonathan Price" },
+  { query: "Kathy O'Brien", expected: "Katherine O'Brien" },
+  { query: "katherine obrien", expected: "Katherine O'Brien" },
+  { query: "Mike Scott", expected: "Michael Scott" },
+  { query: "Mikael", expected: "Mikael Lindqvist" },
+  { query: "Steve Hawking", expected: "Stephen Hawking" },
+  { query: "Jean Luc", expected: "Jean-Luc Picard" },
+  { query: "Picard", expected: "Jean-Luc Picard" },
+  { query: "Zoe", expected: "Zoë Kravitz" },
+  { query: "Maria Jose", expected: "María José Fernández" },
+  { query: "Fernandez", expected: "María José Fernández" },
+  { query: "Francois", expected: "François Dupont" },
+  { query: "Soren", expected: "Søren Kierkegaard" },
+  { query: "Nguyen", expected: "Nguyễn Văn An" },
+  { query: "Priya", expected: "Priya Patel" },
+  { query: "Chris", expected: "Chris Evans" },
+  { query: "Christina Baranski", expected: "Christine Baranski" },
+  { query: "Maggie Thatcher", expected: "Margaret Thatcher" },
+  { query: "Alex Hamilton", expected: "Alexander Hamilton" },
+  { query: "Hamiltn", expected: "Alexander Hamilton" },
+  { query: "Winston Smith", expected: null },
+  { query: "Zed", expected: null },
+  { query: "Xavier Dupree", expected: null },
+];
+
+export { CORPUS_NAMES, MATCHING_CORPUS };
@@ -0,0 +1,350 @@
+#!/usr/bin/env bun
+// Fuzzy contact-name matching shared by contact search, message recipients and the contacts cache
+
+type MatchReason =
+  | "exact"
+  | "prefix"
+  | "word"
+  | "reordered"
+  | "nickname"
+  | "initials"
+  | "phonetic"
+  | "typo"
+  | "substring";
+
+interface NameScore {
+  // 0-100; 0 means no match
+  score: number;
+  reasons: MatchReason[];
+}
+
+interface RankedMatch<T> extends NameScore {
+  item: T;
+  // Which of the item's names matched (e.g. the contact's nickname rather than their full name)
+  matchedName: string;
+}
+
+// Each group lists names people use interchangeably; a name may appear in several groups
+const NICKNAME_GROUPS: string[][] = [
+  ["robert", "rob", "robbie", "bob", "bobby", "bert"],
+  ["elizabeth", "liz", "lizzie", "beth", "betty", "eliza", "libby", "lisa"],
+  ["william", "will", "willie", "bill", "billy", "liam"],
+  ["richard", "rich", "rick", "ricky", "dick"],
+  ["james", "jim", "jimmy", "jamie"],
+  ["john", "jon", "johnny", "jack"],
+  ["jonathan", "jon", "jonny", "nathan"],
+  ["michael", "mike", "mikey", "mick", "mickey"],
+  ["katherine", "catherine", "kathryn", "kate", "katie", "kathy", "cathy", "kat", "kay"],
+  ["margaret", "maggie", "meg", "peggy", "marge", "greta"],
+  ["jennifer", "jen", "jenny"],
+  ["christopher", "chris", "kit"],
+  ["christine", "christina", "chris", "tina", "kristin"],
+  ["alexander", "alex", "alec", "sasha", "xander"],
+  ["alexandra", "alex", "sasha", "lexi", "sandra"],
+  ["anthony", "tony"],
+  ["antonio", "tony", "toni"],
+  ["joseph", "joe", "joey", "jose"],
+  ["thomas", "tom", "tommy"],
+  ["daniel", "dan", "danny"],
+  ["david", "dave", "davey"],
+  ["matthew", "matt", "matty"],
+  ["nicholas", "nick", "nicky", "nico"],
+  ["samuel", "sam", "sammy"],
+  ["samantha", "sam", "sammy"],
+  ["benjamin", "ben", "benny", "benji"],
+  ["edward", "ed", "eddie", "ted", "ned"],
+  ["stephen", "steven", "steve", "stevie"],
+  ["andrew", "andy", "drew"],
+  ["patricia", "pat", "patty", "trish", "tricia"],
+  ["patrick", "pat", "paddy"],
+  ["susan", "sue", "susie", "suzy"],
+  ["deborah", "debra", "deb", "debbie"],
+  ["rebecca", "becky", "becca"],
+  ["victoria", "vicky", "tori"],
+  ["charles", "charlie", "chuck", "chaz"],
+  ["gregory", "greg"],
+  ["timothy", "tim", "timmy"],
+  ["kenneth", "ken", "kenny"],
+  ["ronald", "ron", "ronnie"],
+  ["donald", "don", "donnie"],
+  ["lawrence", "laurence", "larry"],
+  ["jacob", "jake"],
+  ["zachary", "zach", "zack"],
+  ["nathaniel", "nathan", "nate"],
+  ["francis", "frank", "frankie"],
+  ["frances", "fran", "frannie"],
+  ["francisco", "paco", "pancho", "cisco"],
+  ["josephine", "jo", "josie"],
+  ["dorothy", "dot", "dottie"],
+  ["abigail", "abby", "gail"],
+  ["isabella", "isabel", "bella", "izzy"],
+  ["gabriel", "gabe"],
+  ["gabrielle", "gabby", "elle"],
+  ["peter", "pete"],
+  ["philip", "phillip", "phil"],
+  ["raymond", "ray"],
+  ["gerald", "gerry", "jerry"],
+  ["jeffrey", "geoffrey", "jeff", "geoff"],
+  ["leonard", "leo", "len", "lenny"],
+  ["vincent", "vince", "vinny"],
+  ["winston", "win", "winnie"],
+];
+
+const NICKNAMES = new Map<string, Set<string>>();
+for (const group of NICKNAME_GROUPS) {
+  for (const name of group) {
+    const equivalents = NICKNAMES.get(name) || new Set<string>();
+    group.forEach((other) => equivalents.add(other));
+    NICKNAMES.set(name, equivalents);
+  }
+}
+
+// Per-word match strength, before it is scaled into the 0-100 score
+const WORD_WEIGHTS: Record<Exclude<MatchReason, "exact" | "reordered" | "substring">, number> = {
+  word: 1,
+  nickname: 0.9,
+  prefix: 0.85,
+  phonetic: 0.75,
+  typo: 0.7,
+  initials: 0.65,
+};
+
+/**
+ * Lowercase, strip accents ("Inés" → "ines") and punctuation, collapse spaces
+ */
+function foldName(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and swapped neighbours ("jhon" → "john" is 1)
+ */
+function editDistance(a: string, b: string): number {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) => [i, ...new Array(cols - 1).fill(0)]);
+  for (let j = 0; j < cols; j++) d[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+/**
+ * Soundex key, so names that sound alike ("Jon"/"John", "Smith"/"Smyth") compare equal
+ */
+function phoneticKey(word: string): string {
+  const codes: Record<string, string> = {
+    b: "1", f: "1", p: "1", v: "1",
+    c: "2", g: "2", j: "2", k: "2", q: "2", s: "2", x: "2", z: "2",
+    d: "3", t: "3",
+    l: "4",
+    m: "5", n: "5",
+    r: "6",
+  };
+  const letters = word.replace(/[^a-z]/g, "");
+  if (!letters) return "";
+
+  let key = letters[0];
+  let previous = codes[letters[0]] || "";
+  for (const letter of letters.substring(1)) {
+    const code = codes[letter] || "";
+    if (code && code !== previous) key += code;
+    // h and w don't separate letters with the same code; vowels do
+    if (letter !== "h" && letter !== "w") previous = code;
+  }
+  return (key + "000").substring(0, 4);
+}
+
+// Typos allowed in a word: none for short words, where one letter changes the name entirely
+function allowedTypos(word: string): number {
+  if (word.length >= 8) return 2;
+  if (word.length >= 4) return 1;
+  return 0;
+}
+
+function scoreWord(queryWord: string, nameWord: string): { weight: number; reason: MatchReason } | null {
+  if (queryWord === nameWord) return { weight: WORD_WEIGHTS.word, reason: "word" };
+  if (NICKNAMES.get(queryWord)?.has(nameWord)) return { weight: WORD_WEIGHTS.nickname, reason: "nickname" };
+  if (queryWord.length >= 2 && nameWord.startsWith(queryWord)) return { weight: WORD_WEIGHTS.prefix, reason: "prefix" };
+  if (queryWord.length === 1 && nameWord.startsWith(queryWord)) return { weight: WORD_WEIGHTS.initials, reason: "initials" };
+  if (queryWord.length >= 3 && phoneticKey(queryWord) === phoneticKey(nameWord) && editDistance(queryWord, nameWord) <= 2) {
+    return { weight: WORD_WEIGHTS.phonetic, reason: "phonetic" };
+  }
+  const typos = allowedTypos(queryWord);
+  if (typos > 0 && editDistance(queryWord, nameWord) <= typos) return { weight: WORD_WEIGHTS.typo, reason: "typo" };
+  return null;
+}
+
+/**
+ * How well a query matches one name, with the reasons behind the score
+ */
+function scoreName(query: string, name: string): NameScore {
+  const q = foldName(query);
+  const n = foldName(name);
+  if (!q || !n) return { score: 0, reasons: [] };
+
+  if (q === n) return { score: 100, reasons: ["exact"] };
+  if (n.startsWith(`${q} `)) return { score: 90, reasons: ["prefix"] };
+
+  const queryWords = q.split(" ");
+  const nameWords = n.split(" ");
+  let best: NameScore = { score: 0, reasons: [] };
+  const consider = (candidate: NameScore) => {
+    if (candidate.score > best.score) best = candidate;
+  };
+
+  // Match every query word to a different name word, in any order
+  const unused = [...nameWords];
+  const reasons = new Set<MatchReason>();
+  let total = 0;
+  let matched = 0;
+  let inOrder = true;
+  let lastIndex = -1;
+  for (const queryWord of queryWords) {
+    let bestWord: { index: number; weight: number; reason: MatchReason } | null = null;
+    unused.forEach((nameWord, index) => {
+      const result = nameWord ? scoreWord(queryWord, nameWord) : null;
+      if (result && (!bestWord || result.weight > bestWord.weight)) bestWord = { index, ...result };
+    });
+    if (!bestWord) continue;
+
+    const { index, weight, reason } = bestWord;
+    unused[index] = "";
+    total += weight;
+    matched++;
+    reasons.add(reason);
+    if (index < lastIndex) inOrder = false;
+    lastIndex = index;
+  }
+
+  if (matched > 0) {
+    const average = total / queryWords.length;
+    let score = 40 + 45 * average;
+    if (matched < queryWords.length) {
+      // A query word that matches nothing ("Winston Smith" vs "Winston Johnson") is strong evidence against
+      score *= 0.4 * (matched / queryWords.length);
+    }
+    if (!inOrder) reasons.add("reordered");
+    consider({ score: Math.round(score), reasons: Array.from(reasons) });
+  }
+
+  // "wj" or "w j" for Winston Johnson
+  const initials = nameWords.map((word) => word[0]).join("");
+  const compactQuery = q.replace(/ /g, "");
+  if (compactQuery.length >= 2 && compactQuery === initials) {
+    consider({ score: 60, reasons: ["initials"] });
+  }
+
+  if (q.length >= 3 && n.includes(q)) {
+    consider({ score: 45, reasons: ["substring"] });
+  }
+
+  // Whole-name typo, e.g. a missing space or several small slips (skipped when lengths alone rule it out)
+  const longest = Math.max(q.length, n.length);
+  if (Math.abs(q.length - n.length) <= longest / 4) {
+    const similarity = 1 - editDistance(q, n) / longest;
+    if (similarity >= 0.75) {
+      consider({ score: Math.round(similarity * 70), reasons: ["typo"] });
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Rank items by how well any of their names (e.g. full name and nickname) match the query, best first
+ */
+function rankByName<T>(
+  query: string,
+  items: Iterable<T>,
+  namesOf: (item: T) => Array<string | undefined>,
+  options: { limit?: number; minScore?: number } = {},
+): RankedMatch<T>[] {
+  const minScore = options.minScore ?? 1;
+  const matches: RankedMatch<T>[] = [];
+
+  for (const item of items) {
+    let best: RankedMatch<T> | null = null;
+    for (const name of namesOf(item)) {
+      if (!name) continue;
+      const result = scoreName(query, name);
+      if (result.score > 0 && (!best || result.score > best.score)) {
+        best = { item, matchedName: name, ...result };
+      }
+    }
+    if (best && best.score >= minScore) matches.push(best);
+  }
+
+  matches.sort((a, b) => b.score - a.score || a.matchedName.localeCompare(b.matchedName));
+  return options.limit !== undefined ? matches.slice(0, options.limit) : matches;
+}
+
+// CLI: benchmark the matcher against the corpus of real-world queries
+async function main() {
+  const command = process.argv[2];
+
+  switch (command) {
+    case "benchmark": {
+      const { MATCHING_CORPUS, CORPUS_NAMES } = await import("./name-matching-corpus");
+      const rounds = parseInt(process.argv[3] || "20", 10);
+      let correct = 0;
+
+      for (const testCase of MATCHING_CORPUS) {
+        const [top] = rankByName(testCase.query, CORPUS_NAMES, (name) => [name], { limit: 1 });
+        const actual = top && top.score >= 60 ? top.item : null;
+        const ok = actual === testCase.expected;
+        if (ok) correct++;
+        console.error(
+          `${ok ? "✅" : "❌"} "${testCase.query}" → ${actual ?? "(no match)"}` +
+            (top ? ` (${top.score}: ${top.reasons.join(", ")})` : "") +
+            (ok ? "" : `, expected ${testCase.expected ?? "(no match)"}`),
+        );
+      }
+
+      const start = performance.now();
+      for (let i = 0; i < rounds; i++) {
+        for (const testCase of MATCHING_CORPUS) rankByName(testCase.query, CORPUS_NAMES, (name) => [name]);
+      }
+      const perQuery = (performance.now() - start) / (rounds * MATCHING_CORPUS.length);
+
+      console.error(`\n📊 ${correct}/${MATCHING_CORPUS.length} correct (${Math.round((correct / MATCHING_CORPUS.length) * 100)}%)`);
+      console.error(`⏱️ ${perQuery.toFixed(3)}ms per query against ${CORPUS_NAMES.length} names`);
+      if (correct < MATCHING_CORPUS.length) process.exitCode = 1;
+      break;
+    }
+
+    default:
+      console.error("📖 Usage:");
+      console.error("   bun utils/name-matching.ts benchmark [rounds]  - Check accuracy and speed against the query corpus");
+      break;
+  }
+}
+
+// Run CLI if called directly
+if (import.meta.main) {
+  main().catch(console.error);
+}
+
+export type { MatchReason, NameScore, RankedMatch };
+
+export default {
+  foldName,
+  editDistance,
+  phoneticKey,
+  scoreName,
+  rankByName,
+};
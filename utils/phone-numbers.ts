@@ -0,0 +1,241 @@
+// E.164 phone number normalization shared by the contacts cache and messaging code
+
+interface CountryRule {
+  callingCode: string;
+  // Prefix dialled before national numbers inside the country (e.g. 0 in the UK), stripped in E.164
+  trunkPrefix?: string;
+  // Retired prefix still found in saved numbers (the "1" Mexico used before mobile numbers), dropped when it makes the number too long
+  obsoletePrefix?: string;
+  // National numbers may start with 0 (Italian landlines), so a "(0)" after the country code is part of the number
+  keepsLeadingZero?: boolean;
+  // Prefix for dialling out of the country (e.g. 00 in Europe, 011 in North America)
+  internationalPrefix: string;
+  // Allowed length of the national significant number (without trunk prefix)
+  minLength: number;
+  maxLength: number;
+  // Shape national numbers must have, where the length alone is not enough
+  nationalPattern?: RegExp;
+}
+
+interface ParsedPhoneNumber {
+  e164: string;
+  countryCode: string;
+  nationalNumber: string;
+  region?: string;
+  extension?: string;
+}
+
+// North American area codes never start with 0 or 1
+const NANP_PATTERN = /^[2-9]\d{9}$/;
+
+const COUNTRY_RULES: Record<string, CountryRule> = {
+  US: { callingCode: "1", trunkPrefix: "1", internationalPrefix: "011", minLength: 10, maxLength: 10, nationalPattern: NANP_PATTERN },
+  CA: { callingCode: "1", trunkPrefix: "1", internationalPrefix: "011", minLength: 10, maxLength: 10, nationalPattern: NANP_PATTERN },
+  MX: { callingCode: "52", obsoletePrefix: "1", internationalPrefix: "00", minLength: 10, maxLength: 10 },
+  BR: { callingCode: "55", trunkPrefix: "0", internationalPrefix: "00", minLength: 10, maxLength: 11 },
+  GB: { callingCode: "44", trunkPrefix: "0", internationalPrefix: "00", minLength: 9, maxLength: 10 },
+  IE: { callingCode: "353", trunkPrefix: "0", internationalPrefix: "00", minLength: 7, maxLength: 9 },
+  FR: { callingCode: "33", trunkPrefix: "0", internationalPrefix: "00", minLength: 9, maxLength: 9 },
+  DE: { callingCode: "49", trunkPrefix: "0", internationalPrefix: "00", minLength: 5, maxLength: 13 },
+  ES: { callingCode: "34", internationalPrefix: "00", minLength: 9, maxLength: 9 },
+  // Italian landlines keep their leading 0 in international format, so there is no trunk prefix
+  IT: { callingCode: "39", internationalPrefix: "00", minLength: 6, maxLength: 11, keepsLeadingZero: true },
+  PT: { callingCode: "351", internationalPrefix: "00", minLength: 9, maxLength: 9 },
+  NL: { callingCode: "31", trunkPrefix: "0", internationalPrefix: "00", minLength: 9, maxLength: 9 },
+  BE: { callingCode: "32", trunkPrefix: "0", internationalPrefix: "00", minLength: 8, maxLength: 9 },
+  CH: { callingCode: "41", trunkPrefix: "0", internationalPrefix: "00", minLength: 9, maxLength: 9 },
+  AT: { callingCode: "43", trunkPrefix: "0", internationalPrefix: "00", minLength: 4, maxLength: 13 },
+  SE: { callingCode: "46", trunkPrefix: "0", internationalPrefix: "00", minLength: 7, maxLength: 10 },
+  AU: { callingCode: "61", trunkPrefix: "0", internationalPrefix: "0011", minLength: 9, maxLength: 9 },
+  NZ: { callingCode: "64", trunkPrefix: "0", internationalPrefix: "00", minLength: 8, maxLength: 10 },
+  JP: { callingCode: "81", trunkPrefix: "0", internationalPrefix: "010", minLength: 9, maxLength: 10 },
+  KR: { callingCode: "82", trunkPrefix: "0", internationalPrefix: "00", minLength: 8, maxLength: 10 },
+  CN: { callingCode: "86", trunkPrefix: "0", internationalPrefix: "00", minLength: 10, maxLength: 11 },
+  HK: { callingCode: "852", internationalPrefix: "001", minLength: 8, maxLength: 8 },
+  SG: { callingCode: "65", internationalPrefix: "000", minLength: 8, maxLength: 8 },
+  IN: { callingCode: "91", trunkPrefix: "0", internationalPrefix: "00", minLength: 10, maxLength: 10 },
+};
+
+// Region used when a calling code is shared (+1 is both US and CA, and they follow the same rules)
+const PRIMARY_REGION_BY_CALLING_CODE = new Map<string, string>();
+for (const [region, rule] of Object.entries(COUNTRY_RULES)) {
+  if (!PRIMARY_REGION_BY_CALLING_CODE.has(rule.callingCode)) {
+    PRIMARY_REGION_BY_CALLING_CODE.set(rule.callingCode, region);
+  }
+}
+
+// E.164 allows at most 15 digits including the country code
+const E164_MAX_DIGITS = 15;
+const E164_MIN_DIGITS = 8;
+
+let defaultRegion = (process.env.APPLE_MCP_DEFAULT_REGION || "US").toUpperCase();
+
+/**
+ * Region assumed for numbers written without a country code (APPLE_MCP_DEFAULT_REGION, default US)
+ */
+function getDefaultRegion(): string {
+  return defaultRegion;
+}
+
+function setDefaultRegion(region: string): void {
+  const upper = region.toUpperCase();
+  if (!COUNTRY_RULES[upper]) {
+    throw new Error(`Unsupported phone region: ${region}. Supported: ${Object.keys(COUNTRY_RULES).join(", ")}`);
+  }
+  defaultRegion = upper;
+}
+
+/**
+ * Split off an extension ("x123", "ext. 123", "#123") or dialling pauses (",", ";")
+ */
+function splitExtension(input: string): { number: string; extension?: string } {
+  const match = input.match(/^(.*?)\s*(?:(?:ext\.?|extension|x|#)\s*(\d+)|[,;].*)\s*$/i);
+  if (!match || !/\d/.test(match[1])) {
+    return { number: input };
+  }
+  return { number: match[1], extension: match[2] };
+}
+
+function isValidNationalNumber(national: string, rule: CountryRule): boolean {
+  return (
+    national.length >= rule.minLength &&
+    national.length <= rule.maxLength &&
+    (!rule.nationalPattern || rule.nationalPattern.test(national))
+  );
+}
+
+/**
+ * Drop a trunk prefix from a national number. National significant numbers never start with the trunk prefix
+ * (0, or 1 in North America), so one leading prefix is always dropped: "0151 23456789" and "+49 0151..." alike.
+ * A bracketed "(0)" after the country code ("+44 (0)20...") is dropped too, except where numbers start with 0.
+ */
+function stripTrunkPrefix(national: string, rule: CountryRule, bracketedZero = false): string {
+  if (rule.trunkPrefix && national.startsWith(rule.trunkPrefix)) {
+    return national.substring(rule.trunkPrefix.length);
+  }
+  if (bracketedZero && !rule.keepsLeadingZero && national.startsWith("0")) {
+    return national.substring(1);
+  }
+  if (
+    rule.obsoletePrefix &&
+    national.startsWith(rule.obsoletePrefix) &&
+    !isValidNationalNumber(national, rule) &&
+    isValidNationalNumber(national.substring(rule.obsoletePrefix.length), rule)
+  ) {
+    return national.substring(rule.obsoletePrefix.length);
+  }
+  return national;
+}
+
+/**
+ * Parse digits that follow a "+" (or an international dialling prefix)
+ */
+function parseInternational(digits: string, bracketedZero = false): Omit<ParsedPhoneNumber, "extension"> | null {
+  for (let length = 1; length <= 3; length++) {
+    const callingCode = digits.substring(0, length);
+    const region = PRIMARY_REGION_BY_CALLING_CODE.get(callingCode);
+    if (!region) continue;
+
+    const rule = COUNTRY_RULES[region];
+    const national = stripTrunkPrefix(digits.substring(length), rule, bracketedZero);
+    if (!isValidNationalNumber(national, rule)) return null;
+    return { e164: `+${callingCode}${national}`, countryCode: callingCode, nationalNumber: national, region };
+  }
+
+  // Unknown country: accept anything that fits the E.164 length limits as-is
+  if (digits.length >= E164_MIN_DIGITS && digits.length <= E164_MAX_DIGITS && !digits.startsWith("0")) {
+    return { e164: `+${digits}`, countryCode: "", nationalNumber: digits };
+  }
+  return null;
+}
+
+/**
+ * Parse a phone number written in any common format into E.164 parts.
+ * Returns null for things that are not phone numbers (emails, short codes, too few digits).
+ */
+function parsePhoneNumber(input: string, region = defaultRegion): ParsedPhoneNumber | null {
+  if (!input || typeof input !== "string" || input.includes("@")) return null;
+
+  const { number, extension } = splitExtension(input.trim());
+  const hasPlus = number.trim().startsWith("+");
+  const digits = number.replace(/\D/g, "");
+  if (!digits) return null;
+
+  const withExtension = (parsed: Omit<ParsedPhoneNumber, "extension"> | null): ParsedPhoneNumber | null =>
+    parsed ? { ...parsed, ...(extension ? { extension } : {}) } : null;
+
+  if (hasPlus) {
+    return withExtension(parseInternational(digits, /^\s*\+\s*\d{1,3}[\s.-]*\(0\)/.test(number)));
+  }
+
+  const rule = COUNTRY_RULES[region.toUpperCase()] || COUNTRY_RULES.US;
+
+  // Dialled with the region's international prefix, e.g. 0044... from Europe or 011 44... from the US
+  if (digits.startsWith(rule.internationalPrefix)) {
+    const parsed = parseInternational(digits.substring(rule.internationalPrefix.length));
+    if (parsed) return withExtension(parsed);
+  }
+
+  const national = stripTrunkPrefix(digits, rule);
+  if (isValidNationalNumber(national, rule)) {
+    return withExtension({
+      e164: `+${rule.callingCode}${national}`,
+      countryCode: rule.callingCode,
+      nationalNumber: national,
+      region: region.toUpperCase(),
+    });
+  }
+
+  // Not a valid local number: it may be an international number saved without its "+"
+  if (!digits.startsWith("0")) {
+    const parsed = parseInternational(digits);
+    if (parsed && parsed.region) return withExtension(parsed);
+  }
+
+  return null;
+}
+
+/**
+ * Normalize to E.164 (e.g. "+442071234567"), or null if the input is not a usable phone number
+ */
+function normalizeToE164(input: string, region = defaultRegion): string | null {
+  return parsePhoneNumber(input, region)?.e164 ?? null;
+}
+
+/**
+ * Every form a number may be stored in (E.164, without "+", local format),
+ * for matching against Messages handles and contact cards saved in local format
+ */
+function phoneNumberVariants(input: string, region = defaultRegion): string[] {
+  const parsed = parsePhoneNumber(input, region);
+  if (!parsed) return [];
+
+  const variants = new Set<string>([parsed.e164, parsed.e164.substring(1)]);
+  if (parsed.region) {
+    // The local form people actually dial: 10 digits in North America, trunk prefix + number elsewhere
+    const rule = COUNTRY_RULES[parsed.region];
+    const usesTrunk = rule.trunkPrefix && rule.callingCode !== "1";
+    variants.add(usesTrunk ? `${rule.trunkPrefix}${parsed.nationalNumber}` : parsed.nationalNumber);
+  }
+  return Array.from(variants);
+}
+
+/**
+ * Whether two differently formatted numbers refer to the same phone
+ */
+function phoneNumbersMatch(a: string, b: string, region = defaultRegion): boolean {
+  const first = normalizeToE164(a, region);
+  return first !== null && first === normalizeToE164(b, region);
+}
+
+export type { ParsedPhoneNumber, CountryRule };
+
+export default {
+  parsePhoneNumber,
+  normalizeToE164,
+  phoneNumberVariants,
+  phoneNumbersMatch,
+  getDefaultRegion,
+  setDefaultRegion,
+  COUNTRY_RULES,
+};
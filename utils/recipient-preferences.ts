@@ -0,0 +1,82 @@
+import { existsSync } from "node:fs";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+
+// Kept with the contacts cache, since entries are keyed by contact id
+const PREFERENCES_FILE = join(process.env.APPLE_MCP_CACHE_DIR || join(__dirname, ".."), "recipient-preferences.json");
+
+/**
+ * The number the user explicitly chose to message for a contact with several numbers
+ */
+interface RecipientPreference {
+  contactId: string;
+  name: string;
+  phoneNumber: string;
+  chosenAt: string;
+}
+
+/**
+ * Remembered number choices, stored as JSON on disk and re-read on every lookup
+ */
+export class RecipientPreferenceStore {
+  constructor(readonly filePath: string = PREFERENCES_FILE) {}
+
+  private async load(): Promise<Record<string, RecipientPreference>> {
+    if (!existsSync(this.filePath)) return {};
+    try {
+      const data = JSON.parse(await readFile(this.filePath, "utf8"));
+      return data && typeof data === "object" && !Array.isArray(data) ? data : {};
+    } catch (error) {
+      // Losing preferences only means falling back to history and labels
+      console.error("⚠️ Ignoring unreadable recipient preferences:", error);
+      return {};
+    }
+  }
+
+  private async save(preferences: Record<string, RecipientPreference>): Promise<void> {
+    // Write then rename, so a reader never sees a half-written file
+    await mkdir(dirname(this.filePath), { recursive: true });
+    const tempFile = `${this.filePath}.${process.pid}.tmp`;
+    await writeFile(tempFile, JSON.stringify(preferences, null, 2));
+    await rename(tempFile, this.filePath);
+  }
+
+  async get(contactId: string): Promise<RecipientPreference | undefined> {
+    return (await this.load())[contactId];
+  }
+
+  async remember(contactId: string, name: string, phoneNumber: string): Promise<RecipientPreference> {
+    const preferences = await this.load();
+    const preference = { contactId, name, phoneNumber, chosenAt: new Date().toISOString() };
+    preferences[contactId] = preference;
+    await this.save(preferences);
+    return preference;
+  }
+
+  async forget(contactId: string): Promise<boolean> {
+    const preferences = await this.load();
+    if (!preferences[contactId]) return false;
+    delete preferences[contactId];
+    await this.save(preferences);
+    return true;
+  }
+}
+
+let sharedStore: RecipientPreferenceStore | null = null;
+
+/**
+ * Shared preferences used by the messages tool
+ */
+function getRecipientPreferenceStore(): RecipientPreferenceStore {
+  if (!sharedStore) {
+    sharedStore = new RecipientPreferenceStore();
+  }
+  return sharedStore;
+}
+
+export type { RecipientPreference };
+
+export default {
+  RecipientPreferenceStore,
+  getRecipientPreferenceStore,
+};
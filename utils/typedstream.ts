@@ -0,0 +1,635 @@
+// Decoder for the NSArchiver "typedstream" format that Messages uses for message.attributedBody
+
+// Integer tags from the Objective-C runtime's typedstream.h; anything else in -128..-111 is reserved
+const TAG_INTEGER_2 = -127;
+const TAG_INTEGER_4 = -126;
+const TAG_FLOATING_POINT = -125;
+const TAG_NEW = -124;
+const TAG_NIL = -123;
+const TAG_END_OF_OBJECT = -122;
+const FIRST_TAG = -128;
+const LAST_TAG = -111;
+
+// Reference numbers are stored offset past the tag range, so the first shared entry is 0x92
+const FIRST_REFERENCE_NUMBER = LAST_TAG + 1;
+
+const STREAMER_VERSION = 4;
+const SYSTEM_VERSION = 1000;
+const SIGNATURE_BYTE_ORDER: Record<string, "LE" | "BE"> = {
+  streamtyped: "LE",
+  typedstream: "BE",
+};
+
+interface ArchivedClass {
+  name: string;
+  version: number;
+  superclass: ArchivedClass | null;
+}
+
+interface ArchivedObject {
+  archivedClass: ArchivedClass;
+  // One entry per type-prefixed value group, in stream order
+  groups: ArchivedValue[][];
+}
+
+type ArchivedValue =
+  | number
+  | string
+  | Uint8Array
+  | ArchivedObject
+  | ArchivedClass
+  | null
+  | ArchivedValue[];
+
+interface AttributeRun {
+  location: number;
+  length: number;
+  attributes: Record<string, AttributeValue>;
+}
+
+type AttributeValue = string | number | Uint8Array | null;
+
+type TextStyle = "bold" | "italic" | "underline" | "strikethrough";
+
+interface DecodedAttributedBody {
+  text: string;
+  runs: AttributeRun[];
+  mentions: Array<{ handle: string; text: string; location: number; length: number }>;
+  links: Array<{ url: string; text: string; location: number; length: number; richLink: boolean }>;
+  formatting: Array<{ style: TextStyle; location: number; length: number }>;
+  // Text effects (e.g. "big", "jitter") keyed by the effect number Messages stores
+  effects: Array<{ effect: number; location: number; length: number }>;
+  attachmentGuids: string[];
+}
+
+class TypedStreamError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TypedStreamError";
+  }
+}
+
+/**
+ * Split a type encoding string such as "iI" or "@{_NSRange=QQ}" into single encodings
+ */
+function splitEncodings(encodings: string): string[] {
+  const result: string[] = [];
+  let start = 0;
+  while (start < encodings.length) {
+    let depth = 0;
+    let end = start;
+    do {
+      const char = encodings[end];
+      if (char === "[" || char === "{" || char === "(") depth++;
+      else if (char === "]" || char === "}" || char === ")") depth--;
+      end++;
+    } while (depth > 0 && end < encodings.length);
+    if (depth !== 0) throw new TypedStreamError(`Unterminated type encoding "${encodings}"`);
+    result.push(encodings.substring(start, end));
+    start = end;
+  }
+  return result;
+}
+
+/**
+ * Reads typedstream data into plain values, archived objects and classes
+ */
+class TypedStreamReader {
+  private readonly view: DataView;
+  private pos = 0;
+  private readonly littleEndian: boolean;
+  private readonly sharedStrings: string[] = [];
+  // Objects, classes and C strings share one reference table, numbered in the order they are first read
+  private readonly sharedObjects: Array<ArchivedObject | ArchivedClass | string | null> = [];
+
+  constructor(private readonly data: Uint8Array) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    this.littleEndian = true;
+
+    const streamerVersion = this.readInteger(false);
+    if (streamerVersion !== STREAMER_VERSION) {
+      throw new TypedStreamError(`Unsupported streamer version ${streamerVersion}`);
+    }
+    const signature = new TextDecoder("ascii").decode(this.readBytes(this.readInteger(false)));
+    const byteOrder = SIGNATURE_BYTE_ORDER[signature];
+    if (!byteOrder) {
+      throw new TypedStreamError(`Not a typedstream (signature "${signature}")`);
+    }
+    this.littleEndian = byteOrder === "LE";
+    const systemVersion = this.readInteger(false);
+    if (systemVersion !== SYSTEM_VERSION) {
+      throw new TypedStreamError(`Unsupported system version ${systemVersion}`);
+    }
+  }
+
+  get atEnd(): boolean {
+    return this.pos >= this.data.length;
+  }
+
+  /**
+   * Read the next top-level group of values
+   */
+  readGroup(): ArchivedValue[] {
+    return this.readTypedValues(this.readHead());
+  }
+
+  private readBytes(length: number): Uint8Array {
+    if (length < 0 || this.pos + length > this.data.length) {
+      throw new TypedStreamError(`Unexpected end of typedstream at offset ${this.pos}`);
+    }
+    const bytes = this.data.subarray(this.pos, this.pos + length);
+    this.pos += length;
+    return bytes;
+  }
+
+  private readHead(): number {
+    if (this.pos >= this.data.length) {
+      throw new TypedStreamError(`Unexpected end of typedstream at offset ${this.pos}`);
+    }
+    return this.view.getInt8(this.pos++);
+  }
+
+  private readInteger(signed: boolean, head = this.readHead()): number {
+    if (head < FIRST_TAG || head > LAST_TAG) {
+      return signed ? head : head & 0xff;
+    }
+    if (head === TAG_INTEGER_2) {
+      const bytes = this.readBytes(2);
+      const view = new DataView(bytes.buffer, bytes.byteOffset, 2);
+      return signed ? view.getInt16(0, this.littleEndian) : view.getUint16(0, this.littleEndian);
+    }
+    if (head === TAG_INTEGER_4) {
+      const bytes = this.readBytes(4);
+      const view = new DataView(bytes.buffer, bytes.byteOffset, 4);
+      return signed ? view.getInt32(0, this.littleEndian) : view.getUint32(0, this.littleEndian);
+    }
+    throw new TypedStreamError(`Unexpected tag ${head} where an integer was expected`);
+  }
+
+  private readReal(size: 4 | 8, head = this.readHead()): number {
+    if (head !== TAG_FLOATING_POINT) {
+      return this.readInteger(true, head);
+    }
+    const bytes = this.readBytes(size);
+    const view = new DataView(bytes.buffer, bytes.byteOffset, size);
+    return size === 4 ? view.getFloat32(0, this.littleEndian) : view.getFloat64(0, this.littleEndian);
+  }
+
+  private readUnsharedString(head = this.readHead()): Uint8Array | null {
+    if (head === TAG_NIL) return null;
+    return this.readBytes(this.readInteger(false, head));
+  }
+
+  private readSharedString(head = this.readHead()): string | null {
+    if (head === TAG_NIL) return null;
+    if (head === TAG_NEW) {
+      const bytes = this.readUnsharedString();
+      if (bytes === null) throw new TypedStreamError("Shared string cannot be nil");
+      const value = new TextDecoder().decode(bytes);
+      this.sharedStrings.push(value);
+      return value;
+    }
+    return this.lookup(this.sharedStrings, head, "shared string");
+  }
+
+  private lookup<T>(table: T[], head: number, kind: string): T {
+    const index = this.readInteger(true, head) - FIRST_REFERENCE_NUMBER;
+    if (index < 0 || index >= table.length) {
+      throw new TypedStreamError(`Reference to unknown ${kind} #${index}`);
+    }
+    return table[index];
+  }
+
+  private readCString(head = this.readHead()): string | null {
+    if (head === TAG_NIL) return null;
+    if (head === TAG_NEW) {
+      const value = this.readSharedString();
+      if (value === null) throw new TypedStreamError("C string cannot be nil");
+      this.sharedObjects.push(value);
+      return value;
+    }
+    const value = this.lookup(this.sharedObjects, head, "C string");
+    if (typeof value !== "string") throw new TypedStreamError("Reference is not a C string");
+    return value;
+  }
+
+  private readClass(head = this.readHead()): ArchivedClass | null {
+    // A class chain lists each new class before its superclass and ends in nil or a known class
+    const chain: Array<{ name: string; version: number }> = [];
+    while (head === TAG_NEW) {
+      const name = this.readSharedString();
+      if (name === null) throw new TypedStreamError("Class name cannot be nil");
+      chain.push({ name, version: this.readInteger(true) });
+      head = this.readHead();
+    }
+
+    let superclass: ArchivedClass | null = null;
+    if (head !== TAG_NIL) {
+      const value = this.lookup(this.sharedObjects, head, "class");
+      if (!value || typeof value === "string" || !("version" in value)) {
+        throw new TypedStreamError("Reference is not a class");
+      }
+      superclass = value;
+    }
+
+    const classes: ArchivedClass[] = [];
+    for (let i = chain.length - 1; i >= 0; i--) {
+      superclass = { ...chain[i], superclass };
+      classes.unshift(superclass);
+    }
+    this.sharedObjects.push(...classes);
+    return superclass;
+  }
+
+  private readObject(head = this.readHead()): ArchivedObject | null {
+    if (head === TAG_NIL) return null;
+    if (head !== TAG_NEW) {
+      const value = this.lookup(this.sharedObjects, head, "object");
+      if (!value || typeof value === "string" || !("groups" in value)) {
+        throw new TypedStreamError("Reference is not an object");
+      }
+      return value;
+    }
+
+    // The object's number is assigned before its class chain is read
+    const slot = this.sharedObjects.length;
+    this.sharedObjects.push(null);
+    const archivedClass = this.readClass();
+    if (!archivedClass) throw new TypedStreamError("Object class cannot be nil");
+
+    const object: ArchivedObject = { archivedClass, groups: [] };
+    this.sharedObjects[slot] = object;
+
+    let next = this.readHead();
+    while (next !== TAG_END_OF_OBJECT) {
+      object.groups.push(this.readTypedValues(next));
+      next = this.readHead();
+    }
+    return object;
+  }
+
+  private readTypedValues(head: number): ArchivedValue[] {
+    const encoding = this.readSharedString(head);
+    if (!encoding) throw new TypedStreamError("Missing type encoding");
+    return splitEncodings(encoding).map((single) => this.readValue(single));
+  }
+
+  private readValue(encoding: string): ArchivedValue {
+    switch (encoding[0]) {
+      case "c":
+        return (this.readBytes(1)[0] << 24) >> 24;
+      case "C":
+        return this.readBytes(1)[0];
+      case "s":
+      case "i":
+      case "l":
+      case "q":
+        return this.readInteger(true);
+      case "S":
+      case "I":
+      case "L":
+      case "Q":
+        return this.readInteger(false);
+      case "f":
+        return this.readReal(4);
+      case "d":
+        return this.readReal(8);
+      case "*":
+        return this.readCString();
+      case "%":
+      case ":":
+        return this.readSharedString();
+      case "+":
+        return this.readUnsharedString();
+      case "#":
+        return this.readClass();
+      case "@":
+        return this.readObject();
+      case "[": {
+        const match = /^\[(\d+)(.+)\]$/.exec(encoding);
+        if (!match) throw new TypedStreamError(`Malformed array encoding "${encoding}"`);
+        const length = parseInt(match[1], 10);
+        if (match[2] === "c" || match[2] === "C") {
+          return this.readBytes(length);
+        }
+        return Array.from({ length }, () => this.readValue(match[2]));
+      }
+      case "{": {
+        const body = encoding.slice(1, -1);
+        const fields = body.includes("=") ? body.substring(body.indexOf("=") + 1) : body;
+        return splitEncodings(fields).map((field) => this.readValue(field));
+      }
+      default:
+        throw new TypedStreamError(`Unsupported type encoding "${encoding}"`);
+    }
+  }
+}
+
+/**
+ * Read every top-level group in a typedstream blob
+ */
+function readTypedStream(data: Uint8Array): ArchivedValue[][] {
+  const reader = new TypedStreamReader(data);
+  const groups: ArchivedValue[][] = [];
+  while (!reader.atEnd) {
+    groups.push(reader.readGroup());
+  }
+  return groups;
+}
+
+function isObject(value: ArchivedValue | undefined): value is ArchivedObject {
+  return !!value && typeof value === "object" && "groups" in value;
+}
+
+function inheritsFrom(object: ArchivedObject, className: string): boolean {
+  for (let current: ArchivedClass | null = object.archivedClass; current; current = current.superclass) {
+    if (current.name === className) return true;
+  }
+  return false;
+}
+
+// Foundation classes archive their contents in a fixed order of groups; these helpers read them back
+
+function objectString(object: ArchivedObject): string | null {
+  const bytes = object.groups[0]?.[0];
+  return bytes instanceof Uint8Array ? new TextDecoder().decode(bytes) : null;
+}
+
+function objectValue(object: ArchivedObject | null): AttributeValue {
+  if (!object) return null;
+  if (inheritsFrom(object, "NSString")) {
+    return objectString(object);
+  }
+  if (inheritsFrom(object, "NSValue")) {
+    // Groups are the value's type encoding, then the value itself
+    const value = object.groups[1]?.[0];
+    return typeof value === "number" ? value : null;
+  }
+  if (inheritsFrom(object, "NSData")) {
+    const bytes = object.groups[1]?.[0];
+    return bytes instanceof Uint8Array ? bytes : null;
+  }
+  if (inheritsFrom(object, "NSURL")) {
+    // NSURL archives its relative string, preceded by a base URL flag
+    for (const group of object.groups) {
+      const nested = group.find(isObject);
+      if (nested && inheritsFrom(nested, "NSString")) return objectString(nested);
+    }
+  }
+  return null;
+}
+
+function dictionaryEntries(object: ArchivedObject): Array<[string, AttributeValue]> {
+  // First group is the entry count, then one group per key and per value
+  const entries: Array<[string, AttributeValue]> = [];
+  for (let i = 1; i + 1 < object.groups.length; i += 2) {
+    const key = object.groups[i][0];
+    const value = object.groups[i + 1][0];
+    if (isObject(key) && inheritsFrom(key, "NSString")) {
+      entries.push([objectString(key) ?? "", objectValue(isObject(value) ? value : null)]);
+    }
+  }
+  return entries;
+}
+
+function attributedStringRuns(object: ArchivedObject, length: number): AttributeRun[] {
+  // After the string come (attribute-set number, UTF-16 length) pairs; an attribute set is
+  // archived the first time its number appears and reused by number afterwards
+  const runs: AttributeRun[] = [];
+  const attributeSets = new Map<number, Record<string, AttributeValue>>();
+  let location = 0;
+
+  for (let i = 1; i < object.groups.length && location < length; i++) {
+    const [setNumber, runLength] = object.groups[i];
+    if (typeof setNumber !== "number" || typeof runLength !== "number") break;
+
+    if (!attributeSets.has(setNumber)) {
+      const dictionary = object.groups[++i]?.[0];
+      attributeSets.set(
+        setNumber,
+        isObject(dictionary) ? Object.fromEntries(dictionaryEntries(dictionary)) : {},
+      );
+    }
+
+    runs.push({ location, length: runLength, attributes: attributeSets.get(setNumber)! });
+    location += runLength;
+  }
+  return runs;
+}
+
+const FORMATTING_ATTRIBUTES: Record<string, TextStyle> = {
+  __kIMTextBoldAttributeName: "bold",
+  __kIMTextItalicAttributeName: "italic",
+  __kIMTextUnderlineAttributeName: "underline",
+  __kIMTextStrikethroughAttributeName: "strikethrough",
+};
+
+/**
+ * Decode a message.attributedBody blob into its text and the Messages-specific attributes on it
+ * (mentions, links, formatting, text effects and inline attachments)
+ */
+function decodeAttributedBody(blob: Uint8Array): DecodedAttributedBody {
+  const root = readTypedStream(blob)[0]?.[0];
+  if (!isObject(root) || !inheritsFrom(root, "NSAttributedString")) {
+    throw new TypedStreamError("attributedBody does not contain an NSAttributedString");
+  }
+
+  const stringObject = root.groups[0]?.[0];
+  const text = isObject(stringObject) ? objectString(stringObject) ?? "" : "";
+  const runs = attributedStringRuns(root, text.length);
+
+  const decoded: DecodedAttributedBody = {
+    text,
+    runs,
+    mentions: [],
+    links: [],
+    formatting: [],
+    effects: [],
+    attachmentGuids: [],
+  };
+
+  for (const run of runs) {
+    const { location, length, attributes } = run;
+    const runText = text.substring(location, location + length);
+
+    const mention = attributes.__kIMMentionConfirmedMention;
+    if (typeof mention === "string") {
+      decoded.mentions.push({ handle: mention, text: runText, location, length });
+    }
+
+    const link = attributes.__kIMLinkAttributeName;
+    if (typeof link === "string") {
+      decoded.links.push({
+        url: link,
+        text: runText,
+        location,
+        length,
+        richLink: attributes.__kIMLinkIsRichLinkAttributeName === 1,
+      });
+    }
+
+    for (const [attribute, style] of Object.entries(FORMATTING_ATTRIBUTES)) {
+      if (attributes[attribute]) {
+        decoded.formatting.push({ style, location, length });
+      }
+    }
+
+    const effect = attributes.__kIMTextEffectAttributeName;
+    if (typeof effect === "number") {
+      decoded.effects.push({ effect, location, length });
+    }
+
+    const attachmentGuid = attributes.__kIMFileTransferGUIDAttributeName;
+    if (typeof attachmentGuid === "string") {
+      decoded.attachmentGuids.push(attachmentGuid);
+    }
+  }
+
+  return decoded;
+}
+
+/**
+ * Writes attributed strings in the layout Messages uses, for building fixture databases
+ */
+class AttributedBodyWriter {
+  private readonly bytes: number[] = [];
+  private readonly sharedStrings = new Map<string, number>();
+  private readonly classes = new Map<string, number>();
+  private objectCount = 0;
+
+  constructor() {
+    this.writeInteger(STREAMER_VERSION);
+    this.writeInteger("streamtyped".length);
+    this.bytes.push(...new TextEncoder().encode("streamtyped"));
+    this.writeInteger(SYSTEM_VERSION);
+  }
+
+  private writeInteger(value: number): void {
+    if (value >= FIRST_REFERENCE_NUMBER && value <= 127) {
+      this.bytes.push(value & 0xff);
+    } else if (value >= -32768 && value <= 32767) {
+      this.bytes.push(TAG_INTEGER_2 & 0xff, value & 0xff, (value >> 8) & 0xff);
+    } else {
+      this.bytes.push(TAG_INTEGER_4 & 0xff, value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, (value >> 24) & 0xff);
+    }
+  }
+
+  private writeSharedString(value: string): void {
+    const existing = this.sharedStrings.get(value);
+    if (existing !== undefined) {
+      this.writeInteger(existing + FIRST_REFERENCE_NUMBER);
+      return;
+    }
+    this.sharedStrings.set(value, this.sharedStrings.size);
+    const encoded = new TextEncoder().encode(value);
+    this.bytes.push(TAG_NEW & 0xff);
+    this.writeInteger(encoded.length);
+    this.bytes.push(...encoded);
+  }
+
+  private beginObject(chain: Array<[string, number]>): void {
+    this.bytes.push(TAG_NEW & 0xff);
+    this.objectCount++;
+    for (const [name, version] of chain) {
+      const existing = this.classes.get(name);
+      if (existing !== undefined) {
+        this.writeInteger(existing + FIRST_REFERENCE_NUMBER);
+        return;
+      }
+      this.bytes.push(TAG_NEW & 0xff);
+      this.writeSharedString(name);
+      this.writeInteger(version);
+      this.classes.set(name, this.objectCount++);
+    }
+    this.bytes.push(TAG_NIL & 0xff);
+  }
+
+  private endObject(): void {
+    this.bytes.push(TAG_END_OF_OBJECT & 0xff);
+  }
+
+  private writeString(value: string): void {
+    this.writeSharedString("@");
+    this.beginObject([["NSString", 1], ["NSObject", 0]]);
+    const encoded = new TextEncoder().encode(value);
+    this.writeSharedString("+");
+    this.writeInteger(encoded.length);
+    this.bytes.push(...encoded);
+    this.endObject();
+  }
+
+  private writeNumber(value: number): void {
+    this.writeSharedString("@");
+    this.beginObject([["NSNumber", 0], ["NSValue", 0], ["NSObject", 0]]);
+    this.writeSharedString("*");
+    // The type encoding is archived as a new C string, which takes an object number
+    this.bytes.push(TAG_NEW & 0xff);
+    this.writeSharedString("i");
+    this.objectCount++;
+    this.writeSharedString("i");
+    this.writeInteger(value);
+    this.endObject();
+  }
+
+  private writeUrl(value: string): void {
+    this.writeSharedString("@");
+    this.beginObject([["NSURL", 0], ["NSObject", 0]]);
+    this.writeSharedString("c");
+    this.bytes.push(0);
+    this.writeString(value);
+    this.endObject();
+  }
+
+  /**
+   * Archive text with attribute runs; string values under __kIMLinkAttributeName are written as URLs
+   */
+  write(text: string, runs: Array<{ length: number; attributes: Record<string, string | number> }>): Uint8Array {
+    this.writeSharedString("@");
+    this.beginObject([["NSMutableAttributedString", 0], ["NSAttributedString", 0], ["NSObject", 0]]);
+    this.writeString(text);
+
+    runs.forEach((run, index) => {
+      this.writeSharedString("iI");
+      this.writeInteger(index + 1);
+      this.writeInteger(run.length);
+
+      const entries = Object.entries(run.attributes);
+      this.writeSharedString("@");
+      this.beginObject([["NSDictionary", 0], ["NSObject", 0]]);
+      this.writeSharedString("i");
+      this.writeInteger(entries.length);
+      for (const [key, value] of entries) {
+        this.writeString(key);
+        if (typeof value === "number") this.writeNumber(value);
+        else if (key === "__kIMLinkAttributeName") this.writeUrl(value);
+        else this.writeString(value);
+      }
+      this.endObject();
+    });
+
+    this.endObject();
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+/**
+ * Build an attributedBody blob for fixtures; lengths are in UTF-16 code units, as in NSString
+ */
+function encodeAttributedBody(
+  text: string,
+  runs: Array<{ length: number; attributes: Record<string, string | number> }> = [
+    { length: text.length, attributes: { __kIMMessagePartAttributeName: 0 } },
+  ],
+): Uint8Array {
+  return new AttributedBodyWriter().write(text, runs);
+}
+
+export type { ArchivedClass, ArchivedObject, ArchivedValue, AttributeRun, DecodedAttributedBody };
+export { TypedStreamError };
+
+export default {
+  readTypedStream,
+  decodeAttributedBody,
+  encodeAttributedBody,
+  TypedStreamError,
+};